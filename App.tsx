@@ -3,9 +3,21 @@ import * as pollService from './services/pollService';
 // FIX: Changed type-only import to a value import for AppView enum.
 import { User, AppView } from './types';
 import { AuthContext } from './context/AuthContext';
+import { RouterContext } from './context/RouterContext';
+import { I18nContext } from './context/I18nContext';
+import { useHashRoute } from './hooks/useHashRoute';
+import { paths, safeRedirect } from './services/routes';
+import { createTranslator, detectLocale, LOCALE_KEY, LOCALES, type Locale } from './services/i18n';
 import { Header } from './components/Header';
+import { OutboxStatus } from './components/OutboxStatus';
 import { Dashboard } from './components/Dashboard';
 import { Login } from './components/Login';
+import { PollPage } from './components/PollPage';
+import { UserPage } from './components/UserPage';
+import { TagsPage } from './components/TagsPage';
+import { ModerationPage } from './components/ModerationPage';
+import { JoinPollPage } from './components/JoinPollPage';
+import { Link } from './components/Link';
 import About from './components/About';
 
 /**
@@ -13,17 +25,19 @@ import About from './components/About';
  *
  * Why this structure?
  * 1.  **Centralized State Management:** It holds the top-level state for authentication (`user`, `isLoading`)
- *     and the current view (`view`), acting as the single source of truth.
- * 2.  **Context Provider:** It wraps the entire application in `AuthContext.Provider`, making
- *     authentication data and functions available to any child component without prop drilling.
- * 3.  **View Routing:** It implements a simple "router" using state to switch between different
- *     views (Dashboard, Login, About), which is suitable for a single-page application of this scale.
+ *     and the current route, acting as the single source of truth.
+ * 2.  **Context Providers:** It wraps the entire application in `AuthContext.Provider`,
+ *     `RouterContext.Provider` and `I18nContext.Provider`, making authentication, navigation
+ *     and translations available to any child component without prop drilling.
+ * 3.  **URL Routing:** The current page is read from the URL hash (see `useHashRoute`), so every
+ *     page, including individual polls, has a link that can be bookmarked, shared and reloaded,
+ *     and the browser's back and forward buttons work as expected.
  */
 const App: React.FC = () => {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
-  // FIX: Initialize state with AppView enum member instead of string literal.
-  const [view, setView] = useState<AppView>(AppView.Dashboard);
+  const { route, navigate } = useHashRoute();
+  const [locale, setLocale] = useState<Locale>(detectLocale);
 
   /**
    * Initializes the authentication state by checking for a current user session on component mount.
@@ -41,11 +55,22 @@ const App: React.FC = () => {
   /**
    * Handles the user sign-in process.
    * @param {string} username - The username provided by the user.
+   * @param {string} password - The password provided by the user.
    */
-  const handleSignIn = async (username: string) => {
-    const signedInUser = await pollService.signIn(username);
+  const handleSignIn = async (username: string, password: string) => {
+    const signedInUser = await pollService.signIn(username, password);
     setUser(signedInUser);
   };
+
+  /**
+   * Handles the account registration process. A successful registration also signs the user in.
+   * @param {string} username - The desired username.
+   * @param {string} password - The desired password.
+   */
+  const handleRegister = async (username: string, password: string) => {
+    const registeredUser = await pollService.register(username, password);
+    setUser(registeredUser);
+  };
   
   /**
    * Handles the user sign-out process.
@@ -65,39 +90,87 @@ const App: React.FC = () => {
     user,
     isLoading,
     signIn: handleSignIn,
+    register: handleRegister,
     signOut: handleSignOut,
   }), [user, isLoading]);
 
+  const routerContextValue = useMemo(() => ({ route, navigate }), [route, navigate]);
+
+  const i18nContextValue = useMemo(() => ({ ...createTranslator(locale), setLocale }), [locale]);
+  const { t } = i18nContextValue;
+
+  // Remember the chosen language, and let the browser (and Tailwind's `rtl:` variants) know
+  // which language and writing direction the page is in, so Arabic is laid out right to left.
+  useEffect(() => {
+    localStorage.setItem(LOCALE_KEY, locale);
+    document.documentElement.lang = locale;
+    document.documentElement.dir = LOCALES[locale].dir;
+  }, [locale]);
+
+  // The page to return to after signing in, taken from `/login?redirect=...`.
+  const loginRedirect = safeRedirect(route.query.redirect);
+
+  // A signed-in user has no business on the login page (e.g. after pressing back),
+  // so send them on to where they were going.
+  useEffect(() => {
+    if (!isLoading && user && route.view === AppView.Login) {
+      navigate(loginRedirect, { replace: true });
+    }
+  }, [isLoading, user, route.view, loginRedirect, navigate]);
+
   /**
-   * Renders the current view based on the `view` state.
-   * This is a simple but effective way to handle page navigation in a small SPA.
+   * Renders the page matching the current route.
    */
   const renderView = () => {
     // FIX: Use AppView enum members in switch statement.
-    switch (view) {
+    switch (route.view) {
       case AppView.Login:
-        // FIX: Use AppView enum member instead of string literal.
-        return <Login onLoginSuccess={() => setView(AppView.Dashboard)} />;
+        // Replace the login entry so the back button does not return to the form.
+        return <Login onLoginSuccess={() => navigate(loginRedirect, { replace: true })} />;
       case AppView.About:
         return <About />;
+      case AppView.Poll:
+        return <PollPage pollId={route.params.pollId} />;
+      case AppView.User:
+        return <UserPage userId={route.params.userId} />;
+      case AppView.Tags:
+        return <TagsPage tags={route.params.tags ? route.params.tags.split('+') : []} />;
+      case AppView.Moderation:
+        return <ModerationPage />;
+      case AppView.Join:
+        return <JoinPollPage code={route.params.code} />;
       case AppView.Dashboard:
-      default:
         return <Dashboard />;
+      case AppView.NotFound:
+      default:
+        return (
+          <div className="text-center p-10">
+            <h2 className="text-2xl font-bold text-slate-800 dark:text-white">{t('app.notFound')}</h2>
+            <Link to={paths.dashboard()} className="mt-4 inline-block text-blue-600 dark:text-blue-400 hover:underline">
+              {t('app.backToDashboard')}
+            </Link>
+          </div>
+        );
     }
   };
   
   return (
     <AuthContext.Provider value={authContextValue}>
-      <div className="min-h-screen bg-slate-100 dark:bg-slate-900 font-sans">
-        <Header setView={setView} />
-        <main>
-          {isLoading ? (
-            <div className="text-center p-10 text-slate-500 dark:text-slate-400">Loading Application...</div>
-          ) : (
-            renderView()
-          )}
-        </main>
-      </div>
+      <RouterContext.Provider value={routerContextValue}>
+        <I18nContext.Provider value={i18nContextValue}>
+          <div className="min-h-screen bg-slate-100 dark:bg-slate-900 font-sans">
+            <Header />
+            <OutboxStatus />
+            <main>
+              {isLoading ? (
+                <div className="text-center p-10 text-slate-500 dark:text-slate-400">{t('app.loading')}</div>
+              ) : (
+                renderView()
+              )}
+            </main>
+          </div>
+        </I18nContext.Provider>
+      </RouterContext.Provider>
     </AuthContext.Provider>
   );
 };
@@ -0,0 +1,21 @@
+
+import React from 'react';
+import { useAnimatedNumber } from '../hooks/useAnimatedNumber';
+
+interface AnimatedNumberProps {
+  value: number;
+  /** Number of decimal places to display. */
+  decimals?: number;
+  /** Turns the displayed value into text, e.g. "5 votes" or "42 %"; defaults to the bare number. */
+  format?: (value: number) => string;
+}
+
+/**
+ * Displays a number that counts smoothly to its new value whenever it changes.
+ * Wrapping the hook in a component lets it be used inside lists, where hooks cannot be called directly.
+ */
+export const AnimatedNumber: React.FC<AnimatedNumberProps> = ({ value, decimals = 0, format }) => {
+  const displayed = useAnimatedNumber(value);
+  const rounded = displayed.toFixed(decimals);
+  return <>{format ? format(Number(rounded)) : rounded}</>;
+};
@@ -0,0 +1,310 @@
+
+import React, { useEffect, useMemo, useState } from 'react';
+import * as pollService from '../services/pollService';
+import type { Comment, Poll } from '../types';
+import { buildCommentThreads, MAX_COMMENT_LENGTH, type CommentThread } from '../services/comments';
+import { paths } from '../services/routes';
+import { UnauthorizedError } from '../services/errors';
+import { useAuth } from '../hooks/useAuth';
+import { useRouter } from '../hooks/useRouter';
+import { useI18n } from '../hooks/useI18n';
+import { Link } from './Link';
+
+interface CommentsPanelProps {
+  poll: Poll;
+  /** Whether the discussion starts expanded, e.g. on the poll's own page. */
+  initiallyOpen?: boolean;
+}
+
+/** Replies are indented up to this depth; deeper replies line up with their parent to save space. */
+const MAX_INDENT_DEPTH = 3;
+
+const textareaClassName = "w-full rounded-md border border-slate-300 dark:border-slate-600 px-3 py-2 text-sm text-slate-900 dark:text-slate-200 bg-white dark:bg-slate-700 focus:border-blue-500 focus:outline-none focus:ring-blue-500";
+const primaryButtonClassName = "px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:bg-slate-400 disabled:cursor-not-allowed";
+const linkButtonClassName = "font-medium text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 disabled:opacity-50";
+
+/**
+ * A text box with a submit button, used to write, reply to and edit comments.
+ */
+const CommentForm: React.FC<{
+  initialText?: string;
+  submitLabel: string;
+  onSubmit: (text: string) => Promise<void>;
+  onCancel?: () => void;
+}> = ({ initialText, submitLabel, onSubmit, onCancel }) => {
+  const { t, errorMessage } = useI18n();
+  const [text, setText] = useState(initialText ?? '');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Saves the comment and clears the box once it has been accepted.
+   * @param {React.FormEvent} e - The form submission event.
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSubmit(text);
+      setText('');
+    } catch (err: any) {
+      setError(errorMessage(err, 'comments.saveFailed'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        maxLength={MAX_COMMENT_LENGTH}
+        rows={2}
+        placeholder={t('comments.placeholder')}
+        aria-label={submitLabel}
+        className={textareaClassName}
+      />
+      {error && <p className="text-sm text-red-500">{error}</p>}
+      <div className="flex items-center justify-end space-x-3 text-sm">
+        <span className="mr-auto text-xs text-slate-400">{text.length}/{MAX_COMMENT_LENGTH}</span>
+        {onCancel && (
+          <button type="button" onClick={onCancel} className="text-slate-500 dark:text-slate-400 hover:underline">
+            {t('comments.cancel')}
+          </button>
+        )}
+        <button type="submit" disabled={!text.trim() || isSaving} className={primaryButtonClassName}>
+          {isSaving ? t('comments.saving') : submitLabel}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+/**
+ * The discussion under a poll: threaded comments, with a count in its header so it can stay
+ * collapsed until someone wants to read it. Comments are loaded when the panel is opened, and
+ * reloaded whenever the poll is saved, which includes every change to its discussion, so new
+ * comments from other people appear live. The poll's creator can lock and unlock the discussion.
+ */
+export const CommentsPanel: React.FC<CommentsPanelProps> = ({ poll, initiallyOpen }) => {
+  const { user } = useAuth();
+  const { route } = useRouter();
+  const { t, formatDate, errorMessage } = useI18n();
+  const [isOpen, setIsOpen] = useState(Boolean(initiallyOpen));
+  const [comments, setComments] = useState<Comment[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [editing, setEditing] = useState<string | null>(null);
+  const [isUpdatingLock, setIsUpdatingLock] = useState(false);
+
+  const isOwner = user?.id === poll.createdBy;
+  const canPost = Boolean(user) && !poll.commentsLocked;
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let ignore = false;
+    pollService.getComments(poll.id, user?.id)
+      .then(fetched => {
+        if (!ignore) {
+          setComments(fetched);
+          setError(null);
+        }
+      })
+      .catch((err: any) => {
+        if (!ignore) setError(errorMessage(err, 'comments.loadFailed'));
+      });
+    return () => {
+      ignore = true;
+    };
+  }, [isOpen, poll.id, poll.revision, user?.id]);
+
+  const threads: CommentThread[] = useMemo(() => buildCommentThreads(comments ?? []), [comments]);
+
+  /**
+   * Applies a comment returned by the service straight away, rather than waiting for the
+   * reload that follows the poll update.
+   * @param {Comment} saved - The new or edited comment.
+   */
+  const showComment = (saved: Comment) => {
+    setComments(current => {
+      const list = current ?? [];
+      return list.some(c => c.id === saved.id) ? list.map(c => (c.id === saved.id ? saved : c)) : [...list, saved];
+    });
+  };
+
+  /**
+   * Posts a new top-level comment or a reply.
+   * @param {string} text - The comment text.
+   * @param {string | null} parentId - The comment being replied to, if any.
+   */
+  const handleAdd = async (text: string, parentId: string | null) => {
+    if (!user) throw new UnauthorizedError('loginRequired');
+    showComment(await pollService.addComment(poll.id, text, user.id, parentId));
+    setReplyingTo(null);
+  };
+
+  /**
+   * Saves an edited comment.
+   * @param {string} commentId - The comment being edited.
+   * @param {string} text - The new text.
+   */
+  const handleEdit = async (commentId: string, text: string) => {
+    if (!user) throw new UnauthorizedError('loginRequired');
+    showComment(await pollService.editComment(commentId, text, user.id));
+    setEditing(null);
+  };
+
+  /**
+   * Deletes one of the user's comments, after asking for confirmation.
+   * @param {string} commentId - The comment to delete.
+   */
+  const handleDelete = async (commentId: string) => {
+    if (!user || !window.confirm(t('comments.confirmDelete'))) return;
+    setError(null);
+    try {
+      await pollService.deleteComment(commentId, user.id);
+      setComments(await pollService.getComments(poll.id, user?.id));
+    } catch (err: any) {
+      setError(errorMessage(err, 'comments.deleteFailed'));
+    }
+  };
+
+  /**
+   * Locks or unlocks the discussion (poll creator only).
+   */
+  const toggleLock = async () => {
+    if (!user) return;
+    setIsUpdatingLock(true);
+    setError(null);
+    try {
+      await pollService.setCommentsLocked(poll.id, !poll.commentsLocked, user.id);
+    } catch (err: any) {
+      setError(errorMessage(err, 'comments.lockFailed'));
+    } finally {
+      setIsUpdatingLock(false);
+    }
+  };
+
+  /**
+   * Renders a comment and, below it, its replies.
+   * @param {CommentThread} thread - The comment and its replies.
+   * @param {number} depth - How deep in the thread the comment is; 0 for a top-level comment.
+   * @returns {JSX.Element} The thread.
+   */
+  const renderThread = ({ comment, replies }: CommentThread, depth: number) => {
+    const isAuthor = user?.id === comment.authorId;
+    return (
+      <li key={comment.id}>
+        {comment.deleted ? (
+          <p className="text-sm italic text-slate-400">{t('comments.deleted')}</p>
+        ) : (
+          <div className="text-sm">
+            <div className="flex items-baseline space-x-2 rtl:space-x-reverse">
+              <Link to={paths.user(comment.authorId)} className="font-semibold text-slate-700 dark:text-slate-200 hover:text-blue-600 dark:hover:text-blue-400">
+                {comment.authorName ?? t('poll.userName', { id: comment.authorId.slice(-4) })}
+              </Link>
+              <span className="text-xs text-slate-400">
+                {formatDate(comment.createdAt)}
+                {comment.editedAt && ` ${t('comments.edited')}`}
+              </span>
+            </div>
+            {editing === comment.id ? (
+              <div className="mt-2">
+                <CommentForm
+                  initialText={comment.body}
+                  submitLabel={t('comments.save')}
+                  onSubmit={(text) => handleEdit(comment.id, text)}
+                  onCancel={() => setEditing(null)}
+                />
+              </div>
+            ) : (
+              <p className="mt-1 whitespace-pre-wrap break-words text-slate-700 dark:text-slate-300">{comment.body}</p>
+            )}
+            <div className="mt-1 flex space-x-3 text-xs">
+              {canPost && (
+                <button onClick={() => setReplyingTo(comment.id)} className={linkButtonClassName}>{t('comments.reply')}</button>
+              )}
+              {isAuthor && canPost && editing !== comment.id && (
+                <button onClick={() => setEditing(comment.id)} className={linkButtonClassName}>{t('comments.edit')}</button>
+              )}
+              {isAuthor && (
+                <button onClick={() => handleDelete(comment.id)} className="font-medium text-red-600 dark:text-red-400 hover:text-red-800 dark:hover:text-red-300">
+                  {t('comments.delete')}
+                </button>
+              )}
+            </div>
+            {replyingTo === comment.id && canPost && (
+              <div className="mt-2">
+                <CommentForm
+                  submitLabel={t('comments.reply')}
+                  onSubmit={(text) => handleAdd(text, comment.id)}
+                  onCancel={() => setReplyingTo(null)}
+                />
+              </div>
+            )}
+          </div>
+        )}
+        {replies.length > 0 && (
+          <ul className={`mt-3 space-y-3 ${depth < MAX_INDENT_DEPTH ? 'ml-2 pl-4 border-l border-slate-200 dark:border-slate-600' : ''}`}>
+            {replies.map(reply => renderThread(reply, depth + 1))}
+          </ul>
+        )}
+      </li>
+    );
+  };
+
+  // The login link sits inside a translated sentence, whose word order differs between languages.
+  const [loginBefore, loginAfter] = t('comments.loginPrompt', { link: '\u0000' }).split('\u0000');
+
+  return (
+    <div className="border-t border-slate-200 dark:border-slate-700">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        aria-expanded={isOpen}
+        className="w-full flex items-center justify-between px-6 py-3 text-sm font-medium text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700/50"
+      >
+        <span>
+          {t('comments.title', { count: poll.commentCount })}
+          {poll.commentsLocked && <span className="ms-2 text-xs text-amber-600 dark:text-amber-400">{t('comments.locked')}</span>}
+        </span>
+        <span aria-hidden="true">{isOpen ? '▲' : '▼'}</span>
+      </button>
+
+      {isOpen && (
+        <div className="px-6 pb-6 space-y-4">
+          {isOwner && (
+            <div className="flex justify-end">
+              <button onClick={toggleLock} disabled={isUpdatingLock} className={`text-xs ${linkButtonClassName}`}>
+                {poll.commentsLocked ? t('comments.unlock') : t('comments.lock')}
+              </button>
+            </div>
+          )}
+
+          {error && <p className="text-sm text-red-500">{error}</p>}
+
+          {comments === null && !error ? (
+            <p className="text-sm text-slate-500 dark:text-slate-400">{t('comments.loading')}</p>
+          ) : threads.length === 0 ? (
+            <p className="text-sm text-slate-500 dark:text-slate-400">{t('comments.empty')}</p>
+          ) : (
+            <ul className="space-y-4">{threads.map(thread => renderThread(thread, 0))}</ul>
+          )}
+
+          {poll.commentsLocked ? (
+            <p className="text-sm text-amber-600 dark:text-amber-400">{t('comments.lockedNotice')}</p>
+          ) : user ? (
+            <CommentForm submitLabel={t('comments.comment')} onSubmit={(text) => handleAdd(text, null)} />
+          ) : (
+            <p className="text-sm text-slate-500 dark:text-slate-400">
+              {loginBefore}
+              <Link to={paths.login(route.path)} className="text-blue-600 dark:text-blue-400 hover:underline">{t('comments.loginLink')}</Link>
+              {loginAfter}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
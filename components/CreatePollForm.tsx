@@ -1,23 +1,172 @@
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
+import type { Poll, PollDraft, PollSettings, PollType, PollVisibility, ResultsVisibility } from '../types';
 import { PlusIcon } from './icons/PlusIcon';
+import { TagInput } from './TagInput';
+import { useAuth } from '../hooks/useAuth';
+import { useI18n } from '../hooks/useI18n';
+import { ValidationError, type FieldErrors } from '../services/errors';
+import { validatePollInput, MIN_OPTIONS, MAX_OPTIONS } from '../services/pollValidation';
+import { loadPollDraft, savePollDraft, discardPollDraft } from '../services/pollDrafts';
+import { RESULTS_VISIBILITIES } from '../services/resultsVisibility';
+import { POLL_VISIBILITIES } from '../services/pollAccess';
+import { FieldMessage } from './FieldMessage';
 
 interface CreatePollFormProps {
-  onSubmit: (question: string, options: string[]) => Promise<void>;
+  /** When given, the form edits this poll instead of creating a new one. */
+  poll?: Poll;
+  onSubmit: (question: string, options: string[], settings: PollSettings, resetVotes: boolean) => Promise<void>;
   onCancel: () => void;
 }
 
+/** What the form holds: a draft without its save time. */
+type FormValues = Omit<PollDraft, 'savedAt'>;
+
+/**
+ * Converts an ISO timestamp into the local-time format expected by `datetime-local` inputs.
+ * @param {string | null | undefined} iso - The timestamp to convert.
+ * @returns {string} A `YYYY-MM-DDTHH:mm` string, or an empty string if there is no timestamp.
+ */
+const toDateTimeLocal = (iso: string | null | undefined): string => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
 /**
- * A form for creating a new poll.
- * This component demonstrates controlled component state management in React.
+ * Converts a `datetime-local` value (in local time) into the UTC ISO timestamp the service stores.
+ * @param {string} local - The input's value.
+ * @returns {string | null} The timestamp, null if the input is empty, or the value unchanged if it
+ *   is not a date, so validation can point it out.
+ */
+const toIsoTimestamp = (local: string): string | null => {
+  if (!local) return null;
+  const time = Date.parse(local);
+  return Number.isNaN(time) ? local : new Date(time).toISOString();
+};
+
+/**
+ * The form's starting values: those of the poll being edited, or an empty poll with two options.
+ * @param {Poll} [poll] - The poll being edited.
+ * @returns {FormValues} The values.
+ */
+const valuesFromPoll = (poll?: Poll): FormValues => ({
+  question: poll?.question ?? '',
+  options: poll ? poll.options.map(o => o.text) : ['', ''],
+  type: poll?.type ?? 'single',
+  minSelections: poll?.minSelections ?? 1,
+  maxSelections: poll?.maxSelections ?? 2,
+  // Raw `datetime-local` values; empty means "open now" / "never closes".
+  opensAt: toDateTimeLocal(poll?.opensAt),
+  closesAt: toDateTimeLocal(poll?.closesAt),
+  allowVoteChange: poll?.allowVoteChange ?? true,
+  resultsVisibility: poll?.resultsVisibility ?? 'afterVoting',
+  visibility: poll?.visibility ?? 'public',
+  allowedUserIds: poll?.allowedUserIds ?? [],
+  anonymous: poll?.anonymous ?? true,
+  tags: poll?.tags ?? [],
+});
+
+/**
+ * Builds the settings to submit from the form's values.
+ * @param {FormValues} values - The form's values.
+ * @returns {PollSettings} The poll settings.
+ */
+const settingsFromValues = (values: FormValues): PollSettings => {
+  const common = {
+    allowVoteChange: values.allowVoteChange,
+    resultsVisibility: values.resultsVisibility,
+    visibility: values.visibility,
+    allowedUserIds: values.allowedUserIds,
+    anonymous: values.anonymous,
+    tags: values.tags,
+    opensAt: toIsoTimestamp(values.opensAt),
+    closesAt: toIsoTimestamp(values.closesAt),
+  };
+  return values.type === 'multiple'
+    ? { type: values.type, minSelections: values.minSelections, maxSelections: values.maxSelections, ...common }
+    : { type: values.type, ...common };
+};
+
+/**
+ * A form for creating a new poll, or editing an existing one when a `poll` is passed in.
  * Each input is tied to a state variable, providing a single source of truth for the form data.
- * It also handles dynamic form fields (for poll options).
+ *
+ * The poll is checked as the user types, against the same schema the service enforces
+ * (`validatePollInput`), so every limit is explained next to its field instead of the poll being
+ * silently trimmed or refused on submit. What has been typed is also saved as a draft for the
+ * signed-in user, so a refresh or Cancel does not lose a long poll; the draft is restored the
+ * next time the form opens, and forgotten once the poll is saved or the user discards it.
  */
-export const CreatePollForm: React.FC<CreatePollFormProps> = ({ onSubmit, onCancel }) => {
-  const [question, setQuestion] = useState('');
-  const [options, setOptions] = useState(['', '']);
+export const CreatePollForm: React.FC<CreatePollFormProps> = ({ poll, onSubmit, onCancel }) => {
+  const { user } = useAuth();
+  const { t, errorMessage, formatDate } = useI18n();
+  const isEditing = Boolean(poll);
+  const hasVotes = poll ? poll.ballots.length > 0 : false;
+
+  const [pristine] = useState(() => valuesFromPoll(poll));
+  const [restoredDraft, setRestoredDraft] = useState(() => (user ? loadPollDraft(user.id, poll?.id) : null));
+  const [values, setValues] = useState<FormValues>(() => {
+    if (!restoredDraft) return pristine;
+    const { savedAt, ...draftValues } = restoredDraft;
+    // Drafts saved by an older version lack the newer fields, which keep their starting values.
+    return { ...pristine, ...draftValues };
+  });
+  const { question, options, type: pollType, minSelections, maxSelections, opensAt, closesAt, allowVoteChange, resultsVisibility, visibility, allowedUserIds, anonymous, tags } = values;
+  const [resetVotes, setResetVotes] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Fields the user has left at least once. Required fields only complain once they have been
+  // visited (or the form submitted), so a fresh form is not covered in red.
+  const [touched, setTouched] = useState<Record<string, boolean>>({});
+  const [submitAttempted, setSubmitAttempted] = useState(false);
+  // What the service found wrong on submit, for anything the live checks could not know.
+  const [serverErrors, setServerErrors] = useState<FieldErrors>({});
+
+  const settings = settingsFromValues(values);
+  const liveErrors = validatePollInput(question, options, settings);
+  const fieldErrors: FieldErrors = { ...serverErrors };
+  Object.entries(liveErrors).forEach(([field, fieldError]) => {
+    const needsVisit = field === 'question' || field.startsWith('options.');
+    if (!needsVisit || submitAttempted || touched[field]) fieldErrors[field] = fieldError;
+  });
+
+  // Save the draft as the user types, and forget it once the form is back to where it started.
+  // Any error from the last submit is about the old values, so it goes too.
+  const valuesJson = JSON.stringify(values);
+  useEffect(() => {
+    setServerErrors({});
+    if (!user) return;
+    if (valuesJson === JSON.stringify(pristine)) {
+      discardPollDraft(user.id, poll?.id);
+    } else {
+      savePollDraft(user.id, poll?.id, { ...JSON.parse(valuesJson), savedAt: new Date().toISOString() });
+    }
+  }, [valuesJson]);
+
+  /**
+   * Changes some of the form's values.
+   * @param {Partial<FormValues>} changes - The values to change.
+   */
+  const update = (changes: Partial<FormValues>) => {
+    setValues((current: FormValues) => ({ ...current, ...changes }));
+  };
+
+  /**
+   * Marks a field as visited, so its errors start showing.
+   * @param {string} field - The field's name, as used in `fieldErrors`.
+   */
+  const touch = (field: string) => {
+    setTouched((current: Record<string, boolean>) => (current[field] ? current : { ...current, [field]: true }));
+  };
+
+  /**
+   * The border classes for an input, red while its field has an error.
+   * @param {string} field - The field's name, as used in `fieldErrors`.
+   * @returns {string} The class names.
+   */
+  const borderClass = (field: string): string =>
+    fieldErrors[field] ? 'border border-red-500' : 'border border-slate-300 dark:border-slate-600';
 
   /**
    * Updates the text for a specific poll option.
@@ -27,45 +176,61 @@ export const CreatePollForm: React.FC<CreatePollFormProps> = ({ onSubmit, onCanc
   const handleOptionChange = (index: number, value: string) => {
     const newOptions = [...options];
     newOptions[index] = value;
-    setOptions(newOptions);
+    update({ options: newOptions });
   };
 
   /**
-   * Adds a new, empty option field to the form.
+   * Adds a new, empty option field to the form, up to the schema's limit.
    */
   const addOption = () => {
-    // Logic to prevent adding too many options, which is a good practice for usability.
-    if (options.length < 10) {
-      setOptions([...options, '']);
+    if (options.length < MAX_OPTIONS) {
+      update({ options: [...options, ''] });
     }
   };
 
   /**
-   * Removes an option field from the form.
+   * Removes an option field from the form, keeping at least the schema's minimum.
    * @param {number} index - The index of the option to remove.
    */
   const removeOption = (index: number) => {
-    // Logic to ensure there are always at least two options.
-    if (options.length > 2) {
-      const newOptions = options.filter((_, i) => i !== index);
-      setOptions(newOptions);
+    if (options.length > MIN_OPTIONS) {
+      update({ options: options.filter((_, i) => i !== index) });
     }
   };
-  
+
+  /**
+   * Throws away the restored draft and starts again from the poll (or an empty form).
+   */
+  const discardDraft = () => {
+    setValues(pristine);
+    setRestoredDraft(null);
+    setTouched({});
+    setSubmitAttempted(false);
+    setError(null);
+  };
+
   /**
-   * Handles the form submission process.
+   * Handles the form submission process. Nothing is sent while the live checks find a problem;
+   * submitting instead reveals every field's error.
    * @param {React.FormEvent} e - The form event.
    */
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    setIsLoading(true);
+    setSubmitAttempted(true);
     setError(null);
+    if (Object.keys(liveErrors).length > 0) return;
+
+    setIsLoading(true);
+    setServerErrors({});
     try {
-      // Filter out empty options before submission for cleaner data.
-      const validOptions = options.map(o => o.trim()).filter(o => o);
-      await onSubmit(question, validOptions);
+      await onSubmit(question.trim(), options.map(o => o.trim()), settings, resetVotes);
+      if (user) discardPollDraft(user.id, poll?.id);
     } catch (err: any) {
-      setError(err.message || 'Failed to create poll.');
+      if (err instanceof ValidationError) {
+        setServerErrors(err.fields);
+      } else {
+        setError(errorMessage(err, isEditing ? 'form.saveFailed' : 'form.createFailed'));
+      }
     } finally {
       setIsLoading(false);
     }
@@ -73,75 +238,295 @@ export const CreatePollForm: React.FC<CreatePollFormProps> = ({ onSubmit, onCanc
 
   return (
     <div className="bg-white dark:bg-slate-800 p-6 sm:p-8 rounded-lg shadow-xl max-w-2xl mx-auto">
-      <h2 className="text-2xl font-bold text-slate-800 dark:text-white mb-6">Create a New Poll</h2>
-      <form onSubmit={handleSubmit} className="space-y-6">
+      <h2 className="text-2xl font-bold text-slate-800 dark:text-white mb-6">
+        {isEditing ? t('form.editTitle') : t('form.createTitle')}
+      </h2>
+      {restoredDraft && (
+        <div className="mb-6 flex items-center justify-between gap-3 p-3 rounded-md bg-blue-50 dark:bg-blue-900/30 text-sm text-blue-800 dark:text-blue-200">
+          <p>{t('form.draftRestored', { time: formatDate(restoredDraft.savedAt) })}</p>
+          <button type="button" onClick={discardDraft} className="shrink-0 font-medium hover:underline">
+            {t('form.discardDraft')}
+          </button>
+        </div>
+      )}
+      {/* The browser's own validation is off: the schema's errors are shown next to each field instead. */}
+      <form onSubmit={handleSubmit} className="space-y-6" noValidate>
         <div>
           <label htmlFor="question" className="block text-sm font-medium text-slate-700 dark:text-slate-300">
-            Poll Question
+            {t('form.question')}
           </label>
           <input
             type="text"
             id="question"
             value={question}
-            onChange={(e) => setQuestion(e.target.value)}
-            className="mt-1 block w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm text-slate-900 dark:text-slate-200"
-            placeholder="e.g., What's for lunch?"
-            required
+            onChange={(e) => update({ question: e.target.value })}
+            onBlur={() => touch('question')}
+            className={`mt-1 block w-full px-3 py-2 bg-white dark:bg-slate-700 ${borderClass('question')} rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm text-slate-900 dark:text-slate-200`}
+            placeholder={t('form.questionPlaceholder')}
+            aria-invalid={Boolean(fieldErrors.question)}
+            aria-describedby={fieldErrors.question ? 'question-error' : undefined}
           />
+          <FieldMessage id="question-error" error={fieldErrors.question} />
+        </div>
+        <div>
+          <label htmlFor="pollType" className="block text-sm font-medium text-slate-700 dark:text-slate-300">
+            {t('form.type')}
+          </label>
+          <select
+            id="pollType"
+            value={pollType}
+            onChange={(e) => update({ type: e.target.value as PollType })}
+            aria-invalid={Boolean(fieldErrors.type)}
+            className={`mt-1 block w-full px-3 py-2 bg-white dark:bg-slate-700 ${borderClass('type')} rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm text-slate-900 dark:text-slate-200`}
+          >
+            <option value="single">{t('form.type.single')}</option>
+            <option value="multiple">{t('form.type.multiple')}</option>
+            <option value="ranked">{t('form.type.ranked')}</option>
+          </select>
+          <FieldMessage id="type-error" error={fieldErrors.type} />
+          {pollType === 'multiple' && (
+            <div className="mt-3 flex items-center space-x-4 rtl:space-x-reverse text-sm text-slate-700 dark:text-slate-300">
+              <label className="flex items-center space-x-2 rtl:space-x-reverse">
+                <span>{t('form.minPicks')}</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={options.length}
+                  value={minSelections}
+                  onChange={(e) => update({ minSelections: Number(e.target.value) })}
+                  aria-invalid={Boolean(fieldErrors.selections)}
+                  className={`w-16 px-2 py-1 bg-white dark:bg-slate-700 ${borderClass('selections')} rounded-md text-slate-900 dark:text-slate-200`}
+                />
+              </label>
+              <label className="flex items-center space-x-2 rtl:space-x-reverse">
+                <span>{t('form.maxPicks')}</span>
+                <input
+                  type="number"
+                  min={minSelections}
+                  max={options.length}
+                  value={maxSelections}
+                  onChange={(e) => update({ maxSelections: Number(e.target.value) })}
+                  aria-invalid={Boolean(fieldErrors.selections)}
+                  className={`w-16 px-2 py-1 bg-white dark:bg-slate-700 ${borderClass('selections')} rounded-md text-slate-900 dark:text-slate-200`}
+                />
+              </label>
+            </div>
+          )}
+          {pollType === 'multiple' && <FieldMessage id="selections-error" error={fieldErrors.selections} />}
         </div>
         <div>
           <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">
-            Options
+            {t('form.options')}{' '}
+            <span className="text-slate-400 font-normal">{t('form.optionLimits', { min: MIN_OPTIONS, max: MAX_OPTIONS })}</span>
           </label>
           <div className="space-y-3 mt-1">
             {options.map((option, index) => (
-              <div key={index} className="flex items-center space-x-2">
-                <input
-                  type="text"
-                  value={option}
-                  onChange={(e) => handleOptionChange(index, e.target.value)}
-                  className="block w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm text-slate-900 dark:text-slate-200"
-                  placeholder={`Option ${index + 1}`}
-                  required
-                />
-                <button
-                  type="button"
-                  onClick={() => removeOption(index)}
-                  disabled={options.length <= 2}
-                  className="text-slate-400 hover:text-red-500 disabled:opacity-50 disabled:cursor-not-allowed p-1"
-                  aria-label="Remove option"
-                >
-                  &times;
-                </button>
+              <div key={index}>
+                <div className="flex items-center space-x-2 rtl:space-x-reverse">
+                  <input
+                    type="text"
+                    value={option}
+                    onChange={(e) => handleOptionChange(index, e.target.value)}
+                    onBlur={() => touch(`options.${index}`)}
+                    className={`block w-full px-3 py-2 bg-white dark:bg-slate-700 ${borderClass(`options.${index}`)} rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm text-slate-900 dark:text-slate-200`}
+                    placeholder={t('form.optionPlaceholder', { number: index + 1 })}
+                    aria-invalid={Boolean(fieldErrors[`options.${index}`])}
+                    aria-describedby={fieldErrors[`options.${index}`] ? `option-${index}-error` : undefined}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => removeOption(index)}
+                    disabled={options.length <= MIN_OPTIONS}
+                    className="text-slate-400 hover:text-red-500 disabled:opacity-50 disabled:cursor-not-allowed p-1"
+                    aria-label={t('form.removeOption')}
+                  >
+                    &times;
+                  </button>
+                </div>
+                <FieldMessage id={`option-${index}-error`} error={fieldErrors[`options.${index}`]} />
               </div>
             ))}
           </div>
+          <FieldMessage id="options-error" error={fieldErrors.options} />
           <button
             type="button"
             onClick={addOption}
-            className="mt-3 flex items-center text-sm font-medium text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300"
+            disabled={options.length >= MAX_OPTIONS}
+            className="mt-3 flex items-center text-sm font-medium text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 disabled:opacity-50 disabled:cursor-not-allowed"
           >
-            <PlusIcon className="h-4 w-4 mr-1" />
-            Add Option
+            <PlusIcon className="h-4 w-4 me-1" />
+            {t('form.addOption')}
           </button>
         </div>
 
+        <div>
+          <label htmlFor="tags" className="block text-sm font-medium text-slate-700 dark:text-slate-300">
+            {t('form.tags')} <span className="text-slate-400 font-normal">{t('form.optional')}</span>
+          </label>
+          <TagInput id="tags" tags={tags} onChange={(newTags: string[]) => update({ tags: newTags })} invalid={Boolean(fieldErrors.tags)} />
+          <FieldMessage id="tags-error" error={fieldErrors.tags} />
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="opensAt" className="block text-sm font-medium text-slate-700 dark:text-slate-300">
+              {t('form.opensAt')} <span className="text-slate-400 font-normal">{t('form.optional')}</span>
+            </label>
+            <input
+              type="datetime-local"
+              id="opensAt"
+              value={opensAt}
+              onChange={(e) => update({ opensAt: e.target.value })}
+              className={`mt-1 block w-full px-3 py-2 bg-white dark:bg-slate-700 ${borderClass('opensAt')} rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm text-slate-900 dark:text-slate-200`}
+              aria-invalid={Boolean(fieldErrors.opensAt)}
+              aria-describedby={fieldErrors.opensAt ? 'opensAt-error' : undefined}
+            />
+            <FieldMessage id="opensAt-error" error={fieldErrors.opensAt} />
+          </div>
+          <div>
+            <label htmlFor="closesAt" className="block text-sm font-medium text-slate-700 dark:text-slate-300">
+              {t('form.closesAt')} <span className="text-slate-400 font-normal">{t('form.optional')}</span>
+            </label>
+            <input
+              type="datetime-local"
+              id="closesAt"
+              value={closesAt}
+              min={opensAt || undefined}
+              onChange={(e) => update({ closesAt: e.target.value })}
+              className={`mt-1 block w-full px-3 py-2 bg-white dark:bg-slate-700 ${borderClass('closesAt')} rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm text-slate-900 dark:text-slate-200`}
+              aria-invalid={Boolean(fieldErrors.closesAt)}
+              aria-describedby={fieldErrors.closesAt ? 'closesAt-error' : undefined}
+            />
+            <FieldMessage id="closesAt-error" error={fieldErrors.closesAt} />
+          </div>
+        </div>
+
+        <label className="flex items-center space-x-2 rtl:space-x-reverse text-sm text-slate-700 dark:text-slate-300">
+          <input
+            type="checkbox"
+            checked={allowVoteChange}
+            onChange={(e) => update({ allowVoteChange: e.target.checked })}
+          />
+          <span>{t('form.allowVoteChange')}</span>
+        </label>
+
+        <div>
+          <label htmlFor="resultsVisibility" className="block text-sm font-medium text-slate-700 dark:text-slate-300">
+            {t('form.resultsVisibility')}
+          </label>
+          <select
+            id="resultsVisibility"
+            value={resultsVisibility}
+            onChange={(e) => update({ resultsVisibility: e.target.value as ResultsVisibility })}
+            aria-invalid={Boolean(fieldErrors.resultsVisibility)}
+            aria-describedby="resultsVisibility-hint"
+            className={`mt-1 block w-full px-3 py-2 bg-white dark:bg-slate-700 ${borderClass('resultsVisibility')} rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm text-slate-900 dark:text-slate-200`}
+          >
+            {RESULTS_VISIBILITIES.map(visibility => (
+              <option key={visibility} value={visibility}>{t(`form.resultsVisibility.${visibility}`)}</option>
+            ))}
+          </select>
+          <p id="resultsVisibility-hint" className="mt-1 text-xs text-slate-500 dark:text-slate-400">{t('form.resultsVisibilityHint')}</p>
+          <FieldMessage id="resultsVisibility-error" error={fieldErrors.resultsVisibility} />
+        </div>
+
+        <div>
+          <label htmlFor="visibility" className="block text-sm font-medium text-slate-700 dark:text-slate-300">
+            {t('form.visibility')}
+          </label>
+          <select
+            id="visibility"
+            value={visibility}
+            onChange={(e) => update({ visibility: e.target.value as PollVisibility })}
+            aria-invalid={Boolean(fieldErrors.visibility)}
+            aria-describedby="visibility-hint"
+            className={`mt-1 block w-full px-3 py-2 bg-white dark:bg-slate-700 ${borderClass('visibility')} rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm text-slate-900 dark:text-slate-200`}
+          >
+            {POLL_VISIBILITIES.map(option => (
+              <option key={option} value={option}>{t(`form.visibility.${option}`)}</option>
+            ))}
+          </select>
+          <p id="visibility-hint" className="mt-1 text-xs text-slate-500 dark:text-slate-400">{t(`form.visibilityHint.${visibility}`)}</p>
+          <FieldMessage id="visibility-error" error={fieldErrors.visibility} />
+          {visibility === 'inviteOnly' && allowedUserIds.length > 0 && (
+            <div className="mt-3">
+              <p className="text-sm font-medium text-slate-700 dark:text-slate-300">{t('form.members', { count: allowedUserIds.length })}</p>
+              <ul className="mt-1 flex flex-wrap gap-1.5">
+                {allowedUserIds.map(memberId => (
+                  <li key={memberId} className="flex items-center px-2 py-0.5 rounded-full bg-slate-100 dark:bg-slate-700 text-xs text-slate-700 dark:text-slate-200">
+                    {t('poll.userName', { id: memberId.slice(-4) })}
+                    <button
+                      type="button"
+                      onClick={() => update({ allowedUserIds: allowedUserIds.filter(id => id !== memberId) })}
+                      className="ms-1 text-slate-400 hover:text-red-500"
+                      aria-label={t('form.removeMember', { id: memberId.slice(-4) })}
+                    >
+                      &times;
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <div>
+          <label htmlFor="ballots" className="block text-sm font-medium text-slate-700 dark:text-slate-300">
+            {t('form.ballots')}
+          </label>
+          {/* Voters are told which it is when they vote, so it is chosen once, when the poll is created. */}
+          <select
+            id="ballots"
+            value={anonymous ? 'anonymous' : 'attributed'}
+            onChange={(e) => update({ anonymous: e.target.value === 'anonymous' })}
+            disabled={isEditing}
+            aria-describedby="ballots-hint"
+            className="mt-1 block w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm text-slate-900 dark:text-slate-200 disabled:opacity-60"
+          >
+            <option value="anonymous">{t('form.ballots.anonymous')}</option>
+            <option value="attributed">{t('form.ballots.attributed')}</option>
+          </select>
+          <p id="ballots-hint" className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+            {t(anonymous ? 'form.ballotsHint.anonymous' : 'form.ballotsHint.attributed')}
+            {isEditing && <> {t('form.ballotsLocked')}</>}
+          </p>
+        </div>
+
+        {hasVotes && (
+          <div className="p-3 rounded-md bg-amber-50 dark:bg-amber-900/30 text-sm text-amber-800 dark:text-amber-200">
+            <p>{t('form.hasVotes')}</p>
+            <label className="mt-2 flex items-center space-x-2 rtl:space-x-reverse font-medium">
+              <input
+                type="checkbox"
+                checked={resetVotes}
+                onChange={(e) => setResetVotes(e.target.checked)}
+              />
+              <span>{t('form.resetVotes')}</span>
+            </label>
+          </div>
+        )}
+
+        {submitAttempted && Object.keys(fieldErrors).length > 0 && (
+          <p className="text-red-500 text-sm">{t('form.fixErrors')}</p>
+        )}
         {error && <p className="text-red-500 text-sm">{error}</p>}
 
-        <div className="flex justify-end space-x-4">
+        <div className="flex justify-end space-x-4 rtl:space-x-reverse">
           <button
             type="button"
             onClick={onCancel}
             className="px-4 py-2 text-sm font-medium text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm hover:bg-slate-50 dark:hover:bg-slate-600"
           >
-            Cancel
+            {t('form.cancel')}
           </button>
           <button
             type="submit"
             disabled={isLoading}
             className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md shadow-sm hover:bg-blue-700 disabled:bg-slate-400 disabled:cursor-not-allowed"
           >
-            {isLoading ? 'Creating...' : 'Create Poll'}
+            {isEditing
+              ? (isLoading ? t('form.saving') : t('form.save'))
+              : (isLoading ? t('form.creating') : t('form.create'))}
           </button>
         </div>
       </form>
@@ -1,11 +1,26 @@
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import * as pollService from '../services/pollService';
-import type { Poll } from '../types';
+import * as pollCache from '../services/pollCache';
+import type { Poll, PollSettings } from '../types';
+import { downloadFile, pollsToBackupJson } from '../services/pollExport';
+import { UnauthorizedError } from '../services/errors';
+import { assertValidPoll } from '../services/pollValidation';
+import { paths } from '../services/routes';
 import { useAuth } from '../hooks/useAuth';
+import { useI18n } from '../hooks/useI18n';
+import { usePollActions } from '../hooks/usePollActions';
+import { useDebouncedValue } from '../hooks/useDebouncedValue';
+import { usePolls } from '../hooks/usePolls';
 import { PollCard } from './PollCard';
 import { CreatePollForm } from './CreatePollForm';
+import { ImportPollsPanel } from './ImportPollsPanel';
+import { PollToolbar, type PollFilters } from './PollToolbar';
 import { PlusIcon } from './icons/PlusIcon';
+import { Link } from './Link';
+
+/** How many polls are loaded at a time. */
+const PAGE_SIZE = 12;
 
 /**
  * The main dashboard view.
@@ -15,110 +30,202 @@ import { PlusIcon } from './icons/PlusIcon';
  */
 export const Dashboard: React.FC = () => {
   const { user } = useAuth();
-  const [polls, setPolls] = useState<Poll[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const { t, errorMessage } = useI18n();
+  const pollActions = usePollActions();
+  // The error of a new poll the backend refused after the form had closed, with the poll's question.
+  const [createError, setCreateError] = useState<{ question: string; error: unknown } | null>(null);
   const [isCreatingPoll, setIsCreatingPoll] = useState(false);
+  const [editingPoll, setEditingPoll] = useState<Poll | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
 
-  /**
-   * Fetches all polls from the service.
-   * `useCallback` is used here to memoize the function, ensuring it's not
-   * recreated on every render unless its dependencies change. This is a best
-   * practice for functions passed to `useEffect`.
-   */
-  const fetchPolls = useCallback(async () => {
-    try {
-      setError(null);
-      setIsLoading(true);
-      const fetchedPolls = await pollService.getPolls();
-      setPolls(fetchedPolls.reverse()); // Show newest first
-    } catch (err: any) {
-      setError(err.message || 'Failed to fetch polls.');
-    } finally {
-      setIsLoading(false);
-    }
-  }, []);
+  const [filters, setFilters] = useState<PollFilters>({ sort: 'newest' });
+  const [searchText, setSearchText] = useState('');
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+
+  const debouncedSearch = useDebouncedValue(searchText.trim());
+  const query: PollFilters = useMemo(
+    () => ({ ...filters, search: debouncedSearch || undefined }),
+    [filters, debouncedSearch],
+  );
+  const hasFilters = Boolean(query.search || query.createdBy || query.votedByMe !== undefined || query.status);
 
-  // The `useEffect` hook is used to fetch data when the component mounts.
-  // The empty dependency array `[]` ensures this effect runs only once,
-  // preventing infinite loops. `eslint-disable` is used to suppress a warning
-  // because `fetchPolls` is guaranteed to be stable by `useCallback`.
+  // The "mine" and "not yet voted" filters belong to whoever set them, so drop them when the user changes.
   useEffect(() => {
-    fetchPolls();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+    setFilters(({ createdBy: _createdBy, votedByMe: _votedByMe, ...rest }) => rest);
+  }, [user?.id]);
 
-  /**
-   * Handles a user's vote on a poll.
-   * This function is passed down to child components (`PollCard`).
-   * @param {string} pollId - The ID of the poll being voted on.
-   * @param {string} optionId - The ID of the chosen option.
-   */
-  const handleVote = async (pollId: string, optionId: string) => {
-    if (!user) throw new Error('You must be logged in to vote.');
-    
-    await pollService.castVote(pollId, optionId, user.id);
-    
-    // After voting, refetch all polls to show updated results.
-    // In a more advanced app, you might just update the single poll in the state
-    // for better performance (this is called optimistic UI update).
-    await fetchPolls();
-  };
+  // The polls come from the shared poll cache, which applies votes, new polls and live events
+  // in place, so the dashboard never refetches, and shows them at once when the user comes back.
+  const pageQuery = useMemo(() => ({ ...query, limit: PAGE_SIZE }), [query]);
+  const { polls, nextCursor, total, isLoading, isLoadingMore, error, loadMore, isSaving } = usePolls(pageQuery);
+
+  // Infinite scroll: load the next page when the marker below the grid comes into view.
+  // The "Load more" button stays as a fallback, e.g. for keyboard users.
+  useEffect(() => {
+    const marker = loadMoreRef.current;
+    if (!marker || !nextCursor) return;
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) loadMore();
+    }, { rootMargin: '200px' });
+    observer.observe(marker);
+    return () => observer.disconnect();
+  }, [loadMore, nextCursor]);
 
   /**
-   * Handles the submission of a new poll from the creation form.
+   * Handles the submission of the poll form, which either creates a new poll
+   * or saves changes to the poll being edited.
    * @param {string} question - The poll question.
    * @param {string[]} options - The poll options.
+   * @param {PollSettings} settings - The poll type, its selection rules and its schedule.
+   * @param {boolean} resetVotes - When editing, whether to clear existing votes.
    */
-  const handleCreatePoll = async (question: string, options: string[]) => {
-    if (!user) throw new Error('You must be logged in to create a poll.');
+  const handleSubmitPoll = async (question: string, options: string[], settings: PollSettings, resetVotes: boolean) => {
+    if (!user) throw new UnauthorizedError('loginRequired');
+
+    if (editingPoll) {
+      await pollService.updatePoll(editingPoll.id, question, options, user.id, settings, resetVotes);
+      setEditingPoll(null);
+      return;
+    }
 
-    await pollService.createPoll(question, options, user.id);
+    // The new poll appears at the top of the list straight away, so the form can close without
+    // waiting for the backend. It is checked here first, with the same rules the backend applies,
+    // so mistakes are still shown next to the field while the form is open. If the backend refuses
+    // it anyway, the placeholder goes and we say why. A poll queued while offline is listed by
+    // `OutboxStatus` until it reaches the server.
+    assertValidPoll(question, options, settings);
+    setCreateError(null);
     setIsCreatingPoll(false);
-    
-    // Refetch polls to include the newly created one.
-    await fetchPolls();
+    pollCache.createPoll(question, options, user.id, settings).catch((err: any) => setCreateError({ question, error: err }));
   };
 
-  if (isLoading) {
-    return <div className="text-center p-10 text-slate-500 dark:text-slate-400">Loading polls...</div>;
-  }
+  /**
+   * Downloads every poll as a JSON backup that can be imported again.
+   * The polls are fetched afresh so the backup is complete and fully up to date.
+   */
+  const handleBackup = async () => {
+    try {
+      // Oldest first, so that importing the backup recreates the polls in their original order.
+      const { polls: allPolls } = await pollService.getPolls();
+      downloadFile(
+        `polly-backup-${new Date().toISOString().slice(0, 10)}.json`,
+        pollsToBackupJson([...allPolls].reverse()),
+        'application/json',
+      );
+    } catch (err: any) {
+      window.alert(errorMessage(err, 'dashboard.backupFailed'));
+    }
+  };
 
-  if (error) {
-    return <div className="text-center p-10 text-red-500">Error: {error}</div>;
-  }
+  const closeForm = () => {
+    setIsCreatingPoll(false);
+    setEditingPoll(null);
+  };
 
   return (
     <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-8">
-      {isCreatingPoll ? (
+      {isImporting ? (
+        // Imported polls reach the list through the live subscription.
+        <ImportPollsPanel onClose={() => setIsImporting(false)} />
+      ) : isCreatingPoll || editingPoll ? (
         <CreatePollForm 
-          onSubmit={handleCreatePoll}
-          onCancel={() => setIsCreatingPoll(false)}
+          // Remount when switching polls so the form starts from the right values.
+          key={editingPoll?.id ?? 'new'}
+          poll={editingPoll ?? undefined}
+          onSubmit={handleSubmitPoll}
+          onCancel={closeForm}
         />
       ) : (
         <>
           <div className="flex justify-between items-center mb-6">
-            <h2 className="text-3xl font-bold text-slate-800 dark:text-white">Active Polls</h2>
-            {user && (
+            <h2 className="text-3xl font-bold text-slate-800 dark:text-white">{t('dashboard.title')}</h2>
+            <div className="flex items-center space-x-2 rtl:space-x-reverse">
               <button
-                onClick={() => setIsCreatingPoll(true)}
-                className="flex items-center bg-blue-600 text-white px-4 py-2 rounded-md font-semibold hover:bg-blue-700 transition-colors"
+                onClick={handleBackup}
+                className="px-4 py-2 rounded-md font-semibold text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-600 hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors"
               >
-                <PlusIcon className="h-5 w-5 mr-2" />
-                Create Poll
+                {t('dashboard.backup')}
               </button>
-            )}
+              {user && (
+                <>
+                  <Link
+                    to={paths.join()}
+                    className="px-4 py-2 rounded-md font-semibold text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-600 hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors"
+                  >
+                    {t('dashboard.joinPoll')}
+                  </Link>
+                  <button
+                    onClick={() => setIsImporting(true)}
+                    className="px-4 py-2 rounded-md font-semibold text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-600 hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors"
+                  >
+                    {t('dashboard.import')}
+                  </button>
+                  <button
+                    onClick={() => setIsCreatingPoll(true)}
+                    className="flex items-center bg-blue-600 text-white px-4 py-2 rounded-md font-semibold hover:bg-blue-700 transition-colors"
+                  >
+                    <PlusIcon className="h-5 w-5 me-2" />
+                    {t('dashboard.createPoll')}
+                  </button>
+                </>
+              )}
+            </div>
           </div>
-          {polls.length > 0 ? (
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-              {polls.map((poll) => (
-                <PollCard key={poll.id} poll={poll} onVote={handleVote} />
-              ))}
+          <PollToolbar
+            filters={filters}
+            onChange={setFilters}
+            searchText={searchText}
+            onSearchTextChange={setSearchText}
+            userId={user?.id}
+          />
+          {createError && (
+            <div role="alert" className="mb-6 flex items-start justify-between gap-3 rounded-md bg-red-50 dark:bg-red-900/30 px-4 py-3 text-sm text-red-700 dark:text-red-300">
+              <p>{t('dashboard.createFailed', { question: createError.question, reason: errorMessage(createError.error, 'form.createFailed') })}</p>
+              <button onClick={() => setCreateError(null)} className="shrink-0 font-medium hover:underline">
+                {t('dashboard.dismiss')}
+              </button>
+            </div>
+          )}
+          {error ? (
+            <div className="text-center p-10 text-red-500">{t('dashboard.error', { message: errorMessage(error, 'dashboard.fetchFailed') })}</div>
+          ) : isLoading && polls.length === 0 ? (
+            <div className="text-center p-10 text-slate-500 dark:text-slate-400">{t('dashboard.loading')}</div>
+          ) : polls.length > 0 ? (
+            <>
+              {/* Keep the current results on screen, dimmed, while a new query loads. */}
+              <div className={`grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 transition-opacity ${isLoading ? 'opacity-50' : ''}`}>
+                {polls.map((poll) => (
+                  <PollCard
+                    key={poll.id}
+                    poll={poll}
+                    {...pollActions}
+                    onEdit={setEditingPoll}
+                    isSaving={isSaving(poll.id)}
+                  />
+                ))}
+              </div>
+              <div ref={loadMoreRef} className="mt-8 text-center text-sm text-slate-500 dark:text-slate-400">
+                <p>{t('dashboard.showing', { shown: polls.length, total: Math.max(total, polls.length) })}</p>
+                {nextCursor && (
+                  <button
+                    onClick={loadMore}
+                    disabled={isLoadingMore}
+                    className="mt-3 px-4 py-2 rounded-md font-semibold text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-600 hover:bg-slate-50 dark:hover:bg-slate-700 disabled:opacity-50 transition-colors"
+                  >
+                    {isLoadingMore ? t('dashboard.loadingMore') : t('dashboard.loadMore')}
+                  </button>
+                )}
+              </div>
+            </>
+          ) : hasFilters ? (
+            <div className="text-center py-16 px-6 bg-white dark:bg-slate-800 rounded-lg shadow-md">
+                <h3 className="text-xl font-semibold text-slate-700 dark:text-slate-200">{t('dashboard.noMatches')}</h3>
+                <p className="mt-2 text-slate-500 dark:text-slate-400">{t('dashboard.noMatchesHint')}</p>
             </div>
           ) : (
             <div className="text-center py-16 px-6 bg-white dark:bg-slate-800 rounded-lg shadow-md">
-                <h3 className="text-xl font-semibold text-slate-700 dark:text-slate-200">No polls available right now.</h3>
-                <p className="mt-2 text-slate-500 dark:text-slate-400">Why not create the first one?</p>
+                <h3 className="text-xl font-semibold text-slate-700 dark:text-slate-200">{t('dashboard.empty')}</h3>
+                <p className="mt-2 text-slate-500 dark:text-slate-400">{t('dashboard.emptyHint')}</p>
             </div>
           )}
         </>
@@ -0,0 +1,23 @@
+
+import React from 'react';
+import type { FieldError } from '../services/errors';
+import { useI18n } from '../hooks/useI18n';
+
+interface FieldMessageProps {
+  /** The element ID, so the input can point at it with `aria-describedby`. */
+  id: string;
+  error?: FieldError;
+}
+
+/**
+ * The error shown under a form field, in the user's language. Renders nothing when the field is valid.
+ */
+export const FieldMessage: React.FC<FieldMessageProps> = ({ id, error }) => {
+  const { errorMessage } = useI18n();
+  if (!error) return null;
+  return (
+    <p id={id} role="alert" className="mt-1 text-sm text-red-500">
+      {errorMessage(error, 'form.invalidField')}
+    </p>
+  );
+};
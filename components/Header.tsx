@@ -2,63 +2,88 @@ import React from 'react';
 import { useAuth } from '../hooks/useAuth';
 import { UserCircleIcon } from './icons/UserCircleIcon';
 import { LogoutIcon } from './icons/LogoutIcon';
-// FIX: Changed type-only import to value import to use AppView enum.
+import { useRouter } from '../hooks/useRouter';
+import { useI18n } from '../hooks/useI18n';
 import { AppView } from '../types';
-
-interface HeaderProps {
-  setView: (view: AppView) => void;
-}
+import { paths } from '../services/routes';
+import { isModerator } from '../services/moderation';
+import { LOCALES, type Locale } from '../services/i18n';
+import { Link } from './Link';
 
 /**
  * Header component for the ALX Polly application.
- * It provides navigation and displays the current user's authentication status.
+ * It provides navigation, displays the current user's authentication status and lets the
+ * user switch the interface language.
  * The `useAuth` hook is used here to conditionally render UI elements
  * based on whether a user is logged in, which is a common and powerful pattern in React.
  */
-export const Header: React.FC<HeaderProps> = ({ setView }) => {
+export const Header: React.FC = () => {
   const { user, signOut: performSignOut } = useAuth();
+  const { route, navigate } = useRouter();
+  const { t, locale, setLocale } = useI18n();
+
+  const navLinkClassName = (active: boolean) => active
+    ? 'text-slate-900 dark:text-white font-medium'
+    : 'text-slate-500 dark:text-slate-300 hover:text-slate-700 dark:hover:text-white';
 
   return (
     <header className="bg-white dark:bg-slate-800 shadow-md sticky top-0 z-10">
       <div className="container mx-auto px-4 sm:px-6 lg:px-8">
         <div className="flex items-center justify-between h-16">
-          <div className="flex items-center space-x-4">
-            <h1
-              className="text-2xl font-bold text-slate-800 dark:text-white cursor-pointer"
-              // FIX: Use AppView enum instead of string literal.
-              onClick={() => setView(AppView.Dashboard)}
-            >
-              ALX Polly
+          <div className="flex items-center space-x-4 rtl:space-x-reverse">
+            <h1 className="text-2xl font-bold text-slate-800 dark:text-white">
+              <Link to={paths.dashboard()}>ALX Polly</Link>
             </h1>
-            <nav className="hidden md:flex space-x-4">
-               {/* FIX: Use AppView enum instead of string literal. */}
-               <a href="#" onClick={(e) => { e.preventDefault(); setView(AppView.Dashboard); }} className="text-slate-500 dark:text-slate-300 hover:text-slate-700 dark:hover:text-white">Dashboard</a>
-               {/* FIX: Use AppView enum instead of string literal. */}
-               <a href="#" onClick={(e) => { e.preventDefault(); setView(AppView.About); }} className="text-slate-500 dark:text-slate-300 hover:text-slate-700 dark:hover:text-white">About</a>
+            <nav className="hidden md:flex space-x-4 rtl:space-x-reverse">
+               <Link to={paths.dashboard()} className={navLinkClassName(route.view === AppView.Dashboard)}>{t('header.dashboard')}</Link>
+               {user && (
+                 <Link
+                   to={paths.user(user.id)}
+                   className={navLinkClassName(route.view === AppView.User && route.params.userId === user.id)}
+                 >
+                   {t('header.myPolls')}
+                 </Link>
+               )}
+               <Link to={paths.tags()} className={navLinkClassName(route.view === AppView.Tags)}>{t('header.tags')}</Link>
+               {isModerator(user) && (
+                 <Link to={paths.moderation()} className={navLinkClassName(route.view === AppView.Moderation)}>{t('header.moderation')}</Link>
+               )}
+               <Link to={paths.about()} className={navLinkClassName(route.view === AppView.About)}>{t('header.about')}</Link>
             </nav>
           </div>
-          <div className="flex items-center space-x-4">
+          <div className="flex items-center space-x-4 rtl:space-x-reverse">
+            <select
+              value={locale}
+              onChange={(e) => setLocale(e.target.value as Locale)}
+              aria-label={t('header.language')}
+              className="rounded-md border border-slate-300 dark:border-slate-600 px-2 py-1 text-sm text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 focus:border-blue-500 focus:outline-none focus:ring-blue-500"
+            >
+              {(Object.keys(LOCALES) as Locale[]).map(code => (
+                // Each language is named in itself, so users can find theirs whatever is showing.
+                <option key={code} value={code} lang={code}>{LOCALES[code].name}</option>
+              ))}
+            </select>
             {user ? (
               <>
-                <div className="flex items-center space-x-2">
+                <div className="flex items-center space-x-2 rtl:space-x-reverse">
                   <UserCircleIcon className="h-6 w-6 text-slate-500 dark:text-slate-300" />
                   <span className="text-slate-700 dark:text-slate-200 font-medium hidden sm:block">{user.username}</span>
                 </div>
                 <button
                   onClick={performSignOut}
                   className="p-2 rounded-full text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700"
-                  aria-label="Sign out"
+                  aria-label={t('header.signOut')}
                 >
                   <LogoutIcon className="h-6 w-6" />
                 </button>
               </>
             ) : (
               <button
-                // FIX: Use AppView enum instead of string literal.
-                onClick={() => setView(AppView.Login)}
+                // Remember where the user was so they land back there after signing in.
+                onClick={() => navigate(route.view === AppView.Login ? route.path : paths.login(route.path))}
                 className="bg-blue-600 text-white px-4 py-2 rounded-md font-semibold hover:bg-blue-700 transition-colors"
               >
-                Login
+                {t('header.login')}
               </button>
             )}
           </div>
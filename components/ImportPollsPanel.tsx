@@ -0,0 +1,155 @@
+
+import React, { useState } from 'react';
+import * as pollService from '../services/pollService';
+import type { Poll } from '../types';
+import type { ImportConflictStrategy, ImportResult } from '../services/repositories';
+import { parsePollImport } from '../services/pollExport';
+import { useAuth } from '../hooks/useAuth';
+import { useI18n } from '../hooks/useI18n';
+
+interface ImportPollsPanelProps {
+  onClose: () => void;
+}
+
+/** What can be done with a poll that already exists; each is shown through `import.conflict.*`. */
+const CONFLICT_CHOICES: ImportConflictStrategy[] = ['skip', 'replace', 'copy'];
+
+/**
+ * Lets the user import polls from a JSON backup, an exported poll, or a results CSV.
+ * The file is read in the browser; the polls are then validated and merged by the poll service,
+ * and the panel reports which polls were imported and why any were left out.
+ */
+export const ImportPollsPanel: React.FC<ImportPollsPanelProps> = ({ onClose }) => {
+  const { user } = useAuth();
+  const { t, errorMessage } = useI18n();
+  const [records, setRecords] = useState<Partial<Poll>[] | null>(null);
+  const [onConflict, setOnConflict] = useState<ImportConflictStrategy>('skip');
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+
+  /**
+   * Reads the chosen file and lists how many polls it contains.
+   * @param {React.ChangeEvent<HTMLInputElement>} e - The file input's change event.
+   */
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setRecords(null);
+    setResult(null);
+    setError(null);
+    if (!file) return;
+
+    try {
+      setRecords(parsePollImport(file.name, await file.text()));
+    } catch (err: any) {
+      setError(errorMessage(err, 'import.readFailed'));
+    }
+  };
+
+  /**
+   * Sends the polls read from the file to the poll service and shows the outcome.
+   * @param {React.FormEvent} e - The form submission event.
+   */
+  const handleImport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!records) return;
+    if (!user) {
+      setError(t('error.loginRequired'));
+      return;
+    }
+
+    setIsImporting(true);
+    setError(null);
+    try {
+      setResult(await pollService.importPolls(records, user.id, onConflict));
+      setRecords(null);
+    } catch (err: any) {
+      setError(errorMessage(err, 'import.failed'));
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 p-6 sm:p-8 rounded-lg shadow-xl max-w-2xl mx-auto">
+      <h2 className="text-2xl font-bold text-slate-800 dark:text-white mb-2">{t('import.title')}</h2>
+      <p className="text-sm text-slate-500 dark:text-slate-400 mb-6">
+        {t('import.intro')}
+      </p>
+
+      <form onSubmit={handleImport} className="space-y-6">
+        <input
+          type="file"
+          accept=".json,.csv,application/json,text/csv"
+          onChange={handleFileChange}
+          className="block w-full text-sm text-slate-600 dark:text-slate-300 file:mr-4 file:rounded-md file:border-0 file:bg-slate-100 dark:file:bg-slate-700 file:px-4 file:py-2 file:font-semibold"
+        />
+
+        {records && (
+          <fieldset>
+            <legend className="text-sm font-medium text-slate-700 dark:text-slate-200 mb-2">
+              {t('import.found', { count: records.length })}
+            </legend>
+            <div className="space-y-1">
+              {CONFLICT_CHOICES.map(choice => (
+                <label key={choice} className="flex items-center text-sm text-slate-700 dark:text-slate-300">
+                  <input
+                    type="radio"
+                    name="onConflict"
+                    value={choice}
+                    checked={onConflict === choice}
+                    onChange={() => setOnConflict(choice)}
+                    className="me-2"
+                  />
+                  {t(`import.conflict.${choice}`)}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+        )}
+
+        {error && <p className="text-sm text-red-500">{error}</p>}
+
+        {result && (
+          <div className="text-sm space-y-2">
+            <p className="font-semibold text-green-600 dark:text-green-400">
+              {t('import.imported', { count: result.imported.length })}
+            </p>
+            {result.skipped.length > 0 && (
+              <>
+                <p className="font-semibold text-amber-600 dark:text-amber-400">
+                  {t('import.skipped', { count: result.skipped.length })}
+                </p>
+                <ul className="list-disc ps-5 text-slate-600 dark:text-slate-300">
+                  {result.skipped.map((skipped, i) => (
+                    <li key={i}>
+                      <span className="font-medium">{skipped.question || t('import.noQuestion')}</span>
+                      {' '}&mdash; {errorMessage({ code: skipped.code, params: skipped.params, message: skipped.reason }, 'import.pollFailed')}
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-4">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm hover:bg-slate-50 dark:hover:bg-slate-600"
+          >
+            {result ? t('import.done') : t('import.cancel')}
+          </button>
+          <button
+            type="submit"
+            disabled={!records || isImporting}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md shadow-sm hover:bg-blue-700 disabled:bg-slate-400 disabled:cursor-not-allowed"
+          >
+            {isImporting ? t('import.importing') : t('import.submit')}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,124 @@
+
+import React, { useState, useEffect, useRef } from 'react';
+import * as pollService from '../services/pollService';
+import { paths } from '../services/routes';
+import { ValidationError, type FieldErrors } from '../services/errors';
+import { ACCESS_CODE_LENGTH } from '../services/pollAccess';
+import { useAuth } from '../hooks/useAuth';
+import { useRouter } from '../hooks/useRouter';
+import { useI18n } from '../hooks/useI18n';
+import { FieldMessage } from './FieldMessage';
+import { Link } from './Link';
+
+interface JoinPollPageProps {
+  /** The code from an invite link (`/join/:code`), which is used straight away. */
+  code?: string;
+}
+
+/**
+ * Joins an invite-only poll with its invite code, then opens the poll. The code can be typed in
+ * at `/join`, or come from an invite link, which joins in one step. Visitors are asked to sign in
+ * first and brought back here afterwards, since access is granted to an account.
+ */
+export const JoinPollPage: React.FC<JoinPollPageProps> = ({ code: linkCode }) => {
+  const { user } = useAuth();
+  const { route, navigate } = useRouter();
+  const { t, errorMessage } = useI18n();
+  const [code, setCode] = useState(linkCode ?? '');
+  const [isJoining, setIsJoining] = useState(false);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [error, setError] = useState<string | null>(null);
+  // An invite link is only followed once, so an invalid code is not retried on every render.
+  const followedLink = useRef<string | null>(null);
+
+  /**
+   * Joins the poll and opens it.
+   * @param {string} codeToUse - The invite code.
+   */
+  const join = async (codeToUse: string) => {
+    if (!user) return;
+    setIsJoining(true);
+    setFieldErrors({});
+    setError(null);
+    try {
+      const poll = await pollService.joinPoll(codeToUse, user.id);
+      navigate(paths.poll(poll.id), { replace: true });
+    } catch (err: any) {
+      if (err instanceof ValidationError) {
+        setFieldErrors(err.fields);
+      } else {
+        setError(errorMessage(err, 'join.failed'));
+      }
+    } finally {
+      setIsJoining(false);
+    }
+  };
+
+  useEffect(() => {
+    if (user && linkCode && followedLink.current !== linkCode) {
+      followedLink.current = linkCode;
+      setCode(linkCode);
+      join(linkCode);
+    }
+  }, [user, linkCode]);
+
+  /**
+   * Joins with the typed code.
+   * @param {React.FormEvent} e - The form submission event.
+   */
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    join(code);
+  };
+
+  // The login link sits inside a translated sentence, whose word order differs between languages.
+  const [loginBefore, loginAfter] = t('join.loginRequired', { link: '\u0000' }).split('\u0000');
+
+  return (
+    <div className="flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+      <div className="w-full max-w-md space-y-6 p-10 bg-white dark:bg-slate-800 rounded-xl shadow-lg">
+        <div>
+          <h2 className="text-center text-3xl font-bold tracking-tight text-slate-900 dark:text-white">{t('join.title')}</h2>
+          <p className="mt-2 text-center text-sm text-slate-600 dark:text-slate-400">{t('join.intro')}</p>
+        </div>
+        {!user ? (
+          <p className="text-center text-sm text-slate-600 dark:text-slate-300">
+            {loginBefore}
+            <Link to={paths.login(route.path)} className="font-medium text-blue-600 dark:text-blue-400 hover:underline">{t('poll.loginLink')}</Link>
+            {loginAfter}
+          </p>
+        ) : (
+          <form className="space-y-4" onSubmit={handleSubmit} noValidate>
+            <div>
+              <label htmlFor="accessCode" className="block text-sm font-medium text-slate-700 dark:text-slate-300">
+                {t('join.code')}
+              </label>
+              <input
+                id="accessCode"
+                type="text"
+                autoComplete="off"
+                autoCapitalize="characters"
+                spellCheck={false}
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                placeholder={'X'.repeat(ACCESS_CODE_LENGTH)}
+                className={`mt-1 block w-full rounded-md border ${fieldErrors.code ? 'border-red-500' : 'border-slate-300 dark:border-slate-600'} px-3 py-2 font-mono tracking-widest uppercase text-slate-900 dark:text-slate-200 bg-white dark:bg-slate-700 focus:border-blue-500 focus:outline-none focus:ring-blue-500 sm:text-sm`}
+                aria-invalid={Boolean(fieldErrors.code)}
+                aria-describedby={fieldErrors.code ? 'accessCode-error' : undefined}
+              />
+              <FieldMessage id="accessCode-error" error={fieldErrors.code} />
+            </div>
+            {error && <p className="text-sm text-red-500 text-center" role="alert">{error}</p>}
+            <button
+              type="submit"
+              disabled={isJoining || !code.trim()}
+              className="flex w-full justify-center rounded-md bg-blue-600 py-2 px-4 text-sm font-medium text-white hover:bg-blue-700 disabled:bg-slate-400"
+            >
+              {isJoining ? t('join.joining') : t('join.submit')}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
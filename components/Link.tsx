@@ -0,0 +1,19 @@
+
+import React from 'react';
+import { toHref } from '../services/routes';
+
+interface LinkProps extends Omit<React.AnchorHTMLAttributes<HTMLAnchorElement>, 'href'> {
+  to: string;
+}
+
+/**
+ * An anchor to another page of the app.
+ * It renders a real `href`, so links can be opened in a new tab, copied and bookmarked;
+ * following it changes the URL hash, which the router picks up.
+ * @param {string} to - The in-app path to link to, built with `paths`.
+ */
+export const Link: React.FC<LinkProps> = ({ to, className, children, ...rest }) => (
+  <a href={toHref(to)} className={className} {...rest}>
+    {children}
+  </a>
+);
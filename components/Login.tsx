@@ -1,22 +1,42 @@
 
 import React, { useState } from 'react';
 import { useAuth } from '../hooks/useAuth';
-import type { AppView } from '../types';
+import { useI18n } from '../hooks/useI18n';
+import { ValidationError, type FieldErrors } from '../services/errors';
+import { FieldMessage } from './FieldMessage';
 
 interface LoginProps {
   onLoginSuccess: () => void;
 }
+
 /**
  * Login view component.
- * Allows users to sign in with a username. This component is intentionally simple
- * to focus on the core app logic, but in a real-world scenario, it would
- * handle passwords and more complex authentication flows.
+ * Allows users to sign in to an existing account, or switch to sign-up mode to register
+ * a new one. Both modes share the same form; sign-up only adds a password confirmation.
  */
 export const Login: React.FC<LoginProps> = ({ onLoginSuccess }) => {
-  const { signIn } = useAuth();
+  const { signIn, register } = useAuth();
+  const { t, errorMessage } = useI18n();
+  const [mode, setMode] = useState<'signIn' | 'signUp'>('signIn');
   const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Problems with a particular field (e.g. a taken username), shown under that field.
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+
+  const isSignUp = mode === 'signUp';
+
+  /**
+   * Switches between signing in and signing up, clearing any error from the other mode.
+   */
+  const toggleMode = () => {
+    setMode(isSignUp ? 'signIn' : 'signUp');
+    setError(null);
+    setFieldErrors({});
+    setConfirmPassword('');
+  };
 
   /**
    * Handles the login form submission.
@@ -24,46 +44,120 @@ export const Login: React.FC<LoginProps> = ({ onLoginSuccess }) => {
    */
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
+    // Catch typos before they become a password the user cannot remember.
+    if (isSignUp && password !== confirmPassword) {
+      setError(null);
+      setFieldErrors({ confirmPassword: { code: 'passwordsDoNotMatch' } });
+      return;
+    }
     setIsLoading(true);
     setError(null);
+    setFieldErrors({});
     try {
-      await signIn(username);
+      if (isSignUp) {
+        await register(username, password);
+      } else {
+        await signIn(username, password);
+      }
       onLoginSuccess();
     } catch (err: any) {
-      setError(err.message || 'An error occurred during login.');
+      if (err instanceof ValidationError) {
+        setFieldErrors(err.fields);
+      } else {
+        setError(errorMessage(err, 'login.failed'));
+      }
     } finally {
       setIsLoading(false);
     }
   };
 
+  /**
+   * The classes for an input, with a red border while its field has an error.
+   * @param {string} field - The field's name, as used in `fieldErrors`.
+   * @returns {string} The class names.
+   */
+  const inputClassName = (field: string): string =>
+    `relative block w-full appearance-none rounded-md border ${fieldErrors[field] ? 'border-red-500' : 'border-slate-300 dark:border-slate-600'} px-3 py-2 text-slate-900 dark:text-slate-200 bg-white dark:bg-slate-700 placeholder-slate-500 focus:z-10 focus:border-blue-500 focus:outline-none focus:ring-blue-500 sm:text-sm`;
+
   return (
     <div className="flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
       <div className="w-full max-w-md space-y-8 p-10 bg-white dark:bg-slate-800 rounded-xl shadow-lg">
         <div>
           <h2 className="mt-6 text-center text-3xl font-bold tracking-tight text-slate-900 dark:text-white">
-            Sign in to ALX Polly
+            {isSignUp ? t('login.signUpTitle') : t('login.signInTitle')}
           </h2>
           <p className="mt-2 text-center text-sm text-slate-600 dark:text-slate-400">
-            Enter any username to continue
+            {isSignUp ? t('login.haveAccount') : t('login.newHere')}{' '}
+            <button
+              type="button"
+              onClick={toggleMode}
+              className="font-medium text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300"
+            >
+              {isSignUp ? t('login.signIn') : t('login.createAccount')}
+            </button>
           </p>
         </div>
-        <form className="mt-8 space-y-6" onSubmit={handleLogin}>
+        <form className="mt-8 space-y-4" onSubmit={handleLogin}>
           <div>
             <label htmlFor="username" className="sr-only">
-              Username
+              {t('login.username')}
             </label>
             <input
               id="username"
               name="username"
               type="text"
+              autoComplete="username"
               required
               value={username}
               onChange={(e) => setUsername(e.target.value)}
-              className="relative block w-full appearance-none rounded-md border border-slate-300 dark:border-slate-600 px-3 py-2 text-slate-900 dark:text-slate-200 bg-white dark:bg-slate-700 placeholder-slate-500 focus:z-10 focus:border-blue-500 focus:outline-none focus:ring-blue-500 sm:text-sm"
-              placeholder="Username"
+              className={inputClassName('username')}
+              placeholder={t('login.username')}
+              aria-invalid={Boolean(fieldErrors.username)}
+              aria-describedby={fieldErrors.username ? 'username-error' : undefined}
+            />
+            <FieldMessage id="username-error" error={fieldErrors.username} />
+          </div>
+          <div>
+            <label htmlFor="password" className="sr-only">
+              {t('login.password')}
+            </label>
+            <input
+              id="password"
+              name="password"
+              type="password"
+              autoComplete={isSignUp ? 'new-password' : 'current-password'}
+              required
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className={inputClassName('password')}
+              placeholder={t('login.password')}
+              aria-invalid={Boolean(fieldErrors.password)}
+              aria-describedby={fieldErrors.password ? 'password-error' : undefined}
             />
+            <FieldMessage id="password-error" error={fieldErrors.password} />
           </div>
-          
+          {isSignUp && (
+            <div>
+              <label htmlFor="confirmPassword" className="sr-only">
+                {t('login.confirmPassword')}
+              </label>
+              <input
+                id="confirmPassword"
+                name="confirmPassword"
+                type="password"
+                autoComplete="new-password"
+                required
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                className={inputClassName('confirmPassword')}
+                placeholder={t('login.confirmPassword')}
+                aria-invalid={Boolean(fieldErrors.confirmPassword)}
+                aria-describedby={fieldErrors.confirmPassword ? 'confirmPassword-error' : undefined}
+              />
+              <FieldMessage id="confirmPassword-error" error={fieldErrors.confirmPassword} />
+            </div>
+          )}
+
           {error && <p className="text-sm text-red-500 text-center">{error}</p>}
 
           <div>
@@ -72,7 +166,9 @@ export const Login: React.FC<LoginProps> = ({ onLoginSuccess }) => {
               disabled={isLoading}
               className="group relative flex w-full justify-center rounded-md border border-transparent bg-blue-600 py-2 px-4 text-sm font-medium text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 dark:focus:ring-offset-slate-800 disabled:bg-slate-400"
             >
-              {isLoading ? 'Signing in...' : 'Sign in'}
+              {isSignUp
+                ? (isLoading ? t('login.creatingAccount') : t('login.signUp'))
+                : (isLoading ? t('login.signingIn') : t('login.signIn'))}
             </button>
           </div>
         </form>
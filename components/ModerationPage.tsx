@@ -0,0 +1,374 @@
+
+import React, { useState, useEffect, useMemo } from 'react';
+import * as pollService from '../services/pollService';
+import type { AuditEntry, Poll, Report, User, UserRole } from '../types';
+import { USER_ROLES, isAdmin, isModerator } from '../services/moderation';
+import { paths } from '../services/routes';
+import { useAuth } from '../hooks/useAuth';
+import { useI18n } from '../hooks/useI18n';
+import { Link } from './Link';
+
+type ModerationTab = 'reports' | 'users' | 'audit';
+
+/**
+ * The reports about one poll, shown together so a moderator deals with the poll once.
+ */
+interface ReportGroup {
+  pollId: string;
+  question: string;
+  reports: Report[]; // newest first
+}
+
+const tabClassName = (active: boolean) => `px-4 py-2 text-sm font-medium rounded-md ${active
+  ? 'bg-blue-600 text-white'
+  : 'text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700'}`;
+const actionClassName = "font-medium text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 disabled:opacity-50";
+const dangerClassName = "font-medium text-red-600 dark:text-red-400 hover:text-red-800 dark:hover:text-red-300 disabled:opacity-50";
+const cellClassName = "px-4 py-2 text-sm text-slate-700 dark:text-slate-300";
+
+/**
+ * The moderation view, reached through `/moderation` by moderators and admins.
+ * - Reports: the polls users have reported, with their reports grouped together. Each poll can be
+ *   hidden or deleted, its reports dismissed, and its creator suspended.
+ * - Users: every account, to suspend or reinstate users and, for admins, to change roles.
+ * - Audit log (admins only): every moderator action, newest first.
+ * The service checks every action again, so this page only decides what to offer.
+ */
+export const ModerationPage: React.FC = () => {
+  const { user } = useAuth();
+  const { t, formatDate, errorMessage } = useI18n();
+  const [tab, setTab] = useState<ModerationTab>('reports');
+  const [reports, setReports] = useState<Report[]>([]);
+  const [pollsById, setPollsById] = useState<Record<string, Poll>>({});
+  const [users, setUsers] = useState<User[]>([]);
+  const [auditLog, setAuditLog] = useState<AuditEntry[]>([]);
+  const [showResolved, setShowResolved] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // The poll, report or user an action is running on, so only its buttons are disabled.
+  const [busyId, setBusyId] = useState<string | null>(null);
+  // Bumped after every action, so the current tab is loaded again with its results.
+  const [reloadKey, setReloadKey] = useState(0);
+
+  const canModerate = isModerator(user);
+
+  // Load what the current tab shows, ignoring stale responses.
+  useEffect(() => {
+    if (!user || !canModerate) return;
+    let ignore = false;
+    setIsLoading(true);
+    setError(null);
+
+    const load = async () => {
+      if (tab === 'reports') {
+        const [fetchedReports, { polls }, fetchedUsers] = await Promise.all([
+          pollService.getReports(user.id),
+          pollService.getPolls({}, user.id),
+          pollService.getUsers(user.id),
+        ]);
+        if (ignore) return;
+        setReports(fetchedReports);
+        setPollsById(Object.fromEntries(polls.map(poll => [poll.id, poll])));
+        setUsers(fetchedUsers);
+      } else if (tab === 'users') {
+        const fetchedUsers = await pollService.getUsers(user.id);
+        if (!ignore) setUsers(fetchedUsers);
+      } else {
+        const fetchedLog = await pollService.getAuditLog(user.id);
+        if (!ignore) setAuditLog(fetchedLog);
+      }
+    };
+
+    load()
+      .catch((err: any) => {
+        if (!ignore) setError(errorMessage(err, 'moderation.loadFailed'));
+      })
+      .finally(() => {
+        if (!ignore) setIsLoading(false);
+      });
+    return () => {
+      ignore = true;
+    };
+  }, [tab, reloadKey, user, canModerate]);
+
+  const groups: ReportGroup[] = useMemo(() => {
+    const byPoll = new Map<string, ReportGroup>();
+    reports
+      .filter(report => showResolved || report.status === 'open')
+      .forEach(report => {
+        const group = byPoll.get(report.pollId) ?? { pollId: report.pollId, question: report.pollQuestion, reports: [] };
+        group.reports.push(report);
+        byPoll.set(report.pollId, group);
+      });
+    // Reports arrive newest first, so the most recently reported poll comes first too.
+    return [...byPoll.values()];
+  }, [reports, showResolved]);
+
+  const usernameOf = (userId: string) => users.find(u => u.id === userId)?.username ?? t('poll.userName', { id: userId.slice(-4) });
+
+  /**
+   * Runs a moderation action, then reloads the current tab to show its effect.
+   * @param {string} targetId - The poll, report or user being acted on.
+   * @param {() => Promise<unknown>} action - The action to run.
+   */
+  const runAction = async (targetId: string, action: () => Promise<unknown>) => {
+    setBusyId(targetId);
+    setError(null);
+    try {
+      await action();
+      setReloadKey(key => key + 1);
+    } catch (err: any) {
+      setError(errorMessage(err, 'moderation.actionFailed'));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (!user || !canModerate) {
+    return (
+      <div className="text-center p-10">
+        <h2 className="text-2xl font-bold text-slate-800 dark:text-white">{t('moderation.moderatorsOnly')}</h2>
+        <p className="mt-2 text-slate-500 dark:text-slate-400">
+          {user ? t('moderation.cannotModerate') : t('moderation.loginPrompt')}
+        </p>
+        {!user && (
+          <Link to={paths.login(paths.moderation())} className="mt-4 inline-block text-blue-600 dark:text-blue-400 hover:underline">
+            {t('moderation.login')}
+          </Link>
+        )}
+      </div>
+    );
+  }
+
+  // The creator's name is a link inside a translated sentence, whose word order differs between languages.
+  const [createdByBefore, createdByAfter] = t('moderation.createdBy', { name: '\u0000' }).split('\u0000');
+
+  /**
+   * Renders the reports about one poll, with the actions that can be taken on it.
+   * @param {ReportGroup} group - The poll and its reports.
+   * @returns {JSX.Element} The group's card.
+   */
+  const renderGroup = ({ pollId, question, reports: pollReports }: ReportGroup) => {
+    const poll = pollsById[pollId];
+    const creator = poll ? users.find(u => u.id === poll.createdBy) : undefined;
+    const openReports = pollReports.filter(r => r.status === 'open');
+    const isBusy = busyId === pollId;
+    // Moderators may suspend ordinary users; suspending moderators and admins is left to admins.
+    const canSuspendCreator = creator && !creator.suspended && creator.id !== user.id && (creator.role === 'user' || isAdmin(user));
+
+    return (
+      <li key={pollId} className="bg-white dark:bg-slate-800 rounded-lg shadow-md p-6">
+        <div className="flex flex-wrap items-baseline justify-between gap-2">
+          <h3 className="text-lg font-semibold text-slate-800 dark:text-white">
+            {poll ? (
+              <Link to={paths.poll(pollId)} className="hover:text-blue-600 dark:hover:text-blue-400">{poll.question}</Link>
+            ) : question}
+          </h3>
+          <span className="text-xs uppercase tracking-wide font-semibold">
+            {!poll && <span className="text-slate-400">{t('moderation.deleted')}</span>}
+            {poll?.hidden && <span className="text-amber-600 dark:text-amber-400">{t('moderation.hidden')}</span>}
+          </span>
+        </div>
+        {poll && (
+          <p className="text-sm text-slate-500 dark:text-slate-400">
+            {createdByBefore}
+            <Link to={paths.user(poll.createdBy)} className="hover:text-blue-600 dark:hover:text-blue-400">{usernameOf(poll.createdBy)}</Link>
+            {createdByAfter}
+            {creator?.suspended && <span className="ms-1 text-red-500">{t('moderation.suspendedMark')}</span>}
+          </p>
+        )}
+
+        <ul className="mt-4 space-y-2">
+          {pollReports.map(report => (
+            <li key={report.id} className="text-sm border-l-2 border-slate-200 dark:border-slate-600 pl-3">
+              <span className="font-medium text-slate-700 dark:text-slate-200">{t(`report.reason.${report.reason}`)}</span>
+              <span className="text-slate-400">
+                {' '}{t('moderation.reportedBy', { name: usernameOf(report.reporterId), date: formatDate(report.createdAt) })}
+                {report.status !== 'open' && ` ${t(`moderation.reportStatus.${report.status}`)}`}
+              </span>
+              {report.details && <p className="mt-0.5 whitespace-pre-wrap break-words text-slate-600 dark:text-slate-300">{report.details}</p>}
+            </li>
+          ))}
+        </ul>
+
+        <div className="mt-4 flex flex-wrap gap-x-4 gap-y-2 text-sm">
+          {poll && (
+            <button
+              onClick={() => runAction(pollId, () => pollService.setPollHidden(pollId, !poll.hidden, user.id))}
+              disabled={isBusy}
+              className={actionClassName}
+            >
+              {poll.hidden ? t('moderation.unhidePoll') : t('moderation.hidePoll')}
+            </button>
+          )}
+          {openReports.length > 0 && (
+            <button
+              onClick={() => runAction(pollId, async () => {
+                for (const report of openReports) await pollService.dismissReport(report.id, user.id);
+              })}
+              disabled={isBusy}
+              className={actionClassName}
+            >
+              {t('moderation.dismissReports', { count: openReports.length })}
+            </button>
+          )}
+          {canSuspendCreator && (
+            <button
+              onClick={() => runAction(pollId, () => pollService.setUserSuspended(creator.id, true, user.id))}
+              disabled={isBusy}
+              className={dangerClassName}
+            >
+              {t('moderation.suspendUser', { name: creator.username })}
+            </button>
+          )}
+          {poll && (
+            <button
+              onClick={() => {
+                if (window.confirm(t('poll.confirmDelete', { question: poll.question }))) {
+                  runAction(pollId, () => pollService.deletePoll(pollId, user.id));
+                }
+              }}
+              disabled={isBusy}
+              className={dangerClassName}
+            >
+              {t('moderation.deletePoll')}
+            </button>
+          )}
+        </div>
+      </li>
+    );
+  };
+
+  return (
+    <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-8 max-w-4xl">
+      <h2 className="text-3xl font-bold text-slate-800 dark:text-white mb-6">{t('moderation.title')}</h2>
+
+      <div className="flex space-x-2 mb-6" role="tablist">
+        <button role="tab" aria-selected={tab === 'reports'} onClick={() => setTab('reports')} className={tabClassName(tab === 'reports')}>
+          {t('moderation.tab.reports')}
+        </button>
+        <button role="tab" aria-selected={tab === 'users'} onClick={() => setTab('users')} className={tabClassName(tab === 'users')}>
+          {t('moderation.tab.users')}
+        </button>
+        {isAdmin(user) && (
+          <button role="tab" aria-selected={tab === 'audit'} onClick={() => setTab('audit')} className={tabClassName(tab === 'audit')}>
+            {t('moderation.tab.audit')}
+          </button>
+        )}
+      </div>
+
+      {error && <p className="mb-4 text-sm text-red-500">{error}</p>}
+
+      {isLoading ? (
+        <div className="text-center p-10 text-slate-500 dark:text-slate-400">{t('moderation.loading')}</div>
+      ) : tab === 'reports' ? (
+        <>
+          <label className="flex items-center space-x-2 mb-4 text-sm text-slate-600 dark:text-slate-300">
+            <input type="checkbox" checked={showResolved} onChange={(e) => setShowResolved(e.target.checked)} />
+            <span>{t('moderation.showResolved')}</span>
+          </label>
+          {groups.length > 0 ? (
+            <ul className="space-y-4">{groups.map(renderGroup)}</ul>
+          ) : (
+            <div className="text-center py-16 px-6 bg-white dark:bg-slate-800 rounded-lg shadow-md">
+              <h3 className="text-xl font-semibold text-slate-700 dark:text-slate-200">{t('moderation.noReports')}</h3>
+            </div>
+          )}
+        </>
+      ) : tab === 'users' ? (
+        <div className="bg-white dark:bg-slate-800 rounded-lg shadow-md overflow-x-auto">
+          <table className="min-w-full divide-y divide-slate-200 dark:divide-slate-700">
+            <thead className="text-left text-xs uppercase tracking-wide text-slate-400">
+              <tr>
+                <th className="px-4 py-2">{t('moderation.column.user')}</th>
+                <th className="px-4 py-2">{t('moderation.column.role')}</th>
+                <th className="px-4 py-2">{t('moderation.column.status')}</th>
+                <th className="px-4 py-2"><span className="sr-only">{t('moderation.column.actions')}</span></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+              {users.map(account => {
+                const isSelf = account.id === user.id;
+                const canSuspend = !isSelf && (account.role === 'user' || isAdmin(user));
+                return (
+                  <tr key={account.id}>
+                    <td className={cellClassName}>
+                      <Link to={paths.user(account.id)} className="hover:text-blue-600 dark:hover:text-blue-400">{account.username}</Link>
+                      {isSelf && <span className="ms-1 text-slate-400">{t('moderation.you')}</span>}
+                    </td>
+                    <td className={cellClassName}>
+                      {isAdmin(user) && !isSelf ? (
+                        <select
+                          value={account.role}
+                          onChange={(e) => runAction(account.id, () => pollService.setUserRole(account.id, e.target.value as UserRole, user.id))}
+                          disabled={busyId === account.id}
+                          aria-label={t('moderation.roleOf', { name: account.username })}
+                          className="rounded-md border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 px-2 py-1 text-sm"
+                        >
+                          {USER_ROLES.map(role => (
+                            <option key={role} value={role}>{t(`moderation.role.${role}`)}</option>
+                          ))}
+                        </select>
+                      ) : t(`moderation.role.${account.role}`)}
+                    </td>
+                    <td className={cellClassName}>
+                      {account.suspended
+                        ? <span className="text-red-500">{t('moderation.status.suspended')}</span>
+                        : <span className="text-green-600 dark:text-green-400">{t('moderation.status.active')}</span>}
+                    </td>
+                    <td className={`${cellClassName} text-right`}>
+                      {canSuspend && (
+                        <button
+                          onClick={() => runAction(account.id, () => pollService.setUserSuspended(account.id, !account.suspended, user.id))}
+                          disabled={busyId === account.id}
+                          className={account.suspended ? actionClassName : dangerClassName}
+                        >
+                          {account.suspended ? t('moderation.liftSuspension') : t('moderation.suspend')}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      ) : auditLog.length > 0 ? (
+        <div className="bg-white dark:bg-slate-800 rounded-lg shadow-md overflow-x-auto">
+          <table className="min-w-full divide-y divide-slate-200 dark:divide-slate-700">
+            <thead className="text-left text-xs uppercase tracking-wide text-slate-400">
+              <tr>
+                <th className="px-4 py-2">{t('moderation.column.when')}</th>
+                <th className="px-4 py-2">{t('moderation.column.who')}</th>
+                <th className="px-4 py-2">{t('moderation.column.action')}</th>
+                <th className="px-4 py-2">{t('moderation.column.target')}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+              {auditLog.map(entry => (
+                <tr key={entry.id}>
+                  <td className={`${cellClassName} whitespace-nowrap`}>{formatDate(entry.at)}</td>
+                  <td className={cellClassName}>{entry.actorName ?? t('poll.userName', { id: entry.actorId.slice(-4) })}</td>
+                  <td className={cellClassName}>{t(`moderation.action.${entry.action}`)}</td>
+                  <td className={`${cellClassName} break-words`}>
+                    {entry.roleChange
+                      ? t('moderation.roleChange', {
+                        name: entry.details,
+                        from: t(`moderation.role.${entry.roleChange.from}`),
+                        to: t(`moderation.role.${entry.roleChange.to}`),
+                      })
+                      : entry.details}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div className="text-center py-16 px-6 bg-white dark:bg-slate-800 rounded-lg shadow-md">
+          <h3 className="text-xl font-semibold text-slate-700 dark:text-slate-200">{t('moderation.noAuditEntries')}</h3>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,87 @@
+
+import React, { useState } from 'react';
+import type { OutboxEntry } from '../types';
+import * as pollService from '../services/pollService';
+import { paths } from '../services/routes';
+import { useI18n } from '../hooks/useI18n';
+import type { Translator } from '../services/i18n';
+import { Link } from './Link';
+
+interface OutboxNoticeProps {
+  entry: OutboxEntry;
+  /** Whether to link a vote to its poll, for when the notice is shown away from the poll. */
+  showPollLink?: boolean;
+}
+
+/**
+ * Explains what became of a queued operation. The common conflicts of a replayed vote get
+ * their own wording, since "you have already voted" alone would read as if the vote counted.
+ * @param {OutboxEntry} entry - The entry.
+ * @param {Translator} i18n - The translator.
+ * @returns {string} The message to show.
+ */
+const describeEntry = (entry: OutboxEntry, { t, errorMessage }: Translator): string => {
+  const { operation, error } = entry;
+  if (operation.kind === 'createPoll') {
+    return entry.status === 'pending'
+      ? t('outbox.pollPending', { question: operation.question })
+      : t('outbox.pollFailed', { question: operation.question, reason: errorMessage(error, 'poll.unknownError') });
+  }
+  if (entry.status === 'pending') return t('outbox.votePending');
+  switch (error?.code) {
+    case 'alreadyVoted':
+      return t('outbox.voteAlreadyCast');
+    case 'pollClosed':
+      return t('outbox.voteTooLate');
+    default:
+      return t('outbox.voteFailed', { reason: errorMessage(error, 'poll.unknownError') });
+  }
+};
+
+/**
+ * A single line about a vote or new poll that has not reached the server: amber while it waits
+ * to be sent, red with a "Dismiss" button once the server has turned it down.
+ */
+export const OutboxNotice: React.FC<OutboxNoticeProps> = ({ entry, showPollLink = false }) => {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const [isDismissing, setIsDismissing] = useState(false);
+  const isFailed = entry.status === 'failed';
+
+  const handleDismiss = async () => {
+    setIsDismissing(true);
+    try {
+      await pollService.dismissOutboxEntry(entry.id);
+    } finally {
+      setIsDismissing(false);
+    }
+  };
+
+  return (
+    <div
+      role={isFailed ? 'alert' : 'status'}
+      className={`flex items-start justify-between gap-3 text-sm rounded-md px-3 py-2 ${isFailed
+        ? 'bg-red-50 text-red-700 dark:bg-red-900/30 dark:text-red-300'
+        : 'bg-amber-50 text-amber-800 dark:bg-amber-900/30 dark:text-amber-200'}`}
+    >
+      <p>
+        {describeEntry(entry, i18n)}
+        {showPollLink && entry.operation.kind === 'castVote' && (
+          <>
+            {' '}
+            <Link to={paths.poll(entry.operation.pollId)} className="font-medium underline">{t('outbox.viewPoll')}</Link>
+          </>
+        )}
+      </p>
+      {isFailed && (
+        <button
+          onClick={handleDismiss}
+          disabled={isDismissing}
+          className="shrink-0 font-medium hover:underline disabled:opacity-50"
+        >
+          {t('outbox.dismiss')}
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,50 @@
+
+import React, { useState } from 'react';
+import * as pollService from '../services/pollService';
+import { useOutbox } from '../hooks/useOutbox';
+import { useI18n } from '../hooks/useI18n';
+import { OutboxNotice } from './OutboxNotice';
+
+/**
+ * A banner under the header listing the signed-in user's votes and new polls that were made
+ * while the server could not be reached. Pending entries are sent automatically, but the user
+ * can also retry straight away; entries the server turned down stay until they are dismissed,
+ * so a vote is never lost without the user being told. Renders nothing when the outbox is empty.
+ */
+export const OutboxStatus: React.FC = () => {
+  const { t } = useI18n();
+  const entries = useOutbox();
+  const [isRetrying, setIsRetrying] = useState(false);
+  const pendingCount = entries.filter(entry => entry.status === 'pending').length;
+
+  if (entries.length === 0) return null;
+
+  const handleRetry = async () => {
+    setIsRetrying(true);
+    try {
+      await pollService.retryOutbox();
+    } finally {
+      setIsRetrying(false);
+    }
+  };
+
+  return (
+    <section className="container mx-auto px-4 sm:px-6 lg:px-8 pt-4" aria-label={t('outbox.title')}>
+      <div className="bg-white dark:bg-slate-800 rounded-lg shadow-md p-4 space-y-2">
+        {pendingCount > 0 && (
+          <div className="flex items-center justify-between gap-3">
+            <p className="text-sm text-slate-600 dark:text-slate-300">{t('outbox.summary', { count: pendingCount })}</p>
+            <button
+              onClick={handleRetry}
+              disabled={isRetrying}
+              className="shrink-0 text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50"
+            >
+              {t('outbox.retry')}
+            </button>
+          </div>
+        )}
+        {entries.map(entry => <OutboxNotice key={entry.id} entry={entry} showPollLink />)}
+      </div>
+    </section>
+  );
+};
@@ -1,26 +1,142 @@
 
 import React, { useState, useMemo } from 'react';
-import type { Poll, PollOption } from '../types';
+import type { Ballot, Poll, ReportReason } from '../types';
 import { useAuth } from '../hooks/useAuth';
+import { useNow } from '../hooks/useNow';
+import { useRouter } from '../hooks/useRouter';
+import { useI18n } from '../hooks/useI18n';
+import { useOutbox } from '../hooks/useOutbox';
+import { getVoteShare, findBallot, getOptionBallots } from '../services/tally';
+import { getPollStatus } from '../services/pollLifecycle';
+import { paths } from '../services/routes';
+import { isModerator } from '../services/moderation';
+import { AlreadyVotedError, InvalidOptionError, UnauthorizedError } from '../services/errors';
+import type { Translator } from '../services/i18n';
+import { AnimatedNumber } from './AnimatedNumber';
+import { RankedResults } from './RankedResults';
+import { Link } from './Link';
+import { CommentsPanel } from './CommentsPanel';
+import { ReportPollForm } from './ReportPollForm';
+import { OutboxNotice } from './OutboxNotice';
+import { PollInvitePanel } from './PollInvitePanel';
 
 interface PollCardProps {
   poll: Poll;
-  onVote: (pollId: string, optionId: string) => Promise<void>;
+  onVote: (pollId: string, optionIds: string[]) => Promise<void>;
+  onChangeVote: (pollId: string, optionIds: string[]) => Promise<void>;
+  onRetractVote: (pollId: string) => Promise<void>;
+  onClose: (pollId: string) => Promise<void>;
+  onEdit: (poll: Poll) => void;
+  onDelete: (pollId: string) => Promise<void>;
+  onSetHidden: (pollId: string, hidden: boolean) => Promise<void>;
+  onReport: (pollId: string, reason: ReportReason, details: string) => Promise<void>;
+  onRegenerateAccessCode: (pollId: string) => Promise<void>;
+  /** Whether the discussion under the card starts expanded. */
+  discussionOpen?: boolean;
+  /** Whether this is a new poll the backend has not saved yet, shown dimmed and inert until it has. */
+  isSaving?: boolean;
 }
 
+/**
+ * Formats the time remaining until a deadline, e.g. "2d 4h", "3h 12m" or "45s".
+ * Only the two most significant units are shown, which is enough for a countdown.
+ * @param {number} ms - The remaining time in milliseconds.
+ * @param {Translator['t']} t - Translates the unit abbreviations.
+ * @returns {string} A compact, human-readable duration.
+ */
+const formatCountdown = (ms: number, t: Translator['t']): string => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const units = [
+    [Math.floor(totalSeconds / 86400), 'poll.countdown.d'],
+    [Math.floor((totalSeconds % 86400) / 3600), 'poll.countdown.h'],
+    [Math.floor((totalSeconds % 3600) / 60), 'poll.countdown.m'],
+    [totalSeconds % 60, 'poll.countdown.s'],
+  ] as const;
+  const firstNonZero = units.findIndex(([value]) => value > 0);
+  if (firstNonZero === -1) return t('poll.countdown.s', { count: 0 });
+  return units
+    .slice(firstNonZero, firstNonZero + 2)
+    .map(([value, unit]) => t(unit, { count: value }))
+    .join(' ');
+};
+
+/**
+ * Describes how to fill in a ballot for the poll's type.
+ * @param {Poll} poll - The poll being voted on.
+ * @param {Translator['t']} t - Translates the instruction.
+ * @returns {string | null} An instruction for the voter, or null for single-choice polls.
+ */
+const getBallotHint = (poll: Poll, t: Translator['t']): string | null => {
+  switch (poll.type) {
+    case 'multiple': {
+      const min = poll.minSelections ?? 1;
+      const max = poll.maxSelections ?? poll.options.length;
+      return min === max ? t('poll.hint.exactly', { count: min }) : t('poll.hint.between', { min, max });
+    }
+    case 'ranked':
+      return t('poll.hint.ranked');
+    default:
+      return null;
+  }
+};
+
+/** How many voters are named under an option before the rest are only counted. */
+const MAX_NAMED_VOTERS = 5;
+
+/**
+ * Names the voters behind an option of an attributed poll, e.g. "alice, bob and 4 others".
+ * Ballots from before usernames were recorded are named by user ID, like the poll's creator.
+ * @param {Ballot[]} ballots - The ballots counted for the option, oldest first.
+ * @param {Translator} translator - Translates the names and joins them into a list.
+ * @returns {string} The voters, as a readable list.
+ */
+const describeVoters = (ballots: Ballot[], { t, formatList }: Pick<Translator, 't' | 'formatList'>): string => {
+  const names = ballots
+    .slice(0, MAX_NAMED_VOTERS)
+    .map(b => b.voterName ?? t('poll.userName', { id: b.userId.slice(-4) }));
+  const others = ballots.length - names.length;
+  return formatList(others > 0 ? [...names, t('poll.otherVoters', { count: others })] : names);
+};
+
 /**
  * Renders a single poll as an interactive card.
  * This component manages its own state for voting actions (e.g., loading, selected option)
- * to provide immediate feedback to the user.
+ * to provide immediate feedback to the user. Counts and result bars animate whenever the
+ * `poll` prop changes, so votes arriving live from other users are easy to notice.
  *
  * @param {PollCardProps} props - The props for the component.
  * @returns {JSX.Element} A card displaying poll information and voting options.
  */
-export const PollCard: React.FC<PollCardProps> = ({ poll, onVote }) => {
+export const PollCard: React.FC<PollCardProps> = ({
+  poll,
+  onVote,
+  onChangeVote,
+  onRetractVote,
+  onClose,
+  onEdit,
+  onDelete,
+  onSetHidden,
+  onReport,
+  onRegenerateAccessCode,
+  discussionOpen,
+  isSaving = false,
+}) => {
   const { user } = useAuth();
-  const [selectedOption, setSelectedOption] = useState<string | null>(null);
+  const { route } = useRouter();
+  const { t, errorMessage, formatNumber, formatPercent, formatList } = useI18n();
+  // Re-render every second so the countdown ticks and the status flips exactly on schedule.
+  const now = useNow();
+  // For ranked polls the order of this array is the voter's order of preference.
+  const [selectedOptions, setSelectedOptions] = useState<string[]>([]);
   const [isVoting, setIsVoting] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  // True while a voter is editing the ballot they already cast.
+  const [isChangingVote, setIsChangingVote] = useState(false);
+  const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [isReporting, setIsReporting] = useState(false);
+  const [isInviting, setIsInviting] = useState(false);
+  // Kept as thrown, so the card can point at what went wrong (e.g. the options a ballot got wrong).
+  const [error, setError] = useState<unknown>(null);
 
   // Memoization is used here to prevent recalculating the total votes on every render.
   // This is a performance optimization that is useful for components that might
@@ -29,91 +145,449 @@ export const PollCard: React.FC<PollCardProps> = ({ poll, onVote }) => {
     return poll.options.reduce((sum, option) => sum + option.votes, 0);
   }, [poll.options]);
 
-  const userHasVoted = user ? poll.votedBy.includes(user.id) : false;
+  const myBallot = user ? findBallot(poll, user.id) : undefined;
+  const userHasVoted = Boolean(myBallot);
+  // A vote cast while the server was unreachable, waiting to be sent or turned down on replay.
+  const queuedVote = useOutbox().find(entry => entry.operation.kind === 'castVote' && entry.operation.pollId === poll.id);
+  const status = getPollStatus(poll, now);
+  const isOwner = user?.id === poll.createdBy;
+  const canModerate = isModerator(user);
+  const canAmendVote = userHasVoted && status === 'open' && poll.allowVoteChange !== false;
+  // Who may see the results is the creator's choice, enforced by the backend: when they are
+  // withheld from this user, the poll arrives without them and says so.
+  const showResults = !poll.resultsHidden;
+  const isLocked = (userHasVoted && !isChangingVote) || queuedVote?.status === 'pending' || status !== 'open' || poll.hidden;
+  const ballotHint = getBallotHint(poll, t);
+  // Options a rejected ballot named twice, and whether it picked the wrong number of options.
+  const flaggedOptionIds = error instanceof InvalidOptionError ? error.optionIds : [];
+  const isBallotCountWrong = error instanceof InvalidOptionError && error.optionIds.length === 0;
+  const needsLogin = error instanceof UnauthorizedError && error.code === 'loginRequired';
+
+  // Whether the current selection is a complete ballot for this poll's type.
+  const isBallotComplete = poll.type === 'multiple'
+    ? selectedOptions.length >= (poll.minSelections ?? 1) &&
+      selectedOptions.length <= (poll.maxSelections ?? poll.options.length)
+    : selectedOptions.length > 0;
+
+  /**
+   * Adds an option to, or removes it from, the ballot being filled in.
+   * Single-choice polls replace the selection; multiple-choice polls stop at the maximum;
+   * ranked polls append to the end so the click order becomes the ranking.
+   * @param {string} optionId - The option that was clicked.
+   */
+  const toggleOption = (optionId: string) => {
+    if (isLocked) return;
+    if (poll.type === 'single') {
+      setSelectedOptions([optionId]);
+      return;
+    }
+    setSelectedOptions(current => {
+      if (current.includes(optionId)) {
+        return current.filter(id => id !== optionId);
+      }
+      if (poll.type === 'multiple' && current.length >= (poll.maxSelections ?? poll.options.length)) {
+        return current;
+      }
+      return [...current, optionId];
+    });
+  };
 
   /**
-   * Handles the submission of a vote.
-   * It sets loading states, calls the provided onVote handler, and manages errors.
+   * Handles the submission of a vote, or of a changed vote when editing an existing ballot.
+   * It sets loading states, calls the matching handler, and manages errors.
    */
   const handleVote = async () => {
-    if (!selectedOption || !user) return;
+    if (!isBallotComplete || !user) return;
     setIsVoting(true);
     setError(null);
     try {
-      await onVote(poll.id, selectedOption);
+      if (isChangingVote) {
+        await onChangeVote(poll.id, selectedOptions);
+        setIsChangingVote(false);
+      } else {
+        await onVote(poll.id, selectedOptions);
+      }
     } catch (err: any) {
-      setError(err.message || 'An unknown error occurred.');
+      // Options removed by an edit since the card was rendered cannot be picked again, so drop them.
+      if (err instanceof InvalidOptionError && err.code === 'invalidOption') {
+        setSelectedOptions(current => current.filter(id => !err.optionIds.includes(id)));
+      }
+      setError(err);
     } finally {
       setIsVoting(false);
     }
   };
 
+  /**
+   * Starts editing the user's ballot, starting from what they chose last time.
+   */
+  const startChangingVote = () => {
+    setSelectedOptions(myBallot?.optionIds ?? []);
+    setError(null);
+    setIsChangingVote(true);
+  };
+
+  /**
+   * Withdraws the user's ballot, leaving them free to vote again from scratch.
+   */
+  const handleRetractVote = async () => {
+    setIsVoting(true);
+    setError(null);
+    try {
+      await onRetractVote(poll.id);
+      setSelectedOptions([]);
+      setIsChangingVote(false);
+    } catch (err: any) {
+      setError(err);
+    } finally {
+      setIsVoting(false);
+    }
+  };
+
+  const optionText = (optionId: string) => poll.options.find(o => o.id === optionId)?.text ?? optionId;
+
+  /**
+   * Runs one of the actions menu's actions (closing, hiding or deleting the poll),
+   * with the same loading and error handling as voting.
+   * @param {(pollId: string) => Promise<void>} action - The action to run.
+   */
+  const runMenuAction = async (action: (pollId: string) => Promise<void>) => {
+    setIsMenuOpen(false);
+    setIsUpdating(true);
+    setError(null);
+    try {
+      await action(poll.id);
+    } catch (err: any) {
+      setError(err);
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  // The login link sits inside a translated sentence, whose word order differs between languages.
+  const [loginPromptBefore, loginPromptAfter] = t('poll.loginPrompt', { link: '\u0000' }).split('\u0000');
+  const [sessionExpiredBefore, sessionExpiredAfter] = t('poll.sessionExpired', { link: '\u0000' }).split('\u0000');
+
+  /**
+   * Describes the last error in words, with specific wording for the errors a voter can act on.
+   * @returns {string} The message to show.
+   */
+  const describeError = (): string => {
+    if (error instanceof AlreadyVotedError) return t('poll.alreadyVotedElsewhere');
+    if (error instanceof InvalidOptionError && error.code === 'invalidOption') return t('poll.optionsRemoved');
+    return errorMessage(error, 'poll.unknownError');
+  };
+
+  const handleDelete = () => {
+    // Deleting is irreversible and removes every vote, so ask first.
+    if (window.confirm(t('poll.confirmDelete', { question: poll.question }))) {
+      runMenuAction(onDelete);
+    }
+  };
+
   return (
-    <div className="bg-white dark:bg-slate-800 rounded-lg shadow-md overflow-hidden transition-shadow hover:shadow-lg">
+    <div
+      className={`bg-white dark:bg-slate-800 rounded-lg shadow-md overflow-hidden transition-shadow hover:shadow-lg ${isSaving ? 'opacity-60 pointer-events-none' : ''}`}
+      aria-busy={isSaving}
+    >
       <div className="p-6">
-        <h3 className="text-xl font-semibold text-slate-800 dark:text-white mb-4">{poll.question}</h3>
+        <div className="flex items-start justify-between mb-1">
+          <h3 className="text-xl font-semibold text-slate-800 dark:text-white">
+            <Link to={paths.poll(poll.id)} className="hover:text-blue-600 dark:hover:text-blue-400">
+              {poll.question}
+            </Link>
+          </h3>
+          {user && (
+            <div className="relative ms-2 shrink-0">
+              <button
+                onClick={() => setIsMenuOpen(open => !open)}
+                disabled={isUpdating}
+                className="px-2 rounded-md text-xl leading-none text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700 disabled:opacity-50"
+                aria-label={t('poll.actions')}
+                aria-expanded={isMenuOpen}
+              >
+                &hellip;
+              </button>
+              {isMenuOpen && (
+                <div className="absolute end-0 z-20 mt-1 w-40 py-1 bg-white dark:bg-slate-700 rounded-md shadow-lg border border-slate-200 dark:border-slate-600 text-sm">
+                  {isOwner && status !== 'closed' && (
+                    <>
+                      <button
+                        onClick={() => { setIsMenuOpen(false); onEdit(poll); }}
+                        className="block w-full text-start px-4 py-2 text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-600"
+                      >
+                        {t('poll.edit')}
+                      </button>
+                      <button
+                        onClick={() => runMenuAction(onClose)}
+                        className="block w-full text-start px-4 py-2 text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-600"
+                      >
+                        {t('poll.closeNow')}
+                      </button>
+                    </>
+                  )}
+                  {isOwner && poll.visibility === 'inviteOnly' && (
+                    <button
+                      onClick={() => { setIsMenuOpen(false); setIsInviting(true); }}
+                      className="block w-full text-start px-4 py-2 text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-600"
+                    >
+                      {t('poll.invite')}
+                    </button>
+                  )}
+                  {canModerate && (
+                    <button
+                      onClick={() => runMenuAction(id => onSetHidden(id, !poll.hidden))}
+                      className="block w-full text-start px-4 py-2 text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-600"
+                    >
+                      {poll.hidden ? t('poll.unhide') : t('poll.hide')}
+                    </button>
+                  )}
+                  {!isOwner && (
+                    <button
+                      onClick={() => { setIsMenuOpen(false); setIsReporting(true); }}
+                      className="block w-full text-start px-4 py-2 text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-600"
+                    >
+                      {t('poll.report')}
+                    </button>
+                  )}
+                  {(isOwner || canModerate) && (
+                    <button
+                      onClick={handleDelete}
+                      className="block w-full text-start px-4 py-2 text-red-600 dark:text-red-400 hover:bg-slate-100 dark:hover:bg-slate-600"
+                    >
+                      {t('poll.delete')}
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+        {poll.hidden && (
+          <p className="mb-2 px-3 py-2 rounded-md bg-amber-50 dark:bg-amber-900/30 text-sm text-amber-700 dark:text-amber-300">
+            {t('poll.hiddenNotice')}
+          </p>
+        )}
+        {poll.tags.length > 0 && (
+          <div className="flex flex-wrap gap-1.5 mb-2">
+            {poll.tags.map(tag => (
+              <Link
+                key={tag}
+                to={paths.tags([tag])}
+                className="px-2 py-0.5 rounded-full bg-blue-50 dark:bg-blue-900/40 text-xs font-medium text-blue-700 dark:text-blue-300 hover:bg-blue-100 dark:hover:bg-blue-900/70"
+              >
+                #{tag}
+              </Link>
+            ))}
+          </div>
+        )}
+        <div className="flex items-center justify-between mb-4 text-xs uppercase tracking-wide">
+          <span className="text-slate-400">
+            {t(poll.type === 'multiple' ? 'poll.type.multiple' : poll.type === 'ranked' ? 'poll.type.ranked' : 'poll.type.single')}
+            {poll.visibility !== 'public' && <> &middot; {t(`poll.visibility.${poll.visibility}`)}</>}
+            {' '}&middot; {t(poll.anonymous ? 'poll.anonymous' : 'poll.attributed')}
+          </span>
+          {isSaving && (
+            <span className="px-2 py-0.5 rounded-full bg-blue-100 dark:bg-blue-900/50 text-blue-700 dark:text-blue-300 font-semibold">
+              {t('poll.saving')}
+            </span>
+          )}
+          {status === 'closed' && (
+            <span className="px-2 py-0.5 rounded-full bg-slate-200 dark:bg-slate-700 text-slate-600 dark:text-slate-300 font-semibold">
+              {t('poll.closed')}
+            </span>
+          )}
+          {status === 'draft' && poll.opensAt && (
+            <span className="px-2 py-0.5 rounded-full bg-amber-100 dark:bg-amber-900/50 text-amber-700 dark:text-amber-300 font-semibold">
+              {t('poll.opensIn', { time: formatCountdown(Date.parse(poll.opensAt) - now, t) })}
+            </span>
+          )}
+          {status === 'open' && poll.closesAt && (
+            <span className="px-2 py-0.5 rounded-full bg-green-100 dark:bg-green-900/50 text-green-700 dark:text-green-300 font-semibold">
+              {t('poll.closesIn', { time: formatCountdown(Date.parse(poll.closesAt) - now, t) })}
+            </span>
+          )}
+        </div>
+        {user && !isLocked && ballotHint && (
+          <p className={`text-sm mb-3 ${isBallotCountWrong ? 'text-red-500 font-medium' : 'text-slate-500 dark:text-slate-400'}`}>{ballotHint}</p>
+        )}
+        {user && !isLocked && (
+          <p className="text-sm mb-3 text-slate-500 dark:text-slate-400">
+            {t(poll.anonymous ? 'poll.anonymousNotice' : 'poll.attributedNotice')}
+          </p>
+        )}
         <div className="space-y-3">
           {poll.options.map((option) => {
-            const percentage = totalVotes > 0 ? (option.votes / totalVotes) * 100 : 0;
-            const isSelected = selectedOption === option.id;
-            
+            const percentage = getVoteShare(poll, option.votes);
+            const rank = selectedOptions.indexOf(option.id);
+            const isSelected = rank !== -1;
+            const isFlagged = flaggedOptionIds.includes(option.id);
+            // Attributed polls name who voted for each option, to everyone who may see the results.
+            const voters = showResults && !poll.anonymous ? getOptionBallots(poll, option.id) : [];
+
             return (
               <div key={option.id} className="relative">
                 <button
-                  onClick={() => !userHasVoted && setSelectedOption(option.id)}
-                  disabled={userHasVoted || isVoting}
-                  className={`w-full text-left p-3 border rounded-md transition-all duration-200
-                    ${userHasVoted
+                  onClick={() => toggleOption(option.id)}
+                  disabled={isLocked || isVoting}
+                  className={`w-full text-start p-3 border rounded-md transition-all duration-200
+                    ${isLocked
                       ? 'cursor-not-allowed bg-slate-100 dark:bg-slate-700'
                       : 'hover:border-blue-500 dark:hover:border-blue-500'
                     }
-                    ${isSelected && !userHasVoted ? 'border-blue-500 ring-2 ring-blue-500 dark:border-blue-400' : 'border-slate-300 dark:border-slate-600'}
+                    ${isFlagged && !isLocked
+                      ? 'border-red-500 ring-2 ring-red-500'
+                      : isSelected && !isLocked ? 'border-blue-500 ring-2 ring-blue-500 dark:border-blue-400' : 'border-slate-300 dark:border-slate-600'}
                   `}
                 >
                   <div
-                    className="absolute top-0 left-0 h-full bg-blue-100 dark:bg-blue-900/50 rounded-md transition-all duration-500"
-                    style={{ width: `${userHasVoted ? percentage : 0}%` }}
+                    className="absolute top-0 start-0 h-full bg-blue-100 dark:bg-blue-900/50 rounded-md transition-all duration-500"
+                    style={{ width: `${showResults ? percentage : 0}%` }}
                   ></div>
                    <div className="relative z-10 flex justify-between items-center">
-                    <span className="text-slate-700 dark:text-slate-200">{option.text}</span>
-                    {userHasVoted && (
+                    <span className="text-slate-700 dark:text-slate-200">
+                      {poll.type === 'ranked' && isSelected && !isLocked && (
+                        <span className="inline-block me-2 px-1.5 rounded bg-blue-600 text-white text-xs font-bold">
+                          #{formatNumber(rank + 1)}
+                        </span>
+                      )}
+                      {option.text}
+                    </span>
+                    {showResults && (
                        <span className="font-semibold text-slate-600 dark:text-slate-300">
-                           {option.votes} ({percentage.toFixed(0)}%)
+                           <AnimatedNumber value={option.votes} format={count => t('poll.voteCount', { count })} />
+                           {' '}(<AnimatedNumber value={percentage} format={formatPercent} />)
                        </span>
                     )}
                    </div>
                 </button>
+                {voters.length > 0 && (
+                  <p className="mt-1 ps-3 text-xs text-slate-500 dark:text-slate-400">
+                    {t('poll.votedBy', { voters: describeVoters(voters, { t, formatList }) })}
+                  </p>
+                )}
               </div>
             );
           })}
         </div>
 
-        {error && <p className="text-red-500 text-sm mt-3">{error}</p>}
+        {showResults && poll.type === 'ranked' && <RankedResults poll={poll} />}
+
+        {!showResults && (
+          <p className="text-sm text-slate-500 dark:text-slate-400 mt-3">{t(`poll.resultsHidden.${poll.resultsVisibility}`)}</p>
+        )}
+
+        {needsLogin ? (
+          <p className="text-red-500 text-sm mt-3" role="alert">
+            {sessionExpiredBefore}
+            <Link to={paths.login(route.path)} className="underline">{t('poll.loginLink')}</Link>
+            {sessionExpiredAfter}
+          </p>
+        ) : error ? (
+          <p className="text-red-500 text-sm mt-3" role="alert">{describeError()}</p>
+        ) : null}
+
+        {queuedVote && (
+          <div className="mt-3">
+            <OutboxNotice entry={queuedVote} />
+          </div>
+        )}
+
+        {isInviting && isOwner && poll.visibility === 'inviteOnly' && (
+          <PollInvitePanel
+            poll={poll}
+            onRegenerate={() => onRegenerateAccessCode(poll.id)}
+            onClose={() => setIsInviting(false)}
+          />
+        )}
+
+        {isReporting && (
+          <ReportPollForm
+            onSubmit={(reason, details) => onReport(poll.id, reason, details)}
+            onCancel={() => setIsReporting(false)}
+          />
+        )}
         
-        {user && !userHasVoted && (
-          <div className="mt-6 text-right">
+        {user && !isLocked && (
+          <div className="mt-6 flex justify-end space-x-3 rtl:space-x-reverse">
+            {isChangingVote && (
+              <button
+                onClick={() => setIsChangingVote(false)}
+                disabled={isVoting}
+                className="px-4 py-2 text-sm font-medium text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md hover:bg-slate-50 dark:hover:bg-slate-600"
+              >
+                {t('poll.cancel')}
+              </button>
+            )}
             <button
               onClick={handleVote}
-              disabled={!selectedOption || isVoting}
+              disabled={!isBallotComplete || isVoting}
               className="bg-blue-600 text-white px-6 py-2 rounded-md font-semibold hover:bg-blue-700 disabled:bg-slate-400 disabled:cursor-not-allowed transition-colors"
             >
-              {isVoting ? 'Voting...' : 'Vote'}
+              {isChangingVote
+                ? (isVoting ? t('poll.updating') : t('poll.updateVote'))
+                : (isVoting ? t('poll.voting') : t('poll.vote'))}
             </button>
           </div>
         )}
 
-        {!user && (
-            <p className="text-sm text-slate-500 dark:text-slate-400 mt-4">Please log in to vote.</p>
+        {!user && status === 'open' && (
+            <p className="text-sm text-slate-500 dark:text-slate-400 mt-4">
+              {loginPromptBefore}
+              <Link to={paths.login(route.path)} className="text-blue-600 dark:text-blue-400 hover:underline">{t('poll.loginLink')}</Link>
+              {loginPromptAfter}
+            </p>
         )}
 
-        {userHasVoted && (
-            <p className="text-sm text-green-600 dark:text-green-400 mt-4 font-medium">✓ You have voted on this poll.</p>
+        {status === 'closed' && (
+            <p className="text-sm text-slate-500 dark:text-slate-400 mt-4 font-medium">{t('poll.finalResults')}</p>
+        )}
+
+        {myBallot && !isChangingVote && (
+          <div className="mt-4 flex items-center justify-between text-sm">
+            <p className="text-green-600 dark:text-green-400 font-medium">
+              {poll.type === 'ranked'
+                ? t('poll.youRanked', { choices: formatList(myBallot.optionIds.map((id, i) => `${formatNumber(i + 1)}. ${optionText(id)}`)) })
+                : t('poll.youVotedFor', { choices: formatList(myBallot.optionIds.map(optionText)) })}
+            </p>
+            {canAmendVote && (
+              <div className="flex shrink-0 ms-2 space-x-3 rtl:space-x-reverse">
+                <button
+                  onClick={startChangingVote}
+                  disabled={isVoting}
+                  className="font-medium text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 disabled:opacity-50"
+                >
+                  {t('poll.change')}
+                </button>
+                <button
+                  onClick={handleRetractVote}
+                  disabled={isVoting}
+                  className="font-medium text-red-600 dark:text-red-400 hover:text-red-800 dark:hover:text-red-300 disabled:opacity-50"
+                >
+                  {t('poll.retract')}
+                </button>
+              </div>
+            )}
+          </div>
         )}
       </div>
       <div className="bg-slate-50 dark:bg-slate-700/50 px-6 py-3 text-sm text-slate-500 dark:text-slate-400 flex justify-between">
-          <span>Total Votes: {totalVotes}</span>
-          <span>Created by: User {poll.createdBy.slice(-4)}</span>
+          <span>
+            {/* Without the results, only the number of voters is known. */}
+            <AnimatedNumber
+              value={poll.type === 'multiple' || !showResults ? poll.votedBy.length : totalVotes}
+              format={count => t(poll.type === 'multiple' || !showResults ? 'poll.totalVoters' : poll.type === 'ranked' ? 'poll.totalBallots' : 'poll.totalVotes', { count })}
+            />
+          </span>
+          <span>
+            {t('poll.createdBy')}{' '}
+            <Link to={paths.user(poll.createdBy)} className="hover:text-blue-600 dark:hover:text-blue-400">
+              {t('poll.userName', { id: poll.createdBy.slice(-4) })}
+            </Link>
+          </span>
       </div>
+      {/* A poll being saved has no discussion to load yet. */}
+      {!isSaving && <CommentsPanel poll={poll} initiallyOpen={discussionOpen} />}
     </div>
   );
 };
@@ -0,0 +1,116 @@
+
+import React, { useMemo, useState } from 'react';
+import type { Poll } from '../types';
+import { summarizePoll, getVoteTimeline, type PollSummary, type TimelinePoint } from '../services/pollStats';
+import { BarChart } from './charts/BarChart';
+import { PieChart } from './charts/PieChart';
+import { TimelineChart } from './charts/TimelineChart';
+import { downloadFile, exportFileName, pollResultsToCsv, pollToJson } from '../services/pollExport';
+import { useI18n } from '../hooks/useI18n';
+
+interface PollDetailsProps {
+  poll: Poll;
+}
+
+/**
+ * A single headline figure, e.g. "Voters 43".
+ */
+const Stat: React.FC<{ label: string; value: React.ReactNode }> = ({ label, value }) => (
+  <div className="bg-slate-50 dark:bg-slate-900/40 rounded-md p-3">
+    <dt className="text-xs uppercase tracking-wide text-slate-500 dark:text-slate-400">{label}</dt>
+    <dd className="mt-1 text-2xl font-semibold text-slate-800 dark:text-white">{value}</dd>
+  </div>
+);
+
+/**
+ * The results section of a poll's detail page: participation numbers, the leading option,
+ * exact counts as a bar or pie chart, and how turnout grew over time.
+ * Like `PollCard`, it shows the per-option results only to those the poll's creator allows to see
+ * them; otherwise it keeps to the number of voters and the turnout, and offers no export.
+ */
+export const PollDetails: React.FC<PollDetailsProps> = ({ poll }) => {
+  const { t, formatNumber, formatPercent, formatList } = useI18n();
+  const [chartKind, setChartKind] = useState<'bar' | 'pie'>('bar');
+
+  const summary: PollSummary = useMemo(() => summarizePoll(poll), [poll]);
+  const timeline: TimelinePoint[] = useMemo(() => getVoteTimeline(poll), [poll.voteEvents]);
+
+  // The backend leaves out results this user may not see, and says so (see `presentPoll`).
+  const showResults = !poll.resultsHidden;
+  const chartData = summary.results.map(r => ({ label: r.text, value: r.votes }));
+
+  const tabClassName = (active: boolean) =>
+    `px-3 py-1 text-sm rounded-md ${active
+      ? 'bg-blue-600 text-white'
+      : 'text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700'}`;
+
+  return (
+    <div className="mt-6 bg-white dark:bg-slate-800 rounded-lg shadow-md p-6 space-y-8">
+      <section>
+        <h3 className="text-lg font-semibold text-slate-800 dark:text-white mb-3">{t('details.participation')}</h3>
+        <dl className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+          <Stat label={t('details.voters')} value={formatNumber(summary.voterCount)} />
+          {showResults && <Stat label={poll.type === 'ranked' ? t('details.preferences') : t('details.selections')} value={formatNumber(summary.selectionCount)} />}
+          <Stat label={t('details.changedVotes')} value={formatNumber(summary.changeCount)} />
+          <Stat label={t('details.retracted')} value={formatNumber(summary.retractionCount)} />
+        </dl>
+      </section>
+
+      {showResults ? (
+        <section>
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="text-lg font-semibold text-slate-800 dark:text-white">{t('details.results')}</h3>
+            <div className="flex items-center space-x-1">
+              <button onClick={() => downloadFile(exportFileName(poll, 'csv'), pollResultsToCsv(poll), 'text/csv')} className={tabClassName(false)}>
+                {t('details.exportCsv')}
+              </button>
+              <button onClick={() => downloadFile(exportFileName(poll, 'json'), pollToJson(poll), 'application/json')} className={tabClassName(false)}>
+                {t('details.exportJson')}
+              </button>
+            </div>
+          </div>
+          <div className="flex items-center justify-between mb-4">
+            <p className="text-sm font-semibold text-green-600 dark:text-green-400">
+              {summary.leaders.length > 0 && (
+                <>
+                  {t(summary.leaders.length === 1 ? 'details.leading' : 'details.tied', { options: formatList(summary.leaders.map(l => l.text)) })}
+                  {poll.type === 'ranked' && ` ${t('details.afterRunoff')}`}
+                </>
+              )}
+            </p>
+            <div className="flex space-x-1 shrink-0" role="group" aria-label={t('details.chartType')}>
+              <button onClick={() => setChartKind('bar')} className={tabClassName(chartKind === 'bar')} aria-pressed={chartKind === 'bar'}>
+                {t('details.bar')}
+              </button>
+              <button onClick={() => setChartKind('pie')} className={tabClassName(chartKind === 'pie')} aria-pressed={chartKind === 'pie'}>
+                {t('details.pie')}
+              </button>
+            </div>
+          </div>
+
+          {chartKind === 'bar' ? (
+            <BarChart
+              data={chartData}
+              formatValue={(d, i) => t('details.valueWithShare', { value: formatNumber(d.value), share: formatPercent(summary.results[i].share) })}
+            />
+          ) : (
+            <PieChart data={chartData} />
+          )}
+          <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">
+            {poll.type === 'ranked' ? t('details.countsArePreferences') : t('details.countsAreVotes')}
+            {poll.type === 'multiple' && ` ${t('details.multipleNote')}`}
+          </p>
+        </section>
+      ) : (
+        <p className="text-sm text-slate-500 dark:text-slate-400">
+          {poll.resultsVisibility !== 'always' && t(`details.resultsHidden.${poll.resultsVisibility}`)}
+        </p>
+      )}
+
+      <section>
+        <h3 className="text-lg font-semibold text-slate-800 dark:text-white mb-3">{t('details.votesOverTime')}</h3>
+        <TimelineChart points={timeline} />
+      </section>
+    </div>
+  );
+};
@@ -0,0 +1,94 @@
+
+import React, { useState } from 'react';
+import type { Poll } from '../types';
+import { useI18n } from '../hooks/useI18n';
+import { paths, toHref } from '../services/routes';
+
+interface PollInvitePanelProps {
+  poll: Poll;
+  onRegenerate: () => Promise<void>;
+  onClose: () => void;
+}
+
+/**
+ * Lets the creator of an invite-only poll hand out access: the invite code, a link that joins the
+ * poll in one click, and how many people have joined so far. Replacing the code stops the old code
+ * and links from working, without removing anyone who already joined.
+ */
+export const PollInvitePanel: React.FC<PollInvitePanelProps> = ({ poll, onRegenerate, onClose }) => {
+  const { t, errorMessage } = useI18n();
+  const [isRegenerating, setIsRegenerating] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const link = poll.accessCode
+    ? `${window.location.origin}${window.location.pathname}${toHref(paths.join(poll.accessCode))}`
+    : '';
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(link);
+      setCopied(true);
+    } catch {
+      // Without clipboard access (e.g. over plain HTTP), the link can still be selected and copied by hand.
+      setCopied(false);
+    }
+  };
+
+  const handleRegenerate = async () => {
+    if (!window.confirm(t('invite.confirmRegenerate'))) return;
+    setIsRegenerating(true);
+    setError(null);
+    setCopied(false);
+    try {
+      await onRegenerate();
+    } catch (err: any) {
+      setError(errorMessage(err, 'invite.regenerateFailed'));
+    } finally {
+      setIsRegenerating(false);
+    }
+  };
+
+  return (
+    <div className="mt-4 p-3 rounded-md bg-slate-50 dark:bg-slate-700/50 space-y-2 text-sm text-slate-600 dark:text-slate-300">
+      <p>{t('invite.intro', { count: poll.allowedUserIds.length })}</p>
+      {poll.accessCode ? (
+        <>
+          <p>
+            {t('invite.code')}{' '}
+            <span className="font-mono text-base font-semibold tracking-widest text-slate-800 dark:text-white">{poll.accessCode}</span>
+          </p>
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              readOnly
+              value={link}
+              onFocus={(e) => e.target.select()}
+              aria-label={t('invite.link')}
+              className="flex-1 min-w-0 px-2 py-1 bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-600 rounded-md text-xs"
+            />
+            <button type="button" onClick={handleCopy} className="shrink-0 font-medium text-blue-600 dark:text-blue-400 hover:underline">
+              {copied ? t('invite.copied') : t('invite.copy')}
+            </button>
+          </div>
+        </>
+      ) : (
+        <p>{t('invite.codePending')}</p>
+      )}
+      {error && <p className="text-red-500" role="alert">{error}</p>}
+      <div className="flex justify-between">
+        <button
+          type="button"
+          onClick={handleRegenerate}
+          disabled={isRegenerating || !poll.accessCode}
+          className="font-medium text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50"
+        >
+          {isRegenerating ? t('invite.regenerating') : t('invite.regenerate')}
+        </button>
+        <button type="button" onClick={onClose} className="font-medium text-blue-600 dark:text-blue-400 hover:underline">
+          {t('invite.close')}
+        </button>
+      </div>
+    </div>
+  );
+};
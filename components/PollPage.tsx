@@ -0,0 +1,86 @@
+
+import React, { useState, useEffect } from 'react';
+import * as pollService from '../services/pollService';
+import type { PollSettings } from '../types';
+import { paths } from '../services/routes';
+import { UnauthorizedError } from '../services/errors';
+import { useAuth } from '../hooks/useAuth';
+import { usePollActions } from '../hooks/usePollActions';
+import { usePoll } from '../hooks/usePoll';
+import { useI18n } from '../hooks/useI18n';
+import { PollCard } from './PollCard';
+import { CreatePollForm } from './CreatePollForm';
+import { PollDetails } from './PollDetails';
+import { Link } from './Link';
+
+interface PollPageProps {
+  pollId: string;
+}
+
+/**
+ * The detail page for a single poll, reached through a shareable `/polls/:id` link.
+ * It shows the same card as the dashboard for voting, with its discussion open, followed by
+ * charts of the results, all kept live through the poll cache. It explains clearly when
+ * the link points at a poll that does not exist (any more).
+ */
+export const PollPage: React.FC<PollPageProps> = ({ pollId }) => {
+  const { user } = useAuth();
+  const pollActions = usePollActions();
+  const { t, errorMessage } = useI18n();
+  // The poll comes from the shared poll cache: a poll opened from the dashboard shows at once,
+  // and votes, edits and deletion (or hiding by a moderator) are followed as they happen.
+  const { poll, isLoading, error } = usePoll(pollId);
+  const [isEditing, setIsEditing] = useState(false);
+
+  useEffect(() => {
+    setIsEditing(false);
+  }, [pollId]);
+
+  /**
+   * Saves the creator's changes to the poll.
+   * @param {string} question - The poll question.
+   * @param {string[]} options - The poll options.
+   * @param {PollSettings} settings - The poll type, its selection rules and its schedule.
+   * @param {boolean} resetVotes - Whether to clear existing votes.
+   */
+  const handleSubmitPoll = async (question: string, options: string[], settings: PollSettings, resetVotes: boolean) => {
+    if (!user) throw new UnauthorizedError('loginRequired');
+
+    await pollService.updatePoll(pollId, question, options, user.id, settings, resetVotes);
+    setIsEditing(false);
+  };
+
+  if (isLoading) {
+    return <div className="text-center p-10 text-slate-500 dark:text-slate-400">{t('pollPage.loading')}</div>;
+  }
+
+  return (
+    <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-8 max-w-2xl">
+      <Link to={paths.dashboard()} className="text-sm text-blue-600 dark:text-blue-400 hover:underline">
+        &larr; {t('pollPage.allPolls')}
+      </Link>
+      <div className="mt-4">
+        {!poll ? (
+          <div className="text-center py-16 px-6 bg-white dark:bg-slate-800 rounded-lg shadow-md">
+            <h3 className="text-xl font-semibold text-slate-700 dark:text-slate-200">{t('pollPage.unavailable')}</h3>
+            <p className="mt-2 text-slate-500 dark:text-slate-400">
+              {error ? errorMessage(error, 'pollPage.fetchFailed') : t('pollPage.deleted')}
+            </p>
+            {error instanceof UnauthorizedError && error.code === 'inviteOnlyPoll' && (
+              <Link to={paths.join()} className="mt-4 inline-block text-blue-600 dark:text-blue-400 hover:underline">
+                {t('pollPage.joinWithCode')}
+              </Link>
+            )}
+          </div>
+        ) : isEditing ? (
+          <CreatePollForm poll={poll} onSubmit={handleSubmitPoll} onCancel={() => setIsEditing(false)} />
+        ) : (
+          <>
+            <PollCard poll={poll} {...pollActions} onEdit={() => setIsEditing(true)} discussionOpen />
+            <PollDetails poll={poll} />
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,110 @@
+
+import React from 'react';
+import type { PollQuery, PollSort, PollStatus } from '../types';
+import type { MessageKey } from '../services/i18n';
+import { useI18n } from '../hooks/useI18n';
+
+/**
+ * The parts of a `PollQuery` the toolbar controls; paging is handled by the list itself.
+ */
+export type PollFilters = Omit<PollQuery, 'cursor' | 'limit'>;
+
+interface PollToolbarProps {
+  filters: PollFilters;
+  onChange: (filters: PollFilters) => void;
+  /** The text in the search box, which may run ahead of `filters.search` while the user is typing. */
+  searchText: string;
+  onSearchTextChange: (text: string) => void;
+  /** The signed-in user, if any; the "mine" and "not yet voted" filters need one. */
+  userId?: string;
+}
+
+const SORT_CHOICES: { value: PollSort; label: MessageKey }[] = [
+  { value: 'newest', label: 'toolbar.newest' },
+  { value: 'mostVotes', label: 'toolbar.mostVotes' },
+  { value: 'closingSoon', label: 'toolbar.closingSoon' },
+];
+
+const STATUS_CHOICES: { value: PollStatus | ''; label: MessageKey }[] = [
+  { value: '', label: 'toolbar.anyStatus' },
+  { value: 'open', label: 'toolbar.open' },
+  { value: 'draft', label: 'toolbar.upcoming' },
+  { value: 'closed', label: 'toolbar.closed' },
+];
+
+const controlClassName = "rounded-md border border-slate-300 dark:border-slate-600 px-3 py-2 text-sm text-slate-900 dark:text-slate-200 bg-white dark:bg-slate-700 focus:border-blue-500 focus:outline-none focus:ring-blue-500";
+
+/**
+ * The search, filter and sort controls above the poll list on the dashboard.
+ */
+export const PollToolbar: React.FC<PollToolbarProps> = ({ filters, onChange, searchText, onSearchTextChange, userId }) => {
+  const { t } = useI18n();
+
+  /**
+   * Turns a filter on or off. Filters that are off are left out of the query entirely.
+   * @param {'createdBy' | 'votedByMe'} key - The filter to toggle.
+   * @param {boolean} enabled - Whether it should be on.
+   */
+  const toggle = (key: 'createdBy' | 'votedByMe', enabled: boolean) => {
+    const { [key]: _removed, ...rest } = filters;
+    onChange(enabled ? { ...rest, [key]: key === 'createdBy' ? userId : false } : rest);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 mb-6">
+      <input
+        type="search"
+        value={searchText}
+        onChange={(e) => onSearchTextChange(e.target.value)}
+        placeholder={t('toolbar.search')}
+        aria-label={t('toolbar.searchLabel')}
+        className={`${controlClassName} flex-1 min-w-[12rem]`}
+      />
+      {userId && (
+        <>
+          <label className="flex items-center text-sm text-slate-700 dark:text-slate-300">
+            <input
+              type="checkbox"
+              checked={filters.createdBy === userId}
+              onChange={(e) => toggle('createdBy', e.target.checked)}
+              className="me-2"
+            />
+            {t('toolbar.mine')}
+          </label>
+          <label className="flex items-center text-sm text-slate-700 dark:text-slate-300">
+            <input
+              type="checkbox"
+              checked={filters.votedByMe === false}
+              onChange={(e) => toggle('votedByMe', e.target.checked)}
+              className="me-2"
+            />
+            {t('toolbar.notVoted')}
+          </label>
+        </>
+      )}
+      <select
+        value={filters.status ?? ''}
+        onChange={(e) => {
+          const { status: _status, ...rest } = filters;
+          onChange(e.target.value ? { ...rest, status: e.target.value as PollStatus } : rest);
+        }}
+        aria-label={t('toolbar.statusLabel')}
+        className={controlClassName}
+      >
+        {STATUS_CHOICES.map(choice => (
+          <option key={choice.value} value={choice.value}>{t(choice.label)}</option>
+        ))}
+      </select>
+      <select
+        value={filters.sort ?? 'newest'}
+        onChange={(e) => onChange({ ...filters, sort: e.target.value as PollSort })}
+        aria-label={t('toolbar.sortLabel')}
+        className={controlClassName}
+      >
+        {SORT_CHOICES.map(choice => (
+          <option key={choice.value} value={choice.value}>{t(choice.label)}</option>
+        ))}
+      </select>
+    </div>
+  );
+};
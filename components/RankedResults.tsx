@@ -0,0 +1,58 @@
+
+import React, { useMemo } from 'react';
+import type { Poll } from '../types';
+import { runInstantRunoff, type RunoffResult } from '../services/tally';
+import { useI18n } from '../hooks/useI18n';
+
+interface RankedResultsProps {
+  poll: Poll;
+}
+
+/**
+ * Shows how a ranked poll was decided, round by round.
+ * Each round lists the votes held by every option still in the race and which
+ * option(s) were eliminated, so voters can see how their lower preferences were used.
+ */
+export const RankedResults: React.FC<RankedResultsProps> = ({ poll }) => {
+  const { t, formatNumber, formatList } = useI18n();
+  // The runoff is recalculated only when the ballots change.
+  const result: RunoffResult = useMemo(
+    () => runInstantRunoff(poll.options.map(o => o.id), poll.ballots.map(b => b.optionIds)),
+    [poll.options, poll.ballots],
+  );
+
+  const optionText = (optionId: string) => poll.options.find(o => o.id === optionId)?.text ?? optionId;
+
+  if (result.rounds.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mt-4 border-t border-slate-200 dark:border-slate-700 pt-4">
+      <h4 className="text-sm font-semibold text-slate-700 dark:text-slate-200 mb-2">
+        {t('ranked.title')}
+      </h4>
+      <ol className="space-y-2 text-sm text-slate-600 dark:text-slate-300">
+        {result.rounds.map((round, index) => (
+          <li key={index}>
+            <span className="font-medium">{t('ranked.round', { number: index + 1 })}</span>{' '}
+            {formatList(Object.entries(round.counts)
+              .sort(([, a], [, b]) => b - a)
+              .map(([optionId, count]) => `${optionText(optionId)} ${formatNumber(count)}`))}
+            {round.exhausted > 0 && <span className="text-slate-400"> {t('ranked.exhausted', { count: round.exhausted })}</span>}
+            {round.eliminated.length > 0 && (
+              <span className="block text-red-500">
+                {t('ranked.eliminated', { options: formatList(round.eliminated.map(optionText)) })}
+              </span>
+            )}
+          </li>
+        ))}
+      </ol>
+      {result.winners.length > 0 && (
+        <p className="mt-2 text-sm font-semibold text-green-600 dark:text-green-400">
+          {t(result.winners.length === 1 ? 'ranked.winner' : 'ranked.tied', { options: formatList(result.winners.map(optionText)) })}
+        </p>
+      )}
+    </div>
+  );
+};
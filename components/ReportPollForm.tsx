@@ -0,0 +1,86 @@
+
+import React, { useState } from 'react';
+import type { ReportReason } from '../types';
+import { MAX_REPORT_DETAILS_LENGTH, REPORT_REASONS } from '../services/moderation';
+import { useI18n } from '../hooks/useI18n';
+
+interface ReportPollFormProps {
+  onSubmit: (reason: ReportReason, details: string) => Promise<void>;
+  onCancel: () => void;
+}
+
+/**
+ * A short form for reporting a poll to the moderators: a reason, and an optional explanation,
+ * which is required for "Something else". It thanks the user once the report has been sent.
+ */
+export const ReportPollForm: React.FC<ReportPollFormProps> = ({ onSubmit, onCancel }) => {
+  const { t, errorMessage } = useI18n();
+  const [reason, setReason] = useState<ReportReason>('spam');
+  const [details, setDetails] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [isSent, setIsSent] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Sends the report.
+   * @param {React.FormEvent} e - The form submission event.
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSending(true);
+    setError(null);
+    try {
+      await onSubmit(reason, details);
+      setIsSent(true);
+    } catch (err: any) {
+      setError(errorMessage(err, 'report.failed'));
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  if (isSent) {
+    return (
+      <div className="mt-4 p-3 rounded-md bg-slate-50 dark:bg-slate-700/50 text-sm text-slate-600 dark:text-slate-300 flex justify-between">
+        <span>{t('report.thanks')}</span>
+        <button onClick={onCancel} className="font-medium text-blue-600 dark:text-blue-400 hover:underline">{t('report.close')}</button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-4 p-3 rounded-md bg-slate-50 dark:bg-slate-700/50 space-y-2 text-sm">
+      <fieldset>
+        <legend className="font-medium text-slate-700 dark:text-slate-200 mb-1">{t('report.question')}</legend>
+        {REPORT_REASONS.map(key => (
+          <label key={key} className="flex items-center space-x-2 rtl:space-x-reverse text-slate-600 dark:text-slate-300">
+            <input type="radio" name="reason" value={key} checked={reason === key} onChange={() => setReason(key)} />
+            <span>{t(`report.reason.${key}`)}</span>
+          </label>
+        ))}
+      </fieldset>
+      <textarea
+        value={details}
+        onChange={(e) => setDetails(e.target.value)}
+        maxLength={MAX_REPORT_DETAILS_LENGTH}
+        rows={2}
+        placeholder={reason === 'other' ? t('report.detailsRequired') : t('report.detailsOptional')}
+        aria-label={t('report.detailsLabel')}
+        className="w-full rounded-md border border-slate-300 dark:border-slate-600 px-3 py-2 text-slate-900 dark:text-slate-200 bg-white dark:bg-slate-700 focus:border-blue-500 focus:outline-none focus:ring-blue-500"
+      />
+      {error && <p className="text-red-500">{error}</p>}
+      <div className="flex justify-end space-x-3 rtl:space-x-reverse">
+        <button type="button" onClick={onCancel} className="text-slate-500 dark:text-slate-400 hover:underline">
+          {t('report.cancel')}
+        </button>
+        <button
+          type="submit"
+          disabled={isSending}
+          className="px-3 py-1.5 font-medium text-white bg-red-600 rounded-md hover:bg-red-700 disabled:bg-slate-400 disabled:cursor-not-allowed"
+        >
+          {isSending ? t('report.sending') : t('report.submit')}
+        </button>
+      </div>
+    </form>
+  );
+};
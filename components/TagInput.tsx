@@ -0,0 +1,129 @@
+
+import React, { useEffect, useState } from 'react';
+import * as pollService from '../services/pollService';
+import type { TagCount } from '../types';
+import { MAX_TAGS_PER_POLL, normalizeTag, suggestTags } from '../services/tags';
+import { useI18n } from '../hooks/useI18n';
+
+interface TagInputProps {
+  id?: string;
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  /** Outlines the box in red, e.g. when there are too many tags. */
+  invalid?: boolean;
+}
+
+/**
+ * A text box for choosing a poll's tags, shown as removable chips.
+ * Typing suggests tags other polls already use, most popular first, so the same topic is not
+ * filed under several spellings. Enter, Tab or a comma adds the highlighted suggestion, or the
+ * typed text as a new tag; Backspace in an empty box removes the last tag.
+ */
+export const TagInput: React.FC<TagInputProps> = ({ id, tags, onChange, invalid = false }) => {
+  const { t } = useI18n();
+  const [text, setText] = useState('');
+  const [tagCounts, setTagCounts] = useState<TagCount[]>([]);
+  const [highlighted, setHighlighted] = useState(0);
+
+  // Suggestions are a convenience; if they cannot be loaded, tags can still be typed.
+  useEffect(() => {
+    let ignore = false;
+    pollService.getTags()
+      .then(fetched => {
+        if (!ignore) setTagCounts(fetched);
+      })
+      .catch(() => {});
+    return () => {
+      ignore = true;
+    };
+  }, []);
+
+  const suggestions = suggestTags(tagCounts, text, tags);
+  const isFull = tags.length >= MAX_TAGS_PER_POLL;
+
+  /**
+   * Adds a tag, unless it is empty or already chosen, and clears the text box.
+   * @param {string} tag - The tag to add.
+   */
+  const addTag = (tag: string) => {
+    const normalized = normalizeTag(tag);
+    if (normalized && !tags.includes(normalized) && !isFull) {
+      onChange([...tags, normalized]);
+    }
+    setText('');
+    setHighlighted(0);
+  };
+
+  /**
+   * Handles the keys that add and remove tags and move through the suggestions.
+   * @param {React.KeyboardEvent<HTMLInputElement>} e - The key event.
+   */
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setHighlighted(current => (current + step + suggestions.length) % Math.max(suggestions.length, 1));
+    } else if (e.key === 'Enter' || e.key === ',' || (e.key === 'Tab' && text.trim())) {
+      // Enter must not submit the whole form while a tag is being typed.
+      if (text.trim() || e.key !== 'Tab') e.preventDefault();
+      addTag(suggestions[highlighted]?.tag ?? text);
+    } else if (e.key === 'Backspace' && !text && tags.length > 0) {
+      onChange(tags.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div className={`mt-1 flex flex-wrap items-center gap-2 px-3 py-2 bg-white dark:bg-slate-700 border ${invalid ? 'border-red-500' : 'border-slate-300 dark:border-slate-600'} rounded-md shadow-sm focus-within:ring-1 focus-within:ring-blue-500 focus-within:border-blue-500`}>
+        {tags.map(tag => (
+          <span key={tag} className="inline-flex items-center px-2 py-0.5 rounded-full bg-blue-100 dark:bg-blue-900/50 text-xs font-medium text-blue-700 dark:text-blue-300">
+            #{tag}
+            <button
+              type="button"
+              onClick={() => onChange(tags.filter(t => t !== tag))}
+              className="ms-1 text-blue-500 hover:text-red-500"
+              aria-label={t('tags.removeTag', { tag })}
+            >
+              &times;
+            </button>
+          </span>
+        ))}
+        <input
+          id={id}
+          type="text"
+          value={text}
+          onChange={(e) => {
+            setText(e.target.value);
+            setHighlighted(0);
+          }}
+          onKeyDown={handleKeyDown}
+          onBlur={() => text.trim() && addTag(text)}
+          disabled={isFull}
+          placeholder={isFull ? t('tags.limit', { max: MAX_TAGS_PER_POLL }) : tags.length ? '' : t('tags.placeholder')}
+          aria-autocomplete="list"
+          className="flex-1 min-w-[8rem] bg-transparent text-sm text-slate-900 dark:text-slate-200 focus:outline-none"
+        />
+      </div>
+      {suggestions.length > 0 && (
+        <ul role="listbox" className="absolute z-20 mt-1 w-full py-1 bg-white dark:bg-slate-700 rounded-md shadow-lg border border-slate-200 dark:border-slate-600 text-sm">
+          {suggestions.map(({ tag, count }, index) => (
+            <li
+              key={tag}
+              role="option"
+              aria-selected={index === highlighted}
+              // `mousedown` fires before the input's `blur`, which would otherwise add the typed text instead.
+              onMouseDown={(e) => {
+                e.preventDefault();
+                addTag(tag);
+              }}
+              className={`flex justify-between px-3 py-1.5 cursor-pointer ${index === highlighted ? 'bg-slate-100 dark:bg-slate-600' : ''} text-slate-700 dark:text-slate-200`}
+            >
+              <span>#{tag}</span>
+              <span className="text-xs text-slate-400">{t('tags.pollCount', { count })}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
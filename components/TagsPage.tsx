@@ -0,0 +1,190 @@
+
+import React, { useState, useEffect, useMemo } from 'react';
+import * as pollService from '../services/pollService';
+import type { Poll, PollSettings, TagCount } from '../types';
+import { paths } from '../services/routes';
+import { UnauthorizedError } from '../services/errors';
+import { useAuth } from '../hooks/useAuth';
+import { usePollActions } from '../hooks/usePollActions';
+import { usePolls } from '../hooks/usePolls';
+import { useI18n } from '../hooks/useI18n';
+import { PollCard } from './PollCard';
+import { CreatePollForm } from './CreatePollForm';
+import { Link } from './Link';
+
+interface TagsPageProps {
+  /** The selected tags, from `/tags/:tags`; empty on `/tags`. */
+  tags: string[];
+}
+
+interface TaggedPollsProps {
+  /** The selected tags; at least one. */
+  tags: string[];
+  /** Opens a poll in the edit form. */
+  onEdit: (poll: Poll) => void;
+}
+
+/**
+ * The polls that have every selected tag. They come from the shared poll cache, like every other
+ * list of poll cards, so they stay live and votes cast here show on the cards at once.
+ *
+ * Why a component of its own?
+ * `usePolls` cannot be skipped, and with no tags selected it would list every poll for nothing.
+ */
+const TaggedPolls: React.FC<TaggedPollsProps> = ({ tags, onEdit }) => {
+  const pollActions = usePollActions();
+  const { t, errorMessage } = useI18n();
+
+  // The route hands over a new array on every render; its contents are what matter.
+  const selectionKey = tags.join('+');
+  const query = useMemo(() => ({ tags }), [selectionKey]);
+  const { polls, isLoading, error } = usePolls(query);
+
+  if (isLoading) {
+    return <div className="text-center p-10 text-slate-500 dark:text-slate-400">{t('dashboard.loading')}</div>;
+  }
+
+  if (error) {
+    return <div className="text-center p-10 text-red-500">{t('dashboard.error', { message: errorMessage(error, 'dashboard.fetchFailed') })}</div>;
+  }
+
+  if (polls.length === 0) {
+    return (
+      <div className="text-center py-16 px-6 bg-white dark:bg-slate-800 rounded-lg shadow-md">
+        <h3 className="text-xl font-semibold text-slate-700 dark:text-slate-200">
+          {t('tagsPage.noMatches', { count: tags.length })}
+        </h3>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+      {polls.map((poll) => (
+        <PollCard key={poll.id} poll={poll} {...pollActions} onEdit={onEdit} />
+      ))}
+    </div>
+  );
+};
+
+/**
+ * The page for browsing polls by topic, reached through `/tags`.
+ * It lists every tag in use with how many polls have it. Selecting tags narrows the list below
+ * to polls that have all of them; the selection is part of the URL, so it can be shared.
+ */
+export const TagsPage: React.FC<TagsPageProps> = ({ tags }) => {
+  const { user } = useAuth();
+  const { t, errorMessage } = useI18n();
+  const [tagCounts, setTagCounts] = useState<TagCount[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<unknown>(null);
+  const [editingPoll, setEditingPoll] = useState<Poll | null>(null);
+
+  // The route hands over a new array on every render; its contents are what matter.
+  const selectionKey = tags.join('+');
+
+  // Load the tag counts whenever the selection changes, ignoring stale responses.
+  useEffect(() => {
+    let ignore = false;
+    setIsLoading(true);
+    setError(null);
+    setEditingPoll(null);
+    pollService.getTags()
+      .then(fetchedTags => {
+        if (!ignore) setTagCounts(fetchedTags);
+      })
+      .catch((err: any) => {
+        if (!ignore) setError(err);
+      })
+      .finally(() => {
+        if (!ignore) setIsLoading(false);
+      });
+    return () => {
+      ignore = true;
+    };
+  }, [selectionKey, user]);
+
+  // The counts only change when a poll is created, retagged or deleted, so they are refreshed when
+  // a tagged poll arrives, or one is deleted. The events are the ones this user may see.
+  useEffect(() => {
+    return pollService.subscribeToPolls(event => {
+      if (event.type === 'delete' || event.poll.tags.length > 0) {
+        pollService.getTags().then(setTagCounts).catch(() => {});
+      }
+    }, user?.id);
+  }, [user]);
+
+  /**
+   * Saves the creator's changes to the poll being edited.
+   * @param {string} question - The poll question.
+   * @param {string[]} options - The poll options.
+   * @param {PollSettings} settings - The poll type, its selection rules, its schedule and its tags.
+   * @param {boolean} resetVotes - Whether to clear existing votes.
+   */
+  const handleSubmitPoll = async (question: string, options: string[], settings: PollSettings, resetVotes: boolean) => {
+    if (!user || !editingPoll) throw new UnauthorizedError('loginRequired');
+
+    await pollService.updatePoll(editingPoll.id, question, options, user.id, settings, resetVotes);
+    setEditingPoll(null);
+  };
+
+  /**
+   * Builds the selection that results from clicking a tag: it is added, or removed if already selected.
+   * @param {string} tag - The clicked tag.
+   * @returns {string[]} The new selection.
+   */
+  const toggleTag = (tag: string) => (tags.includes(tag) ? tags.filter(t => t !== tag) : [...tags, tag]);
+
+  if (editingPoll) {
+    return (
+      <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <CreatePollForm
+          key={editingPoll.id}
+          poll={editingPoll}
+          onSubmit={handleSubmitPoll}
+          onCancel={() => setEditingPoll(null)}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <h2 className="text-3xl font-bold text-slate-800 dark:text-white mb-6">{t('tagsPage.title')}</h2>
+
+      {error && <div className="text-center p-10 text-red-500">{t('dashboard.error', { message: errorMessage(error, 'tagsPage.fetchFailed') })}</div>}
+
+      {!error && (
+        <>
+          <div className="flex flex-wrap gap-2 mb-8">
+            {tagCounts.map(({ tag, count }) => {
+              const isSelected = tags.includes(tag);
+              return (
+                <Link
+                  key={tag}
+                  to={paths.tags(toggleTag(tag))}
+                  className={`px-3 py-1 rounded-full text-sm font-medium transition-colors ${isSelected
+                    ? 'bg-blue-600 text-white hover:bg-blue-700'
+                    : 'bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-200 shadow-sm hover:bg-slate-100 dark:hover:bg-slate-700'}`}
+                >
+                  #{tag} <span className={isSelected ? 'text-blue-100' : 'text-slate-400'}>{count}</span>
+                </Link>
+              );
+            })}
+            {!isLoading && tagCounts.length === 0 && (
+              <p className="text-slate-500 dark:text-slate-400">{t('tagsPage.none')}</p>
+            )}
+          </div>
+
+          {tags.length > 0 ? (
+            <TaggedPolls tags={tags} onEdit={setEditingPoll} />
+          ) : (
+            !isLoading && tagCounts.length > 0 && (
+              <p className="text-slate-500 dark:text-slate-400">{t('tagsPage.choose')}</p>
+            )
+          )}
+        </>
+      )}
+    </div>
+  );
+};
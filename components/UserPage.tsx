@@ -0,0 +1,89 @@
+
+import React, { useState, useEffect, useMemo } from 'react';
+import * as pollService from '../services/pollService';
+import type { Poll, PollSettings } from '../types';
+import { UnauthorizedError } from '../services/errors';
+import { useAuth } from '../hooks/useAuth';
+import { usePollActions } from '../hooks/usePollActions';
+import { usePolls } from '../hooks/usePolls';
+import { useI18n } from '../hooks/useI18n';
+import { PollCard } from './PollCard';
+import { CreatePollForm } from './CreatePollForm';
+
+interface UserPageProps {
+  userId: string;
+}
+
+/**
+ * The page for a user, reached through `/users/:id`, listing the polls they created.
+ */
+export const UserPage: React.FC<UserPageProps> = ({ userId }) => {
+  const { user } = useAuth();
+  const pollActions = usePollActions();
+  const { t, errorMessage } = useI18n();
+  const [editingPoll, setEditingPoll] = useState<Poll | null>(null);
+
+  const isMe = user?.id === userId;
+
+  // This user's polls come from the shared poll cache, which keeps them live, including new ones.
+  const query = useMemo(() => ({ createdBy: userId }), [userId]);
+  const { polls, isLoading, error } = usePolls(query);
+
+  useEffect(() => {
+    setEditingPoll(null);
+  }, [userId]);
+
+  /**
+   * Saves the creator's changes to the poll being edited.
+   * @param {string} question - The poll question.
+   * @param {string[]} options - The poll options.
+   * @param {PollSettings} settings - The poll type, its selection rules and its schedule.
+   * @param {boolean} resetVotes - Whether to clear existing votes.
+   */
+  const handleSubmitPoll = async (question: string, options: string[], settings: PollSettings, resetVotes: boolean) => {
+    if (!user || !editingPoll) throw new UnauthorizedError('loginRequired');
+
+    await pollService.updatePoll(editingPoll.id, question, options, user.id, settings, resetVotes);
+    setEditingPoll(null);
+  };
+
+  if (isLoading) {
+    return <div className="text-center p-10 text-slate-500 dark:text-slate-400">{t('dashboard.loading')}</div>;
+  }
+
+  if (error) {
+    return <div className="text-center p-10 text-red-500">{t('dashboard.error', { message: errorMessage(error, 'dashboard.fetchFailed') })}</div>;
+  }
+
+  return (
+    <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {editingPoll ? (
+        <CreatePollForm
+          key={editingPoll.id}
+          poll={editingPoll}
+          onSubmit={handleSubmitPoll}
+          onCancel={() => setEditingPoll(null)}
+        />
+      ) : (
+        <>
+          <h2 className="text-3xl font-bold text-slate-800 dark:text-white mb-6">
+            {isMe ? t('userPage.yourPolls') : t('userPage.pollsBy', { name: t('poll.userName', { id: userId.slice(-4) }) })}
+          </h2>
+          {polls.length > 0 ? (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {polls.map((poll) => (
+                <PollCard key={poll.id} poll={poll} {...pollActions} onEdit={setEditingPoll} />
+              ))}
+            </div>
+          ) : (
+            <div className="text-center py-16 px-6 bg-white dark:bg-slate-800 rounded-lg shadow-md">
+              <h3 className="text-xl font-semibold text-slate-700 dark:text-slate-200">
+                {isMe ? t('userPage.youHaveNone') : t('userPage.theyHaveNone')}
+              </h3>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,59 @@
+
+import React from 'react';
+import { chartColor } from './chartColors';
+import { useI18n } from '../../hooks/useI18n';
+
+export interface ChartDatum {
+  label: string;
+  value: number;
+}
+
+interface BarChartProps {
+  data: ChartDatum[];
+  /** Formats the figure shown at the end of each bar. Defaults to the value as a number. */
+  formatValue?: (datum: ChartDatum, index: number) => string;
+}
+
+const ROW_HEIGHT = 36;
+const BAR_HEIGHT = 20;
+const LABEL_WIDTH = 160;
+const CHART_WIDTH = 600;
+const VALUE_WIDTH = 90;
+
+/**
+ * A horizontal bar chart drawn with SVG.
+ * Bars are scaled to the largest value, so the leader always spans the full width.
+ */
+export const BarChart: React.FC<BarChartProps> = ({ data, formatValue }) => {
+  const { t, formatNumber } = useI18n();
+  const format = formatValue ?? ((datum: ChartDatum) => formatNumber(datum.value));
+  const max = Math.max(1, ...data.map(d => d.value));
+  const barSpace = CHART_WIDTH - LABEL_WIDTH - VALUE_WIDTH;
+
+  return (
+    <svg
+      viewBox={`0 0 ${CHART_WIDTH} ${data.length * ROW_HEIGHT}`}
+      className="w-full h-auto text-slate-700 dark:text-slate-200"
+      role="img"
+      aria-label={t('chart.barLabel')}
+    >
+      {data.map((datum, i) => {
+        const y = i * ROW_HEIGHT;
+        const width = (datum.value / max) * barSpace;
+        return (
+          <g key={i}>
+            <title>{`${datum.label}: ${format(datum, i)}`}</title>
+            <text x={0} y={y + ROW_HEIGHT / 2} dominantBaseline="middle" fontSize="13" fill="currentColor">
+              {datum.label.length > 22 ? `${datum.label.slice(0, 21)}…` : datum.label}
+            </text>
+            <rect x={LABEL_WIDTH} y={y + (ROW_HEIGHT - BAR_HEIGHT) / 2} width={barSpace} height={BAR_HEIGHT} rx={4} className="fill-slate-200 dark:fill-slate-700" />
+            <rect x={LABEL_WIDTH} y={y + (ROW_HEIGHT - BAR_HEIGHT) / 2} width={width} height={BAR_HEIGHT} rx={4} fill={chartColor(i)} />
+            <text x={LABEL_WIDTH + barSpace + 8} y={y + ROW_HEIGHT / 2} dominantBaseline="middle" fontSize="13" fill="currentColor">
+              {format(datum, i)}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
@@ -0,0 +1,66 @@
+
+import React from 'react';
+import { chartColor } from './chartColors';
+import type { ChartDatum } from './BarChart';
+import { useI18n } from '../../hooks/useI18n';
+
+interface PieChartProps {
+  data: ChartDatum[];
+}
+
+const SIZE = 200;
+const RADIUS = 90;
+
+/**
+ * Returns the point on the pie's edge at a given fraction of a full turn, starting at 12 o'clock.
+ * @param {number} fraction - How far round the circle, from 0 to 1.
+ * @returns {[number, number]} The SVG coordinates.
+ */
+const pointAt = (fraction: number): [number, number] => {
+  const angle = fraction * 2 * Math.PI - Math.PI / 2;
+  return [SIZE / 2 + RADIUS * Math.cos(angle), SIZE / 2 + RADIUS * Math.sin(angle)];
+};
+
+/**
+ * A pie chart drawn with SVG, with a legend giving each slice's count and share.
+ * Slices are proportional to the sum of all values.
+ */
+export const PieChart: React.FC<PieChartProps> = ({ data }) => {
+  const { t, formatNumber, formatPercent } = useI18n();
+  const total = data.reduce((sum, d) => sum + d.value, 0);
+  if (total === 0) {
+    return <p className="text-sm text-slate-500 dark:text-slate-400">{t('chart.noVotes')}</p>;
+  }
+
+  let start = 0;
+  const slices = data.map((datum, i) => {
+    const fraction = datum.value / total;
+    const [x1, y1] = pointAt(start);
+    const [x2, y2] = pointAt(start + fraction);
+    const largeArc = fraction > 0.5 ? 1 : 0;
+    start += fraction;
+    // An arc cannot start and end at the same point, so a slice holding every vote is drawn as a circle.
+    const shape = fraction === 1
+      ? <circle cx={SIZE / 2} cy={SIZE / 2} r={RADIUS} fill={chartColor(i)} />
+      : <path d={`M ${SIZE / 2} ${SIZE / 2} L ${x1} ${y1} A ${RADIUS} ${RADIUS} 0 ${largeArc} 1 ${x2} ${y2} Z`} fill={chartColor(i)} />;
+    return fraction > 0 ? <g key={i}><title>{`${datum.label}: ${formatNumber(datum.value)}`}</title>{shape}</g> : null;
+  });
+
+  return (
+    <div className="flex flex-col sm:flex-row items-center gap-6">
+      <svg viewBox={`0 0 ${SIZE} ${SIZE}`} className="w-48 h-48 shrink-0" role="img" aria-label={t('chart.pieLabel')}>
+        {slices}
+      </svg>
+      <ul className="space-y-1 text-sm text-slate-700 dark:text-slate-200">
+        {data.map((datum, i) => (
+          <li key={i} className="flex items-center">
+            <span className="inline-block w-3 h-3 rounded-sm me-2 shrink-0" style={{ backgroundColor: chartColor(i) }} />
+            <span>
+              {t('chart.legend', { label: datum.label, value: formatNumber(datum.value), share: formatPercent((datum.value / total) * 100) })}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
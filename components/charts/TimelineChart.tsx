@@ -0,0 +1,67 @@
+
+import React from 'react';
+import type { TimelinePoint } from '../../services/pollStats';
+import { useI18n } from '../../hooks/useI18n';
+
+interface TimelineChartProps {
+  points: TimelinePoint[];
+}
+
+const WIDTH = 600;
+const HEIGHT = 200;
+const PADDING = { top: 10, right: 10, bottom: 24, left: 36 };
+
+/**
+ * Formats a timestamp for the chart's axis.
+ * @param {number} at - Milliseconds since the epoch.
+ * @param {string} locale - The language the app is shown in.
+ * @returns {string} A short local date and time.
+ */
+const formatTick = (at: number, locale: string) =>
+  new Date(at).toLocaleString(locale, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+/**
+ * A step chart of a poll's cumulative turnout, drawn with SVG.
+ * Turnout only changes when a ballot is cast or retracted, so the line holds flat between events.
+ */
+export const TimelineChart: React.FC<TimelineChartProps> = ({ points }) => {
+  const { t, locale, formatNumber } = useI18n();
+  if (points.length === 0) {
+    return <p className="text-sm text-slate-500 dark:text-slate-400">{t('chart.noTimeline')}</p>;
+  }
+
+  const first = points[0].at;
+  const last = points[points.length - 1].at;
+  const span = Math.max(last - first, 1);
+  const maxVoters = Math.max(1, ...points.map(p => p.voters));
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+
+  const x = (at: number) => PADDING.left + ((at - first) / span) * plotWidth;
+  const y = (voters: number) => PADDING.top + plotHeight - (voters / maxVoters) * plotHeight;
+
+  const line = points
+    .map((p, i) => (i === 0 ? `M ${x(p.at)} ${y(p.voters)}` : `H ${x(p.at)} V ${y(p.voters)}`))
+    .join(' ');
+  const area = `${line} V ${y(0)} H ${x(first)} Z`;
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      className="w-full h-auto text-slate-500 dark:text-slate-400"
+      role="img"
+      aria-label={t('chart.timelineLabel', { count: formatNumber(points[points.length - 1].voters) })}
+    >
+      <line x1={PADDING.left} y1={y(0)} x2={WIDTH - PADDING.right} y2={y(0)} stroke="currentColor" strokeOpacity={0.4} />
+      <line x1={PADDING.left} y1={PADDING.top} x2={PADDING.left} y2={y(0)} stroke="currentColor" strokeOpacity={0.4} />
+      <text x={PADDING.left - 6} y={y(maxVoters)} textAnchor="end" dominantBaseline="middle" fontSize="11" fill="currentColor">{formatNumber(maxVoters)}</text>
+      <text x={PADDING.left - 6} y={y(0)} textAnchor="end" dominantBaseline="middle" fontSize="11" fill="currentColor">{formatNumber(0)}</text>
+      <text x={PADDING.left} y={HEIGHT - 6} fontSize="11" fill="currentColor">{formatTick(first, locale)}</text>
+      {last > first && (
+        <text x={WIDTH - PADDING.right} y={HEIGHT - 6} textAnchor="end" fontSize="11" fill="currentColor">{formatTick(last, locale)}</text>
+      )}
+      <path d={area} fill="#2563eb" fillOpacity={0.15} />
+      <path d={line} fill="none" stroke="#2563eb" strokeWidth={2} />
+    </svg>
+  );
+};
@@ -0,0 +1,13 @@
+
+/**
+ * The colours used for poll options in every chart, so an option keeps
+ * the same colour in the bar chart, the pie chart and its legend.
+ */
+export const CHART_COLORS = ['#2563eb', '#16a34a', '#f59e0b', '#dc2626', '#7c3aed', '#0891b2', '#db2777', '#65a30d', '#ea580c', '#475569'];
+
+/**
+ * Picks the colour for the n-th item of a chart.
+ * @param {number} index - The item's position.
+ * @returns {string} A hex colour; the palette repeats after ten items.
+ */
+export const chartColor = (index: number): string => CHART_COLORS[index % CHART_COLORS.length];
@@ -10,7 +10,8 @@ import type { User } from '../types';
 interface AuthContextType {
   user: User | null;
   isLoading: boolean;
-  signIn: (username: string) => Promise<void>;
+  signIn: (username: string, password: string) => Promise<void>;
+  register: (username: string, password: string) => Promise<void>;
   signOut: () => Promise<void>;
 }
 
@@ -23,5 +24,6 @@ export const AuthContext = createContext<AuthContextType>({
   user: null,
   isLoading: true,
   signIn: async () => {},
+  register: async () => {},
   signOut: async () => {},
 });
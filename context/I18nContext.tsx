@@ -0,0 +1,21 @@
+
+import { createContext } from 'react';
+import { createTranslator, type Locale, type Translator } from '../services/i18n';
+
+/**
+ * @interface I18nContextType
+ * Defines the shape of the translation context: the translator for the current
+ * language, and a way to switch to another one.
+ */
+interface I18nContextType extends Translator {
+  setLocale: (locale: Locale) => void;
+}
+
+/**
+ * The React Context for translations.
+ * It defaults to English, so components rendered outside the provider still show text.
+ */
+export const I18nContext = createContext<I18nContextType>({
+  ...createTranslator('en'),
+  setLocale: () => {},
+});
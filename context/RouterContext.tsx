@@ -0,0 +1,23 @@
+
+import { createContext } from 'react';
+import { AppView, type Route } from '../types';
+import type { NavigateOptions } from '../hooks/useHashRoute';
+
+/**
+ * @interface RouterContextType
+ * Defines the shape of the routing context provided to the app.
+ */
+interface RouterContextType {
+  route: Route;
+  navigate: (path: string, options?: NavigateOptions) => void;
+}
+
+/**
+ * The React Context for routing.
+ * Any component can read the current route or navigate without the view
+ * having to be passed down through props.
+ */
+export const RouterContext = createContext<RouterContextType>({
+  route: { view: AppView.Dashboard, path: '/', params: {}, query: {} },
+  navigate: () => {},
+});
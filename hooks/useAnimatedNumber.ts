@@ -0,0 +1,39 @@
+
+import { useEffect, useRef, useState } from 'react';
+
+/**
+ * A custom hook that smoothly tweens a number towards its latest value.
+ * Why? When results update live, jumping straight from 12 to 13 is easy to miss;
+ * counting up over a short duration draws the eye to what changed.
+ * @param {number} value - The target value.
+ * @param {number} [duration=500] - How long the animation takes, in milliseconds.
+ * @returns {number} The value to display for the current frame.
+ */
+export const useAnimatedNumber = (value: number, duration = 500): number => {
+  const [displayed, setDisplayed] = useState(value);
+  const displayedRef = useRef(value);
+
+  useEffect(() => {
+    const from = displayedRef.current;
+    if (from === value) return;
+
+    const start = performance.now();
+    let frame = 0;
+
+    const step = (now: number) => {
+      const progress = Math.min((now - start) / duration, 1);
+      // Ease-out so the animation settles gently on the final value.
+      const eased = 1 - Math.pow(1 - progress, 3);
+      displayedRef.current = from + (value - from) * eased;
+      setDisplayed(displayedRef.current);
+      if (progress < 1) {
+        frame = requestAnimationFrame(step);
+      }
+    };
+
+    frame = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(frame);
+  }, [value, duration]);
+
+  return displayed;
+};
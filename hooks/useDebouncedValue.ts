@@ -0,0 +1,20 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * A custom hook that returns a value only once it has stopped changing for a while.
+ * Used for search boxes, so the poll list is queried when the user pauses typing
+ * rather than on every keystroke.
+ * @param {T} value - The value to debounce.
+ * @param {number} [delayMs=300] - How long the value must stay the same, in milliseconds.
+ * @returns {T} The latest value that has been stable for `delayMs`.
+ */
+export const useDebouncedValue = <T>(value: T, delayMs = 300): T => {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delayMs);
+    return () => clearTimeout(timer);
+  }, [value, delayMs]);
+
+  return debounced;
+};
@@ -0,0 +1,42 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import type { Route } from '../types';
+import { getCurrentPath, parseRoute, toHref } from '../services/routes';
+
+/**
+ * Options for a single navigation.
+ */
+export interface NavigateOptions {
+  /** Replace the current history entry instead of adding one, e.g. when leaving the login page. */
+  replace?: boolean;
+}
+
+/**
+ * A custom hook that keeps the current route in sync with the URL hash.
+ * The back and forward buttons, bookmarks and pasted links all change the hash,
+ * so listening to `hashchange` is enough to follow every kind of navigation.
+ * @returns {{ route: Route, navigate: (path: string, options?: NavigateOptions) => void }}
+ *   The current route, and a function to move to another in-app path.
+ */
+export const useHashRoute = () => {
+  const [path, setPath] = useState(getCurrentPath);
+
+  useEffect(() => {
+    const handleHashChange = () => setPath(getCurrentPath());
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
+  const route: Route = useMemo(() => parseRoute(path), [path]);
+
+  const navigate = useCallback((to: string, options: NavigateOptions = {}) => {
+    if (options.replace) {
+      // `replaceState` does not fire `hashchange`, so the state is updated directly.
+      window.history.replaceState(window.history.state, '', toHref(to));
+      setPath(to);
+      return;
+    }
+    window.location.hash = to;
+  }, []);
+
+  return { route, navigate };
+};
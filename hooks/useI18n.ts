@@ -0,0 +1,16 @@
+
+import { useContext } from 'react';
+import { I18nContext } from '../context/I18nContext';
+
+/**
+ * A custom hook to access the translation context.
+ * @returns The current language, the `t` function and the number, date and error formatters.
+ * @throws {Error} Throws an error if used outside of an `I18nContext` provider.
+ */
+export const useI18n = () => {
+  const context = useContext(I18nContext);
+  if (context === undefined) {
+    throw new Error('useI18n must be used within an I18nContext provider');
+  }
+  return context;
+};
@@ -0,0 +1,20 @@
+
+import { useEffect, useState } from 'react';
+
+/**
+ * A custom hook that returns the current time and re-renders the component on an interval.
+ * Components that show countdowns or depend on a schedule use it so their output stays
+ * current without any data being refetched.
+ * @param {number} [intervalMs=1000] - How often to update, in milliseconds.
+ * @returns {number} The current time in milliseconds since the epoch.
+ */
+export const useNow = (intervalMs = 1000): number => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(timer);
+  }, [intervalMs]);
+
+  return now;
+};
@@ -0,0 +1,20 @@
+
+import { useEffect, useState } from 'react';
+import * as pollService from '../services/pollService';
+import type { OutboxEntry } from '../types';
+import { useAuth } from './useAuth';
+
+/**
+ * A custom hook that returns the signed-in user's votes and new polls still waiting to reach
+ * the server, or that failed to once the connection returned. It updates as entries are queued,
+ * sent or dismissed, in this tab or any other.
+ * @returns {OutboxEntry[]} The user's outbox entries, oldest first. Always empty without a server backend.
+ */
+export const useOutbox = (): OutboxEntry[] => {
+  const { user } = useAuth();
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+
+  useEffect(() => pollService.subscribeToOutbox(setEntries), []);
+
+  return user ? entries.filter(entry => entry.userId === user.id) : [];
+};
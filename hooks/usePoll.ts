@@ -0,0 +1,20 @@
+
+import { useEffect, useState } from 'react';
+import * as pollCache from '../services/pollCache';
+import type { PollState } from '../services/pollCache';
+import { useAuth } from './useAuth';
+
+/**
+ * A custom hook that returns a single poll from the client-side poll cache and keeps it current.
+ * A poll already cached, e.g. from the dashboard, appears at once and is refreshed in the background.
+ * @param {string} pollId - The ID of the poll.
+ * @returns {PollState} The poll (null once it has been deleted or hidden from the user), and its loading state.
+ */
+export const usePoll = (pollId: string): PollState => {
+  const { user } = useAuth();
+  const [, setVersion] = useState(0);
+
+  useEffect(() => pollCache.watchPoll(pollId, user, () => setVersion((version: number) => version + 1)), [pollId, user]);
+
+  return pollCache.getPollState(pollId, user);
+};
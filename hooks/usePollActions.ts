@@ -0,0 +1,90 @@
+
+import { useMemo } from 'react';
+import * as pollService from '../services/pollService';
+import * as pollCache from '../services/pollCache';
+import { UnauthorizedError } from '../services/errors';
+import type { ReportReason } from '../types';
+import { useAuth } from './useAuth';
+
+/**
+ * A custom hook that binds the poll actions offered by `PollCard` to the signed-in user.
+ * Every page that shows poll cards (the dashboard, a single poll, a user's polls) shares
+ * these handlers, so the "must be logged in" checks live in one place.
+ * Votes go through the poll cache, which shows them on every card straight away and rolls them
+ * back if they fail; other changes arrive through the live subscription. None of the handlers refetch.
+ * @returns The handlers, named after the `PollCard` props they are passed to.
+ */
+export const usePollActions = () => {
+  const { user } = useAuth();
+
+  return useMemo(() => {
+    const requireUser = () => {
+      if (!user) throw new UnauthorizedError('loginRequired');
+      return user;
+    };
+
+    return {
+      /**
+       * Casts the user's ballot.
+       * @param {string} pollId - The ID of the poll being voted on.
+       * @param {string[]} optionIds - The chosen options, in order of preference for ranked polls.
+       */
+      onVote: async (pollId: string, optionIds: string[]) => {
+        await pollCache.castVote(pollId, optionIds, requireUser().id);
+      },
+      /**
+       * Replaces the user's existing ballot.
+       * @param {string} pollId - The ID of the poll.
+       * @param {string[]} optionIds - The newly chosen options.
+       */
+      onChangeVote: async (pollId: string, optionIds: string[]) => {
+        await pollCache.changeVote(pollId, optionIds, requireUser().id);
+      },
+      /**
+       * Withdraws the user's ballot.
+       * @param {string} pollId - The ID of the poll.
+       */
+      onRetractVote: async (pollId: string) => {
+        await pollCache.retractVote(pollId, requireUser().id);
+      },
+      /**
+       * Closes a poll before its deadline. Only its creator may do this.
+       * @param {string} pollId - The ID of the poll to close.
+       */
+      onClose: async (pollId: string) => {
+        await pollService.closePoll(pollId, requireUser().id);
+      },
+      /**
+       * Deletes a poll. Only its creator or a moderator may do this.
+       * @param {string} pollId - The ID of the poll to delete.
+       */
+      onDelete: async (pollId: string) => {
+        await pollService.deletePoll(pollId, requireUser().id);
+      },
+      /**
+       * Hides a poll from everyone but its creator and moderators, or shows it again. Moderators only.
+       * @param {string} pollId - The ID of the poll.
+       * @param {boolean} hidden - Whether the poll should be hidden.
+       */
+      onSetHidden: async (pollId: string, hidden: boolean) => {
+        await pollService.setPollHidden(pollId, hidden, requireUser().id);
+      },
+      /**
+       * Reports a poll to the moderators.
+       * @param {string} pollId - The ID of the poll.
+       * @param {ReportReason} reason - Why it is being reported.
+       * @param {string} details - The user's explanation.
+       */
+      onReport: async (pollId: string, reason: ReportReason, details: string) => {
+        await pollService.reportPoll(pollId, reason, details, requireUser().id);
+      },
+      /**
+       * Replaces an invite-only poll's invite code. Only its creator may do this.
+       * @param {string} pollId - The ID of the poll.
+       */
+      onRegenerateAccessCode: async (pollId: string) => {
+        await pollService.regenerateAccessCode(pollId, requireUser().id);
+      },
+    };
+  }, [user]);
+};
@@ -0,0 +1,42 @@
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { PollQuery } from '../types';
+import * as pollCache from '../services/pollCache';
+import type { PollListState } from '../services/pollCache';
+import { useAuth } from './useAuth';
+
+/**
+ * A custom hook that returns a list of polls from the client-side poll cache and keeps it current:
+ * live events, votes and new polls all update it in place, so the list never needs refetching.
+ * A list shown before appears at once and is refreshed in the background.
+ *
+ * When the query changes, the previous results stay on screen, with `isLoading` set, until the
+ * new ones arrive, so that typing in the search box does not blank the page.
+ * @param {PollQuery} query - The filters, sort order and page size (`limit`) of the list.
+ * @returns The list state, `loadMore` to append the next page, and `isSaving` to tell which
+ *   polls are placeholders for new polls the backend has not saved yet.
+ */
+export const usePolls = (query: PollQuery) => {
+  const { user } = useAuth();
+  const key = pollCache.listKey(query, user?.id);
+  const [, setVersion] = useState(0);
+  const lastLoaded = useRef<PollListState | null>(null);
+
+  // The key captures the query's contents, so a new but equal query object does not refetch.
+  useEffect(() => pollCache.watchPolls(query, user, () => setVersion((version: number) => version + 1)), [key, user]);
+
+  const loadMore = useCallback(() => pollCache.loadMorePolls(key), [key]);
+
+  let state = pollCache.getPollListState(key);
+  if (state.isLoading && lastLoaded.current && !state.error) {
+    state = { ...lastLoaded.current, isLoading: true };
+  } else if (!state.isLoading) {
+    lastLoaded.current = state;
+  }
+
+  return {
+    ...state,
+    loadMore,
+    isSaving: pollCache.isSavingPoll,
+  };
+};
@@ -0,0 +1,16 @@
+
+import { useContext } from 'react';
+import { RouterContext } from '../context/RouterContext';
+
+/**
+ * A custom hook to access the routing context.
+ * @returns The current route and the `navigate` function.
+ * @throws {Error} Throws an error if used outside of a `RouterContext` provider.
+ */
+export const useRouter = () => {
+  const context = useContext(RouterContext);
+  if (context === undefined) {
+    throw new Error('useRouter must be used within a RouterContext provider');
+  }
+  return context;
+};
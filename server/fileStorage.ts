@@ -0,0 +1,37 @@
+
+import fs from 'node:fs';
+import path from 'node:path';
+import type { KeyValueStorage } from '../services/repositories';
+
+/**
+ * Creates a `KeyValueStorage` persisted to a single JSON file.
+ * The whole file is loaded into memory on startup and rewritten after every change.
+ * Writes go to a temporary file that is then renamed over the original, so a crash
+ * mid-write can never leave a half-written data file behind.
+ * @param {string} filePath - The JSON file to read from and write to.
+ * @returns {KeyValueStorage} A store that survives server restarts.
+ */
+export const createFileStorage = (filePath: string): KeyValueStorage => {
+  const entries: Record<string, string> = fs.existsSync(filePath)
+    ? JSON.parse(fs.readFileSync(filePath, 'utf8'))
+    : {};
+
+  const flush = () => {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(entries, null, 2));
+    fs.renameSync(tempPath, filePath);
+  };
+
+  return {
+    getItem: (key) => (key in entries ? entries[key] : null),
+    setItem: (key, value) => {
+      entries[key] = value;
+      flush();
+    },
+    removeItem: (key) => {
+      delete entries[key];
+      flush();
+    },
+  };
+};
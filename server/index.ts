@@ -0,0 +1,420 @@
+
+import http from 'node:http';
+import path from 'node:path';
+import type { User, PollQuery } from '../types';
+import { createStorageRepositories } from '../services/repositories/storageRepository';
+import { createUserDirectory } from '../services/repositories/userDirectory';
+import { SEED_POLLS } from '../services/repositories/seedData';
+import { createFileStorage } from './fileStorage';
+import { createSessionStore } from './sessions';
+import {
+  PollyError,
+  PollNotFoundError,
+  AlreadyVotedError,
+  UnauthorizedError,
+  toErrorPayload,
+  type ErrorCode,
+} from '../services/errors';
+import type { MessageParams } from '../services/i18n';
+
+/**
+ * The ALX Polly REST server.
+ *
+ * Why reuse the storage repositories?
+ * The poll rules (validation, double-vote protection, error messages) are implemented once,
+ * in `createStorageRepositories`. Backing them with a JSON file instead of `localStorage`
+ * means the server enforces exactly what the browser-only backend does, and votes from
+ * every browser land in one place.
+ *
+ * Configuration (environment variables):
+ * - `PORT`: the port to listen on (default `4000`).
+ * - `POLLY_DATA_FILE`: the JSON file holding all data (default `./data/polly.json`).
+ * - `POLLY_CORS_ORIGIN`: the origin allowed to call the API (default `*`).
+ */
+
+const PORT = Number(process.env.PORT) || 4000;
+const DATA_FILE = path.resolve(process.env.POLLY_DATA_FILE || 'data/polly.json');
+const CORS_ORIGIN = process.env.POLLY_CORS_ORIGIN || '*';
+
+const storage = createFileStorage(DATA_FILE);
+const { polls, comments, moderation } = createStorageRepositories(storage, { seed: SEED_POLLS });
+const users = createUserDirectory(storage);
+const sessions = createSessionStore(storage);
+
+/**
+ * A coded error carrying the HTTP status it should be reported with.
+ */
+class HttpError extends PollyError {
+  constructor(public status: number, code: ErrorCode, params?: MessageParams) {
+    super(code, params);
+  }
+}
+
+/**
+ * Picks the HTTP status an error is reported with.
+ * @param {unknown} err - The error thrown while handling the request.
+ * @returns {number} 404 for a missing poll, 401 when signed out, 403 when not allowed, 409 for a
+ *   second vote, the status of an `HttpError`, and 400 for anything else the poll rules reject.
+ */
+const statusFor = (err: unknown): number => {
+  if (err instanceof HttpError) return err.status;
+  if (err instanceof PollNotFoundError) return 404;
+  if (err instanceof UnauthorizedError) return err.code === 'loginRequired' ? 401 : 403;
+  if (err instanceof AlreadyVotedError) return 409;
+  return 400;
+};
+
+interface RequestContext {
+  params: string[];
+  query: URLSearchParams;
+  body: any;
+  token: string | null;
+  user: User | null;
+}
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  status?: number;
+  handler: (ctx: RequestContext) => Promise<unknown>;
+}
+
+/**
+ * Returns the signed-in user, or rejects the request if there is none.
+ * @param {RequestContext} ctx - The current request.
+ * @returns {User} The signed-in user.
+ * @throws {UnauthorizedError} Throws an error (sent as a 401) if the request carries no valid session.
+ */
+const requireUser = (ctx: RequestContext): User => {
+  if (!ctx.user) {
+    throw new UnauthorizedError('loginRequired');
+  }
+  return ctx.user;
+};
+
+/**
+ * Reads a `PollQuery` from the query string of `GET /polls`.
+ * Unknown values are dropped rather than rejected, so a stale client still gets a sensible list.
+ * @param {URLSearchParams} params - The request's query string.
+ * @returns {PollQuery} The query to run.
+ */
+const parsePollQuery = (params: URLSearchParams): PollQuery => {
+  const query: PollQuery = {};
+  const status = params.get('status');
+  const sort = params.get('sort');
+  const votedByMe = params.get('votedByMe');
+  const limit = params.get('limit');
+
+  if (params.get('search')) query.search = params.get('search')!;
+  if (params.get('createdBy')) query.createdBy = params.get('createdBy')!;
+  if (params.get('cursor')) query.cursor = params.get('cursor');
+  if (params.get('tags')) query.tags = params.get('tags')!.split(',').filter(Boolean);
+  if (votedByMe === 'true' || votedByMe === 'false') query.votedByMe = votedByMe === 'true';
+  if (status === 'draft' || status === 'open' || status === 'closed') query.status = status;
+  if (sort === 'newest' || sort === 'mostVotes' || sort === 'closingSoon') query.sort = sort;
+  if (limit) query.limit = Number(limit);
+  return query;
+};
+
+const routes: Route[] = [
+  {
+    method: 'GET',
+    pattern: /^\/polls$/,
+    handler: async (ctx) => polls.getPolls(parsePollQuery(ctx.query), ctx.user?.id),
+  },
+  {
+    method: 'GET',
+    pattern: /^\/polls\/([^/]+)$/,
+    handler: async (ctx) => polls.getPoll(ctx.params[0], ctx.user?.id),
+  },
+  {
+    method: 'GET',
+    pattern: /^\/tags$/,
+    handler: async () => polls.getTags(),
+  },
+  {
+    method: 'POST',
+    pattern: /^\/polls$/,
+    status: 201,
+    handler: async (ctx) => {
+      const user = requireUser(ctx);
+      const question = String(ctx.body?.question ?? '');
+      const options = Array.isArray(ctx.body?.options) ? ctx.body.options.map(String) : [];
+      const requestId = typeof ctx.body?.requestId === 'string' ? ctx.body.requestId : undefined;
+      return polls.createPoll(question, options, user.id, ctx.body?.settings, requestId);
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/polls\/import$/,
+    handler: async (ctx) => {
+      const user = requireUser(ctx);
+      const records = Array.isArray(ctx.body?.polls) ? ctx.body.polls : [];
+      const onConflict = ['skip', 'replace', 'copy'].includes(ctx.body?.onConflict) ? ctx.body.onConflict : 'skip';
+      return polls.importPolls(records, user.id, onConflict);
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/polls\/join$/,
+    handler: async (ctx) => polls.joinPoll(String(ctx.body?.code ?? ''), requireUser(ctx).id),
+  },
+  {
+    method: 'POST',
+    pattern: /^\/polls\/([^/]+)\/access-code$/,
+    handler: async (ctx) => polls.regenerateAccessCode(ctx.params[0], requireUser(ctx).id),
+  },
+  {
+    method: 'POST',
+    pattern: /^\/polls\/([^/]+)\/votes$/,
+    handler: async (ctx) => {
+      const user = requireUser(ctx);
+      const optionIds = Array.isArray(ctx.body?.optionIds) ? ctx.body.optionIds.map(String) : [];
+      return polls.castVote(ctx.params[0], optionIds, user.id);
+    },
+  },
+  {
+    method: 'PUT',
+    pattern: /^\/polls\/([^/]+)\/votes$/,
+    handler: async (ctx) => {
+      const user = requireUser(ctx);
+      const optionIds = Array.isArray(ctx.body?.optionIds) ? ctx.body.optionIds.map(String) : [];
+      return polls.changeVote(ctx.params[0], optionIds, user.id);
+    },
+  },
+  {
+    method: 'DELETE',
+    pattern: /^\/polls\/([^/]+)\/votes$/,
+    handler: async (ctx) => polls.retractVote(ctx.params[0], requireUser(ctx).id),
+  },
+  {
+    method: 'PUT',
+    pattern: /^\/polls\/([^/]+)$/,
+    handler: async (ctx) => {
+      const user = requireUser(ctx);
+      const question = String(ctx.body?.question ?? '');
+      const options = Array.isArray(ctx.body?.options) ? ctx.body.options.map(String) : [];
+      return polls.updatePoll(ctx.params[0], question, options, user.id, ctx.body?.settings, Boolean(ctx.body?.resetVotes));
+    },
+  },
+  {
+    method: 'DELETE',
+    pattern: /^\/polls\/([^/]+)$/,
+    status: 204,
+    handler: async (ctx) => polls.deletePoll(ctx.params[0], requireUser(ctx).id),
+  },
+  {
+    method: 'POST',
+    pattern: /^\/polls\/([^/]+)\/close$/,
+    handler: async (ctx) => polls.closePoll(ctx.params[0], requireUser(ctx).id),
+  },
+  {
+    method: 'GET',
+    pattern: /^\/polls\/([^/]+)\/comments$/,
+    handler: async (ctx) => comments.getComments(ctx.params[0], ctx.user?.id),
+  },
+  {
+    method: 'POST',
+    pattern: /^\/polls\/([^/]+)\/comments$/,
+    status: 201,
+    handler: async (ctx) => {
+      const user = requireUser(ctx);
+      const parentId = ctx.body?.parentId ? String(ctx.body.parentId) : null;
+      return comments.addComment(ctx.params[0], String(ctx.body?.body ?? ''), user.id, parentId);
+    },
+  },
+  {
+    method: 'PUT',
+    pattern: /^\/polls\/([^/]+)\/comment-lock$/,
+    handler: async (ctx) => comments.setCommentsLocked(ctx.params[0], Boolean(ctx.body?.locked), requireUser(ctx).id),
+  },
+  {
+    method: 'PUT',
+    pattern: /^\/comments\/([^/]+)$/,
+    handler: async (ctx) => comments.editComment(ctx.params[0], String(ctx.body?.body ?? ''), requireUser(ctx).id),
+  },
+  {
+    method: 'DELETE',
+    pattern: /^\/comments\/([^/]+)$/,
+    status: 204,
+    handler: async (ctx) => comments.deleteComment(ctx.params[0], requireUser(ctx).id),
+  },
+  {
+    method: 'POST',
+    pattern: /^\/polls\/([^/]+)\/reports$/,
+    status: 201,
+    handler: async (ctx) => {
+      const user = requireUser(ctx);
+      return moderation.reportPoll(ctx.params[0], ctx.body?.reason, String(ctx.body?.details ?? ''), user.id);
+    },
+  },
+  {
+    method: 'PUT',
+    pattern: /^\/polls\/([^/]+)\/hidden$/,
+    handler: async (ctx) => moderation.setPollHidden(ctx.params[0], Boolean(ctx.body?.hidden), requireUser(ctx).id),
+  },
+  {
+    method: 'GET',
+    pattern: /^\/reports$/,
+    handler: async (ctx) => moderation.getReports(requireUser(ctx).id),
+  },
+  {
+    method: 'POST',
+    pattern: /^\/reports\/([^/]+)\/dismiss$/,
+    handler: async (ctx) => moderation.dismissReport(ctx.params[0], requireUser(ctx).id),
+  },
+  {
+    method: 'GET',
+    pattern: /^\/users$/,
+    handler: async (ctx) => moderation.getUsers(requireUser(ctx).id),
+  },
+  {
+    method: 'PUT',
+    pattern: /^\/users\/([^/]+)\/suspended$/,
+    handler: async (ctx) => moderation.setUserSuspended(ctx.params[0], Boolean(ctx.body?.suspended), requireUser(ctx).id),
+  },
+  {
+    method: 'PUT',
+    pattern: /^\/users\/([^/]+)\/role$/,
+    handler: async (ctx) => moderation.setUserRole(ctx.params[0], ctx.body?.role, requireUser(ctx).id),
+  },
+  {
+    method: 'GET',
+    pattern: /^\/audit-log$/,
+    handler: async (ctx) => moderation.getAuditLog(requireUser(ctx).id),
+  },
+  {
+    method: 'POST',
+    pattern: /^\/users$/,
+    status: 201,
+    handler: async (ctx) => {
+      const user = await users.register(String(ctx.body?.username ?? ''), String(ctx.body?.password ?? ''));
+      return { user, token: sessions.open(user) };
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/session$/,
+    status: 201,
+    handler: async (ctx) => {
+      const user = await users.authenticate(String(ctx.body?.username ?? ''), String(ctx.body?.password ?? ''));
+      return { user, token: sessions.open(user) };
+    },
+  },
+  {
+    method: 'GET',
+    pattern: /^\/session$/,
+    handler: async (ctx) => ({ user: requireUser(ctx) }),
+  },
+  {
+    method: 'DELETE',
+    pattern: /^\/session$/,
+    status: 204,
+    handler: async (ctx) => {
+      sessions.close(ctx.token);
+    },
+  },
+];
+
+/**
+ * Reads and parses a JSON request body. An empty body is treated as `undefined`.
+ * @param {http.IncomingMessage} req - The incoming request.
+ * @returns {Promise<unknown>} The parsed body.
+ * @throws {HttpError} Throws a 400 if the body is not valid JSON.
+ */
+const readJsonBody = async (req: http.IncomingMessage): Promise<unknown> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  const raw = Buffer.concat(chunks).toString('utf8');
+  if (!raw) return undefined;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw new HttpError(400, 'invalidJson');
+  }
+};
+
+/**
+ * Streams poll events to a client as Server-Sent Events until it disconnects.
+ * A comment line is sent periodically so that proxies do not close an idle connection.
+ * `EventSource` cannot send an `Authorization` header, so the session token comes in the `token`
+ * query parameter instead; it decides which poll results the stream may include.
+ * @param {http.IncomingMessage} req - The incoming request.
+ * @param {http.ServerResponse} res - The response to stream into.
+ * @param {URLSearchParams} query - The request's query string.
+ */
+const streamEvents = (req: http.IncomingMessage, res: http.ServerResponse, query: URLSearchParams) => {
+  const viewer = sessions.find(query.get('token'));
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  res.write(': connected\n\n');
+
+  const unsubscribe = polls.subscribe(event => {
+    res.write(`data: ${JSON.stringify(event)}\n\n`);
+  }, viewer?.id);
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), 25000);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+};
+
+const sendJson = (res: http.ServerResponse, status: number, payload?: unknown) => {
+  res.writeHead(status, payload === undefined ? {} : { 'Content-Type': 'application/json' });
+  res.end(payload === undefined ? undefined : JSON.stringify(payload));
+};
+
+const server = http.createServer(async (req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', CORS_ORIGIN);
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, PATCH, DELETE, OPTIONS');
+
+  if (req.method === 'OPTIONS') {
+    sendJson(res, 204);
+    return;
+  }
+
+  const { pathname, searchParams } = new URL(req.url || '/', 'http://localhost');
+
+  if (req.method === 'GET' && pathname === '/events') {
+    streamEvents(req, res, searchParams);
+    return;
+  }
+
+  try {
+    const route = routes.find(r => r.method === req.method && r.pattern.test(pathname));
+    if (!route) {
+      throw new HttpError(404, 'noRoute', { method: req.method ?? '', path: pathname });
+    }
+
+    const authorization = req.headers.authorization || '';
+    const token = authorization.startsWith('Bearer ') ? authorization.slice(7) : null;
+    const params = (pathname.match(route.pattern) || []).slice(1).map(decodeURIComponent);
+    const body = await readJsonBody(req);
+
+    // The session remembers who signed in; their role and suspension are read fresh, so changes apply at once.
+    const sessionUser = sessions.find(token);
+    const user = sessionUser ? users.findUser(sessionUser.id) ?? sessionUser : null;
+
+    const result = await route.handler({ params, query: searchParams, body, token, user });
+    sendJson(res, route.status ?? 200, result);
+  } catch (err: any) {
+    // Errors thrown by the poll rules are user-facing failures. Coded errors also send their code,
+    // parameters and any field or option details, so the client can rebuild the same error and
+    // show it in the user's language, next to the field it is about.
+    sendJson(res, statusFor(err), err instanceof PollyError
+      ? toErrorPayload(err)
+      : { error: err.message || 'Something went wrong.' });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`ALX Polly server listening on http://localhost:${PORT} (data: ${DATA_FILE})`);
+});
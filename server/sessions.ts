@@ -0,0 +1,52 @@
+
+import { randomUUID } from 'node:crypto';
+import type { User } from '../types';
+import type { KeyValueStorage } from '../services/repositories';
+
+const SESSIONS_KEY = 'polly_sessions';
+
+/**
+ * Keeps track of signed-in users by bearer token.
+ * Sessions are stored alongside the poll data, so users stay signed in across restarts.
+ * @param {KeyValueStorage} storage - The store that holds the session table.
+ */
+export const createSessionStore = (storage: KeyValueStorage) => {
+  const readSessions = (): Record<string, User> => {
+    const sessionsJson = storage.getItem(SESSIONS_KEY);
+    return sessionsJson ? JSON.parse(sessionsJson) : {};
+  };
+
+  const writeSessions = (sessions: Record<string, User>) => {
+    storage.setItem(SESSIONS_KEY, JSON.stringify(sessions));
+  };
+
+  return {
+    /**
+     * Opens a new session for a user.
+     * @param {User} user - The user who signed in.
+     * @returns {string} The bearer token identifying the session.
+     */
+    open: (user: User): string => {
+      const token = randomUUID();
+      writeSessions({ ...readSessions(), [token]: user });
+      return token;
+    },
+
+    /**
+     * Looks up the user behind a bearer token.
+     * @param {string | null} token - The token from the `Authorization` header.
+     * @returns {User | null} The signed-in user, or null if the token is unknown.
+     */
+    find: (token: string | null): User | null => (token ? readSessions()[token] ?? null : null),
+
+    /**
+     * Ends a session. Unknown tokens are ignored.
+     * @param {string | null} token - The token to revoke.
+     */
+    close: (token: string | null): void => {
+      if (!token) return;
+      const { [token]: _closed, ...remaining } = readSessions();
+      writeSessions(remaining);
+    },
+  };
+};
@@ -0,0 +1,73 @@
+
+import type { Poll } from '../types';
+
+const SALT_BYTES = 16;
+
+const toHex = (bytes: Uint8Array): string =>
+  Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+/**
+ * Makes up the salt for a new anonymous poll. Each poll has its own, so the same voter cannot be
+ * recognised across polls either.
+ * @returns {string} A random, hex-encoded salt.
+ */
+export const newVoterSalt = (): string => toHex(crypto.getRandomValues(new Uint8Array(SALT_BYTES)));
+
+/**
+ * Works out what a voter's ballot is filed under on a poll: their user ID on an attributed poll, and
+ * a SHA-256 hash of the poll's salt and their user ID on an anonymous one. The hash is enough to
+ * find the voter's own ballot, which stops them voting twice and lets them change their vote, but
+ * without the salt nobody can tell whose ballot it is.
+ *
+ * Why a salt kept in the backend?
+ * User IDs are easy to guess, so an unsalted hash could be undone by hashing every ID. The salt is
+ * stored with the poll and never sent out (see `identifyOwnBallot`), so only someone who can read
+ * the backend's data could link ballots to voters. In the browser backend, that is anyone using the
+ * browser, as with every other piece of its data.
+ * @param {Poll} poll - The poll as stored, with its salt.
+ * @param {string} userId - The voter.
+ * @returns {Promise<string>} The key of the voter's ballot.
+ */
+export const voterKey = async (poll: Poll, userId: string): Promise<string> => {
+  if (!poll.anonymous || !poll.voterSalt) return userId;
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${poll.voterSalt}:${userId}`));
+  return toHex(new Uint8Array(digest));
+};
+
+/**
+ * Prepares an anonymous poll to be sent to someone: the salt is left out, and their own ballot, if
+ * they have one, is filed under their user ID again, so their device can show how they voted and
+ * let them change it. Every other ballot stays a hash. Attributed polls are returned unchanged.
+ * Running it twice is harmless, since the salt is gone after the first time.
+ * @param {Poll} poll - The poll as stored.
+ * @param {string} [viewerId] - The user it is sent to; omitted when signed out.
+ * @returns {Promise<Poll>} The poll as the viewer may see it.
+ */
+export const identifyOwnBallot = async (poll: Poll, viewerId?: string): Promise<Poll> => {
+  if (!poll.voterSalt) return poll;
+  const key = viewerId ? await voterKey(poll, viewerId) : null;
+  const relabel = (id: string) => (id === key ? viewerId! : id);
+  return {
+    ...poll,
+    voterSalt: null,
+    ballots: poll.ballots.map(ballot => (ballot.userId === key ? { ...ballot, userId: viewerId! } : ballot)),
+    votedBy: poll.votedBy.map(relabel),
+  };
+};
+
+/**
+ * Files every ballot of an anonymous poll under a hash made with the poll's salt, e.g. once it has
+ * been imported with a new salt. A ballot that was filed under a hash from another salt gets a hash
+ * of that hash, which still cannot be linked to anyone, but is no longer recognised as its voter's.
+ * @param {Poll} poll - The poll, with its salt.
+ * @returns {Promise<Poll>} The poll with its ballots and `votedBy` filed under the new keys.
+ */
+export const anonymizeBallots = async (poll: Poll): Promise<Poll> => {
+  if (!poll.anonymous) return poll;
+  const ballots = await Promise.all(poll.ballots.map(async ballot => ({
+    userId: await voterKey(poll, ballot.userId),
+    optionIds: ballot.optionIds,
+    castAt: ballot.castAt,
+  })));
+  return { ...poll, ballots, votedBy: ballots.map(b => b.userId) };
+};
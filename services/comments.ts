@@ -0,0 +1,52 @@
+
+import type { Comment } from '../types';
+import { ValidationError } from './errors';
+
+/** The longest comment that can be posted, in characters. */
+export const MAX_COMMENT_LENGTH = 2000;
+
+/**
+ * A comment together with the replies to it, each of which is a thread of its own.
+ */
+export interface CommentThread {
+  comment: Comment;
+  replies: CommentThread[];
+}
+
+/**
+ * Arranges a poll's comments into threads.
+ * Threads and replies are ordered oldest first, so a discussion reads from top to bottom.
+ * A reply whose parent is missing (which a consistent store never has) is shown as a top-level comment
+ * rather than disappearing.
+ * @param {Comment[]} comments - The comments of one poll, in any order.
+ * @returns {CommentThread[]} The top-level threads.
+ */
+export const buildCommentThreads = (comments: Comment[]): CommentThread[] => {
+  const threads = new Map<string, CommentThread>(comments.map(comment => [comment.id, { comment, replies: [] }]));
+  const roots: CommentThread[] = [];
+  [...comments]
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    .forEach(comment => {
+      const thread = threads.get(comment.id)!;
+      const parent = comment.parentId ? threads.get(comment.parentId) : undefined;
+      (parent ? parent.replies : roots).push(thread);
+    });
+  return roots;
+};
+
+/**
+ * Checks the text of a new or edited comment.
+ * @param {string} body - The comment text.
+ * @returns {string} The text with surrounding whitespace removed, ready to store.
+ * @throws {ValidationError} Throws an error on the `body` field if the comment is empty or too long.
+ */
+export const normalizeCommentBody = (body: string): string => {
+  const trimmed = body.trim();
+  if (!trimmed) {
+    throw new ValidationError({ body: { code: 'commentEmpty' } });
+  }
+  if (trimmed.length > MAX_COMMENT_LENGTH) {
+    throw new ValidationError({ body: { code: 'commentTooLong', params: { max: MAX_COMMENT_LENGTH } } });
+  }
+  return trimmed;
+};
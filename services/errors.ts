@@ -0,0 +1,169 @@
+
+import { en, type MessageKey } from './locales/en';
+import { formatMessage, type MessageParams } from './i18n';
+
+/**
+ * The code of every error the services can report, taken from the `error.*` keys of the
+ * message catalog so that every code is guaranteed a translation.
+ */
+export type ErrorCode = {
+  [K in MessageKey]: K extends `error.${infer Code}` ? Code : never;
+}[MessageKey];
+
+/**
+ * An error the user is expected to read, such as a failed validation or a missing permission.
+ *
+ * Why codes? The services run in the browser and on the server, neither of which knows the
+ * user's language. Throwing a code and its parameters lets the UI translate the error at the
+ * point where it is shown, while `message` still carries the English text for logs, for the
+ * server's JSON responses and for any caller that is not translated yet.
+ */
+export class PollyError extends Error {
+  constructor(public code: ErrorCode, public params: MessageParams = {}) {
+    super(formatMessage('en', en[`error.${code}`], params));
+    this.name = 'PollyError';
+  }
+}
+
+/**
+ * Checks whether a value is a known error code, e.g. one received from the server.
+ * @param {unknown} code - The value to check.
+ * @returns {boolean} True if the catalog has a message for the code.
+ */
+export const isErrorCode = (code: unknown): code is ErrorCode =>
+  typeof code === 'string' && Object.prototype.hasOwnProperty.call(en, `error.${code}`);
+
+/**
+ * What is wrong with one field of a form, e.g. the question of a new poll.
+ */
+export interface FieldError {
+  code: ErrorCode;
+  params?: MessageParams;
+}
+
+/** The problems found with a form, keyed by field name (e.g. `question`, `options`, `username`). */
+export type FieldErrors = Record<string, FieldError>;
+
+/** The codes of errors about a ballot that does not fit the poll it was cast on. */
+export type BallotErrorCode = 'invalidOption' | 'duplicateOption' | 'selectExactly' | 'selectBetween' | 'rankAtLeastOne' | 'selectOne';
+
+/** The codes of errors about who may do something: signed out, suspended, or not the owner or a moderator. */
+export type UnauthorizedErrorCode =
+  | 'loginRequired'
+  | 'accountSuspended'
+  | 'moderatorsOnly'
+  | 'adminsOnly'
+  | 'closeOwnerOnly'
+  | 'editOwnerOnly'
+  | 'deleteOwnerOnly'
+  | 'importReplaceOwnerOnly'
+  | 'commentEditAuthorOnly'
+  | 'commentDeleteAuthorOnly'
+  | 'commentLockOwnerOnly'
+  | 'suspendStaffAdminsOnly'
+  | 'inviteOnlyPoll'
+  | 'accessCodeOwnerOnly';
+
+const UNAUTHORIZED_CODES: UnauthorizedErrorCode[] = [
+  'loginRequired', 'accountSuspended', 'moderatorsOnly', 'adminsOnly', 'closeOwnerOnly', 'editOwnerOnly',
+  'deleteOwnerOnly', 'importReplaceOwnerOnly', 'commentEditAuthorOnly', 'commentDeleteAuthorOnly',
+  'commentLockOwnerOnly', 'suspendStaffAdminsOnly', 'inviteOnlyPoll', 'accessCodeOwnerOnly',
+];
+
+const BALLOT_CODES: BallotErrorCode[] = ['invalidOption', 'duplicateOption', 'selectExactly', 'selectBetween', 'rankAtLeastOne', 'selectOne'];
+
+/**
+ * The poll does not exist (any more).
+ */
+export class PollNotFoundError extends PollyError {
+  constructor() {
+    super('pollNotFound');
+    this.name = 'PollNotFoundError';
+  }
+}
+
+/**
+ * The user tried to vote on a poll they have already voted on.
+ */
+export class AlreadyVotedError extends PollyError {
+  constructor() {
+    super('alreadyVoted');
+    this.name = 'AlreadyVotedError';
+  }
+}
+
+/**
+ * A ballot does not fit its poll: it names options the poll does not have (e.g. after an edit),
+ * names one twice, or selects the wrong number. `optionIds` lists the offending options, if any,
+ * so the ballot can point them out.
+ */
+export class InvalidOptionError extends PollyError {
+  constructor(code: BallotErrorCode, params: MessageParams = {}, public optionIds: string[] = []) {
+    super(code, params);
+    this.name = 'InvalidOptionError';
+  }
+}
+
+/**
+ * One or more fields of a form are invalid. The error's own code and message are those of the
+ * first field, for callers that show a single message; forms can show each field's error next to it.
+ */
+export class ValidationError extends PollyError {
+  constructor(public fields: FieldErrors) {
+    const [first] = Object.values(fields);
+    super(first.code, first.params);
+    this.name = 'ValidationError';
+  }
+}
+
+/**
+ * The user may not do this: they are signed out or suspended, or it is reserved for the
+ * poll's creator, the comment's author, moderators or admins.
+ */
+export class UnauthorizedError extends PollyError {
+  constructor(code: UnauthorizedErrorCode, params: MessageParams = {}) {
+    super(code, params);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+/**
+ * How a coded error travels as JSON, e.g. in the REST server's error responses.
+ */
+export interface ErrorPayload {
+  error: string;
+  code?: string;
+  params?: MessageParams;
+  fields?: FieldErrors;
+  optionIds?: string[];
+}
+
+/**
+ * Describes an error as JSON, keeping everything needed to rebuild it on the other side.
+ * @param {PollyError} err - The error.
+ * @returns {ErrorPayload} The English message, the code and parameters, and any field or option details.
+ */
+export const toErrorPayload = (err: PollyError): ErrorPayload => ({
+  error: err.message,
+  code: err.code,
+  params: err.params,
+  ...(err instanceof ValidationError ? { fields: err.fields } : {}),
+  ...(err instanceof InvalidOptionError ? { optionIds: err.optionIds } : {}),
+});
+
+/**
+ * Rebuilds the error described by `toErrorPayload`, as the same class the backend threw,
+ * so callers can check `instanceof` whichever backend they run against.
+ * @param {ErrorPayload} payload - The error as received.
+ * @returns {PollyError | null} The error, or null if the payload has no known code.
+ */
+export const fromErrorPayload = (payload: ErrorPayload): PollyError | null => {
+  const { code, params = {}, fields, optionIds } = payload;
+  if (!isErrorCode(code)) return null;
+  if (fields && Object.keys(fields).length > 0 && Object.values(fields).every(field => isErrorCode(field?.code))) return new ValidationError(fields);
+  if (code === 'pollNotFound') return new PollNotFoundError();
+  if (code === 'alreadyVoted') return new AlreadyVotedError();
+  if ((BALLOT_CODES as string[]).includes(code)) return new InvalidOptionError(code as BallotErrorCode, params, optionIds ?? []);
+  if ((UNAUTHORIZED_CODES as string[]).includes(code)) return new UnauthorizedError(code as UnauthorizedErrorCode, params);
+  return new PollyError(code, params);
+};
@@ -0,0 +1,205 @@
+
+import { en, type MessageKey } from './locales/en';
+import { fr } from './locales/fr';
+import { ar } from './locales/ar';
+
+export type { MessageKey } from './locales/en';
+
+/** The languages the interface is translated into. */
+export type Locale = 'en' | 'fr' | 'ar';
+
+/** Values substituted into a message, by placeholder name. */
+export type MessageParams = Record<string, string | number>;
+
+/** The localStorage key under which the user's chosen language is kept. */
+export const LOCALE_KEY = 'polly_locale';
+
+/** Every supported language, with its name in that language and its writing direction. */
+export const LOCALES: Record<Locale, { name: string; dir: 'ltr' | 'rtl' }> = {
+  en: { name: 'English', dir: 'ltr' },
+  fr: { name: 'Français', dir: 'ltr' },
+  ar: { name: 'العربية', dir: 'rtl' },
+};
+
+const CATALOGS: Record<Locale, Record<MessageKey, string>> = { en, fr, ar };
+
+/**
+ * Checks whether a value names a supported language.
+ * @param {unknown} value - The value to check, e.g. a stored preference.
+ * @returns {boolean} True if the value is a supported locale.
+ */
+export const isLocale = (value: unknown): value is Locale =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(LOCALES, value);
+
+/**
+ * Picks the language to show: the one the user chose last time, otherwise the first of the
+ * browser's preferred languages we support (so `fr-CA` gets French), otherwise English.
+ * @returns {Locale} The locale to start with.
+ */
+export const detectLocale = (): Locale => {
+  try {
+    const stored = localStorage.getItem(LOCALE_KEY);
+    if (isLocale(stored)) return stored;
+  } catch {
+    // Storage may be unavailable (e.g. in a private window); fall back to the browser's languages.
+  }
+  const preferred = typeof navigator === 'undefined' ? [] : navigator.languages ?? [navigator.language];
+  for (const tag of preferred) {
+    const base = tag?.toLowerCase().split('-')[0];
+    if (isLocale(base)) return base;
+  }
+  return 'en';
+};
+
+/**
+ * Finds the end of the `{...}` block that opens at `start`, allowing for nested blocks.
+ * @param {string} pattern - The message pattern.
+ * @param {number} start - The index of the opening brace.
+ * @returns {number} The index of the matching closing brace.
+ */
+const findClosingBrace = (pattern: string, start: number): number => {
+  let depth = 0;
+  for (let i = start; i < pattern.length; i++) {
+    if (pattern[i] === '{') depth++;
+    if (pattern[i] === '}' && --depth === 0) return i;
+  }
+  throw new Error(`Unbalanced braces in message: ${pattern}`);
+};
+
+/**
+ * Splits the cases of a `plural` or `select` argument, e.g. `one{# vote} other{# votes}`.
+ * @param {string} text - The cases, as written after the argument type.
+ * @param {string} pattern - The whole message, for error reporting.
+ * @returns {Map<string, string>} Each case's selector and its message.
+ */
+const parseCases = (text: string, pattern: string): Map<string, string> => {
+  const cases = new Map<string, string>();
+  let i = 0;
+  while (i < text.length) {
+    const open = text.indexOf('{', i);
+    if (open === -1) break;
+    const close = findClosingBrace(text, open);
+    cases.set(text.slice(i, open).trim(), text.slice(open + 1, close));
+    i = close + 1;
+  }
+  if (!cases.has('other')) {
+    throw new Error(`Missing "other" case in message: ${pattern}`);
+  }
+  return cases;
+};
+
+/**
+ * Formats a message written in a subset of the ICU MessageFormat syntax:
+ * - `{name}` inserts a parameter;
+ * - `{count, plural, =0{...} one{...} other{...}}` picks a case by the language's plural rules,
+ *   with `#` standing for the formatted number;
+ * - `{role, select, admin{...} other{...}}` picks a case by value;
+ * - `{share, number}` and `{share, number, percent}` format a number for the language.
+ *
+ * Apostrophes are ordinary characters (there is no ICU quoting), which keeps French readable.
+ * @param {Locale} locale - The language to format numbers and plurals for.
+ * @param {string} pattern - The message pattern.
+ * @param {MessageParams} [params] - The values to substitute.
+ * @param {string} [pound] - What `#` stands for, inside a plural case.
+ * @returns {string} The formatted message.
+ */
+export const formatMessage = (locale: Locale, pattern: string, params: MessageParams = {}, pound?: string): string => {
+  let result = '';
+  let i = 0;
+  while (i < pattern.length) {
+    const char = pattern[i];
+    if (char === '#' && pound !== undefined) {
+      result += pound;
+      i++;
+      continue;
+    }
+    if (char !== '{') {
+      result += char;
+      i++;
+      continue;
+    }
+
+    const close = findClosingBrace(pattern, i);
+    const body = pattern.slice(i + 1, close);
+    i = close + 1;
+
+    const [name, type, ...rest] = body.split(',');
+    const value = params[name.trim()];
+    const argType = type?.trim();
+
+    if (argType === 'plural') {
+      const count = Number(value);
+      const cases = parseCases(rest.join(','), pattern);
+      const chosen = cases.get(`=${count}`) ?? cases.get(new Intl.PluralRules(locale).select(count)) ?? cases.get('other')!;
+      result += formatMessage(locale, chosen, params, new Intl.NumberFormat(locale).format(count));
+    } else if (argType === 'select') {
+      const cases = parseCases(rest.join(','), pattern);
+      result += formatMessage(locale, cases.get(String(value)) ?? cases.get('other')!, params, pound);
+    } else if (argType === 'number') {
+      const style = rest.join(',').trim();
+      result += style === 'percent'
+        ? new Intl.NumberFormat(locale, { style: 'percent', maximumFractionDigits: 0 }).format(Number(value))
+        : new Intl.NumberFormat(locale).format(Number(value));
+    } else {
+      result += value === undefined ? `{${name.trim()}}` : typeof value === 'number' ? new Intl.NumberFormat(locale).format(value) : value;
+    }
+  }
+  return result;
+};
+
+/**
+ * Everything a component needs to show text in the user's language.
+ */
+export interface Translator {
+  locale: Locale;
+  dir: 'ltr' | 'rtl';
+  /** Looks up a message and fills in its parameters. */
+  t: (key: MessageKey, params?: MessageParams) => string;
+  /** Formats a number with the language's digits and separators. */
+  formatNumber: (value: number) => string;
+  /** Formats a share given out of 100 (as `getVoteShare` returns it) as a percentage. */
+  formatPercent: (share: number) => string;
+  /** Formats a timestamp as a date and time. */
+  formatDate: (iso: string) => string;
+  /** Joins items into a list, e.g. "A, B, C" or "A, B et C". */
+  formatList: (items: string[]) => string;
+  /**
+   * Describes a caught error in the user's language. Coded errors are translated; anything
+   * else shows its own message, or the fallback message if it has none.
+   */
+  errorMessage: (err: unknown, fallback: MessageKey) => string;
+}
+
+/**
+ * Creates the translator for a language.
+ * @param {Locale} locale - The language to translate into.
+ * @returns {Translator} Functions for translating and formatting text in that language.
+ */
+export const createTranslator = (locale: Locale): Translator => {
+  const catalog = CATALOGS[locale];
+  const numberFormat = new Intl.NumberFormat(locale);
+  const percentFormat = new Intl.NumberFormat(locale, { style: 'percent', maximumFractionDigits: 0 });
+  const dateFormat = new Intl.DateTimeFormat(locale, { dateStyle: 'medium', timeStyle: 'short' });
+  const listFormat = new Intl.ListFormat(locale, { style: 'short', type: 'unit' });
+
+  const t = (key: MessageKey, params?: MessageParams): string =>
+    formatMessage(locale, catalog[key] ?? en[key] ?? key, params);
+
+  return {
+    locale,
+    dir: LOCALES[locale].dir,
+    t,
+    formatNumber: value => numberFormat.format(value),
+    formatPercent: share => percentFormat.format(share / 100),
+    formatDate: iso => dateFormat.format(new Date(iso)),
+    formatList: items => listFormat.format(items),
+    errorMessage: (err, fallback) => {
+      const { code, params, message } = (err ?? {}) as { code?: unknown; params?: MessageParams; message?: string };
+      const key = `error.${code}`;
+      if (typeof code === 'string' && Object.prototype.hasOwnProperty.call(catalog, key)) {
+        return t(key as MessageKey, params);
+      }
+      return message || t(fallback);
+    },
+  };
+};
@@ -0,0 +1,523 @@
+
+import type { MessageKey } from './en';
+
+/**
+ * The Arabic messages. Arabic has six plural forms (zero, one, two, few, many and other),
+ * so counted messages spell out each of them. The interface is laid out right to left
+ * whenever this language is active.
+ */
+export const ar: Record<MessageKey, string> = {
+  // --- Application shell ---
+  'app.loading': 'جارٍ تحميل التطبيق...',
+  'app.notFound': 'الصفحة غير موجودة',
+  'app.backToDashboard': 'العودة إلى لوحة التحكم',
+
+  // --- Header ---
+  'header.dashboard': 'لوحة التحكم',
+  'header.myPolls': 'استطلاعاتي',
+  'header.tags': 'الوسوم',
+  'header.moderation': 'الإشراف',
+  'header.about': 'حول',
+  'header.login': 'تسجيل الدخول',
+  'header.signOut': 'تسجيل الخروج',
+  'header.language': 'اللغة',
+
+  // --- Login ---
+  'login.signInTitle': 'سجّل الدخول إلى ALX Polly',
+  'login.signUpTitle': 'أنشئ حسابك في ALX Polly',
+  'login.newHere': 'جديد هنا؟',
+  'login.haveAccount': 'لديك حساب بالفعل؟',
+  'login.createAccount': 'إنشاء حساب',
+  'login.signIn': 'تسجيل الدخول',
+  'login.signUp': 'إنشاء الحساب',
+  'login.signingIn': 'جارٍ تسجيل الدخول...',
+  'login.creatingAccount': 'جارٍ إنشاء الحساب...',
+  'login.username': 'اسم المستخدم',
+  'login.password': 'كلمة المرور',
+  'login.confirmPassword': 'تأكيد كلمة المرور',
+  'login.failed': 'حدث خطأ أثناء تسجيل الدخول.',
+
+  // --- Dashboard ---
+  'dashboard.title': 'الاستطلاعات الحالية',
+  'dashboard.backup': 'نسخة احتياطية',
+  'dashboard.import': 'استيراد',
+  'dashboard.joinPoll': 'الانضمام برمز',
+  'dashboard.createPoll': 'إنشاء استطلاع',
+  'dashboard.error': 'خطأ: {message}',
+  'dashboard.loading': 'جارٍ تحميل الاستطلاعات...',
+  'dashboard.showing': 'عرض {shown} من {total, plural, zero{# استطلاع} one{استطلاع واحد} two{استطلاعين} few{# استطلاعات} many{# استطلاعًا} other{# استطلاع}}',
+  'dashboard.loadingMore': 'جارٍ التحميل...',
+  'dashboard.loadMore': 'عرض المزيد',
+  'dashboard.noMatches': 'لا توجد استطلاعات تطابق بحثك.',
+  'dashboard.noMatchesHint': 'جرّب كلمات أخرى أو عوامل تصفية أقل.',
+  'dashboard.empty': 'لا توجد استطلاعات حاليًا.',
+  'dashboard.emptyHint': 'لماذا لا تنشئ أول استطلاع؟',
+  'dashboard.fetchFailed': 'تعذّر تحميل الاستطلاعات.',
+  'dashboard.backupFailed': 'تعذّر إنشاء النسخة الاحتياطية.',
+  'dashboard.createFailed': 'تعذّر إنشاء استطلاعك «{question}»: {reason}',
+  'dashboard.dismiss': 'تجاهل',
+
+  // --- Poll toolbar ---
+  'toolbar.search': 'ابحث في الاستطلاعات...',
+  'toolbar.searchLabel': 'البحث في الاستطلاعات',
+  'toolbar.mine': 'استطلاعاتي',
+  'toolbar.notVoted': 'لم أصوّت بعد',
+  'toolbar.statusLabel': 'التصفية حسب الحالة',
+  'toolbar.anyStatus': 'كل الحالات',
+  'toolbar.open': 'مفتوحة',
+  'toolbar.upcoming': 'قادمة',
+  'toolbar.closed': 'مغلقة',
+  'toolbar.sortLabel': 'ترتيب الاستطلاعات',
+  'toolbar.newest': 'الأحدث',
+  'toolbar.mostVotes': 'الأكثر أصواتًا',
+  'toolbar.closingSoon': 'تُغلق قريبًا',
+
+  // --- Poll card ---
+  'poll.actions': 'إجراءات الاستطلاع',
+  'poll.edit': 'تعديل',
+  'poll.closeNow': 'إغلاق الاستطلاع الآن',
+  'poll.hide': 'إخفاء',
+  'poll.unhide': 'إظهار',
+  'poll.report': 'إبلاغ',
+  'poll.invite': 'دعوة',
+  'poll.delete': 'حذف',
+  'poll.confirmDelete': 'حذف «{question}»؟ لا يمكن التراجع عن ذلك.',
+  'poll.hiddenNotice': 'أخفى أحد المشرفين هذا الاستطلاع. لا يراه إلا منشئه والمشرفون، ولم يعد يقبل الأصوات.',
+  'poll.type.single': 'اختيار واحد',
+  'poll.type.multiple': 'اختيار متعدد',
+  'poll.type.ranked': 'اختيار بالترتيب',
+  'poll.visibility.unlisted': 'غير مدرج',
+  'poll.visibility.inviteOnly': 'بالدعوة فقط',
+  'poll.anonymous': 'مجهول الهوية',
+  'poll.attributed': 'بأسماء المصوّتين',
+  'poll.anonymousNotice': 'استطلاع مجهول الهوية: لا يمكن لأحد، ولا حتى منشئه، معرفة كيف صوّتّ.',
+  'poll.attributedNotice': 'استطلاع بأسماء المصوّتين: سيرى كل من يمكنه رؤية النتائج اسمك بجانب اختيارك.',
+  'poll.votedBy': 'صوّت له {voters}',
+  'poll.otherVoters': '{count, plural, zero{لا أحد غيرهم} one{شخص آخر} two{شخصان آخران} few{# أشخاص آخرين} many{# شخصًا آخر} other{# شخص آخر}}',
+  'poll.closed': 'مغلق',
+  'poll.opensIn': 'يُفتح خلال {time}',
+  'poll.closesIn': 'يُغلق خلال {time}',
+  'poll.countdown.d': '{count} ي',
+  'poll.countdown.h': '{count} س',
+  'poll.countdown.m': '{count} د',
+  'poll.countdown.s': '{count} ث',
+  'poll.hint.exactly': '{count, plural, zero{اختر # خيار بالضبط.} one{اختر خيارًا واحدًا بالضبط.} two{اختر خيارين بالضبط.} few{اختر # خيارات بالضبط.} many{اختر # خيارًا بالضبط.} other{اختر # خيار بالضبط.}}',
+  'poll.hint.between': 'اختر ما بين {min} و{max} خيارات.',
+  'poll.hint.ranked': 'انقر على الخيارات حسب ترتيب تفضيلك. انقر مرة أخرى للإزالة.',
+  'poll.voteCount': '{count, plural, zero{لا أصوات} one{صوت واحد} two{صوتان} few{# أصوات} many{# صوتًا} other{# صوت}}',
+  'poll.cancel': 'إلغاء',
+  'poll.vote': 'صوّت',
+  'poll.voting': 'جارٍ التصويت...',
+  'poll.updateVote': 'تحديث صوتي',
+  'poll.updating': 'جارٍ التحديث...',
+  'poll.loginPrompt': 'يرجى {link} للتصويت.',
+  'poll.loginLink': 'تسجيل الدخول',
+  'poll.finalResults': 'انتهى التصويت. هذه هي النتائج النهائية.',
+  'poll.youVotedFor': '✓ صوّتَّ لـ {choices}',
+  'poll.youRanked': '✓ ترتيبك: {choices}',
+  'poll.change': 'تغيير',
+  'poll.retract': 'سحب',
+  'poll.totalVoters': 'المجموع: {count, plural, zero{لا مصوّتين} one{مصوّت واحد} two{مصوّتان} few{# مصوّتين} many{# مصوّتًا} other{# مصوّت}}',
+  'poll.totalBallots': 'المجموع: {count, plural, zero{لا بطاقات} one{بطاقة واحدة} two{بطاقتان} few{# بطاقات} many{# بطاقة} other{# بطاقة}}',
+  'poll.totalVotes': 'المجموع: {count, plural, zero{لا أصوات} one{صوت واحد} two{صوتان} few{# أصوات} many{# صوتًا} other{# صوت}}',
+  'poll.createdBy': 'أنشأه:',
+  'poll.userName': 'المستخدم {id}',
+  'poll.unknownError': 'حدث خطأ غير معروف.',
+  'poll.sessionExpired': 'انتهت جلستك. يرجى {link} مرة أخرى.',
+  'poll.alreadyVotedElsewhere': 'لقد صوّتَّ في هذا الاستطلاع بالفعل، ربما في علامة تبويب أخرى أو على جهاز آخر.',
+  'poll.optionsRemoved': 'بعض الخيارات التي اخترتها لم تعد موجودة في هذا الاستطلاع. يُرجى مراجعة اختياراتك والتصويت مجددًا.',
+  'poll.resultsHidden.afterVoting': 'صوّت لترى النتائج.',
+  'poll.resultsHidden.afterClose': 'ستظهر النتائج عند إغلاق الاستطلاع.',
+  'poll.resultsHidden.creatorOnly': 'لا يرى النتائج إلا منشئ الاستطلاع.',
+  'poll.saving': 'جارٍ الحفظ...',
+
+  // --- Offline outbox ---
+  'outbox.title': 'في انتظار الإرسال',
+  'outbox.summary': '{count, plural, zero{لا تغييرات تنتظر} one{تغيير واحد ينتظر} two{تغييران ينتظران} few{# تغييرات تنتظر} many{# تغييرًا ينتظر} other{# تغيير ينتظر}} عودة الاتصال. ستُرسل تلقائيًا.',
+  'outbox.retry': 'أعد المحاولة الآن',
+  'outbox.dismiss': 'تجاهل',
+  'outbox.viewPoll': 'عرض الاستطلاع',
+  'outbox.votePending': 'سيُرسل صوتك عند عودة الاتصال.',
+  'outbox.voteFailed': 'تعذّر إرسال الصوت الذي أدليت به دون اتصال: {reason}',
+  'outbox.voteAlreadyCast': 'سبق أن صوّتَّ في هذا الاستطلاع، لذا لم يُحتسب الصوت الذي أدليت به دون اتصال. يبقى صوتك السابق كما هو.',
+  'outbox.voteTooLate': 'أُغلق هذا الاستطلاع قبل أن يُرسل صوتك الذي أدليت به دون اتصال، لذا لم يُحتسب.',
+  'outbox.pollPending': 'سيُنشأ استطلاعك الجديد «{question}» عند عودة الاتصال.',
+  'outbox.pollFailed': 'تعذّر إنشاء استطلاعك الجديد «{question}»: {reason}',
+
+  // --- Ranked results ---
+  'ranked.title': 'نتائج الجولات الإقصائية',
+  'ranked.round': 'الجولة {number}:',
+  'ranked.exhausted': '({count} مستنفدة)',
+  'ranked.eliminated': 'المُقصى: {options}',
+  'ranked.winner': 'الفائز: {options}',
+  'ranked.tied': 'تعادل: {options}',
+
+  // --- Report form ---
+  'report.question': 'لماذا تبلّغ عن هذا الاستطلاع؟',
+  'report.reason.spam': 'رسائل مزعجة أو إعلانات',
+  'report.reason.offensive': 'مسيء أو جارح',
+  'report.reason.misleading': 'مضلل أو كاذب',
+  'report.reason.other': 'سبب آخر',
+  'report.detailsRequired': 'أخبر المشرفين بالمشكلة',
+  'report.detailsOptional': 'أي معلومات تفيد المشرفين (اختياري)',
+  'report.detailsLabel': 'التوضيح',
+  'report.cancel': 'إلغاء',
+  'report.submit': 'الإبلاغ عن الاستطلاع',
+  'report.sending': 'جارٍ الإرسال...',
+  'report.thanks': 'شكرًا. سيراجع أحد المشرفين هذا الاستطلاع.',
+  'report.close': 'إغلاق',
+  'report.failed': 'تعذّر إرسال البلاغ.',
+
+  // --- Invites ---
+  'invite.intro': '{count, plural, zero{لم ينضم أحد بعد.} one{انضم شخص واحد.} two{انضم شخصان.} few{انضم # أشخاص.} many{انضم # شخصًا.} other{انضم # شخص.}} شارك الرمز أو الرابط مع من تريد دعوتهم.',
+  'invite.code': 'رمز الدعوة:',
+  'invite.link': 'رابط الدعوة',
+  'invite.copy': 'نسخ الرابط',
+  'invite.copied': 'تم النسخ',
+  'invite.codePending': 'جارٍ إنشاء رمز الدعوة...',
+  'invite.regenerate': 'رمز جديد',
+  'invite.regenerating': 'جارٍ الإنشاء...',
+  'invite.confirmRegenerate': 'استبدال رمز الدعوة؟ سيتوقف الرمز القديم وروابطه عن العمل، لكن من انضم بالفعل سيحتفظ بإمكانية الوصول.',
+  'invite.regenerateFailed': 'تعذّر إنشاء رمز دعوة جديد.',
+  'invite.close': 'إغلاق',
+
+  // --- Join page ---
+  'join.title': 'الانضمام إلى استطلاع',
+  'join.intro': 'أدخل رمز الدعوة الذي تلقيته لفتح استطلاع بالدعوة فقط.',
+  'join.loginRequired': 'يرجى {link} للانضمام إلى هذا الاستطلاع.',
+  'join.code': 'رمز الدعوة',
+  'join.submit': 'انضمام',
+  'join.joining': 'جارٍ الانضمام...',
+  'join.failed': 'تعذّر الانضمام إلى الاستطلاع.',
+
+  // --- Poll page ---
+  'pollPage.loading': 'جارٍ تحميل الاستطلاع...',
+  'pollPage.allPolls': 'كل الاستطلاعات',
+  'pollPage.unavailable': 'هذا الاستطلاع غير متاح.',
+  'pollPage.deleted': 'لقد حُذف.',
+  'pollPage.fetchFailed': 'تعذّر تحميل الاستطلاع.',
+  'pollPage.joinWithCode': 'الانضمام برمز دعوة',
+
+  // --- Poll details ---
+  'details.participation': 'المشاركة',
+  'details.voters': 'المصوّتون',
+  'details.preferences': 'التفضيلات',
+  'details.selections': 'الاختيارات',
+  'details.changedVotes': 'أصوات معدّلة',
+  'details.retracted': 'أصوات مسحوبة',
+  'details.results': 'النتائج',
+  'details.exportCsv': 'تصدير CSV',
+  'details.exportJson': 'تصدير JSON',
+  'details.leading': 'في الصدارة: {options}',
+  'details.tied': 'تعادل في الصدارة: {options}',
+  'details.afterRunoff': '(بعد جولة الإعادة الفورية)',
+  'details.chartType': 'نوع المخطط',
+  'details.bar': 'أعمدة',
+  'details.pie': 'دائري',
+  'details.valueWithShare': '{value} ({share})',
+  'details.countsAreVotes': 'الأرقام هي عدد الأصوات.',
+  'details.countsArePreferences': 'الأرقام هي التفضيلات الأولى.',
+  'details.multipleNote': 'كان بإمكان المصوّتين اختيار عدة خيارات، لذا فالنسب المئوية هي حصص من المصوّتين وقد يتجاوز مجموعها 100%؛ ويعرض المخطط الدائري حصص جميع الاختيارات.',
+  'details.resultsHidden.afterVoting': 'ستظهر النتائج هنا بعد أن تصوّت أو عند إغلاق الاستطلاع.',
+  'details.resultsHidden.afterClose': 'ستظهر النتائج هنا عند إغلاق الاستطلاع.',
+  'details.resultsHidden.creatorOnly': 'لا يرى النتائج إلا منشئ الاستطلاع.',
+  'details.votesOverTime': 'الأصوات عبر الزمن',
+
+  // --- Charts ---
+  'chart.barLabel': 'الأصوات لكل خيار، في مخطط أعمدة',
+  'chart.pieLabel': 'الأصوات لكل خيار، في مخطط دائري',
+  'chart.noVotes': 'لا أصوات بعد.',
+  'chart.legend': '{label} — {value} ({share})',
+  'chart.timelineLabel': 'مجموع الأصوات عبر الزمن، حتى {count}',
+  'chart.noTimeline': 'لم تُسجَّل أي أصوات بعد.',
+
+  // --- Discussion ---
+  'comments.title': 'النقاش ({count, plural, zero{لا تعليقات} one{تعليق واحد} two{تعليقان} few{# تعليقات} many{# تعليقًا} other{# تعليق}})',
+  'comments.locked': 'مقفل',
+  'comments.lock': 'قفل التعليقات',
+  'comments.unlock': 'فتح التعليقات',
+  'comments.loading': 'جارٍ تحميل التعليقات...',
+  'comments.empty': 'لا تعليقات بعد.',
+  'comments.lockedNotice': 'قفل منشئ هذا الاستطلاع التعليقات عليه.',
+  'comments.loginPrompt': 'يرجى {link} للمشاركة في النقاش.',
+  'comments.loginLink': 'تسجيل الدخول',
+  'comments.placeholder': 'شارك برأيك...',
+  'comments.comment': 'تعليق',
+  'comments.reply': 'ردّ',
+  'comments.edit': 'تعديل',
+  'comments.delete': 'حذف',
+  'comments.save': 'حفظ',
+  'comments.saving': 'جارٍ الحفظ...',
+  'comments.cancel': 'إلغاء',
+  'comments.deleted': 'حُذف هذا التعليق.',
+  'comments.edited': '(معدّل)',
+  'comments.confirmDelete': 'حذف هذا التعليق؟',
+  'comments.loadFailed': 'تعذّر تحميل التعليقات.',
+  'comments.saveFailed': 'تعذّر حفظ التعليق.',
+  'comments.deleteFailed': 'تعذّر حذف التعليق.',
+  'comments.lockFailed': 'تعذّر تحديث النقاش.',
+
+  // --- Import ---
+  'import.title': 'استيراد الاستطلاعات',
+  'import.intro': 'اختر نسخة احتياطية من Polly، أو استطلاعًا مُصدَّرًا (JSON)، أو جدول نتائج (CSV). تُفحص الاستطلاعات المستوردة كالاستطلاعات الجديدة وتصبح ملكًا لك.',
+  'import.found': 'عُثر على {count, plural, zero{لا استطلاعات} one{استطلاع واحد} two{استطلاعين} few{# استطلاعات} many{# استطلاعًا} other{# استطلاع}}. إذا كان الاستطلاع موجودًا بالفعل:',
+  'import.conflict.skip': 'تخطَّه واحتفظ بالاستطلاع الموجود',
+  'import.conflict.replace': 'استبدل الاستطلاع الموجود (استطلاعاتك فقط)',
+  'import.conflict.copy': 'استورده كنسخة جديدة',
+  'import.imported': 'استُورد {count, plural, zero{لا استطلاعات} one{استطلاع واحد} two{استطلاعان} few{# استطلاعات} many{# استطلاعًا} other{# استطلاع}}.',
+  'import.skipped': 'تم تخطي {count}:',
+  'import.noQuestion': '(بلا سؤال)',
+  'import.pollFailed': 'تعذّر استيراد هذا الاستطلاع.',
+  'import.readFailed': 'تعذّرت قراءة هذا الملف.',
+  'import.failed': 'تعذّر استيراد الاستطلاعات.',
+  'import.cancel': 'إلغاء',
+  'import.done': 'تم',
+  'import.submit': 'استيراد',
+  'import.importing': 'جارٍ الاستيراد...',
+
+  // --- User page ---
+  'userPage.yourPolls': 'استطلاعاتك',
+  'userPage.pollsBy': 'استطلاعات {name}',
+  'userPage.youHaveNone': 'لم تنشئ أي استطلاع بعد.',
+  'userPage.theyHaveNone': 'لم ينشئ هذا المستخدم أي استطلاع بعد.',
+
+  // --- Tags page ---
+  'tagsPage.title': 'تصفّح حسب الوسم',
+  'tagsPage.none': 'لا توجد استطلاعات موسومة بعد.',
+  'tagsPage.choose': 'اختر وسمًا لعرض استطلاعاته.',
+  'tagsPage.noMatches': '{count, plural, one{لا توجد استطلاعات بهذا الوسم.} other{لا توجد استطلاعات بكل هذه الوسوم.}}',
+  'tagsPage.fetchFailed': 'تعذّر تحميل الوسوم.',
+
+  // --- Moderation ---
+  'moderation.title': 'الإشراف',
+  'moderation.moderatorsOnly': 'للمشرفين فقط',
+  'moderation.cannotModerate': 'لا يمكن لحسابك استخدام أدوات الإشراف.',
+  'moderation.loginPrompt': 'يرجى تسجيل الدخول بحساب مشرف.',
+  'moderation.login': 'تسجيل الدخول',
+  'moderation.tab.reports': 'البلاغات',
+  'moderation.tab.users': 'المستخدمون',
+  'moderation.tab.audit': 'سجل التدقيق',
+  'moderation.loading': 'جارٍ التحميل...',
+  'moderation.loadFailed': 'تعذّر تحميل بيانات الإشراف.',
+  'moderation.actionFailed': 'فشل الإجراء.',
+  'moderation.showResolved': 'عرض البلاغات التي رُوجعت',
+  'moderation.noReports': 'لا بلاغات للمراجعة.',
+  'moderation.deleted': 'محذوف',
+  'moderation.hidden': 'مخفي',
+  'moderation.createdBy': 'أنشأه {name}',
+  'moderation.suspendedMark': '(موقوف)',
+  'moderation.reportedBy': 'من {name}، {date}',
+  'moderation.reportStatus.dismissed': '(مرفوض)',
+  'moderation.reportStatus.actioned': '(عولج)',
+  'moderation.hidePoll': 'إخفاء الاستطلاع',
+  'moderation.unhidePoll': 'إظهار الاستطلاع',
+  'moderation.dismissReports': '{count, plural, one{رفض البلاغ} two{رفض البلاغين} few{رفض # بلاغات} many{رفض # بلاغًا} other{رفض # بلاغ}}',
+  'moderation.suspendUser': 'إيقاف {name}',
+  'moderation.deletePoll': 'حذف الاستطلاع',
+  'moderation.column.user': 'المستخدم',
+  'moderation.column.role': 'الدور',
+  'moderation.column.status': 'الحالة',
+  'moderation.column.actions': 'الإجراءات',
+  'moderation.column.when': 'متى',
+  'moderation.column.who': 'من',
+  'moderation.column.action': 'الإجراء',
+  'moderation.column.target': 'الهدف',
+  'moderation.you': '(أنت)',
+  'moderation.roleOf': 'دور {name}',
+  'moderation.role.user': 'مستخدم',
+  'moderation.role.moderator': 'مشرف',
+  'moderation.role.admin': 'مدير',
+  'moderation.status.suspended': 'موقوف',
+  'moderation.status.active': 'نشط',
+  'moderation.suspend': 'إيقاف',
+  'moderation.liftSuspension': 'رفع الإيقاف',
+  'moderation.action.hide-poll': 'أخفى استطلاعًا',
+  'moderation.action.unhide-poll': 'أظهر استطلاعًا',
+  'moderation.action.delete-poll': 'حذف استطلاعًا',
+  'moderation.action.dismiss-report': 'رفض بلاغًا',
+  'moderation.action.suspend-user': 'أوقف مستخدمًا',
+  'moderation.action.unsuspend-user': 'رفع إيقافًا',
+  'moderation.action.change-role': 'غيّر دورًا',
+  'moderation.roleChange': '{name}: من {from} إلى {to}',
+  'moderation.noAuditEntries': 'لا إجراءات إشراف بعد.',
+
+  // --- Poll form ---
+  'form.createTitle': 'إنشاء استطلاع جديد',
+  'form.editTitle': 'تعديل الاستطلاع',
+  'form.question': 'سؤال الاستطلاع',
+  'form.questionPlaceholder': 'مثال: ماذا نأكل على الغداء؟',
+  'form.type': 'نوع الاستطلاع',
+  'form.type.single': 'اختيار واحد',
+  'form.type.multiple': 'اختيار متعدد (موافقة)',
+  'form.type.ranked': 'اختيار بالترتيب (جولات إقصائية)',
+  'form.minPicks': 'أدنى عدد',
+  'form.maxPicks': 'أقصى عدد',
+  'form.options': 'الخيارات',
+  'form.optionPlaceholder': 'الخيار {number}',
+  'form.removeOption': 'إزالة الخيار',
+  'form.addOption': 'إضافة خيار',
+  'form.tags': 'الوسوم',
+  'form.optional': '(اختياري)',
+  'form.opensAt': 'يُفتح في',
+  'form.closesAt': 'يُغلق في',
+  'form.allowVoteChange': 'السماح للمصوّتين بتغيير أصواتهم أو سحبها ما دام الاستطلاع مفتوحًا',
+  'form.resultsVisibility': 'من يمكنه رؤية النتائج',
+  'form.resultsVisibility.afterVoting': 'المصوّتون، ثم الجميع عند إغلاق الاستطلاع',
+  'form.resultsVisibility.always': 'الجميع، حتى قبل التصويت',
+  'form.resultsVisibility.afterClose': 'الجميع، عند إغلاق الاستطلاع',
+  'form.resultsVisibility.creatorOnly': 'أنا فقط',
+  'form.resultsVisibilityHint': 'يمكنك دائمًا رؤية نتائج استطلاعاتك.',
+  'form.visibility': 'من يمكنه العثور على هذا الاستطلاع',
+  'form.visibility.public': 'الجميع',
+  'form.visibility.unlisted': 'كل من لديه الرابط',
+  'form.visibility.inviteOnly': 'المدعوون فقط',
+  'form.visibilityHint.public': 'يظهر الاستطلاع في لوحة التحكم.',
+  'form.visibilityHint.unlisted': 'لا يظهر الاستطلاع في لوحة التحكم، لكن يمكن لكل من لديه الرابط التصويت.',
+  'form.visibilityHint.inviteOnly': 'لا يرى الاستطلاع ولا يصوّت فيه إلا من ينضم برمز الدعوة.',
+  'form.members': '{count, plural, zero{لا أعضاء} one{عضو واحد} two{عضوان} few{# أعضاء} many{# عضوًا} other{# عضو}}',
+  'form.removeMember': 'إزالة العضو {id}',
+  'form.ballots': 'بطاقات التصويت',
+  'form.ballots.anonymous': 'مجهولة الهوية',
+  'form.ballots.attributed': 'بأسماء المصوّتين',
+  'form.ballotsHint.anonymous': 'لا يمكن لأحد، ولا حتى أنت، معرفة من صوّت لماذا.',
+  'form.ballotsHint.attributed': 'يرى كل من يمكنه رؤية النتائج من صوّت لكل خيار.',
+  'form.ballotsLocked': 'أُبلغ المصوّتون بذلك عند تصويتهم، لذا لا يمكن تغييره.',
+  'form.hasVotes': 'يحتوي هذا الاستطلاع على أصوات بالفعل. يمكنك تغيير السؤال والمواعيد بحرية، لكن تغيير الخيارات أو نوع الاستطلاع يتطلب إعادة تعيين الأصوات.',
+  'form.resetVotes': 'إعادة تعيين كل الأصوات عند الحفظ',
+  'form.cancel': 'إلغاء',
+  'form.save': 'حفظ التغييرات',
+  'form.saving': 'جارٍ الحفظ...',
+  'form.create': 'إنشاء الاستطلاع',
+  'form.creating': 'جارٍ الإنشاء...',
+  'form.saveFailed': 'تعذّر حفظ الاستطلاع.',
+  'form.createFailed': 'تعذّر إنشاء الاستطلاع.',
+  'form.invalidField': 'يُرجى التحقق من هذا الحقل.',
+  'form.fixErrors': 'يُرجى تصحيح الحقول المميّزة.',
+  'form.optionLimits': '(من {min} إلى {max})',
+  'form.draftRestored': 'تمت استعادة مسودتك غير المحفوظة من {time}.',
+  'form.discardDraft': 'تجاهل المسودة',
+
+  // --- Tag input ---
+  'tags.removeTag': 'إزالة الوسم {tag}',
+  'tags.limit': '{max} وسوم كحد أقصى',
+  'tags.placeholder': 'مثال: غداء، مراجعة، تقنية',
+  'tags.pollCount': '{count, plural, zero{لا استطلاعات} one{استطلاع واحد} two{استطلاعان} few{# استطلاعات} many{# استطلاعًا} other{# استطلاع}}',
+
+  // --- About ---
+  'about.title': 'توثيق ALX Polly',
+  'about.overviewTitle': '🚀 نظرة عامة والتقنيات',
+  'about.overview': 'ALX Polly تطبيق استطلاعات حديث ومتكامل مبني باستخدام React وTypeScript وTailwind CSS. يعرض أفضل الممارسات في تطوير الواجهات الأمامية، ومنها البنية القائمة على المكوّنات وإدارة الحالة باستخدام React Hooks والتوثيق الشامل للشيفرة.',
+  'about.backend': 'الخادم الخلفي محاكى بخدمة وهمية تستخدم `localStorage`، على غرار خدمة قواعد بيانات حقيقية مثل Supabase.',
+  'about.framework': 'إطار العمل:',
+  'about.language': 'اللغة:',
+  'about.styling': 'التنسيق:',
+  'about.stateManagement': 'إدارة الحالة:',
+  'about.simulatedBackend': 'الخادم الخلفي (محاكى):',
+  'about.simulatedBackendValue': 'خدمة وهمية تستخدم localStorage',
+  'about.setupTitle': '⚙️ الإعداد والتهيئة',
+  'about.setup': 'صُمّم التطبيق ليعمل مستقلًا. لكن لو كان متصلًا بخادم Supabase حقيقي، لكان عليك ضبط متغيرات البيئة.',
+  'about.envFile': 'أنشئ ملف {file} في جذر المشروع بالمفاتيح التالية:',
+  'about.envUnused': 'بما أن هذا عرض تجريبي، فهذه المتغيرات غير مستخدمة ويعمل التطبيق مباشرة. ويُتوقع كذلك وجود مفتاح Gemini في `process.env`.',
+  'about.usageTitle': '🎮 أمثلة على الاستخدام',
+  'about.creatingTitle': '1. إنشاء استطلاع',
+  'about.creating': 'بعد تسجيل الدخول، انقر على زر «إنشاء استطلاع» في لوحة التحكم. اكتب السؤال وخيارين على الأقل، ثم أرسل النموذج. سيظهر استطلاعك الجديد أعلى القائمة.',
+  'about.votingTitle': '2. التصويت في استطلاع',
+  'about.voting': 'في لوحة التحكم، اختر خيارًا في أي استطلاع وانقر على زر «صوّت». ستُحدَّث النتائج لتعكس صوتك، ولن تتمكن من التصويت في ذلك الاستطلاع مرة أخرى.',
+  'about.runTitle': '▶️ التشغيل والاختبار محليًا',
+  'about.run': 'اتبع هذه الخطوات لتشغيل التطبيق على جهازك.',
+  'about.installTitle': '1. تثبيت الاعتماديات',
+  'about.startTitle': '2. تشغيل خادم التطوير',
+  'about.running': 'يجب أن يعمل التطبيق الآن على {url}. ستظهر أي تغييرات تجريها على الشيفرة مباشرة في المتصفح.',
+
+  // --- Errors thrown by the services ---
+  'error.loginRequired': 'يجب تسجيل الدخول للقيام بذلك.',
+  'error.requestFailed': 'فشل الطلب (الحالة {status}).',
+  'error.offline': 'تعذّر الوصول إلى الخادم. تحقّق من اتصالك.',
+  'error.invalidJson': 'يجب أن يكون نص الطلب JSON صالحًا.',
+  'error.noRoute': 'لا يوجد مسار لـ {method} {path}.',
+  'error.newerSchema': 'حُفظت استطلاعاتك بإصدار أحدث من ALX Polly. يرجى إعادة تحميل الصفحة.',
+  'error.pollBusy': 'يعدّل شخص آخر هذا الاستطلاع الآن. يرجى المحاولة مرة أخرى.',
+  'error.pollNotFound': 'الاستطلاع غير موجود. ربما حُذف.',
+  'error.inviteOnlyPoll': 'هذا الاستطلاع بالدعوة فقط. انضم إليه برمز الدعوة للمشاركة.',
+  'error.invalidAccessCode': 'رمز الدعوة هذا غير صالح. ربما استُبدل.',
+  'error.pollNotInviteOnly': 'هذا الاستطلاع ليس بالدعوة فقط، لذا ليس له رمز دعوة.',
+  'error.questionRequired': 'يُرجى إدخال سؤال.',
+  'error.questionTooLong': 'لا يمكن أن يتجاوز السؤال {max} حرفًا.',
+  'error.optionEmpty': 'يُرجى ملء هذا الخيار أو إزالته.',
+  'error.optionTooLong': 'لا يمكن أن يتجاوز الخيار {max} حرفًا.',
+  'error.duplicateOptionText': 'هذا الخيار مطابق لخيار سابق.',
+  'error.tooFewOptions': 'يحتاج الاستطلاع إلى {min} خيارات على الأقل.',
+  'error.tooManyOptions': 'يمكن أن يحتوي الاستطلاع على {max} خيارات كحد أقصى.',
+  'error.invalidSchedule': 'يحتوي جدول الاستطلاع على تاريخ غير صالح.',
+  'error.closingInPast': 'يجب أن يكون موعد الإغلاق في المستقبل.',
+  'error.closingBeforeOpening': 'يجب أن يكون موعد الإغلاق بعد موعد الفتح.',
+  'error.invalidSelectionBounds': 'يجب أن يكون عدد الاختيارات بين 1 و{max}، وألا يتجاوز الحد الأدنى الحد الأقصى.',
+  'error.unknownPollType': 'نوع استطلاع غير معروف.',
+  'error.unknownResultsVisibility': 'إعداد ظهور النتائج غير معروف.',
+  'error.unknownPollVisibility': 'إعداد ظهور الاستطلاع غير معروف.',
+  'error.invalidSetting': 'يجب أن يكون هذا الإعداد مفعّلًا أو معطّلًا.',
+  'error.settingsRequired': 'إعدادات الاستطلاع مفقودة.',
+  'error.invalidOption': 'الخيار المحدد غير صالح.',
+  'error.duplicateOption': 'لا يمكن اختيار الخيار نفسه أكثر من مرة.',
+  'error.selectExactly': '{count, plural, zero{يرجى اختيار # خيار بالضبط.} one{يرجى اختيار خيار واحد بالضبط.} two{يرجى اختيار خيارين بالضبط.} few{يرجى اختيار # خيارات بالضبط.} many{يرجى اختيار # خيارًا بالضبط.} other{يرجى اختيار # خيار بالضبط.}}',
+  'error.selectBetween': 'يرجى اختيار ما بين {min} و{max} خيارات.',
+  'error.rankAtLeastOne': 'يرجى ترتيب خيار واحد على الأقل.',
+  'error.selectOne': 'يرجى اختيار خيار واحد بالضبط.',
+  'error.pollHidden': 'أخفى أحد المشرفين هذا الاستطلاع ولم يعد يقبل الأصوات.',
+  'error.pollNotOpen': 'لم يُفتح هذا الاستطلاع للتصويت بعد.',
+  'error.pollClosed': 'أُغلق هذا الاستطلاع ولم يعد يقبل الأصوات.',
+  'error.voteChangeNotAllowed': 'لا يسمح منشئ هذا الاستطلاع بتغيير الأصوات.',
+  'error.notVoted': 'لم تصوّت في هذا الاستطلاع.',
+  'error.alreadyVoted': 'لقد صوّتَّ في هذا الاستطلاع بالفعل.',
+  'error.closeOwnerOnly': 'لا يمكن إغلاق هذا الاستطلاع إلا لمنشئه.',
+  'error.pollAlreadyClosed': 'هذا الاستطلاع مغلق بالفعل.',
+  'error.editOwnerOnly': 'لا يمكن تعديل هذا الاستطلاع إلا لمنشئه.',
+  'error.editClosedPoll': 'هذا الاستطلاع مغلق ولم يعد من الممكن تعديله.',
+  'error.pollHasVotes': 'يحتوي هذا الاستطلاع على أصوات. أعد تعيين الأصوات لتغيير خياراته أو نوعه.',
+  'error.deleteOwnerOnly': 'لا يمكن حذف هذا الاستطلاع إلا لمنشئه.',
+  'error.importNotAPoll': 'هذا ليس استطلاعًا: يلزم سؤال وقائمة خيارات.',
+  'error.importDuplicateOptionIds': 'يجب أن يكون لكل خيار معرّف مختلف.',
+  'error.importResultsHidden': 'صُدِّر هذا الاستطلاع دون نتائجه، لذا فأصواته غير مكتملة.',
+  'error.importMalformedBallot': 'إحدى بطاقات التصويت في هذا الاستطلاع تالفة.',
+  'error.importDuplicateVoter': 'لأحد المصوّتين أكثر من بطاقة في هذا الاستطلاع.',
+  'error.importIdTaken': 'يوجد استطلاع بهذا المعرّف بالفعل.',
+  'error.importReplaceOwnerOnly': 'يوجد استطلاع بهذا المعرّف بالفعل، ولا يمكن استبداله إلا لمنشئه.',
+  'error.importNoPolls': 'لا يحتوي هذا الملف على أي استطلاع.',
+  'error.importUnreadable': 'هذا الملف ليس JSON أو CSV صالحًا.',
+  'error.invalidCursor': 'مؤشر الصفحة غير صالح.',
+  'error.invalidPageSize': 'يجب أن يكون حجم الصفحة عددًا صحيحًا موجبًا.',
+  'error.tagTooLong': 'يمكن أن يحتوي الوسم على {max} حرفًا كحد أقصى.',
+  'error.tooManyTags': 'يمكن أن يحتوي الاستطلاع على {max} وسوم كحد أقصى.',
+  'error.commentEmpty': 'لا يمكن أن يكون التعليق فارغًا.',
+  'error.commentTooLong': 'يمكن أن يحتوي التعليق على {max} حرفًا كحد أقصى.',
+  'error.commentNotFound': 'التعليق غير موجود. ربما حُذف.',
+  'error.commentsLocked': 'أغلق منشئ هذا الاستطلاع التعليقات.',
+  'error.replyParentDeleted': 'حُذف التعليق الذي تردّ عليه.',
+  'error.commentEditAuthorOnly': 'لا يمكن تعديل التعليق إلا لكاتبه.',
+  'error.commentDeleteAuthorOnly': 'لا يمكن حذف التعليق إلا لكاتبه.',
+  'error.commentLockOwnerOnly': 'لا يمكن قفل التعليقات أو فتحها إلا لمنشئ الاستطلاع.',
+  'error.accessCodeOwnerOnly': 'لا يمكن تغيير رمز الدعوة إلا لمنشئ الاستطلاع.',
+  'error.accountSuspended': 'علّق أحد المشرفين حسابك.',
+  'error.moderatorsOnly': 'هذا الإجراء متاح للمشرفين فقط.',
+  'error.adminsOnly': 'هذا الإجراء متاح للمديرين فقط.',
+  'error.reportReasonRequired': 'يرجى اختيار سبب للبلاغ.',
+  'error.reportDetailsTooLong': 'يمكن أن يحتوي التوضيح على {max} حرفًا كحد أقصى.',
+  'error.reportDetailsRequired': 'يرجى توضيح المشكلة في هذا الاستطلاع.',
+  'error.cannotReportOwnPoll': 'لا يمكنك الإبلاغ عن استطلاعك.',
+  'error.alreadyReported': 'لقد أبلغت عن هذا الاستطلاع بالفعل. سيراجعه أحد المشرفين قريبًا.',
+  'error.reportNotFound': 'البلاغ غير موجود.',
+  'error.reportAlreadyReviewed': 'تمت مراجعة هذا البلاغ بالفعل.',
+  'error.pollAlreadyHidden': 'هذا الاستطلاع مخفي بالفعل.',
+  'error.pollNotHidden': 'هذا الاستطلاع غير مخفي.',
+  'error.cannotSuspendSelf': 'لا يمكنك تعليق حسابك.',
+  'error.suspendStaffAdminsOnly': 'لا يمكن تعليق المشرفين والمديرين إلا للمديرين.',
+  'error.unknownRole': 'دور غير معروف.',
+  'error.cannotChangeOwnRole': 'لا يمكنك تغيير دورك.',
+  'error.userNotFound': 'المستخدم غير موجود.',
+  'error.usernameTooShort': 'يجب أن يتكون اسم المستخدم من {min} أحرف على الأقل.',
+  'error.passwordTooShort': 'يجب أن تتكون كلمة المرور من {min} أحرف على الأقل.',
+  'error.passwordsDoNotMatch': 'كلمتا المرور غير متطابقتين.',
+  'error.usernameTaken': 'اسم المستخدم هذا مستخدم بالفعل.',
+  'error.unknownUsername': 'لا يوجد حساب بهذا الاسم.',
+  'error.incorrectPassword': 'كلمة المرور غير صحيحة.',
+};
@@ -0,0 +1,525 @@
+
+/**
+ * The English messages, which are also the source every other language is translated from.
+ * Keys are grouped by the screen that shows them; `error.*` keys describe the coded errors
+ * thrown by the services (see `services/errors.ts`). Messages use the ICU syntax understood
+ * by `formatMessage` in `services/i18n.ts`.
+ */
+export const en = {
+  // --- Application shell ---
+  'app.loading': 'Loading Application...',
+  'app.notFound': 'Page not found',
+  'app.backToDashboard': 'Back to the dashboard',
+
+  // --- Header ---
+  'header.dashboard': 'Dashboard',
+  'header.myPolls': 'My Polls',
+  'header.tags': 'Tags',
+  'header.moderation': 'Moderation',
+  'header.about': 'About',
+  'header.login': 'Login',
+  'header.signOut': 'Sign out',
+  'header.language': 'Language',
+
+  // --- Login ---
+  'login.signInTitle': 'Sign in to ALX Polly',
+  'login.signUpTitle': 'Create your ALX Polly account',
+  'login.newHere': 'New here?',
+  'login.haveAccount': 'Already have an account?',
+  'login.createAccount': 'Create an account',
+  'login.signIn': 'Sign in',
+  'login.signUp': 'Sign up',
+  'login.signingIn': 'Signing in...',
+  'login.creatingAccount': 'Creating account...',
+  'login.username': 'Username',
+  'login.password': 'Password',
+  'login.confirmPassword': 'Confirm password',
+  'login.failed': 'An error occurred during login.',
+
+  // --- Dashboard ---
+  'dashboard.title': 'Active Polls',
+  'dashboard.backup': 'Backup',
+  'dashboard.import': 'Import',
+  'dashboard.joinPoll': 'Join with a code',
+  'dashboard.createPoll': 'Create Poll',
+  'dashboard.error': 'Error: {message}',
+  'dashboard.loading': 'Loading polls...',
+  'dashboard.showing': 'Showing {shown} of {total, plural, one{# poll} other{# polls}}',
+  'dashboard.loadingMore': 'Loading...',
+  'dashboard.loadMore': 'Load more',
+  'dashboard.noMatches': 'No polls match your search.',
+  'dashboard.noMatchesHint': 'Try different words or fewer filters.',
+  'dashboard.empty': 'No polls available right now.',
+  'dashboard.emptyHint': 'Why not create the first one?',
+  'dashboard.fetchFailed': 'Failed to fetch polls.',
+  'dashboard.backupFailed': 'Failed to create the backup.',
+  'dashboard.createFailed': 'Your poll "{question}" could not be created: {reason}',
+  'dashboard.dismiss': 'Dismiss',
+
+  // --- Poll toolbar ---
+  'toolbar.search': 'Search polls...',
+  'toolbar.searchLabel': 'Search polls',
+  'toolbar.mine': 'Mine',
+  'toolbar.notVoted': 'Not yet voted',
+  'toolbar.statusLabel': 'Filter by status',
+  'toolbar.anyStatus': 'Any status',
+  'toolbar.open': 'Open',
+  'toolbar.upcoming': 'Upcoming',
+  'toolbar.closed': 'Closed',
+  'toolbar.sortLabel': 'Sort polls',
+  'toolbar.newest': 'Newest',
+  'toolbar.mostVotes': 'Most votes',
+  'toolbar.closingSoon': 'Closing soon',
+
+  // --- Poll card ---
+  'poll.actions': 'Poll actions',
+  'poll.edit': 'Edit',
+  'poll.closeNow': 'Close poll now',
+  'poll.hide': 'Hide',
+  'poll.unhide': 'Unhide',
+  'poll.report': 'Report',
+  'poll.invite': 'Invite',
+  'poll.delete': 'Delete',
+  'poll.confirmDelete': 'Delete "{question}"? This cannot be undone.',
+  'poll.hiddenNotice': 'A moderator has hidden this poll. Only its creator and moderators can see it, and it no longer accepts votes.',
+  'poll.type.single': 'Single choice',
+  'poll.type.multiple': 'Multiple choice',
+  'poll.type.ranked': 'Ranked choice',
+  'poll.visibility.unlisted': 'Unlisted',
+  'poll.visibility.inviteOnly': 'Invite only',
+  'poll.anonymous': 'Anonymous',
+  'poll.attributed': 'Attributed',
+  'poll.anonymousNotice': 'Anonymous poll: nobody, not even its creator, can see how you voted.',
+  'poll.attributedNotice': 'Attributed poll: everyone who can see the results will see your name next to your choice.',
+  'poll.votedBy': 'Voted for by {voters}',
+  'poll.otherVoters': '{count, plural, one{# other} other{# others}}',
+  'poll.closed': 'Closed',
+  'poll.opensIn': 'Opens in {time}',
+  'poll.closesIn': 'Closes in {time}',
+  'poll.countdown.d': '{count}d',
+  'poll.countdown.h': '{count}h',
+  'poll.countdown.m': '{count}m',
+  'poll.countdown.s': '{count}s',
+  'poll.hint.exactly': '{count, plural, one{Select exactly # option.} other{Select exactly # options.}}',
+  'poll.hint.between': 'Select between {min} and {max} options.',
+  'poll.hint.ranked': 'Click the options in order of preference. Click again to remove.',
+  'poll.voteCount': '{count, plural, one{# vote} other{# votes}}',
+  'poll.cancel': 'Cancel',
+  'poll.vote': 'Vote',
+  'poll.voting': 'Voting...',
+  'poll.updateVote': 'Update Vote',
+  'poll.updating': 'Updating...',
+  'poll.loginPrompt': 'Please {link} to vote.',
+  'poll.loginLink': 'log in',
+  'poll.finalResults': 'Voting has ended. These are the final results.',
+  'poll.youVotedFor': '✓ You voted for {choices}',
+  'poll.youRanked': '✓ You ranked {choices}',
+  'poll.change': 'Change',
+  'poll.retract': 'Retract',
+  'poll.totalVoters': '{count, plural, one{# voter} other{# voters}} in total',
+  'poll.totalBallots': '{count, plural, one{# ballot} other{# ballots}} in total',
+  'poll.totalVotes': '{count, plural, one{# vote} other{# votes}} in total',
+  'poll.createdBy': 'Created by:',
+  'poll.userName': 'User {id}',
+  'poll.unknownError': 'An unknown error occurred.',
+  'poll.sessionExpired': 'Your session has ended. Please {link} again.',
+  'poll.alreadyVotedElsewhere': 'You have already voted on this poll, perhaps in another tab or on another device.',
+  'poll.optionsRemoved': 'Some of the options you picked are no longer in this poll. Please check your choices and vote again.',
+  'poll.resultsHidden.afterVoting': 'Vote to see the results.',
+  'poll.resultsHidden.afterClose': 'The results will be shown when the poll closes.',
+  'poll.resultsHidden.creatorOnly': 'Only the poll\'s creator can see the results.',
+  'poll.saving': 'Saving...',
+
+  // --- Offline outbox ---
+  'outbox.title': 'Waiting to be sent',
+  'outbox.summary': '{count, plural, one{# change is} other{# changes are}} waiting for the connection to return. They will be sent automatically.',
+  'outbox.retry': 'Retry now',
+  'outbox.dismiss': 'Dismiss',
+  'outbox.viewPoll': 'View poll',
+  'outbox.votePending': 'Your vote will be sent when the connection returns.',
+  'outbox.voteFailed': 'Your vote from while you were offline could not be sent: {reason}',
+  'outbox.voteAlreadyCast': 'You had already voted on this poll, so the vote you cast while offline was not counted. Your earlier vote stands.',
+  'outbox.voteTooLate': 'This poll closed before your offline vote could be sent, so it was not counted.',
+  'outbox.pollPending': 'Your new poll "{question}" will be created when the connection returns.',
+  'outbox.pollFailed': 'Your new poll "{question}" could not be created: {reason}',
+
+  // --- Ranked results ---
+  'ranked.title': 'Instant-runoff results',
+  'ranked.round': 'Round {number}:',
+  'ranked.exhausted': '({count} exhausted)',
+  'ranked.eliminated': 'Eliminated: {options}',
+  'ranked.winner': 'Winner: {options}',
+  'ranked.tied': 'Tied: {options}',
+
+  // --- Report form ---
+  'report.question': 'Why are you reporting this poll?',
+  'report.reason.spam': 'Spam or advertising',
+  'report.reason.offensive': 'Offensive or abusive',
+  'report.reason.misleading': 'Misleading or false',
+  'report.reason.other': 'Something else',
+  'report.detailsRequired': 'Tell the moderators what is wrong',
+  'report.detailsOptional': 'Anything the moderators should know (optional)',
+  'report.detailsLabel': 'Explanation',
+  'report.cancel': 'Cancel',
+  'report.submit': 'Report poll',
+  'report.sending': 'Sending...',
+  'report.thanks': 'Thanks. A moderator will review this poll.',
+  'report.close': 'Close',
+  'report.failed': 'Failed to send the report.',
+
+  // --- Invites ---
+  'invite.intro': '{count, plural, =0{Nobody has joined yet.} one{# person has joined.} other{# people have joined.}} Share the code or the link with the people you want to invite.',
+  'invite.code': 'Invite code:',
+  'invite.link': 'Invite link',
+  'invite.copy': 'Copy link',
+  'invite.copied': 'Copied',
+  'invite.codePending': 'The invite code is being created...',
+  'invite.regenerate': 'New code',
+  'invite.regenerating': 'Creating...',
+  'invite.confirmRegenerate': 'Replace the invite code? The old code and links will stop working, but everyone who already joined keeps access.',
+  'invite.regenerateFailed': 'Failed to create a new invite code.',
+  'invite.close': 'Close',
+
+  // --- Join page ---
+  'join.title': 'Join a poll',
+  'join.intro': 'Enter the invite code you were given to open an invite-only poll.',
+  'join.loginRequired': 'Please {link} to join this poll.',
+  'join.code': 'Invite code',
+  'join.submit': 'Join',
+  'join.joining': 'Joining...',
+  'join.failed': 'Failed to join the poll.',
+
+  // --- Poll page ---
+  'pollPage.loading': 'Loading poll...',
+  'pollPage.allPolls': 'All polls',
+  'pollPage.unavailable': 'This poll is not available.',
+  'pollPage.deleted': 'It has been deleted.',
+  'pollPage.fetchFailed': 'Failed to fetch the poll.',
+  'pollPage.joinWithCode': 'Join with an invite code',
+
+  // --- Poll details ---
+  'details.participation': 'Participation',
+  'details.voters': 'Voters',
+  'details.preferences': 'Preferences',
+  'details.selections': 'Selections',
+  'details.changedVotes': 'Changed votes',
+  'details.retracted': 'Retracted',
+  'details.results': 'Results',
+  'details.exportCsv': 'Export CSV',
+  'details.exportJson': 'Export JSON',
+  'details.leading': 'Leading: {options}',
+  'details.tied': 'Tied for the lead: {options}',
+  'details.afterRunoff': '(after the instant runoff)',
+  'details.chartType': 'Chart type',
+  'details.bar': 'Bar',
+  'details.pie': 'Pie',
+  'details.valueWithShare': '{value} ({share})',
+  'details.countsAreVotes': 'Counts are votes.',
+  'details.countsArePreferences': 'Counts are first preferences.',
+  'details.multipleNote': 'Voters could pick several options, so percentages are shares of voters and can add up to more than 100%; the pie shows shares of all selections.',
+  'details.resultsHidden.afterVoting': 'The results will be shown here once you have voted or the poll has closed.',
+  'details.resultsHidden.afterClose': 'The results will be shown here once the poll has closed.',
+  'details.resultsHidden.creatorOnly': 'Only the poll\'s creator can see the results.',
+  'details.votesOverTime': 'Votes over time',
+
+  // --- Charts ---
+  'chart.barLabel': 'Votes per option, as a bar chart',
+  'chart.pieLabel': 'Votes per option, as a pie chart',
+  'chart.noVotes': 'No votes yet.',
+  'chart.legend': '{label} — {value} ({share})',
+  'chart.timelineLabel': 'Cumulative votes over time, reaching {count}',
+  'chart.noTimeline': 'No votes have been recorded yet.',
+
+  // --- Discussion ---
+  'comments.title': 'Discussion ({count, plural, one{# comment} other{# comments}})',
+  'comments.locked': 'Locked',
+  'comments.lock': 'Lock comments',
+  'comments.unlock': 'Unlock comments',
+  'comments.loading': 'Loading comments...',
+  'comments.empty': 'No comments yet.',
+  'comments.lockedNotice': 'The creator of this poll has locked its comments.',
+  'comments.loginPrompt': 'Please {link} to join the discussion.',
+  'comments.loginLink': 'log in',
+  'comments.placeholder': 'Share your thoughts...',
+  'comments.comment': 'Comment',
+  'comments.reply': 'Reply',
+  'comments.edit': 'Edit',
+  'comments.delete': 'Delete',
+  'comments.save': 'Save',
+  'comments.saving': 'Saving...',
+  'comments.cancel': 'Cancel',
+  'comments.deleted': 'This comment was deleted.',
+  'comments.edited': '(edited)',
+  'comments.confirmDelete': 'Delete this comment?',
+  'comments.loadFailed': 'Failed to load the comments.',
+  'comments.saveFailed': 'Failed to save the comment.',
+  'comments.deleteFailed': 'Failed to delete the comment.',
+  'comments.lockFailed': 'Failed to update the discussion.',
+
+  // --- Import ---
+  'import.title': 'Import Polls',
+  'import.intro': 'Choose a Polly backup, an exported poll (JSON) or a results spreadsheet (CSV). Imported polls are checked like new polls and will be owned by you.',
+  'import.found': 'Found {count, plural, one{# poll} other{# polls}}. If a poll already exists:',
+  'import.conflict.skip': 'Skip it and keep the existing poll',
+  'import.conflict.replace': 'Replace the existing poll (only polls you created)',
+  'import.conflict.copy': 'Import it as a new copy',
+  'import.imported': 'Imported {count, plural, one{# poll} other{# polls}}.',
+  'import.skipped': 'Skipped {count}:',
+  'import.noQuestion': '(no question)',
+  'import.pollFailed': 'This poll could not be imported.',
+  'import.readFailed': 'This file could not be read.',
+  'import.failed': 'Failed to import polls.',
+  'import.cancel': 'Cancel',
+  'import.done': 'Done',
+  'import.submit': 'Import',
+  'import.importing': 'Importing...',
+
+  // --- User page ---
+  'userPage.yourPolls': 'Your Polls',
+  'userPage.pollsBy': 'Polls by {name}',
+  'userPage.youHaveNone': 'You haven\'t created any polls yet.',
+  'userPage.theyHaveNone': 'This user hasn\'t created any polls yet.',
+
+  // --- Tags page ---
+  'tagsPage.title': 'Browse by Tag',
+  'tagsPage.none': 'No polls have been tagged yet.',
+  'tagsPage.choose': 'Choose a tag to see its polls.',
+  'tagsPage.noMatches': '{count, plural, one{No polls have this tag.} other{No polls have all of these tags.}}',
+  'tagsPage.fetchFailed': 'Failed to fetch tags.',
+
+  // --- Moderation ---
+  'moderation.title': 'Moderation',
+  'moderation.moderatorsOnly': 'Moderators only',
+  'moderation.cannotModerate': 'Your account cannot use the moderation tools.',
+  'moderation.loginPrompt': 'Please log in with a moderator account.',
+  'moderation.login': 'Log in',
+  'moderation.tab.reports': 'Reports',
+  'moderation.tab.users': 'Users',
+  'moderation.tab.audit': 'Audit log',
+  'moderation.loading': 'Loading...',
+  'moderation.loadFailed': 'Failed to load the moderation data.',
+  'moderation.actionFailed': 'The action failed.',
+  'moderation.showResolved': 'Show reviewed reports',
+  'moderation.noReports': 'No reports to review.',
+  'moderation.deleted': 'Deleted',
+  'moderation.hidden': 'Hidden',
+  'moderation.createdBy': 'Created by {name}',
+  'moderation.suspendedMark': '(suspended)',
+  'moderation.reportedBy': 'by {name}, {date}',
+  'moderation.reportStatus.dismissed': '(dismissed)',
+  'moderation.reportStatus.actioned': '(actioned)',
+  'moderation.hidePoll': 'Hide poll',
+  'moderation.unhidePoll': 'Unhide poll',
+  'moderation.dismissReports': '{count, plural, one{Dismiss report} other{Dismiss # reports}}',
+  'moderation.suspendUser': 'Suspend {name}',
+  'moderation.deletePoll': 'Delete poll',
+  'moderation.column.user': 'User',
+  'moderation.column.role': 'Role',
+  'moderation.column.status': 'Status',
+  'moderation.column.actions': 'Actions',
+  'moderation.column.when': 'When',
+  'moderation.column.who': 'Who',
+  'moderation.column.action': 'Action',
+  'moderation.column.target': 'Target',
+  'moderation.you': '(you)',
+  'moderation.roleOf': 'Role of {name}',
+  'moderation.role.user': 'User',
+  'moderation.role.moderator': 'Moderator',
+  'moderation.role.admin': 'Admin',
+  'moderation.status.suspended': 'Suspended',
+  'moderation.status.active': 'Active',
+  'moderation.suspend': 'Suspend',
+  'moderation.liftSuspension': 'Lift suspension',
+  'moderation.action.hide-poll': 'Hid poll',
+  'moderation.action.unhide-poll': 'Unhid poll',
+  'moderation.action.delete-poll': 'Deleted poll',
+  'moderation.action.dismiss-report': 'Dismissed report',
+  'moderation.action.suspend-user': 'Suspended user',
+  'moderation.action.unsuspend-user': 'Lifted suspension',
+  'moderation.action.change-role': 'Changed role',
+  'moderation.roleChange': '{name}: {from} to {to}',
+  'moderation.noAuditEntries': 'No moderator actions yet.',
+
+  // --- Poll form ---
+  'form.createTitle': 'Create a New Poll',
+  'form.editTitle': 'Edit Poll',
+  'form.question': 'Poll Question',
+  'form.questionPlaceholder': 'e.g., What\'s for lunch?',
+  'form.type': 'Poll Type',
+  'form.type.single': 'Single choice',
+  'form.type.multiple': 'Multiple choice (approval)',
+  'form.type.ranked': 'Ranked choice (instant-runoff)',
+  'form.minPicks': 'Min picks',
+  'form.maxPicks': 'Max picks',
+  'form.options': 'Options',
+  'form.optionPlaceholder': 'Option {number}',
+  'form.removeOption': 'Remove option',
+  'form.addOption': 'Add Option',
+  'form.tags': 'Tags',
+  'form.optional': '(optional)',
+  'form.opensAt': 'Opens at',
+  'form.closesAt': 'Closes at',
+  'form.allowVoteChange': 'Allow voters to change or retract their vote while the poll is open',
+  'form.resultsVisibility': 'Who can see the results',
+  'form.resultsVisibility.afterVoting': 'Voters, and everyone once the poll closes',
+  'form.resultsVisibility.always': 'Everyone, even before voting',
+  'form.resultsVisibility.afterClose': 'Everyone, once the poll closes',
+  'form.resultsVisibility.creatorOnly': 'Only me',
+  'form.resultsVisibilityHint': 'You can always see the results of your own polls.',
+  'form.visibility': 'Who can find this poll',
+  'form.visibility.public': 'Everyone',
+  'form.visibility.unlisted': 'Anyone with the link',
+  'form.visibility.inviteOnly': 'Invited people only',
+  'form.visibilityHint.public': 'The poll is listed on the dashboard.',
+  'form.visibilityHint.unlisted': 'The poll is not listed on the dashboard, but anyone with the link can vote.',
+  'form.visibilityHint.inviteOnly': 'Only people who join with the invite code can see the poll and vote.',
+  'form.members': '{count, plural, one{# member} other{# members}}',
+  'form.removeMember': 'Remove member {id}',
+  'form.ballots': 'Ballots',
+  'form.ballots.anonymous': 'Anonymous',
+  'form.ballots.attributed': 'Attributed',
+  'form.ballotsHint.anonymous': 'Nobody, not even you, can see who voted for what.',
+  'form.ballotsHint.attributed': 'Everyone who can see the results sees who voted for each option.',
+  'form.ballotsLocked': 'Voters were told this when they voted, so it cannot be changed.',
+  'form.hasVotes': 'This poll already has votes. You can change the question and schedule freely, but changing the options or poll type requires resetting the votes.',
+  'form.resetVotes': 'Reset all votes when saving',
+  'form.cancel': 'Cancel',
+  'form.save': 'Save Changes',
+  'form.saving': 'Saving...',
+  'form.create': 'Create Poll',
+  'form.creating': 'Creating...',
+  'form.saveFailed': 'Failed to save poll.',
+  'form.createFailed': 'Failed to create poll.',
+  'form.invalidField': 'Please check this field.',
+  'form.fixErrors': 'Please fix the highlighted fields.',
+  'form.optionLimits': '({min} to {max})',
+  'form.draftRestored': 'Restored your unsaved draft from {time}.',
+  'form.discardDraft': 'Discard draft',
+
+  // --- Tag input ---
+  'tags.removeTag': 'Remove tag {tag}',
+  'tags.limit': 'Up to {max} tags',
+  'tags.placeholder': 'e.g. lunch, retro, tech',
+  'tags.pollCount': '{count, plural, one{# poll} other{# polls}}',
+
+  // --- About ---
+  'about.title': 'ALX Polly Documentation',
+  'about.overviewTitle': '🚀 Project Overview & Tech Stack',
+  'about.overview': 'ALX Polly is a modern, full-featured polling application built with React, TypeScript, and Tailwind CSS. It demonstrates best practices in frontend development, including component-based architecture, state management with React Hooks, and comprehensive code documentation.',
+  'about.backend': 'The backend is simulated using a mock service that interacts with `localStorage`, mimicking the behavior of a real database service like Supabase.',
+  'about.framework': 'Framework:',
+  'about.language': 'Language:',
+  'about.styling': 'Styling:',
+  'about.stateManagement': 'State Management:',
+  'about.simulatedBackend': 'Backend (Simulated):',
+  'about.simulatedBackendValue': 'Mock service using localStorage',
+  'about.setupTitle': '⚙️ Setup & Configuration',
+  'about.setup': 'The application is designed to be self-contained. However, if this were connected to a real Supabase backend, you would need to configure environment variables.',
+  'about.envFile': 'Create a {file} file in the project root with the following keys:',
+  'about.envUnused': 'Since this is a demo, these variables are not used, and the app works out-of-the-box. The API key for Gemini is similarly expected to be in `process.env`.',
+  'about.usageTitle': '🎮 Usage Examples',
+  'about.creatingTitle': '1. Creating a Poll',
+  'about.creating': 'After logging in, click the "Create Poll" button on the dashboard. Fill in the question and at least two options, then submit the form. Your new poll will appear at the top of the list.',
+  'about.votingTitle': '2. Voting on a Poll',
+  'about.voting': 'On the dashboard, select an option on any poll card and click the "Vote" button. The poll results will update to reflect your vote, and you will be unable to vote on that poll again.',
+  'about.runTitle': '▶️ How to Run and Test Locally',
+  'about.run': 'Follow these steps to get the application running on your local machine.',
+  'about.installTitle': '1. Install Dependencies',
+  'about.startTitle': '2. Start the Development Server',
+  'about.running': 'The application should now be running at {url}. Any changes you make to the source code will be reflected live in the browser.',
+
+  // --- Errors thrown by the services ---
+  'error.loginRequired': 'You must be logged in to do that.',
+  'error.requestFailed': 'Request failed with status {status}.',
+  'error.offline': 'Could not reach the server. Check your connection.',
+  'error.invalidJson': 'Request body must be valid JSON.',
+  'error.noRoute': 'No route for {method} {path}.',
+  'error.newerSchema': 'Your saved polls were created by a newer version of ALX Polly. Please reload the page.',
+  'error.pollBusy': 'This poll is being changed by someone else right now. Please try again.',
+  'error.pollNotFound': 'Poll not found. It may have been deleted.',
+  'error.inviteOnlyPoll': 'This poll is invite-only. Join it with its invite code to take part.',
+  'error.invalidAccessCode': 'This invite code is not valid. It may have been replaced.',
+  'error.pollNotInviteOnly': 'This poll is not invite-only, so it has no invite code.',
+  'error.questionRequired': 'Please enter a question.',
+  'error.questionTooLong': 'The question can be at most {max} characters long.',
+  'error.optionEmpty': 'Please enter this option, or remove it.',
+  'error.optionTooLong': 'An option can be at most {max} characters long.',
+  'error.duplicateOptionText': 'This option is the same as an earlier one.',
+  'error.tooFewOptions': 'A poll needs at least {min} options.',
+  'error.tooManyOptions': 'A poll can have at most {max} options.',
+  'error.invalidSchedule': 'The poll schedule contains an invalid date.',
+  'error.closingInPast': 'The closing time must be in the future.',
+  'error.closingBeforeOpening': 'The closing time must be after the opening time.',
+  'error.invalidSelectionBounds': 'Selections must be between 1 and {max}, with the minimum no greater than the maximum.',
+  'error.unknownPollType': 'Unknown poll type.',
+  'error.unknownResultsVisibility': 'Unknown results visibility.',
+  'error.unknownPollVisibility': 'Unknown poll visibility.',
+  'error.invalidSetting': 'This setting must be either on or off.',
+  'error.settingsRequired': 'The poll settings are missing.',
+  'error.invalidOption': 'Invalid option selected.',
+  'error.duplicateOption': 'Each option can only be chosen once.',
+  'error.selectExactly': '{count, plural, one{Please select exactly # option.} other{Please select exactly # options.}}',
+  'error.selectBetween': 'Please select between {min} and {max} options.',
+  'error.rankAtLeastOne': 'Please rank at least one option.',
+  'error.selectOne': 'Please select exactly one option.',
+  'error.pollHidden': 'This poll has been hidden by a moderator and no longer accepts votes.',
+  'error.pollNotOpen': 'This poll is not open for voting yet.',
+  'error.pollClosed': 'This poll has closed and no longer accepts votes.',
+  'error.voteChangeNotAllowed': 'The creator of this poll does not allow votes to be changed.',
+  'error.notVoted': 'You have not voted on this poll.',
+  'error.alreadyVoted': 'You have already voted on this poll.',
+  'error.closeOwnerOnly': 'Only the creator of this poll can close it.',
+  'error.pollAlreadyClosed': 'This poll is already closed.',
+  'error.editOwnerOnly': 'Only the creator of this poll can edit it.',
+  'error.editClosedPoll': 'This poll is closed and can no longer be edited.',
+  'error.pollHasVotes': 'This poll already has votes. Reset the votes to change its options or type.',
+  'error.deleteOwnerOnly': 'Only the creator of this poll can delete it.',
+  'error.importNotAPoll': 'This is not a poll: it needs a question and a list of options.',
+  'error.importDuplicateOptionIds': 'Each option must have a different ID.',
+  'error.importResultsHidden': 'This poll was exported without its results, so its votes are incomplete.',
+  'error.importMalformedBallot': 'A ballot in this poll is malformed.',
+  'error.importDuplicateVoter': 'A voter has more than one ballot in this poll.',
+  'error.importIdTaken': 'A poll with this ID already exists.',
+  'error.importReplaceOwnerOnly': 'A poll with this ID already exists, and only its creator can replace it.',
+  'error.importNoPolls': 'This file does not contain any polls.',
+  'error.importUnreadable': 'This file is not valid JSON or CSV.',
+  'error.invalidCursor': 'Invalid page cursor.',
+  'error.invalidPageSize': 'The page size must be a positive whole number.',
+  'error.tagTooLong': 'Tags can be at most {max} characters long.',
+  'error.tooManyTags': 'A poll can have at most {max} tags.',
+  'error.commentEmpty': 'A comment cannot be empty.',
+  'error.commentTooLong': 'Comments can be at most {max} characters long.',
+  'error.commentNotFound': 'Comment not found. It may have been deleted.',
+  'error.commentsLocked': 'The creator of this poll has locked its comments.',
+  'error.replyParentDeleted': 'The comment you are replying to has been deleted.',
+  'error.commentEditAuthorOnly': 'Only the author of a comment can edit it.',
+  'error.commentDeleteAuthorOnly': 'Only the author of a comment can delete it.',
+  'error.commentLockOwnerOnly': 'Only the creator of this poll can lock or unlock its comments.',
+  'error.accessCodeOwnerOnly': 'Only the creator of this poll can change its invite code.',
+  'error.accountSuspended': 'Your account has been suspended by a moderator.',
+  'error.moderatorsOnly': 'Only moderators can do that.',
+  'error.adminsOnly': 'Only admins can do that.',
+  'error.reportReasonRequired': 'Please choose a reason for the report.',
+  'error.reportDetailsTooLong': 'The explanation can be at most {max} characters long.',
+  'error.reportDetailsRequired': 'Please explain what is wrong with this poll.',
+  'error.cannotReportOwnPoll': 'You cannot report your own poll.',
+  'error.alreadyReported': 'You have already reported this poll. A moderator will review it soon.',
+  'error.reportNotFound': 'Report not found.',
+  'error.reportAlreadyReviewed': 'This report has already been reviewed.',
+  'error.pollAlreadyHidden': 'This poll is already hidden.',
+  'error.pollNotHidden': 'This poll is not hidden.',
+  'error.cannotSuspendSelf': 'You cannot suspend yourself.',
+  'error.suspendStaffAdminsOnly': 'Only admins can suspend moderators and admins.',
+  'error.unknownRole': 'Unknown role.',
+  'error.cannotChangeOwnRole': 'You cannot change your own role.',
+  'error.userNotFound': 'User not found.',
+  'error.usernameTooShort': 'Username must be at least {min} characters long.',
+  'error.passwordTooShort': 'Password must be at least {min} characters long.',
+  'error.passwordsDoNotMatch': 'Passwords do not match.',
+  'error.usernameTaken': 'That username is already taken.',
+  'error.unknownUsername': 'No account exists with that username.',
+  'error.incorrectPassword': 'Incorrect password.',
+};
+
+/** The key of any message in the catalog. */
+export type MessageKey = keyof typeof en;
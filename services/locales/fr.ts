@@ -0,0 +1,522 @@
+
+import type { MessageKey } from './en';
+
+/**
+ * The French messages. Typing the catalog as a record of every English key makes a
+ * missing translation a compile error.
+ */
+export const fr: Record<MessageKey, string> = {
+  // --- Application shell ---
+  'app.loading': 'Chargement de l\'application...',
+  'app.notFound': 'Page introuvable',
+  'app.backToDashboard': 'Retour au tableau de bord',
+
+  // --- Header ---
+  'header.dashboard': 'Tableau de bord',
+  'header.myPolls': 'Mes sondages',
+  'header.tags': 'Étiquettes',
+  'header.moderation': 'Modération',
+  'header.about': 'À propos',
+  'header.login': 'Connexion',
+  'header.signOut': 'Se déconnecter',
+  'header.language': 'Langue',
+
+  // --- Login ---
+  'login.signInTitle': 'Connectez-vous à ALX Polly',
+  'login.signUpTitle': 'Créez votre compte ALX Polly',
+  'login.newHere': 'Nouveau ici ?',
+  'login.haveAccount': 'Vous avez déjà un compte ?',
+  'login.createAccount': 'Créer un compte',
+  'login.signIn': 'Se connecter',
+  'login.signUp': 'S\'inscrire',
+  'login.signingIn': 'Connexion...',
+  'login.creatingAccount': 'Création du compte...',
+  'login.username': 'Nom d\'utilisateur',
+  'login.password': 'Mot de passe',
+  'login.confirmPassword': 'Confirmer le mot de passe',
+  'login.failed': 'Une erreur est survenue lors de la connexion.',
+
+  // --- Dashboard ---
+  'dashboard.title': 'Sondages en cours',
+  'dashboard.backup': 'Sauvegarder',
+  'dashboard.import': 'Importer',
+  'dashboard.joinPoll': 'Rejoindre avec un code',
+  'dashboard.createPoll': 'Créer un sondage',
+  'dashboard.error': 'Erreur : {message}',
+  'dashboard.loading': 'Chargement des sondages...',
+  'dashboard.showing': '{shown} sur {total, plural, one{# sondage} other{# sondages}}',
+  'dashboard.loadingMore': 'Chargement...',
+  'dashboard.loadMore': 'Afficher plus',
+  'dashboard.noMatches': 'Aucun sondage ne correspond à votre recherche.',
+  'dashboard.noMatchesHint': 'Essayez d\'autres mots ou moins de filtres.',
+  'dashboard.empty': 'Aucun sondage pour le moment.',
+  'dashboard.emptyHint': 'Pourquoi ne pas créer le premier ?',
+  'dashboard.fetchFailed': 'Impossible de charger les sondages.',
+  'dashboard.backupFailed': 'Impossible de créer la sauvegarde.',
+  'dashboard.createFailed': 'Votre sondage « {question} » n\'a pas pu être créé : {reason}',
+  'dashboard.dismiss': 'Ignorer',
+
+  // --- Poll toolbar ---
+  'toolbar.search': 'Rechercher des sondages...',
+  'toolbar.searchLabel': 'Rechercher des sondages',
+  'toolbar.mine': 'Les miens',
+  'toolbar.notVoted': 'Pas encore votés',
+  'toolbar.statusLabel': 'Filtrer par statut',
+  'toolbar.anyStatus': 'Tous les statuts',
+  'toolbar.open': 'Ouverts',
+  'toolbar.upcoming': 'À venir',
+  'toolbar.closed': 'Clos',
+  'toolbar.sortLabel': 'Trier les sondages',
+  'toolbar.newest': 'Plus récents',
+  'toolbar.mostVotes': 'Plus de votes',
+  'toolbar.closingSoon': 'Clôture prochaine',
+
+  // --- Poll card ---
+  'poll.actions': 'Actions du sondage',
+  'poll.edit': 'Modifier',
+  'poll.closeNow': 'Clore maintenant',
+  'poll.hide': 'Masquer',
+  'poll.unhide': 'Rétablir',
+  'poll.report': 'Signaler',
+  'poll.invite': 'Inviter',
+  'poll.delete': 'Supprimer',
+  'poll.confirmDelete': 'Supprimer « {question} » ? Cette action est irréversible.',
+  'poll.hiddenNotice': 'Un modérateur a masqué ce sondage. Seuls son créateur et les modérateurs peuvent le voir, et il n\'accepte plus de votes.',
+  'poll.type.single': 'Choix unique',
+  'poll.type.multiple': 'Choix multiple',
+  'poll.type.ranked': 'Vote par classement',
+  'poll.visibility.unlisted': 'Non répertorié',
+  'poll.visibility.inviteOnly': 'Sur invitation',
+  'poll.anonymous': 'Anonyme',
+  'poll.attributed': 'Nominatif',
+  'poll.anonymousNotice': 'Sondage anonyme : personne, pas même son créateur, ne peut voir comment vous avez voté.',
+  'poll.attributedNotice': 'Sondage nominatif : toute personne pouvant voir les résultats verra votre nom à côté de votre choix.',
+  'poll.votedBy': 'Choisi par {voters}',
+  'poll.otherVoters': '{count, plural, one{# autre personne} other{# autres personnes}}',
+  'poll.closed': 'Clos',
+  'poll.opensIn': 'Ouvre dans {time}',
+  'poll.closesIn': 'Ferme dans {time}',
+  'poll.countdown.d': '{count} j',
+  'poll.countdown.h': '{count} h',
+  'poll.countdown.m': '{count} min',
+  'poll.countdown.s': '{count} s',
+  'poll.hint.exactly': '{count, plural, one{Choisissez exactement # option.} other{Choisissez exactement # options.}}',
+  'poll.hint.between': 'Choisissez entre {min} et {max} options.',
+  'poll.hint.ranked': 'Cliquez sur les options par ordre de préférence. Cliquez à nouveau pour retirer.',
+  'poll.voteCount': '{count, plural, one{# vote} other{# votes}}',
+  'poll.cancel': 'Annuler',
+  'poll.vote': 'Voter',
+  'poll.voting': 'Vote en cours...',
+  'poll.updateVote': 'Modifier mon vote',
+  'poll.updating': 'Mise à jour...',
+  'poll.loginPrompt': 'Veuillez {link} pour voter.',
+  'poll.loginLink': 'vous connecter',
+  'poll.finalResults': 'Le vote est terminé. Voici les résultats définitifs.',
+  'poll.youVotedFor': '✓ Vous avez voté pour {choices}',
+  'poll.youRanked': '✓ Votre classement : {choices}',
+  'poll.change': 'Modifier',
+  'poll.retract': 'Retirer',
+  'poll.totalVoters': '{count, plural, one{# votant} other{# votants}} au total',
+  'poll.totalBallots': '{count, plural, one{# bulletin} other{# bulletins}} au total',
+  'poll.totalVotes': '{count, plural, one{# vote} other{# votes}} au total',
+  'poll.createdBy': 'Créé par :',
+  'poll.userName': 'Utilisateur {id}',
+  'poll.unknownError': 'Une erreur inconnue est survenue.',
+  'poll.sessionExpired': 'Votre session a expiré. Veuillez {link} à nouveau.',
+  'poll.alreadyVotedElsewhere': 'Vous avez déjà voté sur ce sondage, peut-être dans un autre onglet ou sur un autre appareil.',
+  'poll.optionsRemoved': 'Certaines des options choisies ne font plus partie de ce sondage. Vérifiez vos choix et votez à nouveau.',
+  'poll.resultsHidden.afterVoting': 'Votez pour voir les résultats.',
+  'poll.resultsHidden.afterClose': 'Les résultats seront affichés à la clôture du sondage.',
+  'poll.resultsHidden.creatorOnly': 'Seul le créateur du sondage peut voir les résultats.',
+  'poll.saving': 'Enregistrement...',
+
+  // --- Offline outbox ---
+  'outbox.title': 'En attente d\'envoi',
+  'outbox.summary': '{count, plural, one{# modification attend} other{# modifications attendent}} le retour de la connexion. Elles seront envoyées automatiquement.',
+  'outbox.retry': 'Réessayer maintenant',
+  'outbox.dismiss': 'Ignorer',
+  'outbox.viewPoll': 'Voir le sondage',
+  'outbox.votePending': 'Votre vote sera envoyé au retour de la connexion.',
+  'outbox.voteFailed': 'Le vote que vous avez émis hors ligne n\'a pas pu être envoyé : {reason}',
+  'outbox.voteAlreadyCast': 'Vous aviez déjà voté sur ce sondage : le vote émis hors ligne n\'a pas été compté. Votre vote précédent est conservé.',
+  'outbox.voteTooLate': 'Ce sondage a été clos avant que votre vote hors ligne puisse être envoyé : il n\'a pas été compté.',
+  'outbox.pollPending': 'Votre nouveau sondage « {question} » sera créé au retour de la connexion.',
+  'outbox.pollFailed': 'Votre nouveau sondage « {question} » n\'a pas pu être créé : {reason}',
+
+  // --- Ranked results ---
+  'ranked.title': 'Résultats du vote alternatif',
+  'ranked.round': 'Tour {number} :',
+  'ranked.exhausted': '({count} épuisés)',
+  'ranked.eliminated': 'Éliminés : {options}',
+  'ranked.winner': 'Gagnant : {options}',
+  'ranked.tied': 'Égalité : {options}',
+
+  // --- Report form ---
+  'report.question': 'Pourquoi signalez-vous ce sondage ?',
+  'report.reason.spam': 'Spam ou publicité',
+  'report.reason.offensive': 'Offensant ou injurieux',
+  'report.reason.misleading': 'Trompeur ou faux',
+  'report.reason.other': 'Autre chose',
+  'report.detailsRequired': 'Expliquez aux modérateurs le problème',
+  'report.detailsOptional': 'Informations utiles pour les modérateurs (facultatif)',
+  'report.detailsLabel': 'Explication',
+  'report.cancel': 'Annuler',
+  'report.submit': 'Signaler le sondage',
+  'report.sending': 'Envoi...',
+  'report.thanks': 'Merci. Un modérateur examinera ce sondage.',
+  'report.close': 'Fermer',
+  'report.failed': 'Impossible d\'envoyer le signalement.',
+
+  // --- Invites ---
+  'invite.intro': '{count, plural, =0{Personne n\'a encore rejoint le sondage.} one{# personne a rejoint le sondage.} other{# personnes ont rejoint le sondage.}} Partagez le code ou le lien avec les personnes que vous voulez inviter.',
+  'invite.code': 'Code d\'invitation :',
+  'invite.link': 'Lien d\'invitation',
+  'invite.copy': 'Copier le lien',
+  'invite.copied': 'Copié',
+  'invite.codePending': 'Le code d\'invitation est en cours de création...',
+  'invite.regenerate': 'Nouveau code',
+  'invite.regenerating': 'Création...',
+  'invite.confirmRegenerate': 'Remplacer le code d\'invitation ? L\'ancien code et les anciens liens ne fonctionneront plus, mais les personnes qui ont déjà rejoint le sondage gardent leur accès.',
+  'invite.regenerateFailed': 'Impossible de créer un nouveau code d\'invitation.',
+  'invite.close': 'Fermer',
+
+  // --- Join page ---
+  'join.title': 'Rejoindre un sondage',
+  'join.intro': 'Saisissez le code d\'invitation que vous avez reçu pour ouvrir un sondage sur invitation.',
+  'join.loginRequired': 'Veuillez {link} pour rejoindre ce sondage.',
+  'join.code': 'Code d\'invitation',
+  'join.submit': 'Rejoindre',
+  'join.joining': 'Connexion au sondage...',
+  'join.failed': 'Impossible de rejoindre le sondage.',
+
+  // --- Poll page ---
+  'pollPage.loading': 'Chargement du sondage...',
+  'pollPage.allPolls': 'Tous les sondages',
+  'pollPage.unavailable': 'Ce sondage n\'est pas disponible.',
+  'pollPage.deleted': 'Il a été supprimé.',
+  'pollPage.fetchFailed': 'Impossible de charger le sondage.',
+  'pollPage.joinWithCode': 'Rejoindre avec un code d\'invitation',
+
+  // --- Poll details ---
+  'details.participation': 'Participation',
+  'details.voters': 'Votants',
+  'details.preferences': 'Préférences',
+  'details.selections': 'Choix',
+  'details.changedVotes': 'Votes modifiés',
+  'details.retracted': 'Retirés',
+  'details.results': 'Résultats',
+  'details.exportCsv': 'Exporter en CSV',
+  'details.exportJson': 'Exporter en JSON',
+  'details.leading': 'En tête : {options}',
+  'details.tied': 'À égalité en tête : {options}',
+  'details.afterRunoff': '(après le second tour instantané)',
+  'details.chartType': 'Type de graphique',
+  'details.bar': 'Barres',
+  'details.pie': 'Secteurs',
+  'details.valueWithShare': '{value} ({share})',
+  'details.countsAreVotes': 'Les chiffres sont des votes.',
+  'details.countsArePreferences': 'Les chiffres sont des premières préférences.',
+  'details.multipleNote': 'Les votants pouvaient choisir plusieurs options : les pourcentages sont des parts de votants et peuvent dépasser 100 % au total ; le graphique en secteurs montre des parts de tous les choix.',
+  'details.resultsHidden.afterVoting': 'Les résultats s\'afficheront ici une fois que vous aurez voté ou que le sondage sera fermé.',
+  'details.resultsHidden.afterClose': 'Les résultats s\'afficheront ici une fois le sondage fermé.',
+  'details.resultsHidden.creatorOnly': 'Seul le créateur du sondage peut voir les résultats.',
+  'details.votesOverTime': 'Votes au fil du temps',
+
+  // --- Charts ---
+  'chart.barLabel': 'Votes par option, en graphique à barres',
+  'chart.pieLabel': 'Votes par option, en graphique à secteurs',
+  'chart.noVotes': 'Aucun vote pour l\'instant.',
+  'chart.legend': '{label} — {value} ({share})',
+  'chart.timelineLabel': 'Votes cumulés au fil du temps, jusqu\'à {count}',
+  'chart.noTimeline': 'Aucun vote n\'a encore été enregistré.',
+
+  // --- Discussion ---
+  'comments.title': 'Discussion ({count, plural, one{# commentaire} other{# commentaires}})',
+  'comments.locked': 'Verrouillée',
+  'comments.lock': 'Verrouiller les commentaires',
+  'comments.unlock': 'Déverrouiller les commentaires',
+  'comments.loading': 'Chargement des commentaires...',
+  'comments.empty': 'Aucun commentaire pour l\'instant.',
+  'comments.lockedNotice': 'Le créateur de ce sondage a verrouillé ses commentaires.',
+  'comments.loginPrompt': 'Veuillez {link} pour participer à la discussion.',
+  'comments.loginLink': 'vous connecter',
+  'comments.placeholder': 'Donnez votre avis...',
+  'comments.comment': 'Commenter',
+  'comments.reply': 'Répondre',
+  'comments.edit': 'Modifier',
+  'comments.delete': 'Supprimer',
+  'comments.save': 'Enregistrer',
+  'comments.saving': 'Enregistrement...',
+  'comments.cancel': 'Annuler',
+  'comments.deleted': 'Ce commentaire a été supprimé.',
+  'comments.edited': '(modifié)',
+  'comments.confirmDelete': 'Supprimer ce commentaire ?',
+  'comments.loadFailed': 'Impossible de charger les commentaires.',
+  'comments.saveFailed': 'Impossible d\'enregistrer le commentaire.',
+  'comments.deleteFailed': 'Impossible de supprimer le commentaire.',
+  'comments.lockFailed': 'Impossible de mettre à jour la discussion.',
+
+  // --- Import ---
+  'import.title': 'Importer des sondages',
+  'import.intro': 'Choisissez une sauvegarde Polly, un sondage exporté (JSON) ou un tableau de résultats (CSV). Les sondages importés sont vérifiés comme de nouveaux sondages et vous appartiendront.',
+  'import.found': '{count, plural, one{# sondage trouvé} other{# sondages trouvés}}. Si un sondage existe déjà :',
+  'import.conflict.skip': 'L\'ignorer et garder le sondage existant',
+  'import.conflict.replace': 'Remplacer le sondage existant (uniquement vos sondages)',
+  'import.conflict.copy': 'L\'importer comme nouvelle copie',
+  'import.imported': '{count, plural, one{# sondage importé} other{# sondages importés}}.',
+  'import.skipped': '{count} ignoré(s) :',
+  'import.noQuestion': '(sans question)',
+  'import.pollFailed': 'Ce sondage n\'a pas pu être importé.',
+  'import.readFailed': 'Ce fichier n\'a pas pu être lu.',
+  'import.failed': 'Impossible d\'importer les sondages.',
+  'import.cancel': 'Annuler',
+  'import.done': 'Terminé',
+  'import.submit': 'Importer',
+  'import.importing': 'Importation...',
+
+  // --- User page ---
+  'userPage.yourPolls': 'Vos sondages',
+  'userPage.pollsBy': 'Sondages de {name}',
+  'userPage.youHaveNone': 'Vous n\'avez encore créé aucun sondage.',
+  'userPage.theyHaveNone': 'Cet utilisateur n\'a encore créé aucun sondage.',
+
+  // --- Tags page ---
+  'tagsPage.title': 'Parcourir par étiquette',
+  'tagsPage.none': 'Aucun sondage n\'a encore d\'étiquette.',
+  'tagsPage.choose': 'Choisissez une étiquette pour voir ses sondages.',
+  'tagsPage.noMatches': '{count, plural, one{Aucun sondage n\'a cette étiquette.} other{Aucun sondage n\'a toutes ces étiquettes.}}',
+  'tagsPage.fetchFailed': 'Impossible de charger les étiquettes.',
+
+  // --- Moderation ---
+  'moderation.title': 'Modération',
+  'moderation.moderatorsOnly': 'Réservé aux modérateurs',
+  'moderation.cannotModerate': 'Votre compte ne peut pas utiliser les outils de modération.',
+  'moderation.loginPrompt': 'Veuillez vous connecter avec un compte de modérateur.',
+  'moderation.login': 'Se connecter',
+  'moderation.tab.reports': 'Signalements',
+  'moderation.tab.users': 'Utilisateurs',
+  'moderation.tab.audit': 'Journal d\'audit',
+  'moderation.loading': 'Chargement...',
+  'moderation.loadFailed': 'Impossible de charger les données de modération.',
+  'moderation.actionFailed': 'L\'action a échoué.',
+  'moderation.showResolved': 'Afficher les signalements traités',
+  'moderation.noReports': 'Aucun signalement à examiner.',
+  'moderation.deleted': 'Supprimé',
+  'moderation.hidden': 'Masqué',
+  'moderation.createdBy': 'Créé par {name}',
+  'moderation.suspendedMark': '(suspendu)',
+  'moderation.reportedBy': 'par {name}, {date}',
+  'moderation.reportStatus.dismissed': '(rejeté)',
+  'moderation.reportStatus.actioned': '(traité)',
+  'moderation.hidePoll': 'Masquer le sondage',
+  'moderation.unhidePoll': 'Afficher le sondage',
+  'moderation.dismissReports': '{count, plural, one{Rejeter le signalement} other{Rejeter les # signalements}}',
+  'moderation.suspendUser': 'Suspendre {name}',
+  'moderation.deletePoll': 'Supprimer le sondage',
+  'moderation.column.user': 'Utilisateur',
+  'moderation.column.role': 'Rôle',
+  'moderation.column.status': 'Statut',
+  'moderation.column.actions': 'Actions',
+  'moderation.column.when': 'Quand',
+  'moderation.column.who': 'Qui',
+  'moderation.column.action': 'Action',
+  'moderation.column.target': 'Cible',
+  'moderation.you': '(vous)',
+  'moderation.roleOf': 'Rôle de {name}',
+  'moderation.role.user': 'Utilisateur',
+  'moderation.role.moderator': 'Modérateur',
+  'moderation.role.admin': 'Administrateur',
+  'moderation.status.suspended': 'Suspendu',
+  'moderation.status.active': 'Actif',
+  'moderation.suspend': 'Suspendre',
+  'moderation.liftSuspension': 'Lever la suspension',
+  'moderation.action.hide-poll': 'Sondage masqué',
+  'moderation.action.unhide-poll': 'Sondage réaffiché',
+  'moderation.action.delete-poll': 'Sondage supprimé',
+  'moderation.action.dismiss-report': 'Signalement rejeté',
+  'moderation.action.suspend-user': 'Utilisateur suspendu',
+  'moderation.action.unsuspend-user': 'Suspension levée',
+  'moderation.action.change-role': 'Rôle modifié',
+  'moderation.roleChange': '{name} : de {from} à {to}',
+  'moderation.noAuditEntries': 'Aucune action de modération pour l\'instant.',
+
+  // --- Poll form ---
+  'form.createTitle': 'Créer un nouveau sondage',
+  'form.editTitle': 'Modifier le sondage',
+  'form.question': 'Question du sondage',
+  'form.questionPlaceholder': 'p. ex. Que mange-t-on à midi ?',
+  'form.type': 'Type de sondage',
+  'form.type.single': 'Choix unique',
+  'form.type.multiple': 'Choix multiple (approbation)',
+  'form.type.ranked': 'Vote par classement (alternatif)',
+  'form.minPicks': 'Choix min.',
+  'form.maxPicks': 'Choix max.',
+  'form.options': 'Options',
+  'form.optionPlaceholder': 'Option {number}',
+  'form.removeOption': 'Retirer l\'option',
+  'form.addOption': 'Ajouter une option',
+  'form.tags': 'Étiquettes',
+  'form.optional': '(facultatif)',
+  'form.opensAt': 'Ouverture',
+  'form.closesAt': 'Clôture',
+  'form.allowVoteChange': 'Permettre aux votants de modifier ou retirer leur vote tant que le sondage est ouvert',
+  'form.resultsVisibility': 'Qui peut voir les résultats',
+  'form.resultsVisibility.afterVoting': 'Les votants, puis tout le monde à la clôture',
+  'form.resultsVisibility.always': 'Tout le monde, même avant de voter',
+  'form.resultsVisibility.afterClose': 'Tout le monde, à la clôture du sondage',
+  'form.resultsVisibility.creatorOnly': 'Moi seulement',
+  'form.resultsVisibilityHint': 'Vous pouvez toujours voir les résultats de vos propres sondages.',
+  'form.visibility': 'Qui peut trouver ce sondage',
+  'form.visibility.public': 'Tout le monde',
+  'form.visibility.unlisted': 'Toute personne ayant le lien',
+  'form.visibility.inviteOnly': 'Les personnes invitées uniquement',
+  'form.visibilityHint.public': 'Le sondage est affiché sur le tableau de bord.',
+  'form.visibilityHint.unlisted': 'Le sondage n\'est pas affiché sur le tableau de bord, mais toute personne ayant le lien peut voter.',
+  'form.visibilityHint.inviteOnly': 'Seules les personnes qui rejoignent le sondage avec le code d\'invitation peuvent le voir et voter.',
+  'form.members': '{count, plural, one{# membre} other{# membres}}',
+  'form.removeMember': 'Retirer le membre {id}',
+  'form.ballots': 'Bulletins',
+  'form.ballots.anonymous': 'Anonymes',
+  'form.ballots.attributed': 'Nominatifs',
+  'form.ballotsHint.anonymous': 'Personne, pas même vous, ne peut voir qui a voté pour quoi.',
+  'form.ballotsHint.attributed': 'Toute personne pouvant voir les résultats voit qui a voté pour chaque option.',
+  'form.ballotsLocked': 'Les votants en ont été informés au moment de voter : ce réglage ne peut plus être modifié.',
+  'form.hasVotes': 'Ce sondage a déjà des votes. Vous pouvez modifier librement la question et le calendrier, mais changer les options ou le type de sondage nécessite de réinitialiser les votes.',
+  'form.resetVotes': 'Réinitialiser tous les votes à l\'enregistrement',
+  'form.cancel': 'Annuler',
+  'form.save': 'Enregistrer',
+  'form.saving': 'Enregistrement...',
+  'form.create': 'Créer le sondage',
+  'form.creating': 'Création...',
+  'form.saveFailed': 'Impossible d\'enregistrer le sondage.',
+  'form.createFailed': 'Impossible de créer le sondage.',
+  'form.invalidField': 'Veuillez vérifier ce champ.',
+  'form.fixErrors': 'Veuillez corriger les champs signalés.',
+  'form.optionLimits': '(de {min} à {max})',
+  'form.draftRestored': 'Votre brouillon non enregistré du {time} a été restauré.',
+  'form.discardDraft': 'Supprimer le brouillon',
+
+  // --- Tag input ---
+  'tags.removeTag': 'Retirer l\'étiquette {tag}',
+  'tags.limit': '{max} étiquettes au maximum',
+  'tags.placeholder': 'p. ex. déjeuner, rétro, tech',
+  'tags.pollCount': '{count, plural, one{# sondage} other{# sondages}}',
+
+  // --- About ---
+  'about.title': 'Documentation d\'ALX Polly',
+  'about.overviewTitle': '🚀 Présentation et technologies',
+  'about.overview': 'ALX Polly est une application de sondages moderne et complète, construite avec React, TypeScript et Tailwind CSS. Elle illustre les bonnes pratiques du développement frontend : architecture en composants, gestion d\'état avec les Hooks React et documentation complète du code.',
+  'about.backend': 'Le backend est simulé par un service fictif qui utilise `localStorage`, à la manière d\'un vrai service de base de données comme Supabase.',
+  'about.framework': 'Framework :',
+  'about.language': 'Langage :',
+  'about.styling': 'Styles :',
+  'about.stateManagement': 'Gestion d\'état :',
+  'about.simulatedBackend': 'Backend (simulé) :',
+  'about.simulatedBackendValue': 'Service fictif utilisant localStorage',
+  'about.setupTitle': '⚙️ Installation et configuration',
+  'about.setup': 'L\'application est autonome. Si elle était reliée à un vrai backend Supabase, il faudrait toutefois configurer des variables d\'environnement.',
+  'about.envFile': 'Créez un fichier {file} à la racine du projet avec les clés suivantes :',
+  'about.envUnused': 'Comme il s\'agit d\'une démo, ces variables ne sont pas utilisées et l\'application fonctionne telle quelle. La clé d\'API Gemini est de même attendue dans `process.env`.',
+  'about.usageTitle': '🎮 Exemples d\'utilisation',
+  'about.creatingTitle': '1. Créer un sondage',
+  'about.creating': 'Une fois connecté, cliquez sur le bouton « Créer un sondage » du tableau de bord. Saisissez la question et au moins deux options, puis envoyez le formulaire. Votre sondage apparaîtra en haut de la liste.',
+  'about.votingTitle': '2. Voter',
+  'about.voting': 'Sur le tableau de bord, choisissez une option sur n\'importe quel sondage et cliquez sur « Voter ». Les résultats se mettent à jour pour refléter votre vote, et vous ne pourrez plus voter sur ce sondage.',
+  'about.runTitle': '▶️ Lancer et tester en local',
+  'about.run': 'Suivez ces étapes pour lancer l\'application sur votre machine.',
+  'about.installTitle': '1. Installer les dépendances',
+  'about.startTitle': '2. Démarrer le serveur de développement',
+  'about.running': 'L\'application devrait maintenant tourner sur {url}. Toute modification du code source est reflétée en direct dans le navigateur.',
+
+  // --- Errors thrown by the services ---
+  'error.loginRequired': 'Vous devez être connecté pour faire cela.',
+  'error.requestFailed': 'La requête a échoué (statut {status}).',
+  'error.offline': 'Impossible de joindre le serveur. Vérifiez votre connexion.',
+  'error.invalidJson': 'Le corps de la requête doit être du JSON valide.',
+  'error.noRoute': 'Aucune route pour {method} {path}.',
+  'error.newerSchema': 'Vos sondages ont été enregistrés par une version plus récente d\'ALX Polly. Veuillez recharger la page.',
+  'error.pollBusy': 'Ce sondage est en cours de modification par quelqu\'un d\'autre. Veuillez réessayer.',
+  'error.pollNotFound': 'Sondage introuvable. Il a peut-être été supprimé.',
+  'error.inviteOnlyPoll': 'Ce sondage est sur invitation. Rejoignez-le avec son code d\'invitation pour participer.',
+  'error.invalidAccessCode': 'Ce code d\'invitation n\'est pas valide. Il a peut-être été remplacé.',
+  'error.pollNotInviteOnly': 'Ce sondage n\'est pas sur invitation : il n\'a pas de code d\'invitation.',
+  'error.questionRequired': 'Veuillez saisir une question.',
+  'error.questionTooLong': 'La question ne peut pas dépasser {max} caractères.',
+  'error.optionEmpty': 'Veuillez remplir cette option, ou la supprimer.',
+  'error.optionTooLong': 'Une option ne peut pas dépasser {max} caractères.',
+  'error.duplicateOptionText': 'Cette option est identique à une option précédente.',
+  'error.tooFewOptions': 'Un sondage nécessite au moins {min} options.',
+  'error.tooManyOptions': 'Un sondage peut avoir au plus {max} options.',
+  'error.invalidSchedule': 'Le calendrier du sondage contient une date invalide.',
+  'error.closingInPast': 'La date de clôture doit être dans le futur.',
+  'error.closingBeforeOpening': 'La date de clôture doit suivre la date d\'ouverture.',
+  'error.invalidSelectionBounds': 'Le nombre de choix doit être compris entre 1 et {max}, le minimum ne dépassant pas le maximum.',
+  'error.unknownPollType': 'Type de sondage inconnu.',
+  'error.unknownResultsVisibility': 'Visibilité des résultats inconnue.',
+  'error.unknownPollVisibility': 'Visibilité du sondage inconnue.',
+  'error.invalidSetting': 'Ce réglage doit être activé ou désactivé.',
+  'error.settingsRequired': 'Les réglages du sondage sont manquants.',
+  'error.invalidOption': 'Option choisie invalide.',
+  'error.duplicateOption': 'Chaque option ne peut être choisie qu\'une fois.',
+  'error.selectExactly': '{count, plural, one{Veuillez choisir exactement # option.} other{Veuillez choisir exactement # options.}}',
+  'error.selectBetween': 'Veuillez choisir entre {min} et {max} options.',
+  'error.rankAtLeastOne': 'Veuillez classer au moins une option.',
+  'error.selectOne': 'Veuillez choisir exactement une option.',
+  'error.pollHidden': 'Ce sondage a été masqué par un modérateur et n\'accepte plus de votes.',
+  'error.pollNotOpen': 'Ce sondage n\'est pas encore ouvert au vote.',
+  'error.pollClosed': 'Ce sondage est clos et n\'accepte plus de votes.',
+  'error.voteChangeNotAllowed': 'Le créateur de ce sondage ne permet pas de modifier les votes.',
+  'error.notVoted': 'Vous n\'avez pas voté sur ce sondage.',
+  'error.alreadyVoted': 'Vous avez déjà voté sur ce sondage.',
+  'error.closeOwnerOnly': 'Seul le créateur de ce sondage peut le clore.',
+  'error.pollAlreadyClosed': 'Ce sondage est déjà clos.',
+  'error.editOwnerOnly': 'Seul le créateur de ce sondage peut le modifier.',
+  'error.editClosedPoll': 'Ce sondage est clos et ne peut plus être modifié.',
+  'error.pollHasVotes': 'Ce sondage a déjà des votes. Réinitialisez-les pour changer ses options ou son type.',
+  'error.deleteOwnerOnly': 'Seul le créateur de ce sondage peut le supprimer.',
+  'error.importNotAPoll': 'Ce n\'est pas un sondage : il faut une question et une liste d\'options.',
+  'error.importDuplicateOptionIds': 'Chaque option doit avoir un identifiant différent.',
+  'error.importResultsHidden': 'Ce sondage a été exporté sans ses résultats : ses votes sont incomplets.',
+  'error.importMalformedBallot': 'Un bulletin de ce sondage est mal formé.',
+  'error.importDuplicateVoter': 'Un votant a plusieurs bulletins dans ce sondage.',
+  'error.importIdTaken': 'Un sondage avec cet identifiant existe déjà.',
+  'error.importReplaceOwnerOnly': 'Un sondage avec cet identifiant existe déjà, et seul son créateur peut le remplacer.',
+  'error.importNoPolls': 'Ce fichier ne contient aucun sondage.',
+  'error.importUnreadable': 'Ce fichier n\'est ni du JSON ni du CSV valide.',
+  'error.invalidCursor': 'Curseur de page invalide.',
+  'error.invalidPageSize': 'La taille de page doit être un entier positif.',
+  'error.tagTooLong': 'Une étiquette peut contenir au plus {max} caractères.',
+  'error.tooManyTags': 'Un sondage peut avoir au plus {max} étiquettes.',
+  'error.commentEmpty': 'Un commentaire ne peut pas être vide.',
+  'error.commentTooLong': 'Un commentaire peut contenir au plus {max} caractères.',
+  'error.commentNotFound': 'Commentaire introuvable. Il a peut-être été supprimé.',
+  'error.commentsLocked': 'Le créateur de ce sondage a verrouillé les commentaires.',
+  'error.replyParentDeleted': 'Le commentaire auquel vous répondez a été supprimé.',
+  'error.commentEditAuthorOnly': 'Seul l\'auteur d\'un commentaire peut le modifier.',
+  'error.commentDeleteAuthorOnly': 'Seul l\'auteur d\'un commentaire peut le supprimer.',
+  'error.commentLockOwnerOnly': 'Seul le créateur de ce sondage peut verrouiller ou déverrouiller les commentaires.',
+  'error.accessCodeOwnerOnly': 'Seul le créateur de ce sondage peut changer son code d\'invitation.',
+  'error.accountSuspended': 'Votre compte a été suspendu par un modérateur.',
+  'error.moderatorsOnly': 'Seuls les modérateurs peuvent faire cela.',
+  'error.adminsOnly': 'Seuls les administrateurs peuvent faire cela.',
+  'error.reportReasonRequired': 'Veuillez choisir un motif de signalement.',
+  'error.reportDetailsTooLong': 'L\'explication peut contenir au plus {max} caractères.',
+  'error.reportDetailsRequired': 'Veuillez expliquer le problème de ce sondage.',
+  'error.cannotReportOwnPoll': 'Vous ne pouvez pas signaler votre propre sondage.',
+  'error.alreadyReported': 'Vous avez déjà signalé ce sondage. Un modérateur l\'examinera bientôt.',
+  'error.reportNotFound': 'Signalement introuvable.',
+  'error.reportAlreadyReviewed': 'Ce signalement a déjà été traité.',
+  'error.pollAlreadyHidden': 'Ce sondage est déjà masqué.',
+  'error.pollNotHidden': 'Ce sondage n\'est pas masqué.',
+  'error.cannotSuspendSelf': 'Vous ne pouvez pas vous suspendre vous-même.',
+  'error.suspendStaffAdminsOnly': 'Seuls les administrateurs peuvent suspendre des modérateurs et des administrateurs.',
+  'error.unknownRole': 'Rôle inconnu.',
+  'error.cannotChangeOwnRole': 'Vous ne pouvez pas changer votre propre rôle.',
+  'error.userNotFound': 'Utilisateur introuvable.',
+  'error.usernameTooShort': 'Le nom d\'utilisateur doit contenir au moins {min} caractères.',
+  'error.passwordTooShort': 'Le mot de passe doit contenir au moins {min} caractères.',
+  'error.passwordsDoNotMatch': 'Les mots de passe ne correspondent pas.',
+  'error.usernameTaken': 'Ce nom d\'utilisateur est déjà pris.',
+  'error.unknownUsername': 'Aucun compte n\'existe avec ce nom d\'utilisateur.',
+  'error.incorrectPassword': 'Mot de passe incorrect.',
+};
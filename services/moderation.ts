@@ -0,0 +1,60 @@
+
+import type { Poll, ReportReason, User, UserRole } from '../types';
+import { ValidationError } from './errors';
+
+/** The longest explanation that can be attached to a report, in characters. */
+export const MAX_REPORT_DETAILS_LENGTH = 500;
+
+/** The reasons a poll can be reported for; the UI shows them through `report.reason.*`. */
+export const REPORT_REASONS: ReportReason[] = ['spam', 'offensive', 'misleading', 'other'];
+
+/** The roles that can be given to a user; the UI shows them through `moderation.role.*`. */
+export const USER_ROLES: UserRole[] = ['user', 'moderator', 'admin'];
+
+/**
+ * Checks whether a user may use the moderation tools. Suspended moderators may not.
+ * @param {Pick<User, 'role' | 'suspended'> | null | undefined} user - The user, if anyone is signed in.
+ * @returns {boolean} True for active moderators and admins.
+ */
+export const isModerator = (user: Pick<User, 'role' | 'suspended'> | null | undefined): boolean =>
+  Boolean(user && !user.suspended && (user.role === 'moderator' || user.role === 'admin'));
+
+/**
+ * Checks whether a user is an active admin.
+ * @param {Pick<User, 'role' | 'suspended'> | null | undefined} user - The user, if anyone is signed in.
+ * @returns {boolean} True for admins who are not suspended.
+ */
+export const isAdmin = (user: Pick<User, 'role' | 'suspended'> | null | undefined): boolean =>
+  Boolean(user && !user.suspended && user.role === 'admin');
+
+/**
+ * Checks whether a user may see a poll. A hidden poll stays visible to its creator, so they can
+ * see what happened to it, and to moderators, so they can review and restore it.
+ * @param {Poll} poll - The poll.
+ * @param {Pick<User, 'id' | 'role' | 'suspended'> | null | undefined} viewer - The signed-in user, if any.
+ * @returns {boolean} True if the poll should be shown to the user.
+ */
+export const canViewPoll = (poll: Poll, viewer: Pick<User, 'id' | 'role' | 'suspended'> | null | undefined): boolean =>
+  !poll.hidden || poll.createdBy === viewer?.id || isModerator(viewer);
+
+/**
+ * Checks the reason and explanation of a new report.
+ * @param {string} reason - The reason chosen by the reporter.
+ * @param {string} details - The reporter's explanation; may be empty.
+ * @returns {{ reason: ReportReason; details: string }} The report's reason and trimmed explanation.
+ * @throws {ValidationError} Throws an error if the reason is unknown, or the explanation is too long or
+ *   missing when the reason is `other`.
+ */
+export const normalizeReport = (reason: string, details: string): { reason: ReportReason; details: string } => {
+  if (!REPORT_REASONS.includes(reason as ReportReason)) {
+    throw new ValidationError({ reason: { code: 'reportReasonRequired' } });
+  }
+  const trimmed = details.trim();
+  if (trimmed.length > MAX_REPORT_DETAILS_LENGTH) {
+    throw new ValidationError({ details: { code: 'reportDetailsTooLong', params: { max: MAX_REPORT_DETAILS_LENGTH } } });
+  }
+  if (reason === 'other' && !trimmed) {
+    throw new ValidationError({ details: { code: 'reportDetailsRequired' } });
+  }
+  return { reason: reason as ReportReason, details: trimmed };
+};
@@ -0,0 +1,38 @@
+
+import { describe, expect, it } from 'vitest';
+import type { Repositories } from './repositories';
+import { createInMemoryRepositories } from './repositories/inMemoryRepository';
+import { createMemoryOutboxStore, createOutbox } from './outbox';
+import { PollyError } from './errors';
+
+describe('replaying a queued poll', () => {
+  it('creates the poll once when the response to the first attempt was lost', async () => {
+    const repositories = createInMemoryRepositories([]);
+    const alice = await repositories.auth.register('alice', 'password123');
+    let attempts = 0;
+    // The first request reaches the backend, but its response never comes back.
+    const flaky: Repositories = {
+      ...repositories,
+      polls: {
+        ...repositories.polls,
+        createPoll: async (...args) => {
+          const poll = await repositories.polls.createPoll(...args);
+          if (++attempts === 1) throw new PollyError('offline');
+          return poll;
+        },
+      },
+    };
+    const outbox = createOutbox(flaky, createMemoryOutboxStore());
+
+    try {
+      expect(await outbox.createPoll('Tea or coffee?', ['Tea', 'Coffee'], alice.id)).toBeNull();
+      await outbox.flush();
+    } finally {
+      outbox.close();
+    }
+
+    expect(attempts).toBe(2);
+    const { polls } = await repositories.polls.getPolls({}, alice.id);
+    expect(polls.map(poll => poll.question)).toEqual(['Tea or coffee?']);
+  });
+});
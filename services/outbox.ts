@@ -0,0 +1,328 @@
+
+import type { OutboxEntry, OutboxOperation, Poll, PollSettings } from '../types';
+import type { Repositories, Unsubscribe } from './repositories';
+import { findBallot } from './tally';
+import { AlreadyVotedError } from './errors';
+
+/** The IndexedDB database, and the object store inside it, that hold the outbox. */
+const DATABASE_NAME = 'polly_outbox';
+const STORE_NAME = 'operations';
+
+/** How often pending operations are retried while the server cannot be reached, in milliseconds. */
+const RETRY_INTERVAL = 30_000;
+
+/**
+ * @interface OutboxStore
+ * Where outbox entries are persisted, so operations made offline survive a reload.
+ */
+export interface OutboxStore {
+  getAll(): Promise<OutboxEntry[]>;
+  put(entry: OutboxEntry): Promise<void>;
+  delete(entryId: string): Promise<void>;
+}
+
+export type OutboxListener = (entries: OutboxEntry[]) => void;
+
+/**
+ * @interface Outbox
+ * Sends votes and new polls to the server, keeping them for later if the server cannot be reached.
+ */
+export interface Outbox {
+  castVote(pollId: string, optionIds: string[], userId: string): Promise<Poll | null>;
+  createPoll(question: string, options: string[], userId: string, settings?: PollSettings): Promise<Poll | null>;
+  /** Calls the listener with every entry now, and again whenever the entries change. */
+  subscribe(listener: OutboxListener): Unsubscribe;
+  /** Sends the signed-in user's pending entries, oldest first. */
+  flush(): Promise<void>;
+  /** Removes an entry, e.g. once the user has read why it failed. */
+  dismiss(entryId: string): Promise<void>;
+  /** Stops retrying and listening for other tabs. */
+  close(): void;
+}
+
+/**
+ * Creates an outbox store backed by IndexedDB, which, unlike `localStorage`, is meant for
+ * data that must outlive the session and can be written from any tab without blocking the page.
+ * @param {string} [name] - The name of the database.
+ * @returns {OutboxStore} The store.
+ */
+export const createIndexedDbOutboxStore = (name: string = DATABASE_NAME): OutboxStore => {
+  const database = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(name, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  /**
+   * Runs one request in its own transaction and waits for the transaction to commit.
+   * @param {IDBTransactionMode} mode - Whether the request reads or writes.
+   * @param {(store: IDBObjectStore) => IDBRequest<T>} action - Makes the request.
+   * @returns {Promise<T>} The request's result.
+   */
+  const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await database;
+    return new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = action(transaction.objectStore(STORE_NAME));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  };
+
+  return {
+    getAll: () => run('readonly', store => store.getAll() as IDBRequest<OutboxEntry[]>),
+    put: async (entry) => {
+      await run('readwrite', store => store.put(entry));
+    },
+    delete: async (entryId) => {
+      await run('readwrite', store => store.delete(entryId));
+    },
+  };
+};
+
+/**
+ * Creates an outbox store that only lives as long as the page, for browsers without IndexedDB.
+ * @returns {OutboxStore} The store.
+ */
+export const createMemoryOutboxStore = (): OutboxStore => {
+  const entries = new Map<string, OutboxEntry>();
+  return {
+    getAll: async () => [...entries.values()],
+    put: async (entry) => {
+      entries.set(entry.id, entry);
+    },
+    delete: async (entryId) => {
+      entries.delete(entryId);
+    },
+  };
+};
+
+/**
+ * Makes up a unique ID, for an outbox entry or a poll's request ID.
+ * @param {string} prefix - What the ID is for.
+ * @returns {string} The ID.
+ */
+const newId = (prefix: string): string => `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Checks whether an error means the server could not be reached at all, as opposed to the
+ * server rejecting the request. Only the former is worth queueing and retrying.
+ * @param {unknown} err - The caught error.
+ * @returns {boolean} True if the operation should be kept for later.
+ */
+const isOfflineError = (err: unknown): boolean => (err as { code?: unknown } | null)?.code === 'offline';
+
+/**
+ * Checks whether the browser believes it is offline. A `true` from `navigator.onLine` does not
+ * guarantee the server is reachable, so requests are still attempted and may still be queued.
+ * @returns {boolean} True if the browser reports no network connection.
+ */
+const isBrowserOffline = (): boolean => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+/**
+ * Runs a task while no other tab is flushing the outbox, so that an operation is never sent twice.
+ * Browsers without the Web Locks API run the task directly.
+ * @param {() => Promise<void>} task - The task to run.
+ * @returns {Promise<void>} Resolves once the task has finished.
+ */
+const withOutboxLock = (task: () => Promise<void>): Promise<void> =>
+  typeof navigator !== 'undefined' && 'locks' in navigator
+    ? navigator.locks.request(DATABASE_NAME, task)
+    : task();
+
+/**
+ * Creates the outbox for a server backend.
+ *
+ * Why an outbox? Against the server, a vote cast on a train or in a lift would otherwise simply
+ * fail. Instead, votes and new polls that cannot reach the server are stored in IndexedDB and
+ * sent, in the order they were made, as soon as the connection returns: when the browser comes
+ * back online, when the app is next opened, or on a periodic retry. Entries belong to the user
+ * who made them and are only sent while that user is signed in.
+ *
+ * Conflicts are settled when an entry is replayed. A vote the server already holds (because the
+ * original request did arrive, only its response was lost) counts as sent, and a new poll is sent
+ * with a request ID the server recognises, so it is not created twice. Anything else the
+ * server rejects, such as a vote on a poll that has closed since, is kept as `failed` with the
+ * server's error, so the user is told what happened rather than the vote silently disappearing.
+ * @param {Repositories} repositories - The server backend.
+ * @param {OutboxStore} [store] - Where entries are kept; IndexedDB when the browser has it.
+ * @returns {Outbox} The outbox.
+ */
+export const createOutbox = (
+  repositories: Repositories,
+  store: OutboxStore = typeof indexedDB === 'undefined' ? createMemoryOutboxStore() : createIndexedDbOutboxStore(),
+): Outbox => {
+  const listeners = new Set<OutboxListener>();
+  let entries: OutboxEntry[] = [];
+  let isFlushing = false;
+
+  // Other tabs share the database but get no events from it, so tell them when it changes.
+  const channel = typeof BroadcastChannel === 'undefined' ? null : new BroadcastChannel(DATABASE_NAME);
+
+  /**
+   * Reads the entries from the store, oldest first, and passes them to every listener.
+   */
+  const reload = async () => {
+    try {
+      entries = (await store.getAll()).sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+    } catch {
+      // The database could not be read; keep showing what we had.
+    }
+    listeners.forEach(listener => listener(entries));
+  };
+
+  /**
+   * Reloads the entries after a change and lets the other tabs know.
+   */
+  const changed = async () => {
+    await reload();
+    channel?.postMessage('changed');
+  };
+
+  /**
+   * Sends an operation to the server.
+   * @param {OutboxOperation} operation - The operation.
+   * @param {string} userId - The user who made it.
+   * @returns {Promise<Poll>} The poll the server returned.
+   */
+  const send = (operation: OutboxOperation, userId: string): Promise<Poll> => {
+    switch (operation.kind) {
+      case 'castVote':
+        return repositories.polls.castVote(operation.pollId, operation.optionIds, userId);
+      case 'createPoll':
+        return repositories.polls.createPoll(operation.question, operation.options, userId, operation.settings, operation.requestId);
+    }
+  };
+
+  /**
+   * Stores an operation to be sent later.
+   * @param {OutboxOperation} operation - The operation.
+   * @param {string} userId - The user who made it.
+   */
+  const enqueue = async (operation: OutboxOperation, userId: string) => {
+    await store.put({
+      id: newId('outbox'),
+      userId,
+      operation,
+      queuedAt: new Date().toISOString(),
+      status: 'pending',
+      error: null,
+    });
+    await changed();
+  };
+
+  /**
+   * Sends an operation now, or queues it if the server cannot be reached.
+   * @param {OutboxOperation} operation - The operation.
+   * @param {string} userId - The user making it.
+   * @returns {Promise<Poll | null>} The poll the server returned, or null if the operation was queued.
+   * @throws {PollyError} Rethrows the server's error if it rejected the operation.
+   */
+  const sendOrQueue = async (operation: OutboxOperation, userId: string): Promise<Poll | null> => {
+    if (!isBrowserOffline()) {
+      try {
+        return await send(operation, userId);
+      } catch (err) {
+        if (!isOfflineError(err)) throw err;
+      }
+    }
+    await enqueue(operation, userId);
+    return null;
+  };
+
+  /**
+   * Checks whether a vote rejected as "already voted" is in fact the very ballot we queued,
+   * which happens when the request reached the server but its response never came back.
+   * @param {OutboxOperation} operation - The queued operation.
+   * @param {string} userId - The voter.
+   * @returns {Promise<boolean>} True if the server already holds this exact ballot.
+   */
+  const wasAlreadySent = async (operation: OutboxOperation, userId: string): Promise<boolean> => {
+    if (operation.kind !== 'castVote') return false;
+    const poll = await repositories.polls.getPoll(operation.pollId, userId);
+    const ballot = findBallot(poll, userId);
+    return Boolean(ballot) && ballot!.optionIds.join() === operation.optionIds.join();
+  };
+
+  const flush = async () => {
+    const userId = repositories.auth.getCurrentUser()?.id;
+    if (isFlushing || !userId || isBrowserOffline()) return;
+    isFlushing = true;
+    try {
+      await withOutboxLock(async () => {
+        // Read afresh under the lock: another tab may have sent some entries already.
+        const queued = (await store.getAll()).sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+        for (const entry of queued) {
+          if (entry.status !== 'pending' || entry.userId !== userId) continue;
+          try {
+            await send(entry.operation, entry.userId);
+            await store.delete(entry.id);
+          } catch (err: any) {
+            // Still unreachable: leave this and every later entry for the next attempt, in order.
+            if (isOfflineError(err)) break;
+            if (err instanceof AlreadyVotedError && await wasAlreadySent(entry.operation, entry.userId).catch(() => false)) {
+              await store.delete(entry.id);
+              continue;
+            }
+            await store.put({
+              ...entry,
+              status: 'failed',
+              error: { code: err?.code, params: err?.params, message: err?.message || String(err) },
+            });
+          }
+        }
+      });
+    } finally {
+      isFlushing = false;
+      await changed();
+    }
+  };
+
+  const handleMessage = () => {
+    reload();
+  };
+  channel?.addEventListener('message', handleMessage);
+
+  // Replay when the connection returns, and keep retrying while there is something to send,
+  // since the browser can be online while the server itself is unreachable.
+  const handleOnline = () => {
+    flush();
+  };
+  const hasWindow = typeof window !== 'undefined';
+  if (hasWindow) window.addEventListener('online', handleOnline);
+  const retryTimer = setInterval(() => {
+    if (entries.some(entry => entry.status === 'pending')) flush();
+  }, RETRY_INTERVAL);
+
+  // Pick up anything left over from a previous visit.
+  reload().then(flush);
+
+  return {
+    castVote: (pollId, optionIds, userId) => sendOrQueue({ kind: 'castVote', pollId, optionIds }, userId),
+    // The request ID is made up before the first attempt and kept with the entry, so the backend
+    // creates the poll only once however many times it is sent (see `PollRepository.createPoll`).
+    createPoll: (question, options, userId, settings) =>
+      sendOrQueue({ kind: 'createPoll', question, options, settings, requestId: newId('create') }, userId),
+    subscribe: (listener) => {
+      listeners.add(listener);
+      listener(entries);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    flush,
+    dismiss: async (entryId) => {
+      await store.delete(entryId);
+      await changed();
+    },
+    close: () => {
+      clearInterval(retryTimer);
+      if (hasWindow) window.removeEventListener('online', handleOnline);
+      channel?.removeEventListener('message', handleMessage);
+      channel?.close();
+      listeners.clear();
+    },
+  };
+};
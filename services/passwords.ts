@@ -0,0 +1,75 @@
+
+/**
+ * Password hashing with PBKDF2, using the WebCrypto API.
+ * WebCrypto is available both in browsers and in Node (as `globalThis.crypto`), so the
+ * localStorage backend and the REST server hash passwords in exactly the same way.
+ */
+
+const ITERATIONS = 100_000;
+const SALT_BYTES = 16;
+const HASH_BITS = 256;
+
+/**
+ * A stored password hash, together with everything needed to verify a password against it.
+ */
+export interface PasswordHash {
+  hash: string; // hex-encoded
+  salt: string; // hex-encoded
+  iterations: number;
+}
+
+const toHex = (bytes: Uint8Array): string =>
+  Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+const fromHex = (hex: string): Uint8Array =>
+  new Uint8Array((hex.match(/.{2}/g) ?? []).map(pair => parseInt(pair, 16)));
+
+/**
+ * Derives a PBKDF2-SHA-256 hash from a password and salt.
+ * @param {string} password - The plain-text password.
+ * @param {Uint8Array} salt - The random salt.
+ * @param {number} iterations - The PBKDF2 iteration count.
+ * @returns {Promise<string>} The hex-encoded hash.
+ */
+const derive = async (password: string, salt: Uint8Array, iterations: number): Promise<string> => {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    'PBKDF2',
+    false,
+    ['deriveBits'],
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    key,
+    HASH_BITS,
+  );
+  return toHex(new Uint8Array(bits));
+};
+
+/**
+ * Hashes a new password with a freshly generated random salt.
+ * @param {string} password - The plain-text password.
+ * @returns {Promise<PasswordHash>} The hash and the parameters used to produce it.
+ */
+export const hashPassword = async (password: string): Promise<PasswordHash> => {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  return { hash: await derive(password, salt, ITERATIONS), salt: toHex(salt), iterations: ITERATIONS };
+};
+
+/**
+ * Checks a password against a stored hash.
+ * The comparison looks at every character, so it takes the same time wherever the first
+ * mismatch is and does not leak how much of the hash was guessed correctly.
+ * @param {string} password - The plain-text password to check.
+ * @param {PasswordHash} stored - The stored hash.
+ * @returns {Promise<boolean>} True if the password matches.
+ */
+export const verifyPassword = async (password: string, stored: PasswordHash): Promise<boolean> => {
+  const candidate = await derive(password, fromHex(stored.salt), stored.iterations);
+  let difference = candidate.length ^ stored.hash.length;
+  for (let i = 0; i < candidate.length; i++) {
+    difference |= candidate.charCodeAt(i) ^ stored.hash.charCodeAt(i);
+  }
+  return difference === 0;
+};
@@ -0,0 +1,76 @@
+
+import type { Poll, PollVisibility, User } from '../types';
+import { isModerator } from './moderation';
+
+/** Every visibility a poll can have, in the order the poll form offers them. */
+export const POLL_VISIBILITIES: PollVisibility[] = ['public', 'unlisted', 'inviteOnly'];
+
+/** How many characters an invite code has. */
+export const ACCESS_CODE_LENGTH = 8;
+
+// Letters and digits that cannot be mistaken for one another when a code is read out or typed.
+const ACCESS_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+type Viewer = Pick<User, 'id' | 'role' | 'suspended'> | null | undefined;
+
+/**
+ * Makes up a new invite code for an invite-only poll.
+ * @returns {string} A random code of `ACCESS_CODE_LENGTH` characters, e.g. `K7QM2XPA`.
+ */
+export const newAccessCode = (): string =>
+  Array.from(crypto.getRandomValues(new Uint8Array(ACCESS_CODE_LENGTH)), byte => ACCESS_CODE_ALPHABET[byte % ACCESS_CODE_ALPHABET.length]).join('');
+
+/**
+ * Brings a typed or pasted invite code into its stored form, so case, spaces and dashes do not matter.
+ * @param {string} code - The code as entered.
+ * @returns {string} The code in upper case, without spaces or dashes.
+ */
+export const normalizeAccessCode = (code: string): string => code.replace(/[\s-]/g, '').toUpperCase();
+
+/**
+ * Checks whether someone may open a poll, vote on it and join its discussion.
+ * Public and unlisted polls are open to everyone with the link. An invite-only poll is open to its
+ * creator and the users on its allowlist, who join it with its invite code; moderators can also
+ * open it, so they can review reports about it.
+ * @param {Poll} poll - The poll.
+ * @param {Viewer} viewer - The signed-in user, if any.
+ * @returns {boolean} True if the user may open the poll.
+ */
+export const canAccessPoll = (poll: Poll, viewer: Viewer): boolean =>
+  poll.visibility !== 'inviteOnly' ||
+  poll.createdBy === viewer?.id ||
+  Boolean(viewer && poll.allowedUserIds.includes(viewer.id)) ||
+  isModerator(viewer);
+
+/**
+ * Checks whether a poll belongs in someone's lists: the dashboard, user pages and tag pages.
+ * Only public polls are listed for everyone. An unlisted poll is listed only for its creator, and an
+ * invite-only poll for its creator and members, so neither shows up on the shared dashboard.
+ * @param {Poll} poll - The poll.
+ * @param {Viewer} viewer - The signed-in user, if any.
+ * @returns {boolean} True if the poll should be listed for the user.
+ */
+export const isListedFor = (poll: Poll, viewer: Viewer): boolean => {
+  switch (poll.visibility) {
+    case 'unlisted':
+      return poll.createdBy === viewer?.id;
+    case 'inviteOnly':
+      return poll.createdBy === viewer?.id || Boolean(viewer && poll.allowedUserIds.includes(viewer.id));
+    case 'public':
+    default:
+      return true;
+  }
+};
+
+/**
+ * Leaves out a poll's invite code and allowlist for anyone but its creator, who alone hands out
+ * the code and manages who is on the list. A member still finds themselves on the list, so the
+ * checks above give the same answers on their device as in the backend.
+ * @param {Poll} poll - The poll.
+ * @param {string} [viewerId] - The user it is sent to; omitted when signed out.
+ * @returns {Poll} The poll as the viewer may see it.
+ */
+export const withoutAccessDetails = (poll: Poll, viewerId?: string): Poll =>
+  poll.createdBy === viewerId
+    ? poll
+    : { ...poll, accessCode: null, allowedUserIds: poll.allowedUserIds.filter(id => id === viewerId) };
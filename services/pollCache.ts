@@ -0,0 +1,566 @@
+
+import type { Ballot, Poll, PollQuery, PollSettings, User } from '../types';
+import type { PollEvent, Unsubscribe } from './repositories';
+import * as pollService from './pollService';
+import { applyPollEvent } from './pollEvents';
+import { canViewPoll } from './moderation';
+import { canAccessPoll, isListedFor } from './pollAccess';
+import { matchesPollQuery, MAX_PAGE_SIZE } from './pollQuery';
+import { getPollStatus } from './pollLifecycle';
+import { normalizeTags } from './tags';
+import { recountVotes } from './tally';
+import { PollNotFoundError } from './errors';
+
+/**
+ * The client-side cache behind `usePolls` and `usePoll`.
+ *
+ * Why a cache? Pages used to fetch their own polls and refetch them after every change, which
+ * flashed "Loading..." over the whole page and threw away scroll position and every other card's
+ * state. Here, every poll is held once, by ID, and lists only hold IDs, so a vote on one card
+ * updates that poll wherever it is shown. Changes are applied straight away (optimistically),
+ * replaced by the backend's answer when it arrives, and rolled back if the backend refuses them.
+ * Data already on screen is shown at once when a page is revisited and refreshed in the
+ * background, and again when the window regains focus or the connection returns.
+ */
+
+/** Who is looking at a list, which decides whether hidden polls and "votedByMe" filters apply. */
+export type Viewer = Pick<User, 'id' | 'role' | 'suspended'> | null | undefined;
+
+/** A list of polls, as `usePolls` returns it. */
+export interface PollListState {
+  /** New polls still being saved first, then the loaded polls with any pending changes applied. */
+  polls: Poll[];
+  nextCursor: string | null;
+  total: number;
+  /** True until the first page has arrived. */
+  isLoading: boolean;
+  /** True while polls already on screen are being refreshed in the background. */
+  isRevalidating: boolean;
+  isLoadingMore: boolean;
+  /** Why the list could not be loaded; a failed background refresh keeps the old polls instead. */
+  error: unknown;
+}
+
+/** A single poll, as `usePoll` returns it. */
+export interface PollState {
+  /** The poll with any pending changes applied, or null if it does not exist or may not be seen. */
+  poll: Poll | null;
+  isLoading: boolean;
+  error: unknown;
+}
+
+/** Data fetched less than this long ago, in milliseconds, is not refreshed again on focus. */
+const REVALIDATE_AFTER = 5_000;
+
+interface ListRecord {
+  query: PollQuery;
+  viewer: Viewer;
+  pollIds: string[];
+  nextCursor: string | null;
+  total: number;
+  loaded: boolean;
+  isLoading: boolean;
+  isRevalidating: boolean;
+  isLoadingMore: boolean;
+  error: unknown;
+  fetchedAt: number;
+  // Identifies the latest first-page request, so responses to older ones are ignored.
+  requestId: number;
+  watchers: number;
+}
+
+interface PollRecord {
+  viewer: Viewer;
+  loaded: boolean;
+  isLoading: boolean;
+  error: unknown;
+  fetchedAt: number;
+  requestId: number;
+  watchers: number;
+}
+
+/** Every poll we know of, as the backend last reported it. */
+const polls = new Map<string, Poll>();
+/** Optimistic versions of polls with a vote on its way, tagged with the change that made them. */
+const overlays = new Map<string, { mutationId: number; poll: Poll }>();
+/** New polls on their way to the backend, under temporary IDs. */
+const drafts = new Map<string, Poll>();
+const lists = new Map<string, ListRecord>();
+const pollRecords = new Map<string, PollRecord>();
+const listeners = new Set<() => void>();
+
+let mutationCount = 0;
+let stopListening: Unsubscribe | null = null;
+/** The user the live events were subscribed for, since the results they carry depend on it. */
+let listeningAs: string | undefined;
+/** Timers that fetch a poll again when it closes, for polls whose results are withheld until then. */
+const revealTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+/**
+ * Tells every mounted hook to read the cache again.
+ */
+const notify = () => {
+  listeners.forEach(listener => listener());
+};
+
+/**
+ * Keys a list by its query and viewer, so the same query for another user is cached separately.
+ * @param {PollQuery} query - The list's query.
+ * @param {string} [viewerId] - The signed-in user.
+ * @returns {string} The cache key.
+ */
+export const listKey = (query: PollQuery, viewerId?: string): string => JSON.stringify([query, viewerId ?? null]);
+
+/**
+ * Finds the poll to show: its optimistic version if a change is pending, otherwise the last known one.
+ * @param {string} pollId - The ID of the poll.
+ * @returns {Poll | undefined} The poll, if it is cached.
+ */
+const resolvePoll = (pollId: string): Poll | undefined => overlays.get(pollId)?.poll ?? polls.get(pollId);
+
+/**
+ * Checks whether a new poll belongs in a list.
+ * @param {ListRecord} record - The list.
+ * @param {Poll} poll - The poll.
+ * @returns {boolean} True if the viewer may see the poll and it matches the list's filters.
+ */
+const belongsTo = (record: ListRecord, poll: Poll): boolean =>
+  canViewPoll(poll, record.viewer) && isListedFor(poll, record.viewer) && matchesPollQuery(poll, record.query, record.viewer?.id);
+
+/**
+ * Stores a poll from the backend, unless we already hold a newer revision of it
+ * (responses and live events can arrive out of order).
+ * @param {Poll} poll - The poll.
+ */
+const storePoll = (poll: Poll) => {
+  const existing = polls.get(poll.id);
+  if (!existing || existing.revision <= poll.revision) {
+    polls.set(poll.id, poll);
+    scheduleReveal(poll);
+  }
+};
+
+/**
+ * Fetches a poll again once it closes, if its results were withheld until then.
+ * Closing on schedule saves nothing, so no live event would bring the results.
+ * @param {Poll} poll - The poll as the backend sent it.
+ */
+const scheduleReveal = (poll: Poll) => {
+  const delay = poll.closesAt ? Date.parse(poll.closesAt) - Date.now() : NaN;
+  // setTimeout cannot wait longer than about 24 days; the poll is refetched on focus long before then.
+  if (!poll.resultsHidden || !(delay > 0 && delay < 2 ** 31 - 1) || revealTimers.has(poll.id)) return;
+  revealTimers.set(poll.id, setTimeout(() => {
+    revealTimers.delete(poll.id);
+    const record = pollRecords.get(poll.id);
+    if (record && record.watchers > 0) fetchPoll(poll.id, record);
+    lists.forEach(list => {
+      if (list.watchers > 0 && list.pollIds.includes(poll.id)) fetchList(list);
+    });
+  }, delay + 1000));
+};
+
+/**
+ * Applies a change to a poll, from a live event or from a response, to the polls and to every list.
+ * @param {PollEvent} event - The change.
+ */
+const applyEvent = (event: PollEvent) => {
+  if (event.type === 'delete') {
+    polls.delete(event.pollId);
+  } else {
+    storePoll(event.poll);
+  }
+  lists.forEach(record => {
+    if (!record.loaded) return;
+    const current = record.pollIds.map(id => polls.get(id)).filter((poll): poll is Poll => Boolean(poll));
+    const updated = applyPollEvent(current, event, poll => belongsTo(record, poll));
+    record.total += updated.length - record.pollIds.length;
+    record.pollIds = updated.map(poll => poll.id);
+  });
+};
+
+/**
+ * Fetches the first page of a list again. A list the user has scrolled through is refetched
+ * to the same length, so revalidating does not cut it back to one page.
+ * @param {ListRecord} record - The list.
+ */
+const fetchList = async (record: ListRecord) => {
+  const requestId = ++record.requestId;
+  const { limit } = record.query;
+  record.error = null;
+  if (record.loaded) record.isRevalidating = true; else record.isLoading = true;
+  notify();
+  try {
+    const page = await pollService.getPolls(
+      { ...record.query, limit: limit === undefined ? undefined : Math.min(MAX_PAGE_SIZE, Math.max(limit, record.pollIds.length)) },
+      record.viewer?.id,
+    );
+    if (requestId !== record.requestId) return;
+    page.polls.forEach(storePoll);
+    record.pollIds = page.polls.map(poll => poll.id);
+    record.nextCursor = page.nextCursor;
+    record.total = page.total;
+    record.loaded = true;
+    record.fetchedAt = Date.now();
+  } catch (err) {
+    // A failed background refresh keeps what is on screen; only a list that never loaded shows the error.
+    if (requestId === record.requestId && !record.loaded) record.error = err;
+  } finally {
+    if (requestId === record.requestId) {
+      record.isLoading = false;
+      record.isRevalidating = false;
+      notify();
+    }
+  }
+};
+
+/**
+ * Fetches a single poll again.
+ * @param {string} pollId - The ID of the poll.
+ * @param {PollRecord} record - Its loading state.
+ */
+const fetchPoll = async (pollId: string, record: PollRecord) => {
+  const requestId = ++record.requestId;
+  record.error = null;
+  if (!record.loaded) record.isLoading = true;
+  notify();
+  try {
+    storePoll(await pollService.getPoll(pollId, record.viewer?.id));
+    if (requestId !== record.requestId) return;
+    record.loaded = true;
+    record.fetchedAt = Date.now();
+  } catch (err: any) {
+    if (requestId !== record.requestId) return;
+    // The poll is gone, hidden from this viewer, or invite-only: forget it rather than keep showing it.
+    if (err instanceof PollNotFoundError || err?.code === 'pollHidden' || err?.code === 'inviteOnlyPoll') {
+      applyEvent({ type: 'delete', pollId });
+    }
+    // As with lists, a failed refresh of a poll that is still cached keeps it on screen.
+    if (!polls.has(pollId)) record.error = err;
+  } finally {
+    if (requestId === record.requestId) {
+      record.isLoading = false;
+      notify();
+    }
+  }
+};
+
+/**
+ * Refreshes every list and poll on screen that was not fetched just now.
+ * Runs when the window regains focus and when the connection returns.
+ */
+const revalidateWatched = () => {
+  const staleBefore = Date.now() - REVALIDATE_AFTER;
+  lists.forEach(record => {
+    if (record.watchers > 0 && record.fetchedAt < staleBefore && !record.isLoading && !record.isRevalidating) fetchList(record);
+  });
+  pollRecords.forEach((record, pollId) => {
+    if (record.watchers > 0 && record.fetchedAt < staleBefore && !record.isLoading) fetchPoll(pollId, record);
+  });
+};
+
+/**
+ * Starts following live events, focus and connectivity while anything is on screen,
+ * and stops once the last hook has unmounted.
+ */
+const updateListening = () => {
+  const isWatched = [...lists.values(), ...pollRecords.values()].some(record => record.watchers > 0);
+  const viewerId = pollService.getCurrentUser()?.id;
+  // After signing in or out, events must be received again as the new user.
+  if (stopListening && (!isWatched || viewerId !== listeningAs)) {
+    stopListening();
+    stopListening = null;
+  }
+  if (isWatched && !stopListening) {
+    listeningAs = viewerId;
+    const unsubscribe = pollService.subscribeToPolls(event => {
+      // Live events only carry polls listed for the viewer, so a poll that stops being listed (e.g. it is
+      // made unlisted) arrives as deleted, even though its link may still open it. A poll on screen is
+      // asked for again instead, which brings it back, or confirms that it is gone.
+      const record = event.type === 'delete' ? pollRecords.get(event.pollId) : undefined;
+      if (event.type === 'delete' && record && record.watchers > 0) {
+        fetchPoll(event.pollId, record);
+        return;
+      }
+      applyEvent(event);
+      notify();
+    }, viewerId);
+    window.addEventListener('focus', revalidateWatched);
+    window.addEventListener('online', revalidateWatched);
+    stopListening = () => {
+      unsubscribe();
+      window.removeEventListener('focus', revalidateWatched);
+      window.removeEventListener('online', revalidateWatched);
+    };
+  }
+};
+
+/**
+ * Registers a listener for cache changes for as long as a hook is mounted.
+ * @param {() => void} listener - Called after every change.
+ * @param {{ watchers: number }} record - The list or poll the hook shows.
+ * @returns {Unsubscribe} Releases the record and the listener.
+ */
+const watch = (listener: () => void, record: { watchers: number }): Unsubscribe => {
+  listeners.add(listener);
+  record.watchers++;
+  updateListening();
+  return () => {
+    listeners.delete(listener);
+    record.watchers--;
+    updateListening();
+  };
+};
+
+/**
+ * Shows a list of polls: loads it if it is new, or refreshes it in the background if it is cached.
+ * @param {PollQuery} query - The filters, sort order and page size; the first page is loaded.
+ * @param {Viewer} viewer - The signed-in user.
+ * @param {() => void} listener - Called whenever the cache changes.
+ * @returns {Unsubscribe} Stops watching the list. It stays cached for the next visit.
+ */
+export const watchPolls = (query: PollQuery, viewer: Viewer, listener: () => void): Unsubscribe => {
+  const key = listKey(query, viewer?.id);
+  let record = lists.get(key);
+  if (!record) {
+    record = {
+      query, viewer, pollIds: [], nextCursor: null, total: 0, loaded: false, isLoading: true,
+      isRevalidating: false, isLoadingMore: false, error: null, fetchedAt: 0, requestId: 0, watchers: 0,
+    };
+    lists.set(key, record);
+  }
+  const release = watch(listener, record);
+  fetchList(record);
+  return release;
+};
+
+/**
+ * Reads a list from the cache.
+ * @param {string} key - The list's key (see `listKey`).
+ * @returns {PollListState} The list, or an empty loading list if it has not been requested yet.
+ */
+export const getPollListState = (key: string): PollListState => {
+  const record = lists.get(key);
+  if (!record) {
+    return { polls: [], nextCursor: null, total: 0, isLoading: true, isRevalidating: false, isLoadingMore: false, error: null };
+  }
+  const pending = [...drafts.values()].filter(draft => belongsTo(record, draft)).reverse();
+  return {
+    polls: [...pending, ...record.pollIds.map(resolvePoll).filter((poll): poll is Poll => Boolean(poll))],
+    nextCursor: record.nextCursor,
+    total: record.total,
+    isLoading: record.isLoading,
+    isRevalidating: record.isRevalidating,
+    isLoadingMore: record.isLoadingMore,
+    error: record.error,
+  };
+};
+
+/**
+ * Appends the next page to a list. Polls already in the list are skipped, since live
+ * updates can shift the pages while the user scrolls.
+ * @param {string} key - The list's key (see `listKey`).
+ * @returns {Promise<void>} Resolves once the page has been added, or has failed.
+ */
+export const loadMorePolls = async (key: string): Promise<void> => {
+  const record = lists.get(key);
+  if (!record?.nextCursor || record.isLoadingMore) return;
+  const requestId = record.requestId;
+  record.isLoadingMore = true;
+  notify();
+  try {
+    const page = await pollService.getPolls({ ...record.query, cursor: record.nextCursor }, record.viewer?.id);
+    if (requestId !== record.requestId) return;
+    page.polls.forEach(storePoll);
+    record.pollIds = [...record.pollIds, ...page.polls.map(poll => poll.id).filter(id => !record.pollIds.includes(id))];
+    record.nextCursor = page.nextCursor;
+    record.total = page.total;
+  } catch (err) {
+    record.error = err;
+  } finally {
+    record.isLoadingMore = false;
+    notify();
+  }
+};
+
+/**
+ * Shows a single poll: loads it if it is new, or refreshes it in the background if it is cached.
+ * @param {string} pollId - The ID of the poll.
+ * @param {Viewer} viewer - The signed-in user, who may be allowed to see the poll if it is hidden.
+ * @param {() => void} listener - Called whenever the cache changes.
+ * @returns {Unsubscribe} Stops watching the poll.
+ */
+export const watchPoll = (pollId: string, viewer: Viewer, listener: () => void): Unsubscribe => {
+  let record = pollRecords.get(pollId);
+  if (!record) {
+    record = { viewer, loaded: polls.has(pollId), isLoading: false, error: null, fetchedAt: 0, requestId: 0, watchers: 0 };
+    pollRecords.set(pollId, record);
+  }
+  record.viewer = viewer;
+  const release = watch(listener, record);
+  fetchPoll(pollId, record);
+  return release;
+};
+
+/**
+ * Reads a single poll from the cache.
+ * @param {string} pollId - The ID of the poll.
+ * @param {Viewer} viewer - The signed-in user; a poll hidden from them reads as null.
+ * @returns {PollState} The poll and its loading state.
+ */
+export const getPollState = (pollId: string, viewer: Viewer): PollState => {
+  const record = pollRecords.get(pollId);
+  const poll = resolvePoll(pollId);
+  return {
+    poll: poll && canViewPoll(poll, viewer) && canAccessPoll(poll, viewer) ? poll : null,
+    isLoading: !poll && (record?.isLoading ?? true),
+    error: record?.error ?? null,
+  };
+};
+
+/**
+ * Checks whether a poll is a placeholder for a new poll the backend has not saved yet.
+ * Such a poll cannot be voted on, edited or discussed until it has its real ID.
+ * @param {string} pollId - The ID of the poll.
+ * @returns {boolean} True while the poll is being saved.
+ */
+export const isSavingPoll = (pollId: string): boolean => drafts.has(pollId);
+
+/**
+ * Changes a poll optimistically: the change is shown at once, replaced by the backend's version
+ * when it arrives, and rolled back if the backend refuses it. After a refusal the poll is fetched
+ * again, since the refusal often means it changed elsewhere (it closed, or was voted on in another tab).
+ * @param {string} pollId - The ID of the poll.
+ * @param {(poll: Poll) => Poll} update - Predicts the change.
+ * @param {() => Promise<Poll | null>} send - Sends the change; null means it was queued in the outbox.
+ * @returns {Promise<Poll | null>} The backend's version of the poll, or null if the change was queued.
+ * @throws {PollyError} Rethrows the backend's error after rolling the change back.
+ */
+const mutatePoll = async (pollId: string, update: (poll: Poll) => Poll, send: () => Promise<Poll | null>): Promise<Poll | null> => {
+  const mutationId = ++mutationCount;
+  const current = resolvePoll(pollId);
+  if (current) {
+    overlays.set(pollId, { mutationId, poll: update(current) });
+    notify();
+  }
+  try {
+    const saved = await send();
+    if (saved) applyEvent({ type: 'upsert', poll: saved });
+    return saved;
+  } catch (err) {
+    const record = pollRecords.get(pollId) ?? { viewer: pollService.getCurrentUser(), loaded: true, isLoading: false, error: null, fetchedAt: 0, requestId: 0, watchers: 0 };
+    fetchPoll(pollId, record);
+    throw err;
+  } finally {
+    // A later change to the same poll owns the overlay now; leave it in place.
+    if (overlays.get(pollId)?.mutationId === mutationId) overlays.delete(pollId);
+    notify();
+  }
+};
+
+/**
+ * Predicts a poll after a user's ballot is cast, changed (`optionIds`) or retracted (null).
+ * @param {Poll} poll - The poll before the change.
+ * @param {string} userId - The voter.
+ * @param {string[] | null} optionIds - The new ballot, or null to remove it.
+ * @returns {Poll} The poll with its tallies recounted, unless its results are withheld.
+ */
+const withBallot = (poll: Poll, userId: string, optionIds: string[] | null): Poll => {
+  const castAt = new Date().toISOString();
+  const others = poll.ballots.filter(ballot => ballot.userId !== userId);
+  // An attributed poll names its voters, so the user's name is listed under their choice straight away.
+  const voterName = poll.anonymous ? undefined : pollService.getCurrentUser()?.username ?? null;
+  const ballots: Ballot[] = optionIds ? [...others, { userId, optionIds, castAt, voterName }] : others;
+  if (poll.resultsHidden) {
+    // Only the user's own ballot is known, so the tallies cannot be predicted; the backend's answer
+    // brings them if the user may now see them. The voters are still counted.
+    const voters = poll.votedBy.filter(id => id !== userId);
+    return { ...poll, ballots, votedBy: optionIds ? [...voters, userId] : voters };
+  }
+  return recountVotes({ ...poll, ballots });
+};
+
+/**
+ * Casts a ballot, showing it straight away (see `pollService.castVote`).
+ * @param {string} pollId - The ID of the poll.
+ * @param {string[]} optionIds - The chosen options.
+ * @param {string} userId - The voter.
+ * @returns {Promise<Poll | null>} The updated poll, or null if the vote was queued to send later.
+ * @throws {PollyError} Throws the backend's error after rolling the vote back.
+ */
+export const castVote = (pollId: string, optionIds: string[], userId: string): Promise<Poll | null> =>
+  mutatePoll(pollId, poll => withBallot(poll, userId, optionIds), () => pollService.castVote(pollId, optionIds, userId));
+
+/**
+ * Replaces a ballot, showing the new one straight away (see `pollService.changeVote`).
+ * @param {string} pollId - The ID of the poll.
+ * @param {string[]} optionIds - The newly chosen options.
+ * @param {string} userId - The voter.
+ * @returns {Promise<Poll | null>} The updated poll.
+ * @throws {PollyError} Throws the backend's error after restoring the previous ballot.
+ */
+export const changeVote = (pollId: string, optionIds: string[], userId: string): Promise<Poll | null> =>
+  mutatePoll(pollId, poll => withBallot(poll, userId, optionIds), () => pollService.changeVote(pollId, optionIds, userId));
+
+/**
+ * Withdraws a ballot, removing it straight away (see `pollService.retractVote`).
+ * @param {string} pollId - The ID of the poll.
+ * @param {string} userId - The voter.
+ * @returns {Promise<Poll | null>} The updated poll.
+ * @throws {PollyError} Throws the backend's error after restoring the ballot.
+ */
+export const retractVote = (pollId: string, userId: string): Promise<Poll | null> =>
+  mutatePoll(pollId, poll => withBallot(poll, userId, null), () => pollService.retractVote(pollId, userId));
+
+/**
+ * Creates a poll, showing it at the top of every matching list straight away under a temporary ID
+ * (see `pollService.createPoll`). The placeholder is replaced by the saved poll, or removed if
+ * the backend refuses it or the poll was queued in the outbox.
+ * @param {string} question - The poll question.
+ * @param {string[]} options - The option texts.
+ * @param {string} userId - The creator.
+ * @param {PollSettings} [settings] - The poll type, selection rules, schedule and tags.
+ * @returns {Promise<Poll | null>} The saved poll, or null if it was queued to send later.
+ * @throws {PollyError} Throws the backend's error after removing the placeholder.
+ */
+export const createPoll = async (
+  question: string,
+  options: string[],
+  userId: string,
+  settings: PollSettings = { type: 'single' },
+): Promise<Poll | null> => {
+  const draftId = `pending-${++mutationCount}`;
+  const draft: Poll = {
+    ...settings,
+    id: draftId,
+    question,
+    options: options.map((text, index) => ({ id: `${draftId}-${index}`, text, votes: 0 })),
+    tags: normalizeTags(settings.tags ?? []),
+    resultsVisibility: settings.resultsVisibility ?? 'afterVoting',
+    visibility: settings.visibility ?? 'public',
+    // The invite code is made up by the backend; the card shows it once the poll is saved.
+    accessCode: null,
+    allowedUserIds: settings.allowedUserIds ?? [],
+    anonymous: settings.anonymous ?? true,
+    voterSalt: null,
+    requestId: null,
+    createdBy: userId,
+    votedBy: [],
+    ballots: [],
+    voteEvents: [],
+    status: 'open',
+    revision: 0,
+    commentCount: 0,
+    commentsLocked: false,
+    hidden: false,
+  };
+  drafts.set(draftId, { ...draft, status: getPollStatus(draft) });
+  notify();
+  try {
+    const saved = await pollService.createPoll(question, options, userId, settings);
+    if (saved) applyEvent({ type: 'upsert', poll: saved });
+    return saved;
+  } finally {
+    drafts.delete(draftId);
+    notify();
+  }
+};
@@ -0,0 +1,78 @@
+
+import type { PollDraft } from '../types';
+
+/** Where unsent poll drafts are kept in `localStorage`, keyed by user and poll. */
+export const DRAFTS_KEY = 'polly_poll_drafts';
+
+/**
+ * Names a draft: each user has one draft for a new poll and one for each poll they are editing,
+ * so people sharing a browser never see each other's drafts.
+ * @param {string} userId - The user writing the draft.
+ * @param {string} [pollId] - The poll being edited; omitted for a new poll.
+ * @returns {string} The draft's key.
+ */
+const draftKey = (userId: string, pollId?: string): string => `${userId}:${pollId ?? 'new'}`;
+
+/**
+ * Reads every saved draft.
+ * @returns {Record<string, PollDraft>} The drafts by key; empty if there are none or storage is unavailable.
+ */
+const readDrafts = (): Record<string, PollDraft> => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(DRAFTS_KEY) || '{}');
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    // Unreadable or unavailable storage (e.g. in a private window) just means there are no drafts.
+    return {};
+  }
+};
+
+/**
+ * Writes every draft back, dropping the key entirely once the last one is gone.
+ * @param {Record<string, PollDraft>} drafts - The drafts by key.
+ */
+const writeDrafts = (drafts: Record<string, PollDraft>): void => {
+  try {
+    if (Object.keys(drafts).length === 0) {
+      localStorage.removeItem(DRAFTS_KEY);
+    } else {
+      localStorage.setItem(DRAFTS_KEY, JSON.stringify(drafts));
+    }
+  } catch {
+    // Autosave is a convenience: if storage is full or unavailable, the form still works.
+  }
+};
+
+/**
+ * Loads the user's draft for a new poll, or for the poll they are editing.
+ * @param {string} userId - The user writing the draft.
+ * @param {string} [pollId] - The poll being edited; omitted for a new poll.
+ * @returns {PollDraft | null} The draft, or null if there is none.
+ */
+export const loadPollDraft = (userId: string, pollId?: string): PollDraft | null => {
+  const draft = readDrafts()[draftKey(userId, pollId)];
+  return draft && typeof draft.question === 'string' && Array.isArray(draft.options) ? draft : null;
+};
+
+/**
+ * Saves the user's draft, replacing any earlier one for the same poll.
+ * @param {string} userId - The user writing the draft.
+ * @param {string | undefined} pollId - The poll being edited; undefined for a new poll.
+ * @param {PollDraft} draft - What has been typed so far.
+ */
+export const savePollDraft = (userId: string, pollId: string | undefined, draft: PollDraft): void => {
+  writeDrafts({ ...readDrafts(), [draftKey(userId, pollId)]: draft });
+};
+
+/**
+ * Forgets the user's draft, once the poll has been saved or the user has discarded it.
+ * @param {string} userId - The user writing the draft.
+ * @param {string} [pollId] - The poll being edited; omitted for a new poll.
+ */
+export const discardPollDraft = (userId: string, pollId?: string): void => {
+  const drafts = readDrafts();
+  const key = draftKey(userId, pollId);
+  if (!(key in drafts)) return;
+  delete drafts[key];
+  writeDrafts(drafts);
+};
@@ -0,0 +1,32 @@
+
+import type { Poll } from '../types';
+import type { PollEvent } from './repositories';
+
+/**
+ * Applies a live poll event to a list of polls shown on screen.
+ * Updated polls are replaced in place, unless the event is older than the poll already shown
+ * (events and responses can arrive out of order); polls we have not seen before are new,
+ * so they go to the top of the list to keep the newest-first order. Deleted polls are removed.
+ * @param {Poll[]} polls - The polls currently displayed.
+ * @param {PollEvent} event - The event received from the poll service.
+ * @param {(poll: Poll) => boolean} [belongs] - Whether a new poll belongs in this list at all,
+ *   for lists that only show some polls (e.g. one user's, or a search). Polls already on screen
+ *   stay there even if they stop matching, so a card does not vanish while someone is using it,
+ *   e.g. right after voting in a "not yet voted" list. Defaults to every poll.
+ * @returns {Poll[]} The updated list.
+ */
+export const applyPollEvent = (
+  polls: Poll[],
+  event: PollEvent,
+  belongs: (poll: Poll) => boolean = () => true,
+): Poll[] => {
+  if (event.type === 'delete') {
+    return polls.filter(p => p.id !== event.pollId);
+  }
+  const { poll } = event;
+  const existing = polls.find(p => p.id === poll.id);
+  if (existing) {
+    return existing.revision > poll.revision ? polls : polls.map(p => (p.id === poll.id ? poll : p));
+  }
+  return belongs(poll) ? [poll, ...polls] : polls;
+};
@@ -0,0 +1,201 @@
+
+import type { Poll } from '../types';
+import { getVoteShare } from './tally';
+import { PollyError } from './errors';
+
+/**
+ * Identifies a full-store backup file, so it can be told apart from a single exported poll.
+ */
+export const BACKUP_FORMAT = 'polly-backup';
+
+/**
+ * The shape of a full-store backup file.
+ */
+export interface PollBackup {
+  format: typeof BACKUP_FORMAT;
+  version: 1;
+  exportedAt: string; // ISO timestamp
+  polls: Poll[];
+}
+
+/**
+ * Quotes a CSV field when needed.
+ * Fields starting with `=`, `+`, `-` or `@` are prefixed with a `'` so that spreadsheet
+ * apps show them as text instead of running them as formulas.
+ * @param {string | number} value - The field value.
+ * @returns {string} The field, ready to be joined with commas.
+ */
+const csvField = (value: string | number): string => {
+  let text = String(value);
+  if (/^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Undoes the formula guard added by `csvField`.
+ * @param {string} field - A field read from a CSV file.
+ * @returns {string} The original value.
+ */
+const unguardField = (field: string): string => (/^'[=+\-@]/.test(field) ? field.slice(1) : field);
+
+/**
+ * Splits CSV text into rows of fields, handling quoted fields with commas, quotes and line breaks.
+ * @param {string} text - The CSV file contents.
+ * @returns {string[][]} The rows; blank lines are dropped.
+ */
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  rows.push(row);
+
+  return rows.filter(r => r.some(f => f.trim() !== '')).map(r => r.map(unguardField));
+};
+
+/**
+ * Exports a poll's results as CSV, one row per option, for use in a spreadsheet.
+ * The question is repeated on every row so that several exports can be pasted into one sheet
+ * and still be told apart, and so that the file can be imported back.
+ * For ranked polls the counts are first preferences.
+ * @param {Poll} poll - The poll to export.
+ * @returns {string} The CSV text, with a header row.
+ */
+export const pollResultsToCsv = (poll: Poll): string => {
+  const header = ['Question', 'Option', poll.type === 'ranked' ? 'First preferences' : 'Votes', 'Share (%)'];
+  const rows = poll.options.map(option => [
+    poll.question,
+    option.text,
+    option.votes,
+    getVoteShare(poll, option.votes).toFixed(1),
+  ]);
+  return [header, ...rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+};
+
+/**
+ * Leaves a poll's invite code out of an export, so a shared file cannot be used to join the poll.
+ * An imported invite-only poll gets a new code anyway.
+ * @param {Poll} poll - The poll to export.
+ * @returns {Poll} The poll without its invite code.
+ */
+const forExport = (poll: Poll): Poll => ({ ...poll, accessCode: null });
+
+/**
+ * Exports a single poll as JSON, including every ballot and its vote log.
+ * @param {Poll} poll - The poll to export.
+ * @returns {string} Pretty-printed JSON.
+ */
+export const pollToJson = (poll: Poll): string => JSON.stringify(forExport(poll), null, 2);
+
+/**
+ * Exports every poll as a backup file that can be imported again.
+ * User accounts are deliberately not included, as they contain password hashes.
+ * @param {Poll[]} polls - All polls in the store.
+ * @returns {string} Pretty-printed JSON in the `PollBackup` format.
+ */
+export const pollsToBackupJson = (polls: Poll[]): string => {
+  const backup: PollBackup = { format: BACKUP_FORMAT, version: 1, exportedAt: new Date().toISOString(), polls: polls.map(forExport) };
+  return JSON.stringify(backup, null, 2);
+};
+
+/**
+ * Reads the polls out of an import file.
+ * Accepts a full-store backup, a single exported poll, a JSON array of polls, or a results CSV
+ * (polls from a CSV have no ballots; their counts are kept as anonymous votes on import).
+ * The polls themselves are validated by the poll service when they are imported.
+ * @param {string} fileName - The file's name, used to tell CSV from JSON.
+ * @param {string} text - The file's contents.
+ * @returns {Partial<Poll>[]} The polls found in the file.
+ * @throws {PollyError} Throws an error if the file cannot be read or contains no polls.
+ */
+export const parsePollImport = (fileName: string, text: string): Partial<Poll>[] => {
+  if (fileName.toLowerCase().endsWith('.csv')) {
+    const rows = parseCsv(text.replace(/^\uFEFF/, ''));
+    if (rows.length > 0 && rows[0][0]?.trim().toLowerCase() === 'question') {
+      rows.shift();
+    }
+    // Rows of the same question belong to the same poll, in the order they appear.
+    const byQuestion = new Map<string, Partial<Poll>>();
+    for (const [question = '', optionText = '', votes = '0'] of rows) {
+      const poll = byQuestion.get(question) ?? { question, options: [] };
+      byQuestion.set(question, poll);
+      const count = Number.parseInt(votes, 10);
+      poll.options!.push({ id: '', text: optionText, votes: Number.isNaN(count) ? 0 : count });
+    }
+    if (byQuestion.size === 0) {
+      throw new PollyError('importNoPolls');
+    }
+    return [...byQuestion.values()];
+  }
+
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new PollyError('importUnreadable');
+  }
+
+  const polls = data?.format === BACKUP_FORMAT ? data.polls : Array.isArray(data) ? data : [data];
+  if (!Array.isArray(polls) || polls.length === 0 || polls.some(p => typeof p !== 'object' || p === null)) {
+    throw new PollyError('importNoPolls');
+  }
+  return polls;
+};
+
+/**
+ * Builds a file name for an exported poll from its question, e.g. `favorite-frontend-framework.csv`.
+ * @param {Poll} poll - The exported poll.
+ * @param {string} extension - The file extension, without the dot.
+ * @returns {string} A file name that is safe on every operating system.
+ */
+export const exportFileName = (poll: Poll, extension: string): string => {
+  const slug = poll.question.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 50);
+  return `${slug || poll.id}.${extension}`;
+};
+
+/**
+ * Makes the browser download some text as a file.
+ * @param {string} fileName - The name to save the file under.
+ * @param {string} content - The file contents.
+ * @param {string} mimeType - The file's MIME type, e.g. `text/csv`.
+ */
+export const downloadFile = (fileName: string, content: string, mimeType: string): void => {
+  // Spreadsheet apps only detect UTF-8 in a CSV file when it starts with a byte order mark.
+  const bom = mimeType === 'text/csv' ? '\uFEFF' : '';
+  const url = URL.createObjectURL(new Blob([bom + content], { type: `${mimeType};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,17 @@
+
+import type { Poll, PollStatus } from '../types';
+
+/**
+ * Works out a poll's status at a given moment.
+ * The stored `status` only changes when something happens to the poll (it is created or
+ * closed early), so the schedule has to be taken into account whenever the status is read.
+ * @param {Poll} poll - The poll to check.
+ * @param {number} [now=Date.now()] - The moment to check at, in milliseconds since the epoch.
+ * @returns {PollStatus} The poll's effective status.
+ */
+export const getPollStatus = (poll: Poll, now: number = Date.now()): PollStatus => {
+  if (poll.status === 'closed') return 'closed';
+  if (poll.closesAt && now >= Date.parse(poll.closesAt)) return 'closed';
+  if (poll.opensAt && now < Date.parse(poll.opensAt)) return 'draft';
+  return 'open';
+};
@@ -0,0 +1,100 @@
+
+import type { Poll, PollList, PollQuery, PollSort } from '../types';
+import { getPollStatus } from './pollLifecycle';
+import { normalizeTag } from './tags';
+import { PollyError } from './errors';
+
+/** The largest page a single query may return. */
+export const MAX_PAGE_SIZE = 100;
+
+/**
+ * Checks whether a poll matches the filters of a query (everything except sorting and paging).
+ * Also used by lists that receive live updates, to decide whether a new poll belongs in them.
+ * @param {Poll} poll - The poll to check.
+ * @param {PollQuery} query - The filters.
+ * @param {string} [userId] - The user asking, for `votedByMe`. Without one, nobody has voted.
+ * @param {number} [now=Date.now()] - The current time, for `status`.
+ * @returns {boolean} True if the poll matches every filter.
+ */
+export const matchesPollQuery = (poll: Poll, query: PollQuery, userId?: string, now = Date.now()): boolean => {
+  const search = query.search?.trim().toLowerCase();
+  if (search && ![poll.question, ...poll.options.map(o => o.text)].some(text => text.toLowerCase().includes(search))) {
+    return false;
+  }
+  if (query.createdBy && poll.createdBy !== query.createdBy) {
+    return false;
+  }
+  if (query.tags?.length && !query.tags.every(tag => poll.tags.includes(normalizeTag(tag)))) {
+    return false;
+  }
+  if (query.votedByMe !== undefined) {
+    const hasVoted = Boolean(userId && poll.ballots.some(b => b.userId === userId));
+    if (hasVoted !== query.votedByMe) {
+      return false;
+    }
+  }
+  return !query.status || getPollStatus(poll, now) === query.status;
+};
+
+/**
+ * Builds a comparator for a sort order.
+ * @param {PollSort} sort - The requested order.
+ * @param {Map<Poll, number>} position - Each poll's position in storage, which is creation order.
+ * @param {number} now - The current time, for `closingSoon`.
+ * @returns {(a: Poll, b: Poll) => number} The comparator.
+ */
+const comparePolls = (sort: PollSort, position: Map<Poll, number>, now: number) => {
+  const newestFirst = (a: Poll, b: Poll) => position.get(b)! - position.get(a)!;
+
+  switch (sort) {
+    case 'mostVotes':
+      return (a: Poll, b: Poll) => b.ballots.length - a.ballots.length || newestFirst(a, b);
+    case 'closingSoon': {
+      const rank = (poll: Poll) => {
+        const status = getPollStatus(poll, now);
+        if (status === 'open') return poll.closesAt ? 0 : 1;
+        return status === 'draft' ? 2 : 3;
+      };
+      const deadline = (poll: Poll) => (poll.closesAt ? Date.parse(poll.closesAt) : Infinity);
+      return (a: Poll, b: Poll) => rank(a) - rank(b) || deadline(a) - deadline(b) || newestFirst(a, b);
+    }
+    case 'newest':
+    default:
+      return newestFirst;
+  }
+};
+
+/**
+ * Filters, sorts and pages a list of polls.
+ * Cursors are opaque to callers; they encode how many polls were already returned. Polls created
+ * while a user is paging can therefore shift later pages by a few polls, so clients should ignore
+ * polls they already have.
+ * @param {Poll[]} polls - Every poll, in storage (creation) order.
+ * @param {PollQuery} query - The filters, order and page to return.
+ * @param {string} [userId] - The user asking, for `votedByMe`.
+ * @returns {PollList} The requested page.
+ * @throws {PollyError} Throws an error if the cursor or the limit is invalid.
+ */
+export const queryPolls = (polls: Poll[], query: PollQuery, userId?: string): PollList => {
+  const now = Date.now();
+  const position = new Map(polls.map((poll, index) => [poll, index]));
+  const matching = polls
+    .filter(poll => matchesPollQuery(poll, query, userId, now))
+    .sort(comparePolls(query.sort ?? 'newest', position, now));
+
+  const offset = query.cursor ? Number(query.cursor) : 0;
+  if (!Number.isInteger(offset) || offset < 0) {
+    throw new PollyError('invalidCursor');
+  }
+  if (query.limit !== undefined && (!Number.isInteger(query.limit) || query.limit < 1)) {
+    throw new PollyError('invalidPageSize');
+  }
+
+  const limit = query.limit === undefined ? matching.length : Math.min(query.limit, MAX_PAGE_SIZE);
+  const end = offset + limit;
+  return {
+    polls: matching.slice(offset, end),
+    nextCursor: end < matching.length ? String(end) : null,
+    total: matching.length,
+  };
+};
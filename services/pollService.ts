@@ -1,186 +1,462 @@
 
-import type { User, Poll, PollOption } from '../types';
-
-// --- MOCK DATABASE using localStorage ---
-
-const USERS_KEY = 'polly_users';
-const POLLS_KEY = 'polly_polls';
-const CURRENT_USER_KEY = 'polly_current_user';
-
-/**
- * Initializes the mock database with some default data if it's empty.
- * This is a self-invoking function to ensure data exists on first load.
- */
-(() => {
-  if (!localStorage.getItem(POLLS_KEY)) {
-    const initialPolls: Poll[] = [
-      {
-        id: 'poll-1',
-        question: 'What is your favorite frontend framework?',
-        options: [
-          { id: 'opt-1-1', text: 'React', votes: 15 },
-          { id: 'opt-1-2', text: 'Vue', votes: 8 },
-          { id: 'opt-1-3', text: 'Svelte', votes: 12 },
-          { id: 'opt-1-4', text: 'Angular', votes: 3 },
-        ],
-        createdBy: 'user-1',
-        votedBy: [],
-      },
-      {
-        id: 'poll-2',
-        question: 'Which ALX track is the most challenging?',
-        options: [
-          { id: 'opt-2-1', text: 'Foundations', votes: 5 },
-          { id: 'opt-2-2', text: 'Specialization (e.g., Frontend)', votes: 20 },
-          { id: 'opt-2-3', text: 'Project Phase', votes: 18 },
-        ],
-        createdBy: 'user-2',
-        votedBy: [],
-      },
-    ];
-    localStorage.setItem(POLLS_KEY, JSON.stringify(initialPolls));
-  }
-})();
+import type {
+  User,
+  UserRole,
+  Poll,
+  PollSettings,
+  PollQuery,
+  PollList,
+  Comment,
+  TagCount,
+  Report,
+  ReportReason,
+  AuditEntry,
+} from '../types';
+import {
+  createRepositories,
+  resolveBackendConfig,
+  type BackendConfig,
+  type Repositories,
+  type PollListener,
+  type Unsubscribe,
+  type ImportConflictStrategy,
+  type ImportResult,
+} from './repositories';
+import { createOutbox, type Outbox, type OutboxListener } from './outbox';
+
+export type { OutboxListener } from './outbox';
+
+// --- BACKEND SELECTION ---
+
+/**
+ * The active backend. It is chosen once at startup from the build-time configuration
+ * (see `resolveBackendConfig`), and can be swapped with `configureBackend`.
+ * Every function below delegates to it, so components never depend on where data lives.
+ */
+const initialConfig = resolveBackendConfig();
+let repositories: Repositories = createRepositories(initialConfig);
+
+/**
+ * Holds votes and new polls that could not reach the server until the connection returns
+ * (see `services/outbox.ts`). Only the HTTP backend has one: the browser backends never go offline.
+ */
+let outbox: Outbox | null = initialConfig.kind === 'http' ? createOutbox(repositories) : null;
+
+/**
+ * Replaces the active backend.
+ * Useful for tests and SSR, which want an isolated in-memory store, or for pointing
+ * the app at a different server at runtime.
+ * @param {BackendConfig | Repositories} backend - A backend configuration, or ready-made repositories.
+ */
+export const configureBackend = (backend: BackendConfig | Repositories): void => {
+  repositories = 'kind' in backend ? createRepositories(backend) : backend;
+  outbox?.close();
+  outbox = 'kind' in backend && backend.kind === 'http' ? createOutbox(repositories) : null;
+};
 
 
 // --- AUTHENTICATION FLOWS ---
 
 /**
- * Simulates a user sign-in process.
- * This function checks for an existing user or creates a new one,
- * then sets them as the current user in localStorage.
+ * Creates a new account and signs the user in.
+ * Usernames are unique (ignoring case), and passwords are stored only as salted PBKDF2 hashes.
+ * @param {string} username - The desired username.
+ * @param {string} password - The desired password.
+ * @returns {Promise<User>} A promise that resolves with the new user object.
+ * @throws {Error} Throws an error if the input is invalid or the username is already taken.
+ */
+export const register = (username: string, password: string): Promise<User> =>
+  repositories.auth.register(username, password);
+
+/**
+ * Signs a user in to an existing account.
  * @param {string} username - The username to sign in with.
+ * @param {string} password - The account's password.
  * @returns {Promise<User>} A promise that resolves with the user object.
- * @throws {Error} Throws an error if the username is invalid.
+ * @throws {Error} Throws an error if no such account exists or the password is wrong.
  */
-export const signIn = async (username: string): Promise<User> => {
-  if (!username || username.trim().length < 3) {
-    throw new Error('Username must be at least 3 characters long.');
-  }
-
-  // Simulate network delay
-  await new Promise(res => setTimeout(res, 500));
-
-  const newUser: User = { id: `user-${Date.now()}`, username: username.trim() };
-  
-  // In a real app, you would query your DB. Here we just create a new user.
-  localStorage.setItem(CURRENT_USER_KEY, JSON.stringify(newUser));
-  return newUser;
+export const signIn = async (username: string, password: string): Promise<User> => {
+  const user = await repositories.auth.signIn(username, password);
+  // Anything this user queued while offline in an earlier session can be sent now.
+  outbox?.flush();
+  return user;
 };
 
 /**
- * Simulates a user sign-out process.
- * This function clears the current user from localStorage.
+ * Signs the current user out and clears their session.
  * @returns {Promise<void>} An empty promise that resolves when sign-out is complete.
  */
-export const signOut = async (): Promise<void> => {
-  // Simulate network delay
-  await new Promise(res => setTimeout(res, 300));
-  localStorage.removeItem(CURRENT_USER_KEY);
-};
+export const signOut = (): Promise<void> => repositories.auth.signOut();
 
 /**
  * Retrieves the currently authenticated user from the session.
  * @returns {User | null} The current user object, or null if no user is signed in.
  */
-export const getCurrentUser = (): User | null => {
-  const userJson = localStorage.getItem(CURRENT_USER_KEY);
-  return userJson ? JSON.parse(userJson) : null;
-};
+export const getCurrentUser = (): User | null => repositories.auth.getCurrentUser();
 
 
 // --- POLL MANAGEMENT LOGIC ---
 
 /**
- * Fetches all polls from the mock database.
- * @returns {Promise<Poll[]>} A promise that resolves to an array of all polls.
+ * Fetches polls from the active backend, optionally filtered, sorted and paged.
+ * Without a query, every poll is returned, newest first. Polls hidden by a moderator are only
+ * included for their creator and for moderators.
+ * @param {PollQuery} [query] - Filters (`search`, `createdBy`, `votedByMe`, `status`, `tags`), the `sort` order,
+ *   and paging (`limit`, plus the `cursor` from the previous page).
+ * @param {string} [userId] - The signed-in user, needed for `votedByMe` and for hidden polls.
+ * @returns {Promise<PollList>} A promise that resolves to the matching polls and the cursor for the next page.
+ * @throws {Error} Throws an error if the cursor or the page size is invalid.
  */
-export const getPolls = async (): Promise<Poll[]> => {
-  // Simulate network delay
-  await new Promise(res => setTimeout(res, 700));
-  const pollsJson = localStorage.getItem(POLLS_KEY);
-  return pollsJson ? JSON.parse(pollsJson) : [];
-};
+export const getPolls = (query?: PollQuery, userId?: string): Promise<PollList> =>
+  repositories.polls.getPolls(query, userId);
 
 /**
- * Creates a new poll and saves it to the mock database.
+ * Fetches a single poll, e.g. for its detail page.
+ * @param {string} pollId - The ID of the poll.
+ * @param {string} [userId] - The signed-in user, who may be allowed to see the poll if it is hidden.
+ * @returns {Promise<Poll>} A promise that resolves to the poll.
+ * @throws {Error} Throws an error if the poll does not exist, or is hidden from the user.
+ */
+export const getPoll = (pollId: string, userId?: string): Promise<Poll> => repositories.polls.getPoll(pollId, userId);
+
+/**
+ * Lists every tag in use, with how many polls are filed under it.
+ * @returns {Promise<TagCount[]>} A promise that resolves to the tags, the most used first.
+ */
+export const getTags = (): Promise<TagCount[]> => repositories.polls.getTags();
+
+/**
+ * Creates a new poll and saves it to the active backend.
  * @param {string} question - The poll question.
  * @param {string[]} options - An array of strings representing the poll options.
  * @param {string} userId - The ID of the user creating the poll.
- * @returns {Promise<Poll>} A promise that resolves to the newly created poll object.
- * @throws {Error} Throws an error if the input data is invalid.
+ * @param {PollSettings} [settings] - The poll type, its selection rules, an optional opening/closing
+ *   schedule and its tags. Defaults to an untagged single-choice poll that opens immediately and never
+ *   closes on its own.
+ * @returns {Promise<Poll | null>} A promise that resolves to the newly created poll object, or to null
+ *   if the server could not be reached and the poll was queued in the outbox instead.
+ * @throws {Error} Throws an error if the input data is invalid or the user is suspended.
  */
-export const createPoll = async (question: string, options: string[], userId: string): Promise<Poll> => {
-  // Input validation for robustness
-  if (!question.trim() || options.length < 2 || options.some(opt => !opt.trim())) {
-    throw new Error('A poll requires a question and at least two non-empty options.');
-  }
-  
-  // Simulate network delay
-  await new Promise(res => setTimeout(res, 600));
-
-  const newPoll: Poll = {
-    id: `poll-${Date.now()}`,
-    question,
-    options: options.map((opt, index) => ({
-      id: `opt-${Date.now()}-${index}`,
-      text: opt,
-      votes: 0,
-    })),
-    createdBy: userId,
-    votedBy: [],
-  };
-
-  const polls = await getPolls();
-  const updatedPolls = [...polls, newPoll];
-  localStorage.setItem(POLLS_KEY, JSON.stringify(updatedPolls));
-
-  return newPoll;
-};
+export const createPoll = (
+  question: string,
+  options: string[],
+  userId: string,
+  settings?: PollSettings,
+): Promise<Poll | null> => outbox
+  ? outbox.createPoll(question, options, userId, settings)
+  : repositories.polls.createPoll(question, options, userId, settings);
+
+/**
+ * Edits a poll. Only the poll's creator may do this, and only while the poll is not closed.
+ * The question and schedule can always be changed. Once a poll has votes, its options and
+ * type can only be changed together with `resetVotes`, which clears every vote cast so far.
+ * @param {string} pollId - The unique identifier for the poll to edit.
+ * @param {string} question - The new poll question.
+ * @param {string[]} options - The new option texts.
+ * @param {string} userId - The ID of the user editing the poll.
+ * @param {PollSettings} settings - The new poll type, selection rules, schedule and tags.
+ * @param {boolean} [resetVotes=false] - Whether to clear existing votes.
+ * @returns {Promise<Poll>} A promise that resolves to the updated poll.
+ * @throws {Error} Throws an error if the poll is not found, the user is not its creator,
+ *   the input is invalid, or the change would invalidate existing votes.
+ */
+export const updatePoll = (
+  pollId: string,
+  question: string,
+  options: string[],
+  userId: string,
+  settings: PollSettings,
+  resetVotes = false,
+): Promise<Poll> => repositories.polls.updatePoll(pollId, question, options, userId, settings, resetVotes);
+
+/**
+ * Deletes a poll and all of its votes. The poll's creator may do this, and so may moderators,
+ * in which case the deletion is written to the audit log.
+ * @param {string} pollId - The unique identifier for the poll to delete.
+ * @param {string} userId - The ID of the user deleting the poll.
+ * @returns {Promise<void>} A promise that resolves once the poll is gone.
+ * @throws {Error} Throws an error if the poll is not found or the user is neither its creator nor a moderator.
+ */
+export const deletePoll = (pollId: string, userId: string): Promise<void> =>
+  repositories.polls.deletePoll(pollId, userId);
+
+/**
+ * Imports polls, e.g. from a backup or another Polly instance (see `services/pollExport.ts`).
+ * Each poll is validated with the same rules as `createPoll` and becomes owned by the importing user.
+ * Invalid polls, and polls whose ID is already taken when `onConflict` is `skip`, are reported
+ * rather than failing the whole import.
+ * @param {Partial<Poll>[]} polls - The polls read from the import file.
+ * @param {string} userId - The ID of the user importing them.
+ * @param {ImportConflictStrategy} [onConflict='skip'] - What to do with polls whose ID already exists.
+ * @returns {Promise<ImportResult>} The imported polls, and the ones left out with the reason why.
+ */
+export const importPolls = (
+  polls: Partial<Poll>[],
+  userId: string,
+  onConflict?: ImportConflictStrategy,
+): Promise<ImportResult> => repositories.polls.importPolls(polls, userId, onConflict);
 
 
 // --- VOTING SYSTEM HANDLERS ---
 
 /**
- * Submits a vote for a specific option on a poll.
- * This function simulates an asynchronous API call to a backend service.
- * It includes logic to prevent a user from voting twice on the same poll.
+ * Submits a ballot on a poll.
+ * The backend is responsible for preventing a user from voting twice on the same poll,
+ * and for checking the ballot against the poll's type.
  * @param {string} pollId - The unique identifier for the poll being voted on.
- * @param {string} optionId - The unique identifier for the selected option.
+ * @param {string[]} optionIds - The selected options: exactly one for single-choice polls,
+ *   within the poll's bounds for multiple-choice polls, and in order of preference for ranked polls.
  * @param {string} userId - The unique identifier of the user casting the vote.
- * @returns {Promise<Poll>} A promise that resolves to the updated poll object after the vote is cast.
- * @throws {Error} Throws an error if the poll or option is not found, or if the user has already voted.
- */
-export const castVote = async (pollId: string, optionId: string, userId: string): Promise<Poll> => {
-  // Simulate network delay
-  await new Promise(res => setTimeout(res, 400));
-  
-  const polls = await getPolls();
-  const pollIndex = polls.findIndex(p => p.id === pollId);
-
-  if (pollIndex === -1) {
-    throw new Error('Poll not found. It may have been deleted.');
-  }
+ * @returns {Promise<Poll | null>} A promise that resolves to the updated poll object after the vote is cast,
+ *   or to null if the server could not be reached and the vote was queued in the outbox instead.
+ * @throws {Error} Throws an error if the poll or an option is not found, the poll is not open or
+ *   has been hidden, the ballot does not fit the poll's type, the user has already voted, or they are suspended.
+ */
+export const castVote = (pollId: string, optionIds: string[], userId: string): Promise<Poll | null> =>
+  outbox ? outbox.castVote(pollId, optionIds, userId) : repositories.polls.castVote(pollId, optionIds, userId);
+
+/**
+ * Replaces the user's existing ballot on a poll with a new one.
+ * Only allowed while the poll is open, and only if its creator allows votes to be changed.
+ * @param {string} pollId - The unique identifier for the poll.
+ * @param {string[]} optionIds - The newly selected options, following the same rules as `castVote`.
+ * @param {string} userId - The unique identifier of the voter.
+ * @returns {Promise<Poll>} A promise that resolves to the updated poll.
+ * @throws {Error} Throws an error if the user has not voted, changes are not allowed, or the new ballot is invalid.
+ */
+export const changeVote = (pollId: string, optionIds: string[], userId: string): Promise<Poll> =>
+  repositories.polls.changeVote(pollId, optionIds, userId);
 
-  const poll = polls[pollIndex];
+/**
+ * Withdraws the user's ballot from a poll, as if they had never voted.
+ * Only allowed while the poll is open, and only if its creator allows votes to be changed.
+ * @param {string} pollId - The unique identifier for the poll.
+ * @param {string} userId - The unique identifier of the voter.
+ * @returns {Promise<Poll>} A promise that resolves to the updated poll.
+ * @throws {Error} Throws an error if the user has not voted or changes are not allowed.
+ */
+export const retractVote = (pollId: string, userId: string): Promise<Poll> =>
+  repositories.polls.retractVote(pollId, userId);
 
-  // Edge Case: Check if the user has already voted on this specific poll.
-  // This is a critical piece of logic for maintaining vote integrity.
-  if (poll.votedBy.includes(userId)) {
-    throw new Error('You have already voted on this poll.');
-  }
+/**
+ * Closes a poll before its deadline. Only the poll's creator may do this.
+ * @param {string} pollId - The unique identifier for the poll to close.
+ * @param {string} userId - The unique identifier of the user closing the poll.
+ * @returns {Promise<Poll>} A promise that resolves to the closed poll.
+ * @throws {Error} Throws an error if the poll is not found, the user is not its creator, or it is already closed.
+ */
+export const closePoll = (pollId: string, userId: string): Promise<Poll> =>
+  repositories.polls.closePoll(pollId, userId);
 
-  const optionIndex = poll.options.findIndex(o => o.id === optionId);
-  if (optionIndex === -1) {
-    throw new Error('Invalid option selected.');
-  }
+/**
+ * Joins an invite-only poll with its invite code, adding the user to its allowlist.
+ * Joining a poll the user can already open just returns it.
+ * @param {string} code - The invite code, as typed or taken from an invite link; case, spaces and dashes are ignored.
+ * @param {string} userId - The user joining.
+ * @returns {Promise<Poll>} A promise that resolves to the poll.
+ * @throws {ValidationError} Throws an error (on the `code` field) if no poll has this invite code.
+ */
+export const joinPoll = (code: string, userId: string): Promise<Poll> =>
+  repositories.polls.joinPoll(code, userId);
 
-  // Update the vote count and record the user's vote
-  poll.options[optionIndex].votes += 1;
-  poll.votedBy.push(userId);
-  
-  polls[pollIndex] = poll;
-  localStorage.setItem(POLLS_KEY, JSON.stringify(polls));
+/**
+ * Replaces an invite-only poll's invite code, so the old code and links stop working.
+ * Users who already joined keep their access. Only the poll's creator may do this.
+ * @param {string} pollId - The ID of the poll.
+ * @param {string} userId - The user asking, who must be the poll's creator.
+ * @returns {Promise<Poll>} A promise that resolves to the poll with its new code.
+ * @throws {PollyError} Throws an error if the user is not the creator or the poll is not invite-only.
+ */
+export const regenerateAccessCode = (pollId: string, userId: string): Promise<Poll> =>
+  repositories.polls.regenerateAccessCode(pollId, userId);
 
-  return poll;
+
+// --- DISCUSSIONS ---
+
+/**
+ * Fetches every comment in a poll's discussion, including placeholders for deleted comments
+ * that have replies. Use `buildCommentThreads` to arrange them into threads.
+ * @param {string} pollId - The ID of the poll.
+ * @param {string} [userId] - The user asking, for invite-only polls.
+ * @returns {Promise<Comment[]>} A promise that resolves to the poll's comments.
+ * @throws {Error} Throws an error if the poll does not exist or the user has not joined it.
+ */
+export const getComments = (pollId: string, userId?: string): Promise<Comment[]> =>
+  repositories.comments.getComments(pollId, userId);
+
+/**
+ * Posts a comment on a poll, or a reply to one of its comments.
+ * @param {string} pollId - The ID of the poll.
+ * @param {string} body - The comment text.
+ * @param {string} userId - The ID of the user posting it, who becomes its author.
+ * @param {string | null} [parentId] - The comment being replied to; omit for a top-level comment.
+ * @returns {Promise<Comment>} A promise that resolves to the new comment.
+ * @throws {Error} Throws an error if the text is empty or too long, the comments are locked,
+ *   or the comment being replied to has been deleted.
+ */
+export const addComment = (pollId: string, body: string, userId: string, parentId?: string | null): Promise<Comment> =>
+  repositories.comments.addComment(pollId, body, userId, parentId);
+
+/**
+ * Changes the text of a comment. Only its author may do this, and only while the comments are not locked.
+ * @param {string} commentId - The ID of the comment.
+ * @param {string} body - The new text.
+ * @param {string} userId - The ID of the user editing it.
+ * @returns {Promise<Comment>} A promise that resolves to the edited comment.
+ * @throws {Error} Throws an error if the comment is not found, the user is not its author,
+ *   the comments are locked, or the text is invalid.
+ */
+export const editComment = (commentId: string, body: string, userId: string): Promise<Comment> =>
+  repositories.comments.editComment(commentId, body, userId);
+
+/**
+ * Deletes a comment. Only its author may do this. Replies to it are kept.
+ * @param {string} commentId - The ID of the comment.
+ * @param {string} userId - The ID of the user deleting it.
+ * @returns {Promise<void>} A promise that resolves once the comment is gone.
+ * @throws {Error} Throws an error if the comment is not found or the user is not its author.
+ */
+export const deleteComment = (commentId: string, userId: string): Promise<void> =>
+  repositories.comments.deleteComment(commentId, userId);
+
+/**
+ * Locks or unlocks a poll's discussion. Only the poll's creator may do this.
+ * While locked, no one can post or edit comments; existing comments stay visible.
+ * @param {string} pollId - The ID of the poll.
+ * @param {boolean} locked - Whether the comments should be locked.
+ * @param {string} userId - The ID of the user making the change.
+ * @returns {Promise<Poll>} A promise that resolves to the updated poll.
+ * @throws {Error} Throws an error if the poll is not found or the user is not its creator.
+ */
+export const setCommentsLocked = (pollId: string, locked: boolean, userId: string): Promise<Poll> =>
+  repositories.comments.setCommentsLocked(pollId, locked, userId);
+
+
+// --- MODERATION ---
+
+/**
+ * Reports a poll to the moderators. A user cannot report their own poll, or report the same poll
+ * again while their earlier report is still open.
+ * @param {string} pollId - The ID of the poll.
+ * @param {ReportReason} reason - Why the poll is being reported.
+ * @param {string} details - An optional explanation; required when the reason is `other`.
+ * @param {string} userId - The ID of the user reporting it.
+ * @returns {Promise<Report>} A promise that resolves to the new report.
+ * @throws {Error} Throws an error if the report is invalid, a duplicate, or the user is suspended.
+ */
+export const reportPoll = (pollId: string, reason: ReportReason, details: string, userId: string): Promise<Report> =>
+  repositories.moderation.reportPoll(pollId, reason, details, userId);
+
+/**
+ * Fetches every report, newest first. Moderators only.
+ * @param {string} userId - The ID of the moderator.
+ * @returns {Promise<Report[]>} A promise that resolves to the reports, open and reviewed.
+ * @throws {Error} Throws an error if the user is not a moderator.
+ */
+export const getReports = (userId: string): Promise<Report[]> => repositories.moderation.getReports(userId);
+
+/**
+ * Closes a report without acting on the poll, because it does not break the rules. Moderators only.
+ * @param {string} reportId - The ID of the report.
+ * @param {string} userId - The ID of the moderator.
+ * @returns {Promise<Report>} A promise that resolves to the dismissed report.
+ * @throws {Error} Throws an error if the report is not found or already reviewed, or the user is not a moderator.
+ */
+export const dismissReport = (reportId: string, userId: string): Promise<Report> =>
+  repositories.moderation.dismissReport(reportId, userId);
+
+/**
+ * Hides a poll from everyone except its creator and moderators, or makes it visible again.
+ * A hidden poll no longer accepts votes, and hiding it closes the open reports about it. Moderators only.
+ * @param {string} pollId - The ID of the poll.
+ * @param {boolean} hidden - Whether the poll should be hidden.
+ * @param {string} userId - The ID of the moderator.
+ * @returns {Promise<Poll>} A promise that resolves to the updated poll.
+ * @throws {Error} Throws an error if the poll is not found, is already in that state, or the user is not a moderator.
+ */
+export const setPollHidden = (pollId: string, hidden: boolean, userId: string): Promise<Poll> =>
+  repositories.moderation.setPollHidden(pollId, hidden, userId);
+
+/**
+ * Lists every account with its role and suspension. Moderators only.
+ * @param {string} userId - The ID of the moderator.
+ * @returns {Promise<User[]>} A promise that resolves to the users.
+ * @throws {Error} Throws an error if the user is not a moderator.
+ */
+export const getUsers = (userId: string): Promise<User[]> => repositories.moderation.getUsers(userId);
+
+/**
+ * Suspends a user, or lifts their suspension. A suspended user cannot create polls, vote, comment or report.
+ * Moderators can suspend ordinary users; only admins can suspend moderators and admins.
+ * @param {string} targetUserId - The ID of the user to suspend.
+ * @param {boolean} suspended - Whether they should be suspended.
+ * @param {string} userId - The ID of the moderator.
+ * @returns {Promise<User>} A promise that resolves to the updated user.
+ * @throws {Error} Throws an error if the user is not found, is the moderator themselves, or may not be suspended by them.
+ */
+export const setUserSuspended = (targetUserId: string, suspended: boolean, userId: string): Promise<User> =>
+  repositories.moderation.setUserSuspended(targetUserId, suspended, userId);
+
+/**
+ * Changes a user's role. Admins only, and not for themselves.
+ * @param {string} targetUserId - The ID of the user.
+ * @param {UserRole} role - Their new role.
+ * @param {string} userId - The ID of the admin.
+ * @returns {Promise<User>} A promise that resolves to the updated user.
+ * @throws {Error} Throws an error if the user is not found, the role is unknown, or the user making the change is not an admin.
+ */
+export const setUserRole = (targetUserId: string, role: UserRole, userId: string): Promise<User> =>
+  repositories.moderation.setUserRole(targetUserId, role, userId);
+
+/**
+ * Fetches the audit log of moderator actions, newest first. Admins only.
+ * @param {string} userId - The ID of the admin.
+ * @returns {Promise<AuditEntry[]>} A promise that resolves to the log entries.
+ * @throws {Error} Throws an error if the user is not an admin.
+ */
+export const getAuditLog = (userId: string): Promise<AuditEntry[]> => repositories.moderation.getAuditLog(userId);
+
+
+// --- LIVE UPDATES ---
+
+/**
+ * Subscribes to changes to any poll, including those made in other tabs or by other users.
+ * The localStorage backend relays `storage` events from other tabs; the HTTP backend
+ * listens to the server's Server-Sent Events stream.
+ * @param {PollListener} listener - Called with every poll event.
+ * @param {string} [userId] - The signed-in user; results they may not see are left out of the events.
+ * @returns {Unsubscribe} A function that stops the subscription.
+ */
+export const subscribeToPolls = (listener: PollListener, userId?: string): Unsubscribe =>
+  repositories.polls.subscribe(listener, userId);
+
+
+// --- OFFLINE OUTBOX ---
+
+/**
+ * Subscribes to the outbox of votes and new polls waiting to reach the server, including
+ * those queued in other tabs. Without a server backend there is never anything queued.
+ * @param {OutboxListener} listener - Called with every entry straight away, and again whenever they change.
+ * @returns {Unsubscribe} A function that stops the subscription.
+ */
+export const subscribeToOutbox = (listener: OutboxListener): Unsubscribe => {
+  if (!outbox) {
+    listener([]);
+    return () => {};
+  }
+  return outbox.subscribe(listener);
 };
+
+/**
+ * Tries to send the signed-in user's queued operations now, rather than waiting for the next retry.
+ * @returns {Promise<void>} A promise that resolves once every entry has been sent, has failed, or is still waiting.
+ */
+export const retryOutbox = (): Promise<void> => outbox?.flush() ?? Promise.resolve();
+
+/**
+ * Removes an entry from the outbox, e.g. once the user has read why it could not be sent.
+ * @param {string} entryId - The ID of the entry.
+ * @returns {Promise<void>} A promise that resolves once the entry is gone.
+ */
+export const dismissOutboxEntry = (entryId: string): Promise<void> =>
+  outbox?.dismiss(entryId) ?? Promise.resolve();
@@ -0,0 +1,93 @@
+
+import type { Poll, PollOption } from '../types';
+import { getVoteShare, runInstantRunoff } from './tally';
+
+/**
+ * One option's result, ready to be charted.
+ */
+export interface OptionResult extends PollOption {
+  /** The option's share of the vote, from 0 to 100 (see `getVoteShare`). */
+  share: number;
+}
+
+/**
+ * The headline numbers of a poll.
+ */
+export interface PollSummary {
+  results: OptionResult[];
+  /** The leading option(s): the runoff winner(s) for ranked polls, the most voted otherwise. Empty without votes. */
+  leaders: OptionResult[];
+  /** How many people currently have a ballot on the poll. */
+  voterCount: number;
+  /** How many options were picked across all ballots; for ranked polls, every preference counts. */
+  selectionCount: number;
+  /** Ballots that were changed after being cast. */
+  changeCount: number;
+  /** Ballots that were withdrawn. */
+  retractionCount: number;
+}
+
+/**
+ * A point on the cumulative turnout chart.
+ */
+export interface TimelinePoint {
+  /** Milliseconds since the epoch. */
+  at: number;
+  /** How many ballots the poll held just after this moment. */
+  voters: number;
+}
+
+/**
+ * Works out the headline numbers shown on a poll's detail page.
+ * @param {Poll} poll - The poll to summarize.
+ * @returns {PollSummary} Per-option results, the leader(s) and participation numbers.
+ */
+export const summarizePoll = (poll: Poll): PollSummary => {
+  const results = poll.options.map(option => ({ ...option, share: getVoteShare(poll, option.votes) }));
+
+  let leaders: OptionResult[] = [];
+  if (poll.type === 'ranked') {
+    const { winners } = runInstantRunoff(poll.options.map(o => o.id), poll.ballots.map(b => b.optionIds));
+    leaders = results.filter(r => winners.includes(r.id));
+  } else {
+    const mostVotes = Math.max(0, ...results.map(r => r.votes));
+    leaders = mostVotes > 0 ? results.filter(r => r.votes === mostVotes) : [];
+  }
+
+  return {
+    results,
+    leaders,
+    voterCount: poll.votedBy.length,
+    selectionCount: poll.ballots.reduce((sum, b) => sum + b.optionIds.length, 0),
+    changeCount: poll.voteEvents.filter(e => e.type === 'change').length,
+    retractionCount: poll.voteEvents.filter(e => e.type === 'retract').length,
+  };
+};
+
+/**
+ * Replays a poll's vote log into a cumulative turnout series.
+ * Votes recovered from data that predates the log carry no real timestamp (they are dated at
+ * the epoch); they are counted from the first dated event so they do not stretch the chart back to 1970.
+ * @param {Poll} poll - The poll whose `voteEvents` to replay.
+ * @returns {TimelinePoint[]} One point per cast or retracted ballot, oldest first, starting from the
+ *   turnout before the first dated event. Empty if there are no dated events.
+ */
+export const getVoteTimeline = (poll: Poll): TimelinePoint[] => {
+  const turnoutChanges = poll.voteEvents
+    .filter(e => e.type !== 'change')
+    .map(e => ({ at: Date.parse(e.at), delta: e.type === 'cast' ? 1 : -1 }));
+
+  const undated = turnoutChanges.filter(e => e.at <= 0);
+  const dated = turnoutChanges.filter(e => e.at > 0).sort((a, b) => a.at - b.at);
+  if (dated.length === 0) {
+    return [];
+  }
+
+  let voters = undated.reduce((sum, e) => sum + e.delta, 0);
+  const points: TimelinePoint[] = [{ at: dated[0].at, voters }];
+  for (const { at, delta } of dated) {
+    voters += delta;
+    points.push({ at, voters });
+  }
+  return points;
+};
@@ -0,0 +1,27 @@
+
+import { describe, expect, it } from 'vitest';
+import type { PollSettings } from '../types';
+import { validatePollInput } from './pollValidation';
+
+describe('validatePollInput', () => {
+  it('accepts a poll with every setting left at its default', () => {
+    expect(validatePollInput('Tea or coffee?', ['Tea', 'Coffee'], { type: 'single' })).toEqual({});
+  });
+
+  it('refuses on/off settings that are not booleans', () => {
+    const settings = { type: 'single', anonymous: 'no', allowVoteChange: 0 } as unknown as PollSettings;
+
+    expect(validatePollInput('Tea or coffee?', ['Tea', 'Coffee'], settings)).toEqual({
+      anonymous: { code: 'invalidSetting' },
+      allowVoteChange: { code: 'invalidSetting' },
+    });
+  });
+
+  it('reports missing settings as a field instead of failing', () => {
+    const settings = undefined as unknown as PollSettings;
+
+    expect(validatePollInput('Tea or coffee?', ['Tea', 'Coffee'], settings)).toEqual({
+      settings: { code: 'settingsRequired' },
+    });
+  });
+});
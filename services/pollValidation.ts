@@ -0,0 +1,176 @@
+
+import type { Poll, PollSettings } from '../types';
+import { RESULTS_VISIBILITIES } from './resultsVisibility';
+import { POLL_VISIBILITIES } from './pollAccess';
+import { normalizeTags } from './tags';
+import { ValidationError, type FieldErrors } from './errors';
+
+/** The longest a poll question can be, in characters. */
+export const MAX_QUESTION_LENGTH = 200;
+
+/** The longest a poll option can be, in characters. */
+export const MAX_OPTION_LENGTH = 100;
+
+/** The fewest options a poll can have. */
+export const MIN_OPTIONS = 2;
+
+/** The most options a poll can have. */
+export const MAX_OPTIONS = 10;
+
+/**
+ * Checks a new or edited poll, field by field: the question, each option and their number, the
+ * type and its selection bounds, the schedule, who can find the poll and see its results, whether
+ * ballots are anonymous and votes can be changed, and the tags. This is the one schema for polls:
+ * every backend runs it before saving, and the poll form runs it as the user types, so the limits
+ * shown in the form are exactly the ones the service enforces.
+ *
+ * Problems with a single option are reported under `options.<index>`; the number of options under `options`.
+ * @param {string} question - The poll question.
+ * @param {string[]} options - The option texts.
+ * @param {PollSettings} settings - The requested poll settings.
+ * @param {boolean} [allowPastClosing=false] - Accept a closing time that has already passed, for
+ *   imported polls that have finished.
+ * @returns {FieldErrors} The problems found, keyed by field; empty if the poll is valid.
+ */
+export const validatePollInput = (
+  question: string,
+  options: string[],
+  settings: PollSettings,
+  allowPastClosing = false,
+): FieldErrors => {
+  const fields: FieldErrors = {};
+
+  if (!question.trim()) {
+    fields.question = { code: 'questionRequired' };
+  } else if (question.trim().length > MAX_QUESTION_LENGTH) {
+    fields.question = { code: 'questionTooLong', params: { max: MAX_QUESTION_LENGTH } };
+  }
+
+  // Options are compared ignoring case and surrounding spaces, so "Pizza" and "pizza " are duplicates.
+  const seen = new Set<string>();
+  options.forEach((option, index) => {
+    const text = option.trim();
+    if (!text) {
+      fields[`options.${index}`] = { code: 'optionEmpty' };
+    } else if (text.length > MAX_OPTION_LENGTH) {
+      fields[`options.${index}`] = { code: 'optionTooLong', params: { max: MAX_OPTION_LENGTH } };
+    } else if (seen.has(text.toLowerCase())) {
+      fields[`options.${index}`] = { code: 'duplicateOptionText' };
+    }
+    seen.add(text.toLowerCase());
+  });
+  if (options.length < MIN_OPTIONS) {
+    fields.options = { code: 'tooFewOptions', params: { min: MIN_OPTIONS } };
+  } else if (options.length > MAX_OPTIONS) {
+    fields.options = { code: 'tooManyOptions', params: { max: MAX_OPTIONS } };
+  }
+
+  // A request to the REST server may leave the settings out entirely.
+  if (!settings || typeof settings !== 'object') {
+    fields.settings = { code: 'settingsRequired' };
+    return fields;
+  }
+
+  switch (settings.type) {
+    case 'single':
+    case 'ranked':
+      break;
+    case 'multiple': {
+      const minSelections = settings.minSelections ?? 1;
+      const maxSelections = settings.maxSelections ?? options.length;
+      if (
+        !Number.isInteger(minSelections) || !Number.isInteger(maxSelections) ||
+        minSelections < 1 || maxSelections < minSelections || maxSelections > options.length
+      ) {
+        fields.selections = { code: 'invalidSelectionBounds', params: { max: options.length } };
+      }
+      break;
+    }
+    default:
+      fields.type = { code: 'unknownPollType' };
+  }
+
+  const opensAt = settings.opensAt ? Date.parse(settings.opensAt) : null;
+  const closesAt = settings.closesAt ? Date.parse(settings.closesAt) : null;
+  if (Number.isNaN(opensAt)) {
+    fields.opensAt = { code: 'invalidSchedule' };
+  }
+  if (Number.isNaN(closesAt)) {
+    fields.closesAt = { code: 'invalidSchedule' };
+  } else if (!allowPastClosing && closesAt !== null && closesAt <= Date.now()) {
+    fields.closesAt = { code: 'closingInPast' };
+  } else if (opensAt !== null && !Number.isNaN(opensAt) && closesAt !== null && closesAt <= opensAt) {
+    fields.closesAt = { code: 'closingBeforeOpening' };
+  }
+
+  if (settings.resultsVisibility !== undefined && !RESULTS_VISIBILITIES.includes(settings.resultsVisibility)) {
+    fields.resultsVisibility = { code: 'unknownResultsVisibility' };
+  }
+  if (settings.visibility !== undefined && !POLL_VISIBILITIES.includes(settings.visibility)) {
+    fields.visibility = { code: 'unknownPollVisibility' };
+  }
+  for (const field of ['anonymous', 'allowVoteChange'] as const) {
+    if (settings[field] !== undefined && typeof settings[field] !== 'boolean') {
+      fields[field] = { code: 'invalidSetting' };
+    }
+  }
+
+  try {
+    normalizeTags(Array.isArray(settings.tags) ? settings.tags.map(String) : []);
+  } catch (err) {
+    if (!(err instanceof ValidationError)) throw err;
+    Object.assign(fields, err.fields);
+  }
+
+  return fields;
+};
+
+/**
+ * Checks a new or edited poll (see `validatePollInput`).
+ * @param {string} question - The poll question.
+ * @param {string[]} options - The option texts.
+ * @param {PollSettings} settings - The requested poll settings.
+ * @param {boolean} [allowPastClosing=false] - Accept a closing time that has already passed.
+ * @throws {ValidationError} Throws an error listing every invalid field.
+ */
+export const assertValidPoll = (
+  question: string,
+  options: string[],
+  settings: PollSettings,
+  allowPastClosing = false,
+): void => {
+  const fields = validatePollInput(question, options, settings, allowPastClosing);
+  if (Object.keys(fields).length > 0) {
+    throw new ValidationError(fields);
+  }
+};
+
+/**
+ * Fills in the settings to store for a poll that has passed `assertValidPoll`: the default
+ * selection bounds, the schedule as normalized ISO timestamps, both visibilities, whether the poll is
+ * anonymous, and normalized tags.
+ * The allowlist is only included when given, so an edit that leaves it out keeps the poll's members.
+ * @param {PollSettings} settings - The requested poll settings.
+ * @param {number} optionCount - How many options the poll has.
+ * @returns {PollSettings & Pick<Poll, 'tags' | 'resultsVisibility' | 'visibility' | 'anonymous'>} The settings to store.
+ */
+export const resolvePollSettings = (
+  settings: PollSettings,
+  optionCount: number,
+): PollSettings & Pick<Poll, 'tags' | 'resultsVisibility' | 'visibility' | 'anonymous'> => {
+  const common = {
+    opensAt: settings.opensAt ? new Date(settings.opensAt).toISOString() : null,
+    closesAt: settings.closesAt ? new Date(settings.closesAt).toISOString() : null,
+    allowVoteChange: settings.allowVoteChange ?? true,
+    resultsVisibility: settings.resultsVisibility ?? 'afterVoting',
+    visibility: settings.visibility ?? 'public',
+    ...(Array.isArray(settings.allowedUserIds)
+      ? { allowedUserIds: [...new Set(settings.allowedUserIds.filter(id => typeof id === 'string' && id))] }
+      : {}),
+    anonymous: settings.anonymous ?? true,
+    tags: normalizeTags(Array.isArray(settings.tags) ? settings.tags.map(String) : []),
+  };
+  return settings.type === 'multiple'
+    ? { type: 'multiple', minSelections: settings.minSelections ?? 1, maxSelections: settings.maxSelections ?? optionCount, ...common }
+    : { type: settings.type, ...common };
+};
@@ -0,0 +1,316 @@
+
+import type {
+  User,
+  UserRole,
+  Poll,
+  PollSettings,
+  PollQuery,
+  PollList,
+  Comment,
+  TagCount,
+  Report,
+  ReportReason,
+  AuditEntry,
+} from '../../types';
+import type {
+  KeyValueStorage,
+  PollRepository,
+  CommentRepository,
+  ModerationRepository,
+  AuthRepository,
+  Repositories,
+  PollEvent,
+  PollListener,
+  ImportConflictStrategy,
+  ImportResult,
+} from './types';
+import { PollyError, fromErrorPayload } from '../errors';
+
+const SESSION_KEY = 'polly_session';
+
+/**
+ * The session persisted in the browser after a successful sign-in against the server.
+ */
+interface StoredSession {
+  user: User;
+  token: string;
+}
+
+/**
+ * Creates a backend that talks to the Polly REST server.
+ *
+ * Endpoints used:
+ * - `GET    /polls`            -> `PollList`    query: the `PollQuery` fields, e.g. `?search=react&tags=tech,lunch&limit=12`
+ * - `GET    /polls/:id`        -> `Poll`
+ * - `GET    /tags`             -> `TagCount[]`
+ * - `POST   /polls`            -> `Poll`        body: `{ question, options, settings }`
+ * - `POST   /polls/:id/votes`  -> `Poll`        body: `{ optionIds }`
+ * - `PUT    /polls/:id/votes`  -> `Poll`        body: `{ optionIds }` (change your vote)
+ * - `DELETE /polls/:id/votes`  -> `Poll`        (retract your vote)
+ * - `PUT    /polls/:id`        -> `Poll`        body: `{ question, options, settings, resetVotes }`
+ * - `DELETE /polls/:id`
+ * - `POST   /polls/:id/close`  -> `Poll`
+ * - `POST   /polls/import`     -> `ImportResult` body: `{ polls, onConflict }`
+ * - `GET    /polls/:id/comments` -> `Comment[]`
+ * - `POST   /polls/:id/comments` -> `Comment`   body: `{ body, parentId }`
+ * - `PUT    /polls/:id/comment-lock` -> `Poll`  body: `{ locked }`
+ * - `PUT    /comments/:id`     -> `Comment`     body: `{ body }`
+ * - `DELETE /comments/:id`
+ * - `POST   /polls/:id/reports` -> `Report`   body: `{ reason, details }`
+ * - `PUT    /polls/:id/hidden` -> `Poll`       body: `{ hidden }` (moderators)
+ * - `GET    /reports`          -> `Report[]`    (moderators)
+ * - `POST   /reports/:id/dismiss` -> `Report`  (moderators)
+ * - `GET    /users`            -> `User[]`      (moderators)
+ * - `PUT    /users/:id/suspended` -> `User`    body: `{ suspended }` (moderators)
+ * - `PUT    /users/:id/role`   -> `User`        body: `{ role }` (admins)
+ * - `GET    /audit-log`        -> `AuditEntry[]` (admins)
+ * - `POST   /users`            -> `{ user, token }` body: `{ username, password }`
+ * - `POST   /session`          -> `{ user, token }` body: `{ username, password }`
+ * - `DELETE /session`
+ * - `POST   /polls/join`       -> `Poll`       body: `{ code }`
+ * - `POST   /polls/:id/access-code` -> `Poll` (creator; replaces the invite code)
+ * - `GET    /events?token=`    -> Server-Sent Events stream of `PollEvent`s, with results as the token's user may see them
+ *
+ * Failed requests respond with `{ error, code, params }`, which is rethrown as the same coded
+ * `PollyError` the local backend throws, so components can translate it exactly as they do there.
+ * A request that gets no response at all fails with the `offline` code.
+ * @param {string} baseUrl - The server's base URL, e.g. `http://localhost:4000`.
+ * @param {KeyValueStorage} sessionStorage - Where the session token is kept between reloads.
+ * @returns {Repositories} The poll, comment, moderation and auth repositories.
+ */
+export const createHttpRepositories = (
+  baseUrl: string,
+  sessionStorage: KeyValueStorage = window.localStorage,
+): Repositories => {
+  const apiUrl = baseUrl.replace(/\/+$/, '');
+  const listeners = new Set<PollListener>();
+  let eventSource: EventSource | null = null;
+  let eventToken: string | undefined;
+
+  const readSession = (): StoredSession | null => {
+    let session: any = null;
+    try {
+      session = JSON.parse(sessionStorage.getItem(SESSION_KEY) ?? 'null');
+    } catch {
+      // Unreadable; dropped below.
+    }
+    const isValid = typeof session?.token === 'string' &&
+      typeof session?.user?.id === 'string' && typeof session?.user?.username === 'string';
+    if (!isValid) {
+      // A damaged session is treated as signed out rather than crashing the app on startup.
+      sessionStorage.removeItem(SESSION_KEY);
+      return null;
+    }
+    const { id, username, role, suspended } = session.user;
+    return { user: { id, username, role: role ?? 'user', suspended: suspended === true }, token: session.token };
+  };
+
+  /**
+   * Performs a JSON request against the server, attaching the session token if there is one.
+   * @param {string} method - The HTTP method.
+   * @param {string} path - The path relative to the base URL.
+   * @param {unknown} [body] - An optional JSON body.
+   * @returns {Promise<T>} The parsed response body.
+   * @throws {PollyError} Throws the server's coded error if the request fails, so the UI can
+   *   translate it; errors without a known code keep the server's message. Throws the `offline`
+   *   code if the server could not be reached at all, which the outbox uses to queue the request.
+   */
+  const request = async <T>(method: string, path: string, body?: unknown): Promise<T> => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    const session = readSession();
+    if (session) {
+      headers.Authorization = `Bearer ${session.token}`;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${apiUrl}${path}`, {
+        method,
+        headers,
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+    } catch {
+      // `fetch` only rejects when no response arrived: no network, DNS failure, server down.
+      throw new PollyError('offline');
+    }
+
+    if (response.status === 204) {
+      return undefined as T;
+    }
+
+    const payload = await response.json().catch(() => null);
+    if (!response.ok) {
+      // Rebuilt as the same error class the server threw, so `instanceof` checks work on every backend.
+      const error = payload ? fromErrorPayload(payload) : null;
+      if (error) {
+        throw error;
+      }
+      throw payload?.error ? new Error(payload.error) : new PollyError('requestFailed', { status: response.status });
+    }
+    return payload as T;
+  };
+
+  // --- AUTHENTICATION FLOWS ---
+
+  /**
+   * Remembers a session returned by the server and returns its user.
+   * @param {StoredSession} session - The session from `/users` or `/session`.
+   * @returns {User} The signed-in user.
+   */
+  const startSession = (session: StoredSession): User => {
+    sessionStorage.setItem(SESSION_KEY, JSON.stringify(session));
+    return session.user;
+  };
+
+  const auth: AuthRepository = {
+    register: async (username: string, password: string): Promise<User> =>
+      startSession(await request<StoredSession>('POST', '/users', { username, password })),
+
+    signIn: async (username: string, password: string): Promise<User> =>
+      startSession(await request<StoredSession>('POST', '/session', { username, password })),
+
+    signOut: async (): Promise<void> => {
+      try {
+        await request<void>('DELETE', '/session');
+      } finally {
+        // Always forget the local session, even if the server could not be reached.
+        sessionStorage.removeItem(SESSION_KEY);
+      }
+    },
+
+    getCurrentUser: (): User | null => readSession()?.user ?? null,
+  };
+
+  // --- POLL MANAGEMENT LOGIC ---
+
+  const polls: PollRepository = {
+    // `votedByMe` is answered for the user of the session token, so `userId` is not sent.
+    getPolls: (query: PollQuery = {}) => {
+      const params = new URLSearchParams();
+      Object.entries(query).forEach(([key, value]) => {
+        if (value !== undefined && value !== null && value !== '') params.set(key, String(value));
+      });
+      const search = params.toString();
+      return request<PollList>('GET', search ? `/polls?${search}` : '/polls');
+    },
+
+    // Whether a hidden poll may be seen is also decided for the user of the session token.
+    getPoll: (pollId: string) => request<Poll>('GET', `/polls/${encodeURIComponent(pollId)}`),
+
+    getTags: () => request<TagCount[]>('GET', '/tags'),
+
+    // The server identifies the creator and voter from the session token,
+    // so `userId` is not sent over the wire.
+    createPoll: (question: string, options: string[], _userId: string, settings?: PollSettings, requestId?: string) =>
+      request<Poll>('POST', '/polls', { question, options, settings, requestId }),
+
+    castVote: (pollId: string, optionIds: string[]) =>
+      request<Poll>('POST', `/polls/${encodeURIComponent(pollId)}/votes`, { optionIds }),
+
+    changeVote: (pollId: string, optionIds: string[]) =>
+      request<Poll>('PUT', `/polls/${encodeURIComponent(pollId)}/votes`, { optionIds }),
+
+    retractVote: (pollId: string) =>
+      request<Poll>('DELETE', `/polls/${encodeURIComponent(pollId)}/votes`),
+
+    closePoll: (pollId: string) =>
+      request<Poll>('POST', `/polls/${encodeURIComponent(pollId)}/close`),
+
+    updatePoll: (
+      pollId: string,
+      question: string,
+      options: string[],
+      _userId: string,
+      settings: PollSettings,
+      resetVotes = false,
+    ) => request<Poll>('PUT', `/polls/${encodeURIComponent(pollId)}`, { question, options, settings, resetVotes }),
+
+    deletePoll: (pollId: string) =>
+      request<void>('DELETE', `/polls/${encodeURIComponent(pollId)}`),
+
+    importPolls: (polls: Partial<Poll>[], _userId: string, onConflict?: ImportConflictStrategy) =>
+      request<ImportResult>('POST', '/polls/import', { polls, onConflict }),
+
+    joinPoll: (code: string) =>
+      request<Poll>('POST', '/polls/join', { code }),
+
+    regenerateAccessCode: (pollId: string) =>
+      request<Poll>('POST', `/polls/${encodeURIComponent(pollId)}/access-code`),
+
+    // A single EventSource is shared by all subscribers and closed when the last one leaves.
+    // The browser reconnects it automatically if the connection drops. It is opened with the
+    // session token, since the results it may carry depend on who is signed in; the user ID
+    // is not sent, as elsewhere.
+    subscribe: (listener: PollListener) => {
+      listeners.add(listener);
+      const token = readSession()?.token;
+      if (eventSource && eventToken !== token) {
+        eventSource.close();
+        eventSource = null;
+      }
+      if (!eventSource) {
+        eventToken = token;
+        eventSource = new EventSource(`${apiUrl}/events${token ? `?token=${encodeURIComponent(token)}` : ''}`);
+        eventSource.onmessage = (message) => {
+          const event: PollEvent = JSON.parse(message.data);
+          listeners.forEach(l => l(event));
+        };
+      }
+      return () => {
+        listeners.delete(listener);
+        if (listeners.size === 0 && eventSource) {
+          eventSource.close();
+          eventSource = null;
+        }
+      };
+    },
+  };
+
+  // --- DISCUSSIONS ---
+
+  // As with polls, the author is identified from the session token.
+  const comments: CommentRepository = {
+    getComments: (pollId: string, _userId?: string) =>
+      request<Comment[]>('GET', `/polls/${encodeURIComponent(pollId)}/comments`),
+
+    addComment: (pollId: string, body: string, _userId: string, parentId: string | null = null) =>
+      request<Comment>('POST', `/polls/${encodeURIComponent(pollId)}/comments`, { body, parentId }),
+
+    editComment: (commentId: string, body: string) =>
+      request<Comment>('PUT', `/comments/${encodeURIComponent(commentId)}`, { body }),
+
+    deleteComment: (commentId: string) =>
+      request<void>('DELETE', `/comments/${encodeURIComponent(commentId)}`),
+
+    setCommentsLocked: (pollId: string, locked: boolean) =>
+      request<Poll>('PUT', `/polls/${encodeURIComponent(pollId)}/comment-lock`, { locked }),
+  };
+
+  // --- MODERATION ---
+
+  // The server checks the role of the user behind the session token, not a role claimed by the client.
+  const moderation: ModerationRepository = {
+    reportPoll: (pollId: string, reason: ReportReason, details: string) =>
+      request<Report>('POST', `/polls/${encodeURIComponent(pollId)}/reports`, { reason, details }),
+
+    getReports: () => request<Report[]>('GET', '/reports'),
+
+    dismissReport: (reportId: string) =>
+      request<Report>('POST', `/reports/${encodeURIComponent(reportId)}/dismiss`),
+
+    setPollHidden: (pollId: string, hidden: boolean) =>
+      request<Poll>('PUT', `/polls/${encodeURIComponent(pollId)}/hidden`, { hidden }),
+
+    getUsers: () => request<User[]>('GET', '/users'),
+
+    setUserSuspended: (targetUserId: string, suspended: boolean) =>
+      request<User>('PUT', `/users/${encodeURIComponent(targetUserId)}/suspended`, { suspended }),
+
+    setUserRole: (targetUserId: string, role: UserRole) =>
+      request<User>('PUT', `/users/${encodeURIComponent(targetUserId)}/role`, { role }),
+
+    getAuditLog: () => request<AuditEntry[]>('GET', '/audit-log'),
+  };
+
+  return { polls, comments, moderation, auth };
+};
@@ -0,0 +1,28 @@
+
+import type { Poll } from '../../types';
+import type { KeyValueStorage, Repositories } from './types';
+import { createStorageRepositories } from './storageRepository';
+
+/**
+ * Creates a `KeyValueStorage` backed by a plain `Map`.
+ * Nothing survives a page reload, which is exactly what tests and SSR need.
+ * @returns {KeyValueStorage} An empty in-memory store.
+ */
+export const createMemoryStorage = (): KeyValueStorage => {
+  const entries = new Map<string, string>();
+  return {
+    getItem: (key) => entries.get(key) ?? null,
+    setItem: (key, value) => { entries.set(key, value); },
+    removeItem: (key) => { entries.delete(key); },
+  };
+};
+
+/**
+ * Creates a backend that keeps all data in memory.
+ * It runs the same rules as the localStorage backend, but without simulated
+ * latency and without touching any browser API.
+ * @param {Poll[]} [seed] - Optional polls to start with.
+ * @returns {Repositories} The poll, comment, moderation and auth repositories.
+ */
+export const createInMemoryRepositories = (seed?: Poll[]): Repositories =>
+  createStorageRepositories(createMemoryStorage(), { seed });
@@ -0,0 +1,76 @@
+
+import type { Repositories } from './types';
+import { createLocalStorageRepositories } from './localStorageRepository';
+import { createInMemoryRepositories } from './inMemoryRepository';
+import { createHttpRepositories } from './httpRepository';
+
+export type {
+  KeyValueStorage,
+  PollRepository,
+  CommentRepository,
+  ModerationRepository,
+  AuthRepository,
+  Repositories,
+  PollEvent,
+  PollListener,
+  ImportConflictStrategy,
+  ImportResult,
+  StorageWatcher,
+  StorageLock,
+  Unsubscribe,
+} from './types';
+export { createStorageRepositories } from './storageRepository';
+export { createLocalStorageRepositories } from './localStorageRepository';
+export { createInMemoryRepositories, createMemoryStorage } from './inMemoryRepository';
+export { createHttpRepositories } from './httpRepository';
+
+/**
+ * The kinds of backend the app can run against.
+ * - `local`: browser `localStorage` (the default).
+ * - `memory`: a throwaway in-memory store, for tests and SSR.
+ * - `http`: the Polly REST server at `apiUrl`.
+ */
+export type BackendKind = 'local' | 'memory' | 'http';
+
+export interface BackendConfig {
+  kind: BackendKind;
+  apiUrl?: string;
+}
+
+/**
+ * Reads the backend selection from the environment.
+ * `POLLY_BACKEND` and `POLLY_API_URL` are injected at build time by `vite.config.ts`.
+ * Without them, or outside a browser, the app falls back to a sensible default.
+ * @returns {BackendConfig} The backend to use.
+ */
+export const resolveBackendConfig = (): BackendConfig => {
+  const kind = process.env.POLLY_BACKEND as BackendKind | undefined;
+  const apiUrl = process.env.POLLY_API_URL;
+
+  if (kind === 'http' || kind === 'memory' || kind === 'local') {
+    return { kind, apiUrl };
+  }
+  // localStorage only exists in the browser; anywhere else, keep data in memory.
+  return { kind: typeof window === 'undefined' ? 'memory' : 'local' };
+};
+
+/**
+ * Creates the repositories for a backend configuration.
+ * @param {BackendConfig} config - The backend to create.
+ * @returns {Repositories} The poll, comment, moderation and auth repositories.
+ * @throws {Error} Throws an error if the HTTP backend is selected without an API URL.
+ */
+export const createRepositories = (config: BackendConfig): Repositories => {
+  switch (config.kind) {
+    case 'http':
+      if (!config.apiUrl) {
+        throw new Error('The HTTP backend requires POLLY_API_URL to be set.');
+      }
+      return createHttpRepositories(config.apiUrl);
+    case 'memory':
+      return createInMemoryRepositories();
+    case 'local':
+    default:
+      return createLocalStorageRepositories();
+  }
+};
@@ -0,0 +1,46 @@
+
+import type { Repositories, StorageLock, StorageWatcher } from './types';
+import { createStorageRepositories, POLLS_KEY } from './storageRepository';
+import { SEED_POLLS } from './seedData';
+
+/**
+ * Watches `localStorage` for writes made by other tabs of the app.
+ * The browser fires a `storage` event in every other tab sharing the origin whenever
+ * one tab writes, which is exactly the cross-tab signal live results need.
+ */
+const watchLocalStorage: StorageWatcher = (onChange) => {
+  const handleStorage = (event: StorageEvent) => {
+    if (event.storageArea === window.localStorage && event.key) {
+      onChange(event.key, event.oldValue, event.newValue);
+    }
+  };
+  window.addEventListener('storage', handleStorage);
+  return () => window.removeEventListener('storage', handleStorage);
+};
+
+/**
+ * Serializes writes to `localStorage` across every tab of the app with the Web Locks API.
+ * Without it, two tabs could each read the polls, change them and write them back at the same
+ * time, and one tab's change would silently overwrite the other's. Browsers without Web Locks
+ * fall back to running the task directly. A change is then still refused when its poll was saved
+ * by another tab since it was read, but another tab could write between that check and the write
+ * itself, so conflicts become unlikely rather than impossible.
+ */
+const lockLocalStorage: StorageLock = (task) =>
+  'locks' in navigator
+    ? navigator.locks.request(POLLS_KEY, () => task())
+    : Promise.resolve().then(task);
+
+/**
+ * Creates the default browser backend, which persists everything in `window.localStorage`.
+ * Network latency is simulated so the UI's loading states behave as they would
+ * against a real server.
+ * @returns {Repositories} The poll, comment, moderation and auth repositories.
+ */
+export const createLocalStorageRepositories = (): Repositories =>
+  createStorageRepositories(window.localStorage, {
+    simulateLatency: true,
+    seed: SEED_POLLS,
+    watch: watchLocalStorage,
+    lock: lockLocalStorage,
+  });
@@ -0,0 +1,271 @@
+
+import type { Ballot, Poll } from '../../types';
+import { recountVotes, eventsFromBallots } from '../tally';
+import { PollyError } from '../errors';
+import { RESULTS_VISIBILITIES } from '../resultsVisibility';
+import { POLL_VISIBILITIES } from '../pollAccess';
+
+/**
+ * The version of the stored poll format this code reads and writes.
+ * Bump it whenever the shape of `Poll` changes, and add a migration from the previous version.
+ */
+export const POLL_SCHEMA_VERSION = 12;
+
+/** Where records that fail validation are set aside, so they can be inspected or repaired by hand. */
+export const QUARANTINE_KEY = 'polly_polls_quarantine';
+
+/**
+ * How `polly_polls` is stored: the polls, tagged with the schema version they follow.
+ * Payloads written before versioning are a bare array of polls and are treated as version 1.
+ */
+interface StoredPolls {
+  version: number;
+  polls: unknown[];
+}
+
+/**
+ * A record that could not be loaded, kept together with the reasons it was rejected.
+ */
+export interface QuarantinedRecord {
+  record: unknown;
+  errors: string[];
+  version: number; // the schema version the record was stored under
+  quarantinedAt: string; // ISO timestamp
+}
+
+/**
+ * The outcome of reading a `polly_polls` payload.
+ */
+export interface LoadedPolls {
+  polls: Poll[];
+  quarantined: QuarantinedRecord[];
+  /** True if the payload should be written back: it was migrated, or invalid records were removed. */
+  needsWrite: boolean;
+}
+
+/**
+ * Rebuilds ballots for polls stored before ballots existed.
+ * Ranked polls kept every ranking alongside `votedBy`, in the same order, so their ballots can be
+ * restored exactly. Older single- and multiple-choice polls only kept counts, so each counted vote
+ * becomes an anonymous ballot; the tallies are preserved, but who picked what was never recorded.
+ * @param {any} poll - A poll in the pre-ballot format.
+ * @returns {Ballot[]} The reconstructed ballots.
+ */
+const reconstructBallots = (poll: any): Ballot[] => {
+  const castAt = new Date(0).toISOString();
+  if (Array.isArray(poll.rankings)) {
+    return poll.rankings.map((optionIds: string[], i: number) => ({
+      userId: poll.votedBy?.[i] ?? `legacy-${poll.id}-${i}`,
+      optionIds,
+      castAt,
+    }));
+  }
+  return (Array.isArray(poll.options) ? poll.options : []).flatMap((option: any) =>
+    Array.from({ length: Number.isInteger(option?.votes) && option.votes > 0 ? option.votes : 0 }, (_, n) => ({
+      userId: `legacy-${option.id}-${n}`,
+      optionIds: [option.id],
+      castAt,
+    })),
+  );
+};
+
+/**
+ * Upgrades a single poll from one schema version to the next, keyed by the version it upgrades from.
+ * Each step only fills in what is missing, so running it on a poll that is already newer is harmless;
+ * this lets imported polls of unknown age go through every step.
+ */
+const MIGRATIONS: Record<number, (poll: any) => any> = {
+  // v2 added poll types, the lifecycle status and the vote-change setting.
+  1: poll => ({
+    ...poll,
+    type: poll.type ?? 'single',
+    status: poll.status ?? 'open',
+    allowVoteChange: poll.allowVoteChange ?? true,
+  }),
+  // v3 made per-voter ballots the source of truth, replacing the separate ranked-poll `rankings`.
+  2: ({ rankings, ...poll }) =>
+    poll.ballots ? poll : { ...poll, ballots: reconstructBallots({ ...poll, rankings }) },
+  // v4 added the vote log behind the turnout chart.
+  3: poll => ({ ...poll, voteEvents: poll.voteEvents ?? eventsFromBallots(Array.isArray(poll.ballots) ? poll.ballots : []) }),
+  // v5 added the revision number that makes concurrent writes safe.
+  4: poll => ({ ...poll, revision: poll.revision ?? 1 }),
+  // v6 added discussions, which are stored separately; polls keep their comment count and lock.
+  5: poll => ({ ...poll, commentCount: poll.commentCount ?? 0, commentsLocked: poll.commentsLocked ?? false }),
+  // v7 added tags.
+  6: poll => ({ ...poll, tags: poll.tags ?? [] }),
+  // v8 added moderation, which can hide a poll.
+  7: poll => ({ ...poll, hidden: poll.hidden ?? false }),
+  // v9 let creators choose who sees the results; until then, only voters saw them before the poll closed.
+  8: poll => ({ ...poll, resultsVisibility: poll.resultsVisibility ?? 'afterVoting' }),
+  // v10 added unlisted and invite-only polls; every earlier poll was public.
+  9: poll => ({ ...poll, visibility: poll.visibility ?? 'public', accessCode: poll.accessCode ?? null, allowedUserIds: poll.allowedUserIds ?? [] }),
+  // v11 added anonymous polls. Earlier ballots were filed under their voters' user IDs, so those polls are attributed.
+  10: poll => ({ ...poll, anonymous: poll.anonymous ?? false, voterSalt: poll.voterSalt ?? null }),
+  // v12 added the request ID that stops a poll sent twice from being created twice.
+  11: poll => ({ ...poll, requestId: poll.requestId ?? null }),
+};
+
+/**
+ * Upgrades a poll record to the current schema, one version at a time.
+ * @param {unknown} record - The stored record.
+ * @param {number} [fromVersion=1] - The schema version the record follows.
+ * @returns {unknown} The upgraded record, still to be validated.
+ */
+export const migratePoll = (record: unknown, fromVersion = 1): unknown => {
+  if (typeof record !== 'object' || record === null) {
+    return record;
+  }
+  let poll: any = record;
+  for (let version = fromVersion; version < POLL_SCHEMA_VERSION; version++) {
+    poll = MIGRATIONS[version](poll);
+  }
+  return poll;
+};
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isTimestamp = (value: unknown) => isString(value) && !Number.isNaN(Date.parse(value));
+const isOptionalTimestamp = (value: unknown) => value === undefined || value === null || isTimestamp(value);
+
+/**
+ * Checks that a record has the shape of a current `Poll`.
+ * Only the structure is checked here; the voting rules are enforced when polls are created and voted on.
+ * @param {any} poll - The record, after migration.
+ * @returns {string[]} Everything wrong with the record; empty if it is a valid poll.
+ */
+export const validatePoll = (poll: any): string[] => {
+  if (typeof poll !== 'object' || poll === null || Array.isArray(poll)) {
+    return ['Not an object.'];
+  }
+
+  const errors: string[] = [];
+  if (!isString(poll.id) || !poll.id) errors.push('`id` must be a non-empty string.');
+  if (!isString(poll.question)) errors.push('`question` must be a string.');
+  if (!isString(poll.createdBy)) errors.push('`createdBy` must be a string.');
+  if (!Array.isArray(poll.tags) || !poll.tags.every(isString)) errors.push('`tags` must be a list of strings.');
+  if (!['single', 'multiple', 'ranked'].includes(poll.type)) errors.push('`type` is not a known poll type.');
+  if (!['draft', 'open', 'closed'].includes(poll.status)) errors.push('`status` is not a known status.');
+  if (typeof poll.allowVoteChange !== 'boolean') errors.push('`allowVoteChange` must be a boolean.');
+  if (!RESULTS_VISIBILITIES.includes(poll.resultsVisibility)) errors.push('`resultsVisibility` is not a known visibility.');
+  if (!POLL_VISIBILITIES.includes(poll.visibility)) errors.push('`visibility` is not a known visibility.');
+  if (poll.visibility === 'inviteOnly' ? !isString(poll.accessCode) || !poll.accessCode : poll.accessCode !== null) {
+    errors.push('`accessCode` must be set for invite-only polls, and null otherwise.');
+  }
+  if (!Array.isArray(poll.allowedUserIds) || !poll.allowedUserIds.every(isString)) errors.push('`allowedUserIds` must be a list of strings.');
+  if (typeof poll.anonymous !== 'boolean') errors.push('`anonymous` must be a boolean.');
+  if (poll.anonymous === true ? !isString(poll.voterSalt) || !poll.voterSalt : poll.voterSalt !== null) {
+    errors.push('`voterSalt` must be set for anonymous polls, and null otherwise.');
+  }
+  if (poll.requestId !== null && (!isString(poll.requestId) || !poll.requestId)) errors.push('`requestId` must be a non-empty string or null.');
+  for (const key of ['minSelections', 'maxSelections']) {
+    if (poll[key] !== undefined && !Number.isInteger(poll[key])) errors.push(`\`${key}\` must be a whole number.`);
+  }
+  if (!Number.isInteger(poll.revision) || poll.revision < 1) errors.push('`revision` must be a positive whole number.');
+  if (!Number.isInteger(poll.commentCount) || poll.commentCount < 0) errors.push('`commentCount` must be a whole number, zero or more.');
+  if (typeof poll.commentsLocked !== 'boolean') errors.push('`commentsLocked` must be a boolean.');
+  if (typeof poll.hidden !== 'boolean') errors.push('`hidden` must be a boolean.');
+  if (!isOptionalTimestamp(poll.opensAt)) errors.push('`opensAt` must be a date or null.');
+  if (!isOptionalTimestamp(poll.closesAt)) errors.push('`closesAt` must be a date or null.');
+
+  const options = Array.isArray(poll.options) ? poll.options : null;
+  if (!options || options.length < 2) {
+    errors.push('`options` must list at least two options.');
+  } else if (options.some((o: any) => !isString(o?.id) || !isString(o?.text))) {
+    errors.push('Every option needs a string `id` and `text`.');
+  } else if (new Set(options.map((o: any) => o.id)).size !== options.length) {
+    errors.push('Option IDs must be unique.');
+  }
+
+  if (!Array.isArray(poll.ballots)) {
+    errors.push('`ballots` must be an array.');
+  } else {
+    const optionIds = new Set((options ?? []).map((o: any) => o?.id));
+    const isValidBallot = (b: any) =>
+      isString(b?.userId) && isTimestamp(b?.castAt) &&
+      Array.isArray(b?.optionIds) && b.optionIds.every((id: unknown) => isString(id) && optionIds.has(id));
+    if (!poll.ballots.every(isValidBallot)) {
+      errors.push('Every ballot needs a `userId`, a `castAt` date and `optionIds` from this poll.');
+    } else if (new Set(poll.ballots.map((b: any) => b.userId)).size !== poll.ballots.length) {
+      errors.push('A voter has more than one ballot.');
+    }
+  }
+
+  if (!Array.isArray(poll.voteEvents) ||
+      !poll.voteEvents.every((e: any) => ['cast', 'change', 'retract'].includes(e?.type) && isTimestamp(e?.at))) {
+    errors.push('`voteEvents` must be a list of cast, change and retract events with dates.');
+  }
+
+  return errors;
+};
+
+/**
+ * Reads a `polly_polls` payload of any schema version.
+ * Older payloads are migrated step by step, and each record is validated on its own: invalid
+ * records (including duplicates of an earlier poll's ID) are quarantined instead of breaking
+ * the whole list. Derived tallies are recomputed from the ballots, so they can never disagree.
+ * This function has no side effects; the caller decides whether to persist the result.
+ * @param {string | null} payload - The stored payload, or null if there is none.
+ * @returns {LoadedPolls} The valid polls, the rejected records and whether to write back.
+ * @throws {PollyError} Throws an error if the payload was written by a newer version of the app,
+ *   since rewriting it could lose data.
+ */
+export const parseStoredPolls = (payload: string | null): LoadedPolls => {
+  if (payload === null) {
+    return { polls: [], quarantined: [], needsWrite: false };
+  }
+
+  const quarantinedAt = new Date().toISOString();
+  let stored: StoredPolls;
+  try {
+    const data = JSON.parse(payload);
+    stored = Array.isArray(data) ? { version: 1, polls: data } : data;
+    if (!Number.isInteger(stored?.version) || !Array.isArray(stored.polls)) {
+      throw new Error('Unrecognized payload.');
+    }
+  } catch {
+    // The payload is unreadable as a whole; keep it verbatim so nothing is lost, and start afresh.
+    return {
+      polls: [],
+      quarantined: [{ record: payload, errors: ['The stored polls could not be read.'], version: 0, quarantinedAt }],
+      needsWrite: true,
+    };
+  }
+
+  if (stored.version > POLL_SCHEMA_VERSION) {
+    throw new PollyError('newerSchema');
+  }
+
+  const polls: Poll[] = [];
+  const quarantined: QuarantinedRecord[] = [];
+  const seen = new Set<string>();
+  for (const record of stored.polls) {
+    let migrated: any;
+    let errors: string[];
+    try {
+      migrated = migratePoll(record, stored.version);
+      errors = validatePoll(migrated);
+    } catch (err: any) {
+      errors = [`The record could not be upgraded: ${err.message}`];
+    }
+    if (errors.length === 0 && seen.has(migrated.id)) {
+      errors.push('Another poll already has this ID.');
+    }
+    if (errors.length > 0) {
+      quarantined.push({ record, errors, version: stored.version, quarantinedAt });
+      continue;
+    }
+    seen.add(migrated.id);
+    polls.push(recountVotes(migrated));
+  }
+
+  return { polls, quarantined, needsWrite: stored.version < POLL_SCHEMA_VERSION || quarantined.length > 0 };
+};
+
+/**
+ * Serializes polls for storage under the current schema version.
+ * @param {Poll[]} polls - The polls to store.
+ * @returns {string} The `polly_polls` payload.
+ */
+export const serializePolls = (polls: Poll[]): string => {
+  const stored: StoredPolls = { version: POLL_SCHEMA_VERSION, polls };
+  return JSON.stringify(stored);
+};
@@ -0,0 +1,91 @@
+
+import type { Ballot, Poll } from '../../types';
+import { recountVotes, eventsFromBallots } from '../tally';
+import { newVoterSalt } from '../ballotPrivacy';
+
+/** When the demo votes start; each demo ballot is cast a few hours after the previous one. */
+const DEMO_START = Date.UTC(2025, 0, 6, 9);
+const DEMO_INTERVAL_MS = 3 * 60 * 60 * 1000;
+
+/**
+ * Builds anonymous demo ballots: `counts[i]` ballots for the i-th option.
+ * Voters for the different options are interleaved over time, so the demo polls have a plausible vote timeline.
+ * @param {string[]} optionIds - The poll's option IDs.
+ * @param {number[]} counts - How many demo voters picked each option.
+ * @returns {Ballot[]} One single-choice ballot per demo voter, oldest first.
+ */
+const demoBallots = (optionIds: string[], counts: number[]): Ballot[] => {
+  const ballots = optionIds
+    .flatMap((optionId, i) => Array.from({ length: counts[i] }, (_, n) => ({ optionId, n, order: (n + 0.5) / counts[i] })))
+    .sort((a, b) => a.order - b.order);
+  return ballots.map(({ optionId, n }, index) => ({
+    userId: `demo-${optionId}-${n}`,
+    optionIds: [optionId],
+    castAt: new Date(DEMO_START + index * DEMO_INTERVAL_MS).toISOString(),
+  }));
+};
+
+const DEMO_POLLS: Omit<Poll, 'voteEvents' | 'revision' | 'commentCount' | 'commentsLocked' | 'hidden'>[] = [
+  {
+    id: 'poll-1',
+    question: 'What is your favorite frontend framework?',
+    options: [
+      { id: 'opt-1-1', text: 'React', votes: 0 },
+      { id: 'opt-1-2', text: 'Vue', votes: 0 },
+      { id: 'opt-1-3', text: 'Svelte', votes: 0 },
+      { id: 'opt-1-4', text: 'Angular', votes: 0 },
+    ],
+    tags: ['frontend', 'tech'],
+    createdBy: 'user-1',
+    type: 'single',
+    status: 'open',
+    allowVoteChange: true,
+    resultsVisibility: 'afterVoting',
+    visibility: 'public',
+    accessCode: null,
+    allowedUserIds: [],
+    anonymous: true,
+    voterSalt: newVoterSalt(),
+    requestId: null,
+    votedBy: [],
+    ballots: demoBallots(['opt-1-1', 'opt-1-2', 'opt-1-3', 'opt-1-4'], [15, 8, 12, 3]),
+  },
+  {
+    id: 'poll-2',
+    question: 'Which ALX track is the most challenging?',
+    options: [
+      { id: 'opt-2-1', text: 'Foundations', votes: 0 },
+      { id: 'opt-2-2', text: 'Specialization (e.g., Frontend)', votes: 0 },
+      { id: 'opt-2-3', text: 'Project Phase', votes: 0 },
+    ],
+    tags: ['alx', 'learning'],
+    createdBy: 'user-2',
+    type: 'single',
+    status: 'open',
+    allowVoteChange: true,
+    resultsVisibility: 'afterVoting',
+    visibility: 'public',
+    accessCode: null,
+    allowedUserIds: [],
+    anonymous: true,
+    voterSalt: newVoterSalt(),
+    requestId: null,
+    votedBy: [],
+    ballots: demoBallots(['opt-2-1', 'opt-2-2', 'opt-2-3'], [5, 20, 18]),
+  },
+];
+
+/**
+ * The demo polls used to populate an empty store on first load,
+ * so that a new visitor has something to look at and vote on straight away.
+ */
+export const SEED_POLLS: Poll[] = DEMO_POLLS.map(poll =>
+  recountVotes({
+    ...poll,
+    voteEvents: eventsFromBallots(poll.ballots),
+    revision: 1,
+    commentCount: 0,
+    commentsLocked: false,
+    hidden: false,
+  }),
+);
@@ -0,0 +1,343 @@
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ResultsVisibility } from '../../types';
+import type { PollEvent, Repositories, StorageLock } from './types';
+import { createStorageRepositories } from './storageRepository';
+import { createInMemoryRepositories, createMemoryStorage } from './inMemoryRepository';
+import { createLocalStorageRepositories } from './localStorageRepository';
+import { AlreadyVotedError, PollNotFoundError, UnauthorizedError, ValidationError } from '../errors';
+
+/**
+ * A lock that, like a storage shared without a real lock, lets every writer read before any of
+ * them writes: each task only runs once everything already waiting has had its turn.
+ */
+const yieldingLock: StorageLock = (task) => new Promise(resolve => setTimeout(resolve, 0)).then(task);
+
+/**
+ * Registers two voters and creates a poll with two options in the given backend.
+ * @param {Repositories} repositories - The backend.
+ * @returns The poll and the two voters' IDs.
+ */
+const setUp = async (repositories: Repositories) => {
+  const alice = await repositories.auth.register('alice', 'password123');
+  const bob = await repositories.auth.register('bob', 'password123');
+  const poll = await repositories.polls.createPoll('Tea or coffee?', ['Tea', 'Coffee'], alice.id);
+  return { poll, alice, bob };
+};
+
+describe('concurrent writes to a poll', () => {
+  it('keeps both votes when two voters vote at once in the in-memory backend', async () => {
+    const repositories = createInMemoryRepositories([]);
+    const { poll, alice, bob } = await setUp(repositories);
+
+    await Promise.all([
+      repositories.polls.castVote(poll.id, [poll.options[0].id], alice.id),
+      repositories.polls.castVote(poll.id, [poll.options[1].id], bob.id),
+    ]);
+
+    const saved = await repositories.polls.getPoll(poll.id, alice.id);
+    expect(saved.ballots).toHaveLength(2);
+    expect(saved.revision).toBe(poll.revision + 2);
+  });
+
+  it('works a change out again when another process saved the poll after it was read', async () => {
+    const storage = createMemoryStorage();
+    const first = createStorageRepositories(storage, { lock: yieldingLock });
+    const second = createStorageRepositories(storage, { lock: yieldingLock });
+    const { poll, alice, bob } = await setUp(first);
+
+    await Promise.all([
+      first.polls.castVote(poll.id, [poll.options[0].id], alice.id),
+      second.polls.castVote(poll.id, [poll.options[1].id], bob.id),
+    ]);
+
+    const saved = await first.polls.getPoll(poll.id, alice.id);
+    expect(saved.options.map(option => option.votes)).toEqual([1, 1]);
+    expect(saved.revision).toBe(poll.revision + 2);
+  });
+
+  it('refuses a second vote by the same voter made at the same time from another process', async () => {
+    const storage = createMemoryStorage();
+    const first = createStorageRepositories(storage, { lock: yieldingLock });
+    const second = createStorageRepositories(storage, { lock: yieldingLock });
+    const { poll, bob } = await setUp(first);
+
+    const results = await Promise.allSettled([
+      first.polls.castVote(poll.id, [poll.options[0].id], bob.id),
+      second.polls.castVote(poll.id, [poll.options[1].id], bob.id),
+    ]);
+
+    expect(results.map(result => result.status)).toEqual(['fulfilled', 'rejected']);
+    expect((results[1] as PromiseRejectedResult).reason).toBeInstanceOf(AlreadyVotedError);
+    expect((await first.polls.getPoll(poll.id, bob.id)).ballots).toHaveLength(1);
+  });
+
+  it('keeps both comments when two polls are commented on at once', async () => {
+    const storage = createMemoryStorage();
+    const first = createStorageRepositories(storage, { lock: yieldingLock });
+    const second = createStorageRepositories(storage, { lock: yieldingLock });
+    const { poll, alice, bob } = await setUp(first);
+    const otherPoll = await first.polls.createPoll('Cake or biscuits?', ['Cake', 'Biscuits'], alice.id);
+
+    await Promise.all([
+      first.comments.addComment(poll.id, 'Tea, obviously.', bob.id),
+      second.comments.addComment(otherPoll.id, 'Cake, obviously.', bob.id),
+    ]);
+
+    expect(await first.comments.getComments(poll.id, bob.id)).toHaveLength(1);
+    expect(await first.comments.getComments(otherPoll.id, bob.id)).toHaveLength(1);
+    expect((await first.polls.getPoll(otherPoll.id, bob.id)).commentCount).toBe(1);
+  });
+});
+
+// This backend simulates network latency, so its calls take a few seconds in all.
+describe('concurrent writes from two tabs in the localStorage backend', { timeout: 20_000 }, () => {
+  beforeEach(() => {
+    // Two tabs share one localStorage. The lock is granted a moment after it is asked for, by which
+    // time both tabs have read the poll, as when they vote at the same time.
+    const storage = createMemoryStorage();
+    vi.stubGlobal('window', { localStorage: storage, addEventListener: () => {}, removeEventListener: () => {} });
+    vi.stubGlobal('navigator', { locks: { request: (_name: string, task: () => unknown) => yieldingLock(async () => task()) } });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('keeps the votes cast in both tabs', async () => {
+    const firstTab = createLocalStorageRepositories();
+    const secondTab = createLocalStorageRepositories();
+    const { poll, alice, bob } = await setUp(firstTab);
+
+    await Promise.all([
+      firstTab.polls.castVote(poll.id, [poll.options[0].id], alice.id),
+      secondTab.polls.castVote(poll.id, [poll.options[1].id], bob.id),
+    ]);
+
+    const saved = await secondTab.polls.getPoll(poll.id, alice.id);
+    expect(saved.options.map(option => option.votes)).toEqual([1, 1]);
+  });
+
+  it('refuses a second vote by the same voter from the other tab', async () => {
+    const firstTab = createLocalStorageRepositories();
+    const secondTab = createLocalStorageRepositories();
+    const { poll, bob } = await setUp(firstTab);
+
+    const results = await Promise.allSettled([
+      firstTab.polls.castVote(poll.id, [poll.options[0].id], bob.id),
+      secondTab.polls.castVote(poll.id, [poll.options[1].id], bob.id),
+    ]);
+
+    expect(results.filter(result => result.status === 'rejected')).toHaveLength(1);
+    expect((await firstTab.polls.getPoll(poll.id, bob.id)).ballots).toHaveLength(1);
+  });
+});
+
+describe('invite-only polls', () => {
+  /**
+   * Creates an invite-only poll by Alice, whom Bob has not joined.
+   * @returns The backend, the poll as its creator sees it, and the two users.
+   */
+  const setUpInviteOnly = async () => {
+    const repositories = createInMemoryRepositories([]);
+    const alice = await repositories.auth.register('alice', 'password123');
+    const bob = await repositories.auth.register('bob', 'password123');
+    const poll = await repositories.polls.createPoll('Team lunch?', ['Pizza', 'Sushi'], alice.id, { type: 'single', visibility: 'inviteOnly' });
+    return { repositories, poll, alice, bob };
+  };
+
+  it('are not listed, opened or voted on by users who have not joined', async () => {
+    const { repositories, poll, bob } = await setUpInviteOnly();
+
+    expect((await repositories.polls.getPolls({}, bob.id)).polls).toEqual([]);
+    await expect(repositories.polls.getPoll(poll.id, bob.id)).rejects.toBeInstanceOf(UnauthorizedError);
+    await expect(repositories.polls.getPoll(poll.id)).rejects.toBeInstanceOf(UnauthorizedError);
+    await expect(repositories.polls.castVote(poll.id, [poll.options[0].id], bob.id)).rejects.toBeInstanceOf(UnauthorizedError);
+  });
+
+  it('are left out of the live events of users who have not joined', async () => {
+    const { repositories, poll, alice, bob } = await setUpInviteOnly();
+    const aliceEvents: PollEvent[] = [];
+    const bobEvents: PollEvent[] = [];
+    const unsubscribeAlice = repositories.polls.subscribe(event => aliceEvents.push(event), alice.id);
+    const unsubscribeBob = repositories.polls.subscribe(event => bobEvents.push(event), bob.id);
+
+    await repositories.polls.castVote(poll.id, [poll.options[0].id], alice.id);
+    await vi.waitFor(() => expect(aliceEvents).toHaveLength(1));
+    unsubscribeAlice();
+    unsubscribeBob();
+
+    expect(bobEvents).toEqual([]);
+  });
+
+  it('let users in with a valid invite code', async () => {
+    const { repositories, poll, alice, bob } = await setUpInviteOnly();
+    const bobEvents: PollEvent[] = [];
+    const unsubscribe = repositories.polls.subscribe(event => bobEvents.push(event), bob.id);
+
+    await expect(repositories.polls.joinPoll('WRONG-CODE', bob.id)).rejects.toBeInstanceOf(ValidationError);
+    // Codes are accepted however they are typed.
+    const joined = await repositories.polls.joinPoll(poll.accessCode!.toLowerCase(), bob.id);
+
+    expect(joined.id).toBe(poll.id);
+    // Only the creator is sent the code.
+    expect(joined.accessCode).toBeNull();
+    expect((await repositories.polls.getPolls({}, bob.id)).polls.map(p => p.id)).toEqual([poll.id]);
+    await expect(repositories.polls.getPoll(poll.id, bob.id)).resolves.toBeDefined();
+    await repositories.polls.castVote(poll.id, [poll.options[1].id], bob.id);
+    await repositories.polls.castVote(poll.id, [poll.options[0].id], alice.id);
+    await vi.waitFor(() => expect(bobEvents.filter(event => event.type === 'upsert').length).toBeGreaterThanOrEqual(2));
+    unsubscribe();
+  });
+});
+
+describe('hidden results', () => {
+  /**
+   * Creates a poll by Alice with the given results visibility, on which Bob has voted for the
+   * first option and Carol has not voted.
+   * @param {ResultsVisibility} resultsVisibility - Who may see the results, and when.
+   * @returns The backend, the poll, Bob's vote as returned to him, and the three users.
+   */
+  const setUpVoted = async (resultsVisibility: ResultsVisibility) => {
+    const repositories = createInMemoryRepositories([]);
+    const alice = await repositories.auth.register('alice', 'password123');
+    const bob = await repositories.auth.register('bob', 'password123');
+    const carol = await repositories.auth.register('carol', 'password123');
+    const poll = await repositories.polls.createPoll('Tea or coffee?', ['Tea', 'Coffee'], alice.id, { type: 'single', resultsVisibility });
+    const voted = await repositories.polls.castVote(poll.id, [poll.options[0].id], bob.id);
+    return { repositories, poll, voted, alice, bob, carol };
+  };
+
+  it('are left out for users who have not voted yet', async () => {
+    const { repositories, poll, carol } = await setUpVoted('afterVoting');
+
+    const [listed] = (await repositories.polls.getPolls({}, carol.id)).polls;
+    for (const seen of [await repositories.polls.getPoll(poll.id, carol.id), await repositories.polls.getPoll(poll.id), listed]) {
+      expect(seen.resultsHidden).toBe(true);
+      expect(seen.options.map(option => option.votes)).toEqual([0, 0]);
+      expect(seen.ballots).toEqual([]);
+      // Only the number of voters is given away.
+      expect(seen.votedBy).toHaveLength(1);
+    }
+  });
+
+  it('are sent to users once they have voted', async () => {
+    const { voted } = await setUpVoted('afterVoting');
+
+    expect(voted.resultsHidden).toBeUndefined();
+    expect(voted.options.map(option => option.votes)).toEqual([1, 0]);
+  });
+
+  it('leave voters only their own ballot until the poll closes', async () => {
+    const { repositories, poll, voted, alice, bob, carol } = await setUpVoted('afterClose');
+    const carolEvents: PollEvent[] = [];
+    const unsubscribe = repositories.polls.subscribe(event => carolEvents.push(event), carol.id);
+    await repositories.polls.castVote(poll.id, [poll.options[1].id], carol.id);
+    await vi.waitFor(() => expect(carolEvents).toHaveLength(1));
+    unsubscribe();
+
+    expect(voted.resultsHidden).toBe(true);
+    expect(voted.options.map(option => option.votes)).toEqual([0, 0]);
+    expect(voted.ballots.map(ballot => ballot.userId)).toEqual([bob.id]);
+    const event = carolEvents[0] as Extract<PollEvent, { type: 'upsert' }>;
+    expect(event.poll.options.map(option => option.votes)).toEqual([0, 0]);
+    expect(event.poll.ballots.map(ballot => ballot.userId)).toEqual([carol.id]);
+
+    // The creator always sees the results, and everyone does once the poll has closed.
+    expect((await repositories.polls.getPoll(poll.id, alice.id)).options.map(option => option.votes)).toEqual([1, 1]);
+    await repositories.polls.closePoll(poll.id, alice.id);
+    const closed = await repositories.polls.getPoll(poll.id, bob.id);
+    expect(closed.resultsHidden).toBeUndefined();
+    expect(closed.ballots).toHaveLength(2);
+  });
+});
+
+describe('importing ballots', () => {
+  it('keeps the importer\'s own ballot and files every other one under a new voter', async () => {
+    const repositories = createInMemoryRepositories([]);
+    const { poll, alice, bob } = await setUp(repositories);
+    const exported = {
+      ...poll,
+      anonymous: false,
+      ballots: [
+        { userId: alice.id, optionIds: [poll.options[0].id], castAt: '2025-01-01T00:00:00.000Z', voterName: 'someone' },
+        { userId: bob.id, optionIds: [poll.options[1].id], castAt: '2025-01-01T00:00:00.000Z', voterName: 'bob' },
+      ],
+    };
+
+    const { imported } = await repositories.polls.importPolls([exported], alice.id, 'copy');
+    const saved = await repositories.polls.getPoll(imported[0].id, alice.id);
+
+    expect(saved.options.map(option => option.votes)).toEqual([1, 1]);
+    expect(saved.ballots.find(ballot => ballot.userId === alice.id)?.voterName).toBe('alice');
+    expect(saved.ballots.some(ballot => ballot.userId === bob.id || ballot.voterName === 'bob')).toBe(false);
+    // Bob's vote in the file was not his to give, so he can still vote.
+    await expect(repositories.polls.castVote(saved.id, [poll.options[0].id], bob.id)).resolves.toBeDefined();
+  });
+});
+
+describe('the discussion of a hidden poll', () => {
+  it('is as missing as the poll for everyone but moderators', async () => {
+    const repositories = createInMemoryRepositories([]);
+    const { poll, alice, bob } = await setUp(repositories);
+    await repositories.comments.addComment(poll.id, 'Tea, obviously.', bob.id);
+    await repositories.moderation.setPollHidden(poll.id, true, alice.id);
+
+    await expect(repositories.comments.getComments(poll.id, bob.id)).rejects.toBeInstanceOf(PollNotFoundError);
+    await expect(repositories.comments.addComment(poll.id, 'Still here?', bob.id)).rejects.toBeInstanceOf(PollNotFoundError);
+    await expect(repositories.comments.getComments(poll.id, alice.id)).resolves.toHaveLength(1);
+  });
+});
+
+describe('registering', () => {
+  it('gives one of two registrations of the same username at once the account', async () => {
+    const repositories = createInMemoryRepositories([]);
+
+    const results = await Promise.allSettled([
+      repositories.auth.register('carol', 'password123'),
+      repositories.auth.register('Carol', 'password456'),
+    ]);
+
+    expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+  });
+
+  it('gives accounts registered at once different IDs', async () => {
+    const repositories = createInMemoryRepositories([]);
+
+    const [dave, erin] = await Promise.all([
+      repositories.auth.register('dave', 'password123'),
+      repositories.auth.register('erin', 'password123'),
+    ]);
+
+    expect(dave.id).not.toBe(erin.id);
+  });
+});
+
+describe('the audit log', () => {
+  it('records a role change as role codes, for the page to translate', async () => {
+    const repositories = createInMemoryRepositories([]);
+    const { alice, bob } = await setUp(repositories);
+
+    await repositories.moderation.setUserRole(bob.id, 'moderator', alice.id);
+
+    const [entry] = await repositories.moderation.getAuditLog(alice.id);
+    expect(entry).toMatchObject({ action: 'change-role', details: 'bob', roleChange: { from: 'user', to: 'moderator' } });
+  });
+});
+
+describe('creating a poll', () => {
+  it('returns the poll already created when the same request is sent again', async () => {
+    const repositories = createInMemoryRepositories([]);
+    const alice = await repositories.auth.register('alice', 'password123');
+    const bob = await repositories.auth.register('bob', 'password123');
+
+    const first = await repositories.polls.createPoll('Tea or coffee?', ['Tea', 'Coffee'], alice.id, undefined, 'create-1');
+    const again = await repositories.polls.createPoll('Tea or coffee?', ['Tea', 'Coffee'], alice.id, undefined, 'create-1');
+    // Request IDs only have to be unique per user.
+    const other = await repositories.polls.createPoll('Tea or coffee?', ['Tea', 'Coffee'], bob.id, undefined, 'create-1');
+
+    expect(again.id).toBe(first.id);
+    expect(other.id).not.toBe(first.id);
+    expect((await repositories.polls.getPolls({}, alice.id)).polls).toHaveLength(2);
+  });
+});
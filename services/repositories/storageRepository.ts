@@ -0,0 +1,1354 @@
+
+import type {
+  User,
+  UserRole,
+  Poll,
+  PollSettings,
+  Ballot,
+  PollQuery,
+  PollList,
+  Comment,
+  TagCount,
+  Report,
+  ReportReason,
+  AuditAction,
+  AuditEntry,
+} from '../../types';
+import { getPollStatus } from '../pollLifecycle';
+import { recountVotes, findBallot, eventsFromBallots } from '../tally';
+import { queryPolls } from '../pollQuery';
+import { normalizeCommentBody } from '../comments';
+import { countTags } from '../tags';
+import { assertValidPoll, resolvePollSettings } from '../pollValidation';
+import { canViewPoll, isAdmin, isModerator, normalizeReport, USER_ROLES } from '../moderation';
+import { presentPoll } from '../resultsVisibility';
+import { canAccessPoll, isListedFor, newAccessCode, normalizeAccessCode, withoutAccessDetails } from '../pollAccess';
+import { anonymizeBallots, identifyOwnBallot, newVoterSalt, voterKey } from '../ballotPrivacy';
+import { createUserDirectory, parseStoredUser } from './userDirectory';
+import { migratePoll, parseStoredPolls, serializePolls, QUARANTINE_KEY, type QuarantinedRecord } from './pollSchema';
+import { PollyError, PollNotFoundError, AlreadyVotedError, InvalidOptionError, UnauthorizedError, ValidationError } from '../errors';
+import type {
+  KeyValueStorage,
+  PollRepository,
+  CommentRepository,
+  ModerationRepository,
+  AuthRepository,
+  Repositories,
+  PollEvent,
+  PollListener,
+  ImportConflictStrategy,
+  ImportResult,
+  StorageWatcher,
+  StorageLock,
+  Unsubscribe,
+} from './types';
+
+/** How the repository tells its subscribers about a change, together with the poll as it was before. */
+type ChangeListener = (event: PollEvent, previous: Poll | null) => void;
+
+// --- STORAGE KEYS ---
+
+export const POLLS_KEY = 'polly_polls';
+export const CURRENT_USER_KEY = 'polly_current_user';
+export const COMMENTS_KEY = 'polly_comments';
+export const REPORTS_KEY = 'polly_reports';
+export const AUDIT_LOG_KEY = 'polly_audit_log';
+
+/**
+ * Options shared by every storage-backed repository.
+ */
+export interface StorageRepositoryOptions {
+  /** When true, each operation waits for a short delay to mimic a network round-trip. */
+  simulateLatency?: boolean;
+  /** Polls written to the store if it does not contain any yet. */
+  seed?: Poll[];
+  /** Reports writes made outside this process (e.g. by other tabs), so subscribers hear about them too. */
+  watch?: StorageWatcher;
+  /** Makes each write exclusive across every process sharing the storage (e.g. other tabs). */
+  lock?: StorageLock;
+}
+
+/** How many times a change to a poll is attempted when other writes to the same poll keep getting in first. */
+const MAX_WRITE_ATTEMPTS = 5;
+
+/**
+ * The lock used when the storage is not shared with another process: the task simply runs next.
+ * It still runs asynchronously, exactly like a real lock, so callers cannot come to depend on it being immediate.
+ */
+const runNext: StorageLock = async (task) => task();
+
+/**
+ * Generates a unique ID.
+ * The timestamp keeps IDs roughly in creation order; the random suffix keeps them unique
+ * when several are created within the same millisecond, e.g. during an import.
+ * @param {string} prefix - What the ID is for, e.g. `poll` or `opt`.
+ * @returns {string} The new ID.
+ */
+const newId = (prefix: string): string => `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Checks a ballot against the rules of the poll's type.
+ * @param {Poll} poll - The poll being voted on.
+ * @param {string[]} optionIds - The selected optionIds (in order of preference for ranked polls).
+ * @throws {InvalidOptionError} Throws an error if the ballot does not fit the poll.
+ */
+const assertValidBallot = (poll: Poll, optionIds: string[]): void => {
+  const unknownIds = optionIds.filter(id => !poll.options.some(o => o.id === id));
+  if (unknownIds.length > 0) {
+    throw new InvalidOptionError('invalidOption', {}, unknownIds);
+  }
+  const repeatedIds = optionIds.filter((id, index) => optionIds.indexOf(id) !== index);
+  if (repeatedIds.length > 0) {
+    throw new InvalidOptionError('duplicateOption', {}, [...new Set(repeatedIds)]);
+  }
+
+  switch (poll.type) {
+    case 'multiple': {
+      const min = poll.minSelections ?? 1;
+      const max = poll.maxSelections ?? poll.options.length;
+      if (optionIds.length < min || optionIds.length > max) {
+        throw min === max
+          ? new InvalidOptionError('selectExactly', { count: min })
+          : new InvalidOptionError('selectBetween', { min, max });
+      }
+      break;
+    }
+    case 'ranked':
+      if (optionIds.length === 0) {
+        throw new InvalidOptionError('rankAtLeastOne');
+      }
+      break;
+    case 'single':
+    default:
+      if (optionIds.length !== 1) {
+        throw new InvalidOptionError('selectOne');
+      }
+  }
+};
+
+/**
+ * Checks that a poll is currently accepting votes (or changes to votes).
+ * @param {Poll} poll - The poll being voted on.
+ * @throws {PollyError} Throws an error if the poll has been hidden, has not opened yet or has closed.
+ */
+const assertAcceptingVotes = (poll: Poll): void => {
+  if (poll.hidden) {
+    throw new PollyError('pollHidden');
+  }
+  const status = getPollStatus(poll);
+  if (status === 'draft') {
+    throw new PollyError('pollNotOpen');
+  }
+  if (status === 'closed') {
+    throw new PollyError('pollClosed');
+  }
+};
+
+/**
+ * Checks that a user may change or retract their existing ballot.
+ * @param {Poll} poll - The poll the ballot was cast on.
+ * @param {string} userId - The voter.
+ * @throws {PollyError} Throws an error if the poll is not open, the creator does not allow changes,
+ *   or the user has not voted.
+ */
+const assertCanAmendBallot = (poll: Poll, userId: string): void => {
+  assertAcceptingVotes(poll);
+  if (!poll.allowVoteChange) {
+    throw new PollyError('voteChangeNotAllowed');
+  }
+  if (!findBallot(poll, userId)) {
+    throw new PollyError('notVoted');
+  }
+};
+
+/**
+ * Deletes a comment from a discussion.
+ * A comment with replies becomes a placeholder, so the replies still make sense; a comment without
+ * replies is removed, together with any placeholders above it that are left without replies.
+ * @param {Comment[]} comments - Every stored comment.
+ * @param {string} commentId - The comment to delete.
+ * @returns {Comment[]} The comments to store.
+ */
+const removeComment = (comments: Comment[], commentId: string): Comment[] => {
+  let remaining = comments.map(c => (c.id === commentId ? { ...c, body: '', deleted: true } : c));
+  let target = remaining.find(c => c.id === commentId);
+  while (target?.deleted && !remaining.some(c => c.parentId === target!.id)) {
+    const { id, parentId } = target;
+    remaining = remaining.filter(c => c.id !== id);
+    target = parentId ? remaining.find(c => c.id === parentId) : undefined;
+  }
+  return remaining;
+};
+
+/**
+ * Counts the comments of a poll that have not been deleted.
+ * @param {Comment[]} comments - Every stored comment.
+ * @param {string} pollId - The poll.
+ * @returns {number} The poll's `commentCount`.
+ */
+const countComments = (comments: Comment[], pollId: string): number =>
+  comments.filter(c => c.pollId === pollId && !c.deleted).length;
+
+/**
+ * Marks the open reports about a poll as reviewed, e.g. once it has been hidden or deleted.
+ * @param {Report[]} reports - Every stored report.
+ * @param {string} pollId - The poll the reports are about.
+ * @param {string} userId - The user who dealt with the poll.
+ * @returns {Report[]} The reports to store.
+ */
+const resolveReports = (reports: Report[], pollId: string, userId: string): Report[] => {
+  const resolvedAt = new Date().toISOString();
+  return reports.map(r => (r.pollId === pollId && r.status === 'open'
+    ? { ...r, status: 'actioned', resolvedBy: userId, resolvedAt }
+    : r));
+};
+
+/**
+ * Validates a poll from an import file and turns it into a poll owned by the importing user.
+ * The question, options and settings go through the same checks as `createPoll` (except that a
+ * finished poll may have a closing time in the past), and every ballot must be valid for the poll.
+ * The record is first upgraded by the schema migrations, so exports from older versions can be imported.
+ * Polls without ballots but with vote counts, such as those read from a CSV export, get anonymous
+ * ballots reconstructed from the counts, exactly like polls stored before ballots existed.
+ *
+ * Why are the voters of imported ballots replaced?
+ * Anyone can write an import file, so its ballots only show how someone voted, not who. The importer
+ * can only vouch for their own ballot; every other ballot still counts, but is filed under a new ID
+ * that belongs to nobody, with no voter name. Otherwise a file could cast ballots in another user's
+ * name, and stop them from voting themselves.
+ * @param {Partial<Poll>} record - The poll as found in the import file.
+ * @param {string} userId - The user importing it, who becomes its creator.
+ * @param {string | null} username - The importer's username, shown on their own ballot in an attributed poll.
+ * @returns {Poll} The poll to store. Its ID is decided by the caller.
+ * @throws {PollyError} Throws an error describing the first problem found.
+ */
+const prepareImportedPoll = (record: Partial<Poll>, userId: string, username: string | null): Poll => {
+  if (typeof record?.question !== 'string' || !Array.isArray(record.options)) {
+    throw new PollyError('importNotAPoll');
+  }
+  const options = record.options.map(option => ({
+    id: option?.id ? String(option.id) : newId('opt'),
+    text: String(option?.text ?? ''),
+    votes: Number.isInteger(option?.votes) && option.votes > 0 ? option.votes : 0,
+  }));
+  if (new Set(options.map(o => o.id)).size !== options.length) {
+    throw new PollyError('importDuplicateOptionIds');
+  }
+  // An export made by someone who could not see the results lacks everyone else's ballots.
+  if (record.resultsHidden === true) {
+    throw new PollyError('importResultsHidden');
+  }
+
+  const poll = migratePoll({
+    ...record,
+    options,
+    votedBy: Array.isArray(record.votedBy) ? record.votedBy : [],
+    ballots: Array.isArray(record.ballots) ? record.ballots : undefined,
+  }) as Poll;
+
+  assertValidPoll(poll.question, options.map(o => o.text), poll, true);
+  const settings = resolvePollSettings(poll, options.length);
+
+  const candidate: Poll = {
+    id: '',
+    question: poll.question,
+    options,
+    createdBy: userId,
+    votedBy: [],
+    ballots: [],
+    voteEvents: Array.isArray(record.voteEvents)
+      ? record.voteEvents
+        .filter(e => ['cast', 'change', 'retract'].includes(e?.type) && !Number.isNaN(Date.parse(e.at)))
+        .map(({ type, at }) => ({ type, at }))
+      : eventsFromBallots(poll.ballots),
+    status: 'open',
+    revision: 1,
+    // Discussions are not part of exports, so an imported poll starts without comments.
+    commentCount: 0,
+    commentsLocked: record.commentsLocked === true,
+    // Whether a poll is hidden is a moderator's decision about this instance, so it is not imported.
+    hidden: false,
+    allowedUserIds: [],
+    ...settings,
+    // Invite codes are never exported, so an imported invite-only poll gets a new one.
+    accessCode: settings.visibility === 'inviteOnly' ? newAccessCode() : null,
+    // Nor are salts, so an imported anonymous poll gets a new one too (see `anonymizeBallots`).
+    voterSalt: settings.anonymous ? newVoterSalt() : null,
+    // The request ID only guards against the creator's own device sending a poll twice.
+    requestId: null,
+  };
+
+  const voters = new Set<string>();
+  for (const ballot of poll.ballots) {
+    if (!Array.isArray(ballot?.optionIds) || typeof ballot.userId !== 'string' || Number.isNaN(Date.parse(ballot.castAt))) {
+      throw new PollyError('importMalformedBallot');
+    }
+    assertValidBallot(candidate, ballot.optionIds);
+    if (voters.has(ballot.userId)) {
+      throw new PollyError('importDuplicateVoter');
+    }
+    voters.add(ballot.userId);
+  }
+  candidate.ballots = poll.ballots.map(({ userId: voter, optionIds, castAt }) => {
+    const isOwn = voter === userId;
+    const key = isOwn ? userId : newId('imported');
+    return candidate.anonymous
+      ? { userId: key, optionIds, castAt }
+      : { userId: key, optionIds, castAt, voterName: isOwn ? username : null };
+  });
+
+  // A poll that was closed early stays closed; otherwise the schedule decides.
+  candidate.status = record.status === 'closed' ? 'closed' : getPollStatus(candidate);
+  return recountVotes(candidate);
+};
+
+/**
+ * Creates the poll, comment, moderation and auth repositories on top of any `KeyValueStorage`.
+ * This is where the voting rules live for every non-HTTP backend: the localStorage
+ * adapter, the in-memory adapter and the REST server all share this implementation,
+ * which guarantees they validate input and report errors identically.
+ * @param {KeyValueStorage} storage - The key-value store that holds the data.
+ * @param {StorageRepositoryOptions} options - Latency simulation, seed data and change watching.
+ * @returns {Repositories} The poll, comment, moderation and auth repositories.
+ */
+export const createStorageRepositories = (
+  storage: KeyValueStorage,
+  options: StorageRepositoryOptions = {},
+): Repositories => {
+  const { simulateLatency = false, seed, watch, lock = runNext } = options;
+  const listeners = new Set<ChangeListener>();
+  let stopWatching: Unsubscribe | null = null;
+
+  /**
+   * Waits for `ms` milliseconds when latency simulation is enabled.
+   * @param {number} ms - The simulated network delay.
+   */
+  const delay = (ms: number): Promise<void> =>
+    simulateLatency ? new Promise(res => setTimeout(res, ms)) : Promise.resolve();
+
+  const writePolls = (polls: Poll[]) => {
+    storage.setItem(POLLS_KEY, serializePolls(polls));
+  };
+
+  /**
+   * Sets invalid records aside under `QUARANTINE_KEY`, after any that were quarantined before.
+   * @param {QuarantinedRecord[]} records - The rejected records.
+   */
+  const quarantine = (records: QuarantinedRecord[]) => {
+    let existing: QuarantinedRecord[] = [];
+    try {
+      const parsed = JSON.parse(storage.getItem(QUARANTINE_KEY) ?? '[]');
+      existing = Array.isArray(parsed) ? parsed : [];
+    } catch {
+      // A damaged quarantine is not worth failing over; start a new one.
+    }
+    storage.setItem(QUARANTINE_KEY, JSON.stringify([...existing, ...records]));
+  };
+
+  /**
+   * Reads every valid poll, migrating the stored payload to the current schema the first
+   * time it is read and quarantining any record that fails validation.
+   * @returns {Poll[]} The polls, in storage (creation) order.
+   */
+  const readPolls = (): Poll[] => {
+    const { polls, quarantined, needsWrite } = parseStoredPolls(storage.getItem(POLLS_KEY));
+    if (quarantined.length > 0) {
+      quarantine(quarantined);
+    }
+    if (needsWrite) {
+      writePolls(polls);
+    }
+    return polls;
+  };
+
+  /**
+   * Reads a list of records stored as JSON under a key. Entries that fail the check are left out,
+   * and an unreadable list reads as empty.
+   * @param {string} key - The storage key.
+   * @param {(record: any) => boolean} isRecord - Checks that an entry has the expected shape.
+   * @returns {T[]} The valid entries.
+   */
+  const readList = <T>(key: string, isRecord: (record: any) => boolean): T[] => {
+    try {
+      const parsed = JSON.parse(storage.getItem(key) ?? '[]');
+      return Array.isArray(parsed) ? parsed.filter(isRecord) : [];
+    } catch {
+      return [];
+    }
+  };
+
+  /**
+   * Reads every stored comment. Records that are not comments are left out.
+   * @returns {Comment[]} The comments of every poll.
+   */
+  const readComments = (): Comment[] =>
+    readList(COMMENTS_KEY, c => typeof c?.id === 'string' && typeof c?.pollId === 'string' && typeof c?.body === 'string');
+
+  const writeComments = (comments: Comment[]) => {
+    storage.setItem(COMMENTS_KEY, JSON.stringify(comments));
+  };
+
+  /**
+   * Reads every stored report, in the order they were made.
+   * @returns {Report[]} The reports about every poll.
+   */
+  const readReports = (): Report[] =>
+    readList(REPORTS_KEY, r => typeof r?.id === 'string' && typeof r?.pollId === 'string' && typeof r?.status === 'string');
+
+  const writeReports = (reports: Report[]) => {
+    storage.setItem(REPORTS_KEY, JSON.stringify(reports));
+  };
+
+  /**
+   * Reads the audit log, oldest entry first.
+   * @returns {AuditEntry[]} Every recorded moderator action.
+   */
+  const readAuditLog = (): AuditEntry[] =>
+    readList(AUDIT_LOG_KEY, e => typeof e?.id === 'string' && typeof e?.action === 'string' && typeof e?.at === 'string');
+
+  /**
+   * Tells subscribers about a change to a poll.
+   * @param {PollEvent} event - The change.
+   * @param {Poll | null} [previous=null] - The poll as it was before, if it existed; it decides who
+   *   is told that a poll they could see before has gone away.
+   */
+  const emit = (event: PollEvent, previous: Poll | null = null) => {
+    listeners.forEach(listener => listener(event, previous));
+  };
+
+  /**
+   * Finds a poll's position in the stored array.
+   * @param {Poll[]} allPolls - The stored polls.
+   * @param {string} pollId - The poll to look for.
+   * @returns {number} The poll's index.
+   * @throws {PollNotFoundError} Throws an error if the poll does not exist.
+   */
+  const findPollIndex = (allPolls: Poll[], pollId: string): number => {
+    const pollIndex = allPolls.findIndex(p => p.id === pollId);
+    if (pollIndex === -1) {
+      throw new PollNotFoundError();
+    }
+    return pollIndex;
+  };
+
+  /**
+   * Changes a single poll and notifies subscribers.
+   * The change is worked out from the poll as it was read, then saved under the store's lock only if
+   * nobody saved the poll in between: a compare-and-swap on its revision. If someone did (another
+   * tab, or another request to the server), the poll is read again and the change worked out again
+   * from their version, so it is checked against the rules once more (e.g. a second vote by the same
+   * user is still refused) and their change is never overwritten. Only this poll is replaced, so
+   * writes to other polls are kept too.
+   * @param {string} pollId - The poll to change.
+   * @param {(poll: Poll) => Poll} change - Checks the rules against the current poll and returns the
+   *   changed poll. It may run more than once and must throw to reject the change.
+   * @param {() => void} [writeAlongside] - Writes data kept outside the poll that goes with the change,
+   *   such as its comments. It runs under the same lock, only once the poll has been saved. The
+   *   revision check only covers this poll, so it must re-read what it writes: data shared with other
+   *   polls, like the comment list, may have been saved by someone else since `change` read it.
+   * @returns {Promise<Poll>} The saved poll, with its revision increased by one.
+   * @throws {PollyError} Throws the error thrown by `change`, an error if the poll does not exist,
+   *   or an error if the poll kept changing underneath every attempt.
+   */
+  const changePoll = async (
+    pollId: string,
+    change: (poll: Poll) => Poll,
+    writeAlongside?: () => void,
+  ): Promise<Poll> => {
+    for (let attempt = 0; attempt < MAX_WRITE_ATTEMPTS; attempt++) {
+      const allPolls = readPolls();
+      const poll = allPolls[findPollIndex(allPolls, pollId)];
+      const changed: Poll = { ...change(poll), revision: poll.revision + 1 };
+
+      const saved = await lock(() => {
+        const latest = readPolls();
+        const latestIndex = findPollIndex(latest, pollId);
+        if (latest[latestIndex].revision !== poll.revision) {
+          return false; // Someone else saved this poll first; try again from their version.
+        }
+        latest[latestIndex] = changed;
+        writePolls(latest);
+        writeAlongside?.();
+        return true;
+      });
+      if (saved) {
+        emit({ type: 'upsert', poll: changed }, poll);
+        return changed;
+      }
+    }
+    throw new PollyError('pollBusy');
+  };
+
+
+  /**
+   * Turns an external rewrite of the polls array into individual poll events.
+   * Only polls whose serialized form actually changed are reported.
+   * @param {string | null} oldValue - The previous `polly_polls` payload.
+   * @param {string | null} newValue - The new `polly_polls` payload.
+   */
+  const emitExternalChanges = (oldValue: string | null, newValue: string | null) => {
+    // Reading never throws away data here: quarantining is left to the next `readPolls`.
+    const parse = (payload: string | null) => {
+      try {
+        return parseStoredPolls(payload).polls;
+      } catch {
+        return [];
+      }
+    };
+    const before = new Map<string, Poll>(parse(oldValue).map(p => [p.id, p]));
+    const after = parse(newValue);
+    after
+      .filter(poll => JSON.stringify(before.get(poll.id)) !== JSON.stringify(poll))
+      .forEach(poll => emit({ type: 'upsert', poll }, before.get(poll.id) ?? null));
+    before.forEach((poll, pollId) => {
+      if (!after.some(p => p.id === pollId)) emit({ type: 'delete', pollId }, poll);
+    });
+  };
+
+  // Populate an empty store so that the first load has data to show.
+  if (seed && !storage.getItem(POLLS_KEY)) {
+    writePolls(seed);
+  }
+
+  // --- AUTHENTICATION FLOWS ---
+
+  const users = createUserDirectory(storage);
+
+  const auth: AuthRepository = {
+    register: async (username: string, password: string): Promise<User> => {
+      await delay(500);
+
+      const newUser = await users.register(username, password);
+      storage.setItem(CURRENT_USER_KEY, JSON.stringify(newUser));
+      return newUser;
+    },
+
+    signIn: async (username: string, password: string): Promise<User> => {
+      await delay(500);
+
+      const user = await users.authenticate(username, password);
+      storage.setItem(CURRENT_USER_KEY, JSON.stringify(user));
+      return user;
+    },
+
+    signOut: async (): Promise<void> => {
+      await delay(300);
+      storage.removeItem(CURRENT_USER_KEY);
+    },
+
+    getCurrentUser: (): User | null => {
+      // A damaged session is treated as signed out rather than crashing the app on startup.
+      const user = parseStoredUser(storage.getItem(CURRENT_USER_KEY));
+      if (!user) {
+        storage.removeItem(CURRENT_USER_KEY);
+        return null;
+      }
+      // A moderator may have changed the user's role or suspended them since they signed in.
+      return users.findUser(user.id) ?? user;
+    },
+  };
+
+  /**
+   * Looks up who is making a request, for deciding which polls they may see.
+   * IDs without an account, such as the demo authors, are treated as ordinary users.
+   * @param {string} [userId] - The signed-in user, if any.
+   * @returns {User | null} The user, or null for a visitor who is not signed in.
+   */
+  const findViewer = (userId?: string): User | null =>
+    userId ? users.findUser(userId) ?? { id: userId, username: '', role: 'user', suspended: false } : null;
+
+  /**
+   * Prepares a poll to be sent to a user: the results they may not see yet are withheld, and so are
+   * the invite code and allowlist unless they created the poll. An anonymous poll's salt never
+   * leaves the backend, and the user's own ballot on it is filed under their ID again.
+   * @param {Poll} poll - The poll as stored.
+   * @param {string} [userId] - The user it is sent to; omitted when signed out.
+   * @returns {Promise<Poll>} The poll as the user may see it.
+   */
+  const present = async (poll: Poll, userId?: string): Promise<Poll> =>
+    withoutAccessDetails(presentPoll(await identifyOwnBallot(poll, userId), userId), userId);
+
+  /**
+   * Works out what a user's ballot on a poll is filed under (see `voterKey`). A poll's salt is
+   * chosen when it is created and only changes if the poll is replaced by an import, so this can
+   * be done before taking the lock.
+   * @param {string} pollId - The poll.
+   * @param {string} userId - The voter.
+   * @returns {Promise<string>} The key of the user's ballot.
+   * @throws {PollNotFoundError} Throws an error if the poll does not exist.
+   */
+  const ballotKeyFor = async (pollId: string, userId: string): Promise<string> => {
+    const allPolls = readPolls();
+    return voterKey(allPolls[findPollIndex(allPolls, pollId)], userId);
+  };
+
+  /**
+   * Makes the ballot to store for a vote. On an anonymous poll nothing but the voter's key is kept;
+   * on an attributed poll, their username is kept too, so the voter lists can name them.
+   * @param {Poll} poll - The poll being voted on.
+   * @param {string} key - The key of the voter's ballot, from `ballotKeyFor`.
+   * @param {string[]} optionIds - The chosen options.
+   * @param {string} castAt - ISO timestamp of the vote.
+   * @returns {Ballot} The ballot.
+   */
+  const makeBallot = (poll: Poll, key: string, optionIds: string[], castAt: string): Ballot =>
+    poll.anonymous
+      ? { userId: key, optionIds, castAt }
+      : { userId: key, optionIds, castAt, voterName: users.findUser(key)?.username ?? null };
+
+  /**
+   * Checks that a user may open a poll, vote on it and take part in its discussion.
+   * @param {Poll} poll - The poll.
+   * @param {string} [userId] - The user making the request, if signed in.
+   * @throws {UnauthorizedError} Throws an error if the poll is invite-only and the user has not joined it.
+   */
+  const assertCanAccess = (poll: Poll, userId?: string): void => {
+    if (!canAccessPoll(poll, findViewer(userId))) {
+      throw new UnauthorizedError('inviteOnlyPoll');
+    }
+  };
+
+  /**
+   * Checks that a user has not been suspended.
+   * @param {string} userId - The user making the change.
+   * @throws {UnauthorizedError} Throws an error if the user is suspended.
+   */
+  const assertNotSuspended = (userId: string): void => {
+    if (users.findUser(userId)?.suspended) {
+      throw new UnauthorizedError('accountSuspended');
+    }
+  };
+
+  /**
+   * Checks that a user is an active moderator or admin.
+   * @param {string} userId - The user making the request.
+   * @returns {User} The moderator.
+   * @throws {UnauthorizedError} Throws an error if the user may not moderate.
+   */
+  const requireModerator = (userId: string): User => {
+    const user = users.findUser(userId);
+    if (!user || !isModerator(user)) {
+      throw new UnauthorizedError('moderatorsOnly');
+    }
+    return user;
+  };
+
+  /**
+   * Checks that a user is an active admin.
+   * @param {string} userId - The user making the request.
+   * @returns {User} The admin.
+   * @throws {UnauthorizedError} Throws an error if the user is not an admin.
+   */
+  const requireAdmin = (userId: string): User => {
+    const user = users.findUser(userId);
+    if (!user || !isAdmin(user)) {
+      throw new UnauthorizedError('adminsOnly');
+    }
+    return user;
+  };
+
+  /**
+   * Appends a moderator action to the audit log. Must be called while holding the lock.
+   * @param {User} actor - The moderator or admin who acted.
+   * @param {AuditAction} action - What they did.
+   * @param {string} targetId - The poll, report or user they acted on.
+   * @param {string} details - What the target is called: the poll question or the username.
+   * @param {AuditEntry['roleChange']} [roleChange] - The old and new role, for `change-role`.
+   */
+  const recordAudit = (actor: User, action: AuditAction, targetId: string, details: string, roleChange?: AuditEntry['roleChange']) => {
+    const entry: AuditEntry = {
+      id: newId('audit'),
+      at: new Date().toISOString(),
+      actorId: actor.id,
+      actorName: actor.username,
+      action,
+      targetId,
+      details,
+      ...(roleChange ? { roleChange } : {}),
+    };
+    storage.setItem(AUDIT_LOG_KEY, JSON.stringify([...readAuditLog(), entry]));
+  };
+
+  // --- POLL MANAGEMENT LOGIC ---
+
+  const polls: PollRepository = {
+    getPolls: async (query: PollQuery = {}, userId?: string): Promise<PollList> => {
+      await delay(700);
+      const viewer = findViewer(userId);
+      // Sorted and filtered on the full polls, so "most votes" still works when results are withheld,
+      // but with the user's own anonymous ballots recognised, so "voted by me" does too.
+      const listed = await Promise.all(
+        readPolls()
+          .filter(poll => canViewPoll(poll, viewer) && isListedFor(poll, viewer))
+          .map(poll => identifyOwnBallot(poll, userId)),
+      );
+      const page = queryPolls(listed, query, userId);
+      return { ...page, polls: await Promise.all(page.polls.map(poll => present(poll, userId))) };
+    },
+
+    getPoll: async (pollId: string, userId?: string): Promise<Poll> => {
+      await delay(300);
+      const allPolls = readPolls();
+      const poll = allPolls[findPollIndex(allPolls, pollId)];
+      // A hidden poll is reported as missing, so its existence is not revealed either.
+      if (!canViewPoll(poll, findViewer(userId))) {
+        throw new PollNotFoundError();
+      }
+      assertCanAccess(poll, userId);
+      return present(poll, userId);
+    },
+
+    // Tags are shared by everyone, so only polls listed for everyone are counted.
+    getTags: async (): Promise<TagCount[]> => {
+      await delay(300);
+      return countTags(readPolls().filter(poll => !poll.hidden && poll.visibility === 'public'));
+    },
+
+    createPoll: async (
+      question: string,
+      options: string[],
+      userId: string,
+      settings: PollSettings = { type: 'single' },
+      requestId?: string,
+    ): Promise<Poll> => {
+      // Input validation for robustness
+      assertNotSuspended(userId);
+      assertValidPoll(question, options, settings);
+      const resolvedSettings = resolvePollSettings(settings, options.length);
+
+      await delay(600);
+
+      const newPoll: Poll = {
+        id: newId('poll'),
+        question,
+        options: options.map((opt, index) => ({
+          id: newId(`opt-${index}`),
+          text: opt,
+          votes: 0,
+        })),
+        createdBy: userId,
+        votedBy: [],
+        ballots: [],
+        voteEvents: [],
+        status: 'open',
+        revision: 1,
+        commentCount: 0,
+        commentsLocked: false,
+        hidden: false,
+        allowedUserIds: [],
+        ...resolvedSettings,
+        accessCode: resolvedSettings.visibility === 'inviteOnly' ? newAccessCode() : null,
+        voterSalt: resolvedSettings.anonymous ? newVoterSalt() : null,
+        requestId: requestId || null,
+      };
+
+      // A poll scheduled to open later starts out as a draft.
+      newPoll.status = getPollStatus(newPoll);
+
+      // Appended to the polls as they are when the lock is held, not as they were before the delay,
+      // so a poll created at the same time elsewhere is not overwritten. A request sent again, e.g.
+      // by the outbox after the response to the first was lost, gets the poll it already created.
+      const existing = await lock(() => {
+        const allPolls = readPolls();
+        const earlier = requestId ? allPolls.find(poll => poll.createdBy === userId && poll.requestId === requestId) : undefined;
+        if (!earlier) writePolls([...allPolls, newPoll]);
+        return earlier;
+      });
+      if (existing) return present(existing, userId);
+      emit({ type: 'upsert', poll: newPoll });
+
+      return present(newPoll, userId);
+    },
+
+    castVote: async (pollId: string, optionIds: string[], userId: string): Promise<Poll> => {
+      await delay(400);
+      assertNotSuspended(userId);
+      const key = await ballotKeyFor(pollId, userId);
+
+      const changed = await changePoll(pollId, poll => {
+        assertCanAccess(poll, userId);
+        // Votes are only accepted inside the poll's schedule.
+        assertAcceptingVotes(poll);
+
+        // Edge Case: Check if the user has already voted on this specific poll.
+        // This is a critical piece of logic for maintaining vote integrity.
+        if (findBallot(poll, key)) {
+          throw new AlreadyVotedError();
+        }
+
+        assertValidBallot(poll, optionIds);
+
+        // Record the user's ballot and derive the new tallies from it.
+        const castAt = new Date().toISOString();
+        return recountVotes({
+          ...poll,
+          ballots: [...poll.ballots, makeBallot(poll, key, optionIds, castAt)],
+          voteEvents: [...poll.voteEvents, { type: 'cast', at: castAt }],
+        });
+      });
+      return present(changed, userId);
+    },
+
+    changeVote: async (pollId: string, optionIds: string[], userId: string): Promise<Poll> => {
+      await delay(400);
+      assertNotSuspended(userId);
+      const key = await ballotKeyFor(pollId, userId);
+
+      const changed = await changePoll(pollId, poll => {
+        assertCanAccess(poll, userId);
+        assertCanAmendBallot(poll, key);
+        assertValidBallot(poll, optionIds);
+
+        const castAt = new Date().toISOString();
+        const ballots = poll.ballots.map(b => (b.userId === key ? makeBallot(poll, key, optionIds, castAt) : b));
+        const voteEvents = [...poll.voteEvents, { type: 'change' as const, at: castAt }];
+        return recountVotes({ ...poll, ballots, voteEvents });
+      });
+      return present(changed, userId);
+    },
+
+    retractVote: async (pollId: string, userId: string): Promise<Poll> => {
+      await delay(400);
+      const key = await ballotKeyFor(pollId, userId);
+
+      const changed = await changePoll(pollId, poll => {
+        assertCanAccess(poll, userId);
+        assertCanAmendBallot(poll, key);
+
+        const ballots = poll.ballots.filter(b => b.userId !== key);
+        const voteEvents = [...poll.voteEvents, { type: 'retract' as const, at: new Date().toISOString() }];
+        return recountVotes({ ...poll, ballots, voteEvents });
+      });
+      return present(changed, userId);
+    },
+
+    closePoll: async (pollId: string, userId: string): Promise<Poll> => {
+      await delay(400);
+
+      const changed = await changePoll(pollId, poll => {
+        if (poll.createdBy !== userId) {
+          throw new UnauthorizedError('closeOwnerOnly');
+        }
+        if (getPollStatus(poll) === 'closed') {
+          throw new PollyError('pollAlreadyClosed');
+        }
+
+        // Closing early moves the deadline to now, so the schedule reflects what actually happened.
+        return { ...poll, status: 'closed', closesAt: new Date().toISOString() };
+      });
+      return present(changed, userId);
+    },
+
+    updatePoll: async (
+      pollId: string,
+      question: string,
+      options: string[],
+      userId: string,
+      settings: PollSettings,
+      resetVotes = false,
+    ): Promise<Poll> => {
+      assertValidPoll(question, options, settings);
+      const resolvedSettings = resolvePollSettings(settings, options.length);
+
+      await delay(600);
+
+      const changed = await changePoll(pollId, poll => {
+        if (poll.createdBy !== userId) {
+          throw new UnauthorizedError('editOwnerOnly');
+        }
+        if (getPollStatus(poll) === 'closed') {
+          throw new PollyError('editClosedPoll');
+        }
+
+        // Changing the options or how they are voted on would make existing ballots meaningless,
+        // so once votes exist it is only allowed together with resetting the tallies.
+        const optionsChanged =
+          options.length !== poll.options.length || options.some((text, i) => text !== poll.options[i].text);
+        const votingChanged =
+          resolvedSettings.type !== poll.type ||
+          resolvedSettings.minSelections !== poll.minSelections ||
+          resolvedSettings.maxSelections !== poll.maxSelections;
+        const hasVotes = poll.ballots.length > 0;
+
+        if ((optionsChanged || votingChanged) && hasVotes && !resetVotes) {
+          throw new PollyError('pollHasVotes');
+        }
+
+        const updatedPoll: Poll = {
+          ...poll,
+          question,
+          minSelections: undefined,
+          maxSelections: undefined,
+          ...resolvedSettings,
+          // Voters were told whether the poll is anonymous when they voted, so that can never change.
+          anonymous: poll.anonymous,
+          voterSalt: poll.voterSalt,
+          // Option IDs are kept when the options are unchanged, so existing votes still point at them.
+          options: optionsChanged
+            ? options.map((opt, index) => ({ id: newId(`opt-${index}`), text: opt, votes: 0 }))
+            : poll.options,
+          ballots: resetVotes ? [] : poll.ballots,
+          voteEvents: resetVotes ? [] : poll.voteEvents,
+        };
+        // An invite-only poll keeps its code, so invite links already handed out still work.
+        updatedPoll.accessCode = updatedPoll.visibility === 'inviteOnly' ? poll.accessCode ?? newAccessCode() : null;
+        // Rescheduling a draft may open it now; `getPollStatus` works that out from the new schedule.
+        updatedPoll.status = getPollStatus({ ...updatedPoll, status: 'open' });
+
+        return recountVotes(updatedPoll);
+      });
+      return present(changed, userId);
+    },
+
+    deletePoll: async (pollId: string, userId: string): Promise<void> => {
+      await delay(400);
+
+      const deleted = await lock(() => {
+        const allPolls = readPolls();
+        const poll = allPolls[findPollIndex(allPolls, pollId)];
+        // Moderators may delete any poll; when they delete someone else's, it goes in the audit log.
+        const moderator = poll.createdBy === userId ? null : findViewer(userId);
+
+        if (moderator && !isModerator(moderator)) {
+          throw new UnauthorizedError('deleteOwnerOnly');
+        }
+
+        writePolls(allPolls.filter(p => p.id !== pollId));
+        writeComments(readComments().filter(c => c.pollId !== pollId));
+        writeReports(resolveReports(readReports(), pollId, userId));
+        if (moderator) {
+          recordAudit(moderator, 'delete-poll', pollId, poll.question);
+        }
+        return poll;
+      });
+      emit({ type: 'delete', pollId }, deleted);
+    },
+
+    importPolls: async (
+      records: Partial<Poll>[],
+      userId: string,
+      onConflict: ImportConflictStrategy = 'skip',
+    ): Promise<ImportResult> => {
+      await delay(700);
+
+      // Each poll is checked first, and the ballots of anonymous polls filed under their new salt,
+      // since hashing takes a moment and the lock below is held without waiting.
+      const prepared = await Promise.all(records.map(async record => {
+        try {
+          return { record, poll: await anonymizeBallots(prepareImportedPoll(record, userId, users.findUser(userId)?.username ?? null)), error: null };
+        } catch (err: any) {
+          return { record, poll: null, error: err };
+        }
+      }));
+
+      // The versions of polls that were replaced, for telling subscribers who could see them.
+      const replaced = new Map<string, Poll>();
+      // The whole import is written in one step, so it is merged into the polls as they are now.
+      const result = await lock(() => {
+        const allPolls = readPolls();
+        const outcome: ImportResult = { imported: [], skipped: [] };
+
+        for (const { record, poll, error } of prepared) {
+          const pollId = record?.id ? String(record.id) : null;
+          try {
+            if (!poll) throw error;
+            // Polls earlier in the same file count as existing too, so duplicates within a file are caught.
+            const existingIndex = pollId ? allPolls.findIndex(p => p.id === pollId) : -1;
+
+            if (existingIndex === -1) {
+              poll.id = pollId ?? newId('poll');
+              allPolls.push(poll);
+            } else if (onConflict === 'skip') {
+              throw new PollyError('importIdTaken');
+            } else if (onConflict === 'replace') {
+              if (allPolls[existingIndex].createdBy !== userId) {
+                throw new UnauthorizedError('importReplaceOwnerOnly');
+              }
+              poll.id = allPolls[existingIndex].id;
+              replaced.set(poll.id, allPolls[existingIndex]);
+              // A replacement is a newer version of the same poll, so the revision keeps counting up.
+              poll.revision = allPolls[existingIndex].revision + 1;
+              // The discussion belongs to the poll's ID, so it carries over to the replacement,
+              // and so do a moderator's decision to hide it and the invite links already handed out.
+              poll.commentCount = allPolls[existingIndex].commentCount;
+              poll.hidden = allPolls[existingIndex].hidden;
+              if (poll.accessCode) poll.accessCode = allPolls[existingIndex].accessCode ?? poll.accessCode;
+              allPolls[existingIndex] = poll;
+            } else {
+              poll.id = newId('poll');
+              allPolls.push(poll);
+            }
+            outcome.imported.push(poll);
+          } catch (err: any) {
+            const question = typeof record?.question === 'string' ? record.question : '';
+            outcome.skipped.push({
+              pollId,
+              question,
+              reason: err.message || 'This poll could not be imported.',
+              ...(err instanceof PollyError ? { code: err.code, params: err.params } : {}),
+            });
+          }
+        }
+
+        if (outcome.imported.length > 0) {
+          writePolls(allPolls);
+        }
+        return outcome;
+      });
+
+      result.imported.forEach(poll => emit({ type: 'upsert', poll }, replaced.get(poll.id) ?? null));
+      return { ...result, imported: await Promise.all(result.imported.map(poll => present(poll, userId))) };
+    },
+
+    joinPoll: async (code: string, userId: string): Promise<Poll> => {
+      await delay(400);
+      const accessCode = normalizeAccessCode(code);
+      const viewer = findViewer(userId);
+      const target = accessCode
+        ? readPolls().find(poll => poll.accessCode === accessCode && poll.visibility === 'inviteOnly' && canViewPoll(poll, viewer))
+        : undefined;
+      if (!target) {
+        throw new ValidationError({ code: { code: 'invalidAccessCode' } });
+      }
+      if (canAccessPoll(target, viewer)) {
+        return present(target, userId);
+      }
+
+      const changed = await changePoll(target.id, poll => {
+        // The code may have been replaced while the lock was being acquired.
+        if (poll.accessCode !== accessCode) {
+          throw new ValidationError({ code: { code: 'invalidAccessCode' } });
+        }
+        return { ...poll, allowedUserIds: [...poll.allowedUserIds, userId] };
+      });
+      return present(changed, userId);
+    },
+
+    regenerateAccessCode: async (pollId: string, userId: string): Promise<Poll> => {
+      await delay(400);
+
+      const changed = await changePoll(pollId, poll => {
+        if (poll.createdBy !== userId) {
+          throw new UnauthorizedError('accessCodeOwnerOnly');
+        }
+        if (poll.visibility !== 'inviteOnly') {
+          throw new PollyError('pollNotInviteOnly');
+        }
+        // Users who already joined stay on the allowlist; only the old code and links stop working.
+        return { ...poll, accessCode: newAccessCode() };
+      });
+      return present(changed, userId);
+    },
+
+    // Each subscriber gets polls as they may see them, since events carry the whole poll.
+    subscribe: (listener: PollListener, userId?: string) => {
+      // Presenting a poll takes a moment, so events are passed on one after another, in the order they happened.
+      let delivered = Promise.resolve();
+      const forViewer: ChangeListener = (event, previous) => {
+        const viewer = findViewer(userId);
+        const isListed = (poll: Poll | null) => Boolean(poll && canViewPoll(poll, viewer) && isListedFor(poll, viewer));
+        let next: Promise<PollEvent>;
+        if (event.type === 'upsert' && isListed(event.poll)) {
+          next = present(event.poll, userId).then(poll => ({ ...event, poll }));
+        } else if (isListed(previous)) {
+          // A poll the user could see before is reported as deleted once it is deleted, hidden by a
+          // moderator or made unlisted, or the user is taken off its allowlist. A client still showing
+          // it asks `getPoll` again, which may still answer for someone who has its link.
+          next = Promise.resolve({ type: 'delete', pollId: previous!.id });
+        } else {
+          // Only polls listed for the user are mentioned at all, so the stream reveals no more than
+          // `getPolls` does: not a hidden poll's question, nor an unlisted poll's ID, which is its link.
+          return;
+        }
+        delivered = delivered
+          .then(() => next)
+          .then(listener)
+          .catch(err => console.error('A poll listener failed:', err));
+      };
+      listeners.add(forViewer);
+      // Only watch the underlying storage while someone is listening.
+      if (watch && !stopWatching) {
+        stopWatching = watch((key, oldValue, newValue) => {
+          if (key === POLLS_KEY) emitExternalChanges(oldValue, newValue);
+        });
+      }
+      return () => {
+        listeners.delete(forViewer);
+        if (listeners.size === 0 && stopWatching) {
+          stopWatching();
+          stopWatching = null;
+        }
+      };
+    },
+  };
+
+  // --- DISCUSSIONS ---
+
+  /**
+   * Finds a comment that has not been deleted.
+   * @param {Comment[]} allComments - Every stored comment.
+   * @param {string} commentId - The comment to look for.
+   * @returns {Comment} The comment.
+   * @throws {PollyError} Throws an error if the comment does not exist or was deleted.
+   */
+  const findComment = (allComments: Comment[], commentId: string): Comment => {
+    const comment = allComments.find(c => c.id === commentId);
+    if (!comment || comment.deleted) {
+      throw new PollyError('commentNotFound');
+    }
+    return comment;
+  };
+
+  const comments: CommentRepository = {
+    getComments: async (pollId: string, userId?: string): Promise<Comment[]> => {
+      await delay(300);
+      const allPolls = readPolls();
+      const poll = allPolls[findPollIndex(allPolls, pollId)];
+      // The discussion of a hidden poll is as missing as the poll itself (see `getPoll`).
+      if (!canViewPoll(poll, findViewer(userId))) {
+        throw new PollNotFoundError();
+      }
+      assertCanAccess(poll, userId);
+      return readComments().filter(c => c.pollId === pollId);
+    },
+
+    addComment: async (pollId: string, body: string, userId: string, parentId: string | null = null): Promise<Comment> => {
+      const text = normalizeCommentBody(body);
+      await delay(400);
+      assertNotSuspended(userId);
+
+      let comment: Comment | null = null;
+      await changePoll(pollId, poll => {
+        if (!canViewPoll(poll, findViewer(userId))) {
+          throw new PollNotFoundError();
+        }
+        assertCanAccess(poll, userId);
+        if (poll.commentsLocked) {
+          throw new PollyError('commentsLocked');
+        }
+        const allComments = readComments();
+        if (parentId) {
+          const parent = allComments.find(c => c.id === parentId && c.pollId === pollId);
+          if (!parent || parent.deleted) {
+            throw new PollyError('replyParentDeleted');
+          }
+        }
+
+        comment = {
+          id: newId('comment'),
+          pollId,
+          parentId,
+          authorId: userId,
+          authorName: users.findUser(userId)?.username ?? null,
+          body: text,
+          createdAt: new Date().toISOString(),
+          editedAt: null,
+          deleted: false,
+        };
+        return { ...poll, commentCount: countComments([...allComments, comment], pollId) };
+      }, () => writeComments([...readComments(), comment!]));
+      return comment!;
+    },
+
+    editComment: async (commentId: string, body: string, userId: string): Promise<Comment> => {
+      const text = normalizeCommentBody(body);
+      await delay(400);
+
+      const { pollId } = findComment(readComments(), commentId);
+      let edited: Comment | null = null;
+      // The poll is saved too, although only its revision changes, so subscribers see the edit.
+      await changePoll(pollId, poll => {
+        const allComments = readComments();
+        const comment = findComment(allComments, commentId);
+        if (comment.authorId !== userId) {
+          throw new UnauthorizedError('commentEditAuthorOnly');
+        }
+        if (poll.commentsLocked) {
+          throw new PollyError('commentsLocked');
+        }
+
+        edited = { ...comment, body: text, editedAt: new Date().toISOString() };
+        return poll;
+      }, () => writeComments(readComments().map(c => (c.id === commentId ? edited! : c))));
+      return edited!;
+    },
+
+    // Authors may delete their comments even once the discussion is locked.
+    deleteComment: async (commentId: string, userId: string): Promise<void> => {
+      await delay(400);
+
+      const { pollId } = findComment(readComments(), commentId);
+      await changePoll(pollId, poll => {
+        const allComments = readComments();
+        if (findComment(allComments, commentId).authorId !== userId) {
+          throw new UnauthorizedError('commentDeleteAuthorOnly');
+        }
+
+        return { ...poll, commentCount: countComments(removeComment(allComments, commentId), pollId) };
+      }, () => writeComments(removeComment(readComments(), commentId)));
+    },
+
+    setCommentsLocked: async (pollId: string, locked: boolean, userId: string): Promise<Poll> => {
+      await delay(400);
+
+      const changed = await changePoll(pollId, poll => {
+        if (poll.createdBy !== userId) {
+          throw new UnauthorizedError('commentLockOwnerOnly');
+        }
+        return { ...poll, commentsLocked: locked };
+      });
+      return present(changed, userId);
+    },
+  };
+
+  // --- MODERATION ---
+
+  const moderation: ModerationRepository = {
+    reportPoll: async (pollId: string, reason: ReportReason, details: string, userId: string): Promise<Report> => {
+      const checked = normalizeReport(reason, details);
+      await delay(400);
+      assertNotSuspended(userId);
+
+      return lock(() => {
+        const allPolls = readPolls();
+        const poll = allPolls[findPollIndex(allPolls, pollId)];
+        if (!canViewPoll(poll, findViewer(userId))) {
+          throw new PollNotFoundError();
+        }
+        assertCanAccess(poll, userId);
+        if (poll.createdBy === userId) {
+          throw new PollyError('cannotReportOwnPoll');
+        }
+        const allReports = readReports();
+        if (allReports.some(r => r.pollId === pollId && r.reporterId === userId && r.status === 'open')) {
+          throw new PollyError('alreadyReported');
+        }
+
+        const report: Report = {
+          id: newId('report'),
+          pollId,
+          pollQuestion: poll.question,
+          reporterId: userId,
+          ...checked,
+          createdAt: new Date().toISOString(),
+          status: 'open',
+          resolvedBy: null,
+          resolvedAt: null,
+        };
+        writeReports([...allReports, report]);
+        return report;
+      });
+    },
+
+    getReports: async (userId: string): Promise<Report[]> => {
+      await delay(300);
+      requireModerator(userId);
+      return readReports().reverse();
+    },
+
+    dismissReport: async (reportId: string, userId: string): Promise<Report> => {
+      await delay(400);
+      const moderator = requireModerator(userId);
+
+      return lock(() => {
+        const allReports = readReports();
+        const report = allReports.find(r => r.id === reportId);
+        if (!report) {
+          throw new PollyError('reportNotFound');
+        }
+        if (report.status !== 'open') {
+          throw new PollyError('reportAlreadyReviewed');
+        }
+
+        const dismissed: Report = { ...report, status: 'dismissed', resolvedBy: userId, resolvedAt: new Date().toISOString() };
+        writeReports(allReports.map(r => (r.id === reportId ? dismissed : r)));
+        recordAudit(moderator, 'dismiss-report', reportId, report.pollQuestion);
+        return dismissed;
+      });
+    },
+
+    setPollHidden: async (pollId: string, hidden: boolean, userId: string): Promise<Poll> => {
+      await delay(400);
+      const moderator = requireModerator(userId);
+
+      let question = '';
+      const changed = await changePoll(pollId, poll => {
+        if (poll.hidden === hidden) {
+          throw new PollyError(hidden ? 'pollAlreadyHidden' : 'pollNotHidden');
+        }
+        question = poll.question;
+        return { ...poll, hidden };
+      }, () => {
+        // Hiding a poll deals with the reports about it; unhiding does not reopen them.
+        if (hidden) writeReports(resolveReports(readReports(), pollId, userId));
+        recordAudit(moderator, hidden ? 'hide-poll' : 'unhide-poll', pollId, question);
+      });
+      return present(changed, userId);
+    },
+
+    getUsers: async (userId: string): Promise<User[]> => {
+      await delay(300);
+      requireModerator(userId);
+      return users.listUsers();
+    },
+
+    setUserSuspended: async (targetUserId: string, suspended: boolean, userId: string): Promise<User> => {
+      await delay(400);
+      const moderator = requireModerator(userId);
+      if (targetUserId === userId) {
+        throw new PollyError('cannotSuspendSelf');
+      }
+
+      return lock(() => {
+        const target = users.findUser(targetUserId);
+        if (!target) {
+          throw new PollyError('userNotFound');
+        }
+        if (target.role !== 'user' && !isAdmin(moderator)) {
+          throw new UnauthorizedError('suspendStaffAdminsOnly');
+        }
+        if (target.suspended === suspended) {
+          return target;
+        }
+
+        const updated = users.updateUser(targetUserId, { suspended });
+        recordAudit(moderator, suspended ? 'suspend-user' : 'unsuspend-user', targetUserId, target.username);
+        return updated;
+      });
+    },
+
+    setUserRole: async (targetUserId: string, role: UserRole, userId: string): Promise<User> => {
+      await delay(400);
+      const admin = requireAdmin(userId);
+      if (!USER_ROLES.includes(role)) {
+        throw new PollyError('unknownRole');
+      }
+      // Stops the last admin from locking everyone out of the admin tools by accident.
+      if (targetUserId === userId) {
+        throw new PollyError('cannotChangeOwnRole');
+      }
+
+      return lock(() => {
+        const target = users.findUser(targetUserId);
+        if (!target) {
+          throw new PollyError('userNotFound');
+        }
+        if (target.role === role) {
+          return target;
+        }
+
+        const updated = users.updateUser(targetUserId, { role });
+        recordAudit(admin, 'change-role', targetUserId, target.username, { from: target.role, to: role });
+        return updated;
+      });
+    },
+
+    getAuditLog: async (userId: string): Promise<AuditEntry[]> => {
+      await delay(300);
+      requireAdmin(userId);
+      return readAuditLog().reverse();
+    },
+  };
+
+  return { polls, comments, moderation, auth };
+};
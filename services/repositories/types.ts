@@ -0,0 +1,168 @@
+
+import type {
+  User,
+  UserRole,
+  Poll,
+  PollSettings,
+  PollQuery,
+  PollList,
+  Comment,
+  TagCount,
+  Report,
+  ReportReason,
+  AuditEntry,
+} from '../../types';
+import type { ErrorCode } from '../errors';
+import type { MessageParams } from '../i18n';
+
+/**
+ * @interface KeyValueStorage
+ * The subset of the Web Storage API that the storage-backed repositories rely on.
+ * `window.localStorage` satisfies it directly, and the in-memory adapter provides a
+ * `Map`-based implementation so the same logic can run in tests or during SSR.
+ */
+export interface KeyValueStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+/**
+ * A change to a poll, pushed to subscribers as it happens.
+ * `upsert` covers both newly created polls and updates such as new votes.
+ */
+export type PollEvent =
+  | { type: 'upsert'; poll: Poll }
+  | { type: 'delete'; pollId: string };
+
+export type PollListener = (event: PollEvent) => void;
+
+/**
+ * What to do when an imported poll has the same ID as a poll that already exists.
+ * - `skip`: keep the existing poll and leave the imported one out.
+ * - `replace`: overwrite the existing poll; only its creator may do this.
+ * - `copy`: import the poll alongside the existing one, under a new ID.
+ */
+export type ImportConflictStrategy = 'skip' | 'replace' | 'copy';
+
+/**
+ * The outcome of an import. Invalid or conflicting polls do not abort the import;
+ * they are reported in `skipped` so the user can see exactly what was left out and why.
+ */
+export interface ImportResult {
+  imported: Poll[];
+  /** `reason` is in English; `code` and `params`, when the reason is a coded error, let the UI translate it. */
+  skipped: { pollId: string | null; question: string; reason: string; code?: ErrorCode; params?: MessageParams }[];
+}
+
+/**
+ * Stops a subscription when called.
+ */
+export type Unsubscribe = () => void;
+
+/**
+ * Reports changes made to a `KeyValueStorage` by someone else, e.g. another browser tab.
+ * It is called with a callback and returns a function that stops watching.
+ */
+export type StorageWatcher = (
+  onChange: (key: string, oldValue: string | null, newValue: string | null) => void,
+) => Unsubscribe;
+
+/**
+ * Runs a task while holding an exclusive lock on the store, so that it cannot overlap with a task
+ * run under the same lock by someone else, such as another browser tab sharing the same storage.
+ * The task reads, checks and writes the store in one synchronous step; the returned promise
+ * resolves with its result once the lock has been acquired and the task has run.
+ */
+export type StorageLock = <T>(task: () => T) => Promise<T>;
+
+/**
+ * @interface PollRepository
+ * The contract every poll backend must fulfil.
+ * Implementations are responsible for persistence and for enforcing the voting rules,
+ * so that components never need to know where the data actually lives.
+ * Polls hidden by a moderator are left out for everyone except their creator and moderators,
+ * which is why reads take the ID of the user asking. The same ID decides whether a poll's results are
+ * included or withheld, as its creator chose (see `presentPoll`), in reads, votes and live events alike,
+ * and whether an unlisted or invite-only poll is listed or may be opened at all (see `canAccessPoll`).
+ */
+export interface PollRepository {
+  getPolls(query?: PollQuery, userId?: string): Promise<PollList>;
+  getPoll(pollId: string, userId?: string): Promise<Poll>;
+  getTags(): Promise<TagCount[]>;
+  /** A second request with the same `requestId` from the same user returns the poll the first one created. */
+  createPoll(question: string, options: string[], userId: string, settings?: PollSettings, requestId?: string): Promise<Poll>;
+  castVote(pollId: string, optionIds: string[], userId: string): Promise<Poll>;
+  changeVote(pollId: string, optionIds: string[], userId: string): Promise<Poll>;
+  retractVote(pollId: string, userId: string): Promise<Poll>;
+  closePoll(pollId: string, userId: string): Promise<Poll>;
+  updatePoll(
+    pollId: string,
+    question: string,
+    options: string[],
+    userId: string,
+    settings: PollSettings,
+    resetVotes?: boolean,
+  ): Promise<Poll>;
+  deletePoll(pollId: string, userId: string): Promise<void>;
+  importPolls(polls: Partial<Poll>[], userId: string, onConflict?: ImportConflictStrategy): Promise<ImportResult>;
+  joinPoll(code: string, userId: string): Promise<Poll>;
+  regenerateAccessCode(pollId: string, userId: string): Promise<Poll>;
+  /** Live events only carry polls listed for the user; any other poll that changes arrives as a `delete`. */
+  subscribe(listener: PollListener, userId?: string): Unsubscribe;
+}
+
+/**
+ * @interface CommentRepository
+ * The contract every backend must fulfil for poll discussions.
+ * Every change to a discussion also saves the poll (its `commentCount`, `commentsLocked` and
+ * `revision`), so poll subscribers learn that the discussion changed without a separate channel.
+ */
+export interface CommentRepository {
+  getComments(pollId: string, userId?: string): Promise<Comment[]>;
+  addComment(pollId: string, body: string, userId: string, parentId?: string | null): Promise<Comment>;
+  editComment(commentId: string, body: string, userId: string): Promise<Comment>;
+  deleteComment(commentId: string, userId: string): Promise<void>;
+  setCommentsLocked(pollId: string, locked: boolean, userId: string): Promise<Poll>;
+}
+
+/**
+ * @interface ModerationRepository
+ * The contract every backend must fulfil for reports and moderation.
+ * Each method takes the ID of the user acting and checks their role itself; every moderator action
+ * is written to the audit log. Deleting any poll goes through `PollRepository.deletePoll`, which
+ * moderators may also use on polls they did not create.
+ */
+export interface ModerationRepository {
+  reportPoll(pollId: string, reason: ReportReason, details: string, userId: string): Promise<Report>;
+  getReports(userId: string): Promise<Report[]>;
+  dismissReport(reportId: string, userId: string): Promise<Report>;
+  setPollHidden(pollId: string, hidden: boolean, userId: string): Promise<Poll>;
+  getUsers(userId: string): Promise<User[]>;
+  setUserSuspended(targetUserId: string, suspended: boolean, userId: string): Promise<User>;
+  setUserRole(targetUserId: string, role: UserRole, userId: string): Promise<User>;
+  getAuditLog(userId: string): Promise<AuditEntry[]>;
+}
+
+/**
+ * @interface AuthRepository
+ * The contract every authentication backend must fulfil.
+ * `getCurrentUser` is synchronous because the app reads the session once on startup,
+ * before anything is rendered.
+ */
+export interface AuthRepository {
+  register(username: string, password: string): Promise<User>;
+  signIn(username: string, password: string): Promise<User>;
+  signOut(): Promise<void>;
+  getCurrentUser(): User | null;
+}
+
+/**
+ * The repositories that together make up a backend.
+ */
+export interface Repositories {
+  polls: PollRepository;
+  comments: CommentRepository;
+  moderation: ModerationRepository;
+  auth: AuthRepository;
+}
@@ -0,0 +1,178 @@
+
+import type { User, UserRole } from '../../types';
+import type { KeyValueStorage } from './types';
+import { hashPassword, verifyPassword, type PasswordHash } from '../passwords';
+import { PollyError, ValidationError } from '../errors';
+
+export const USERS_KEY = 'polly_users';
+
+/**
+ * A registered account as persisted in the user registry.
+ * The password itself is never stored, only its salted hash.
+ * Accounts registered before roles existed have no `role` or `suspended`; they are ordinary, active users.
+ */
+interface StoredUser extends Omit<User, 'role' | 'suspended'> {
+  role?: UserRole;
+  suspended?: boolean;
+  password: PasswordHash;
+}
+
+const ROLES: UserRole[] = ['user', 'moderator', 'admin'];
+
+/**
+ * Reads a role from stored data, falling back to an ordinary user for anything unknown.
+ * @param {unknown} role - The stored role.
+ * @returns {UserRole} The role.
+ */
+const toRole = (role: unknown): UserRole => (ROLES.includes(role as UserRole) ? role as UserRole : 'user');
+
+/**
+ * Validates a username against the rules shared by every backend.
+ * @param {string} username - The username to validate.
+ * @throws {ValidationError} Throws an error on the `username` field if the username is invalid.
+ */
+export const assertValidUsername = (username: string): void => {
+  if (!username || username.trim().length < 3) {
+    throw new ValidationError({ username: { code: 'usernameTooShort', params: { min: 3 } } });
+  }
+};
+
+/**
+ * Validates a new password against the rules shared by every backend.
+ * @param {string} password - The password to validate.
+ * @throws {ValidationError} Throws an error on the `password` field if the password is too weak.
+ */
+export const assertValidPassword = (password: string): void => {
+  if (!password || password.length < 8) {
+    throw new ValidationError({ password: { code: 'passwordTooShort', params: { min: 8 } } });
+  }
+};
+
+/**
+ * Reads a signed-in user saved with `JSON.stringify`, checking that it really is one.
+ * @param {string | null} json - The saved value.
+ * @returns {User | null} The user, or null if nothing usable was saved.
+ */
+export const parseStoredUser = (json: string | null): User | null => {
+  if (!json) return null;
+  try {
+    const user = JSON.parse(json);
+    return typeof user?.id === 'string' && typeof user?.username === 'string'
+      ? { id: user.id, username: user.username, role: toRole(user.role), suspended: user.suspended === true }
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Creates the persisted registry of user accounts.
+ * Both the storage-backed auth repository and the REST server use it, so registration
+ * and login follow the same rules and produce the same errors everywhere.
+ * Usernames are unique regardless of case: "Alice" and "alice" are the same account.
+ * The first account registered becomes an admin, so a new installation can be moderated from the start.
+ * @param {KeyValueStorage} storage - The store that holds the registry.
+ */
+export const createUserDirectory = (storage: KeyValueStorage) => {
+  const readUsers = (): StoredUser[] => {
+    const usersJson = storage.getItem(USERS_KEY);
+    return usersJson ? JSON.parse(usersJson) : [];
+  };
+
+  const findByUsername = (username: string, users: StoredUser[] = readUsers()): StoredUser | undefined => {
+    const normalized = username.trim().toLowerCase();
+    return users.find(u => u.username.toLowerCase() === normalized);
+  };
+
+  // Strips the password hash so it never leaves the directory.
+  const toUser = ({ id, username, role, suspended }: StoredUser): User =>
+    ({ id, username, role: toRole(role), suspended: suspended === true });
+
+  return {
+    /**
+     * Registers a new account.
+     * @param {string} username - The desired username.
+     * @param {string} password - The plain-text password.
+     * @returns {Promise<User>} The new user.
+     * @throws {ValidationError} Throws an error if the input is invalid or the username is taken.
+     */
+    register: async (username: string, password: string): Promise<User> => {
+      assertValidUsername(username);
+      assertValidPassword(password);
+      if (findByUsername(username)) {
+        throw new ValidationError({ username: { code: 'usernameTaken' } });
+      }
+
+      const passwordHash = await hashPassword(password);
+      // Re-read after hashing, which is slow, so a concurrent registration is not overwritten,
+      // and check the username again, since it may have been taken in the meantime.
+      const existing = readUsers();
+      if (findByUsername(username, existing)) {
+        throw new ValidationError({ username: { code: 'usernameTaken' } });
+      }
+      const storedUser: StoredUser = {
+        // Like poll IDs, with a random part, so two accounts registered at once still differ.
+        id: `user-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        username: username.trim(),
+        role: existing.length === 0 ? 'admin' : 'user',
+        suspended: false,
+        password: passwordHash,
+      };
+      storage.setItem(USERS_KEY, JSON.stringify([...existing, storedUser]));
+      return toUser(storedUser);
+    },
+
+    /**
+     * Looks up an account by its ID.
+     * @param {string} userId - The user's ID.
+     * @returns {User | null} The user, or null if there is no such account (e.g. a demo author).
+     */
+    findUser: (userId: string): User | null => {
+      const storedUser = readUsers().find(u => u.id === userId);
+      return storedUser ? toUser(storedUser) : null;
+    },
+
+    /**
+     * Lists every account, in the order they registered.
+     * @returns {User[]} The users.
+     */
+    listUsers: (): User[] => readUsers().map(toUser),
+
+    /**
+     * Changes an account's role or suspension. Permission checks are up to the caller.
+     * @param {string} userId - The user's ID.
+     * @param {Partial<Pick<User, 'role' | 'suspended'>>} changes - The new role and/or suspension.
+     * @returns {User} The updated user.
+     * @throws {PollyError} Throws an error if there is no such account.
+     */
+    updateUser: (userId: string, changes: Partial<Pick<User, 'role' | 'suspended'>>): User => {
+      const allUsers = readUsers();
+      const index = allUsers.findIndex(u => u.id === userId);
+      if (index === -1) {
+        throw new PollyError('userNotFound');
+      }
+      allUsers[index] = { ...allUsers[index], ...changes };
+      storage.setItem(USERS_KEY, JSON.stringify(allUsers));
+      return toUser(allUsers[index]);
+    },
+
+    /**
+     * Checks a username and password.
+     * @param {string} username - The username.
+     * @param {string} password - The plain-text password.
+     * @returns {Promise<User>} The matching user.
+     * @throws {ValidationError} Throws an error if there is no such account or the password is wrong.
+     */
+    authenticate: async (username: string, password: string): Promise<User> => {
+      assertValidUsername(username);
+      const storedUser = findByUsername(username);
+      if (!storedUser) {
+        throw new ValidationError({ username: { code: 'unknownUsername' } });
+      }
+      if (!(await verifyPassword(password, storedUser.password))) {
+        throw new ValidationError({ password: { code: 'incorrectPassword' } });
+      }
+      return toUser(storedUser);
+    },
+  };
+};
@@ -0,0 +1,54 @@
+
+import type { Poll, ResultsVisibility } from '../types';
+import { getPollStatus } from './pollLifecycle';
+
+/** Every results visibility a poll can have, in the order the poll form offers them. */
+export const RESULTS_VISIBILITIES: ResultsVisibility[] = ['afterVoting', 'always', 'afterClose', 'creatorOnly'];
+
+/**
+ * Decides whether someone may see a poll's results, following the creator's choice.
+ * The creator can always see them.
+ * @param {Poll} poll - The poll.
+ * @param {string} [viewerId] - The user asking; omitted when signed out.
+ * @param {number} [now=Date.now()] - The current time, for polls that close on a schedule.
+ * @returns {boolean} True if the results may be shown to the viewer.
+ */
+export const canSeeResults = (poll: Poll, viewerId?: string, now: number = Date.now()): boolean => {
+  if (viewerId && poll.createdBy === viewerId) return true;
+  const isClosed = getPollStatus(poll, now) === 'closed';
+  switch (poll.resultsVisibility) {
+    case 'always':
+      return true;
+    case 'afterClose':
+      return isClosed;
+    case 'creatorOnly':
+      return false;
+    case 'afterVoting':
+    default:
+      return isClosed || Boolean(viewerId && poll.ballots.some(b => b.userId === viewerId));
+  }
+};
+
+/**
+ * Prepares a poll to be sent to someone. If they may not see its results yet, the tallies are
+ * zeroed and every ballot but their own is left out, so the results cannot be read from the
+ * response, the live events or a backup; only the number of voters remains.
+ *
+ * Why in the backends rather than the interface?
+ * Hiding the results in `PollCard` alone would still send them to every browser, where anyone
+ * could read them from the network panel, which is exactly what a creator choosing `afterClose`
+ * wants to prevent.
+ * @param {Poll} poll - The poll as stored.
+ * @param {string} [viewerId] - The user it is sent to; omitted when signed out.
+ * @param {number} [now=Date.now()] - The current time, for polls that close on a schedule.
+ * @returns {Poll} The poll as the viewer may see it; marked `resultsHidden` if anything was withheld.
+ */
+export const presentPoll = (poll: Poll, viewerId?: string, now: number = Date.now()): Poll => {
+  if (canSeeResults(poll, viewerId, now)) return poll;
+  return {
+    ...poll,
+    options: poll.options.map(option => ({ ...option, votes: 0 })),
+    ballots: poll.ballots.filter(b => b.userId === viewerId),
+    resultsHidden: true,
+  };
+};
@@ -0,0 +1,99 @@
+
+import { AppView, type Route } from '../types';
+
+/**
+ * The pages of the app and the path pattern each one answers to.
+ * Named groups in a pattern become the route's `params`.
+ */
+const ROUTE_TABLE: { view: AppView; pattern: RegExp }[] = [
+  { view: AppView.Dashboard, pattern: /^\/$/ },
+  { view: AppView.Login, pattern: /^\/login$/ },
+  { view: AppView.About, pattern: /^\/about$/ },
+  { view: AppView.Poll, pattern: /^\/polls\/(?<pollId>[^/]+)$/ },
+  { view: AppView.User, pattern: /^\/users\/(?<userId>[^/]+)$/ },
+  { view: AppView.Tags, pattern: /^\/tags(?:\/(?<tags>[^/]+))?$/ },
+  { view: AppView.Moderation, pattern: /^\/moderation$/ },
+  { view: AppView.Join, pattern: /^\/join(?:\/(?<code>[^/]+))?$/ },
+];
+
+/**
+ * Builds the in-app path of every page, so links never assemble URLs by hand.
+ */
+export const paths = {
+  dashboard: () => '/',
+  /**
+   * @param {string} [redirectTo] - The page to return to once the user has signed in.
+   */
+  login: (redirectTo?: string) =>
+    redirectTo && redirectTo !== '/' && !redirectTo.startsWith('/login')
+      ? `/login?redirect=${encodeURIComponent(redirectTo)}`
+      : '/login',
+  about: () => '/about',
+  poll: (pollId: string) => `/polls/${encodeURIComponent(pollId)}`,
+  user: (userId: string) => `/users/${encodeURIComponent(userId)}`,
+  /**
+   * @param {string[]} [tags] - The tags to show polls for; several tags are joined with `+`.
+   */
+  tags: (tags: string[] = []) => (tags.length ? `/tags/${tags.map(encodeURIComponent).join('+')}` : '/tags'),
+  moderation: () => '/moderation',
+  /**
+   * @param {string} [code] - An invite code; the page joins the poll with it straight away.
+   */
+  join: (code?: string) => (code ? `/join/${encodeURIComponent(code)}` : '/join'),
+};
+
+/**
+ * Matches an in-app path against the route table.
+ * @param {string} path - The path to parse, optionally with a query string, e.g. `/login?redirect=%2Fabout`.
+ * @returns {Route} The matching route, or a `NotFound` route if nothing matches or the path cannot be decoded.
+ */
+export const parseRoute = (path: string): Route => {
+  const [pathname, search = ''] = path.split('?');
+  // Tolerate a trailing slash so `/about/` and `/about` are the same page.
+  const normalized = pathname.length > 1 ? pathname.replace(/\/+$/, '') : pathname;
+  const query = Object.fromEntries(new URLSearchParams(search));
+
+  for (const { view, pattern } of ROUTE_TABLE) {
+    const match = pattern.exec(normalized);
+    if (match) {
+      try {
+        const params = Object.fromEntries(
+          Object.entries(match.groups ?? {})
+            // Optional groups that did not match are left out.
+            .filter(([, value]) => value !== undefined)
+            .map(([key, value]) => [key, decodeURIComponent(value)]),
+        );
+        return { view, path, params, query };
+      } catch (err: any) {
+        // A mangled link, e.g. `/polls/%E0%A4%A`, cannot be decoded, so it leads nowhere.
+        if (err instanceof URIError) break;
+        throw err;
+      }
+    }
+  }
+  return { view: AppView.NotFound, path, params: {}, query };
+};
+
+/**
+ * Turns an in-app path into an `href`.
+ * Why hash-based? The app is served as static files, and a hash route always loads
+ * `index.html`, so deep links work on any host without server-side rewrite rules.
+ * @param {string} path - The in-app path, e.g. `/polls/poll-1`.
+ * @returns {string} The href, e.g. `#/polls/poll-1`.
+ */
+export const toHref = (path: string): string => `#${path}`;
+
+/**
+ * Reads the in-app path from the current URL.
+ * @returns {string} The path after the `#`, or `/` when there is none.
+ */
+export const getCurrentPath = (): string => window.location.hash.replace(/^#/, '') || '/';
+
+/**
+ * Makes sure a redirect target is an in-app path, so a crafted `?redirect=` link
+ * cannot send the user to another site after they sign in.
+ * @param {string | undefined} target - The requested redirect.
+ * @returns {string} The target if it is safe, otherwise the dashboard.
+ */
+export const safeRedirect = (target: string | undefined): string =>
+  target && target.startsWith('/') && !target.startsWith('//') ? target : paths.dashboard();
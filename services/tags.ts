@@ -0,0 +1,73 @@
+
+import type { Poll, TagCount } from '../types';
+import { ValidationError } from './errors';
+
+/** The most tags a single poll can have. */
+export const MAX_TAGS_PER_POLL = 5;
+
+/** The longest a tag can be, in characters. */
+export const MAX_TAG_LENGTH = 30;
+
+/**
+ * Brings a tag into its canonical form, so that "Team Retro", "team-retro" and " team retro "
+ * are the same tag: lower case, words joined with hyphens, and only letters, digits and hyphens.
+ * @param {string} tag - The tag as typed.
+ * @returns {string} The canonical tag; empty if nothing usable was typed.
+ */
+export const normalizeTag = (tag: string): string =>
+  tag
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, '-')
+    .replace(/[^\p{L}\p{N}-]/gu, '')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '');
+
+/**
+ * Normalizes the tags chosen for a poll, dropping empty tags and duplicates.
+ * @param {string[]} tags - The tags as typed.
+ * @returns {string[]} The tags to store, in the order they were given.
+ * @throws {ValidationError} Throws an error on the `tags` field if a tag is too long or there are too many tags.
+ */
+export const normalizeTags = (tags: string[]): string[] => {
+  const normalized = [...new Set(tags.map(normalizeTag).filter(Boolean))];
+  if (normalized.some(tag => tag.length > MAX_TAG_LENGTH)) {
+    throw new ValidationError({ tags: { code: 'tagTooLong', params: { max: MAX_TAG_LENGTH } } });
+  }
+  if (normalized.length > MAX_TAGS_PER_POLL) {
+    throw new ValidationError({ tags: { code: 'tooManyTags', params: { max: MAX_TAGS_PER_POLL } } });
+  }
+  return normalized;
+};
+
+/**
+ * Counts how many polls are filed under each tag.
+ * @param {Poll[]} polls - The polls to count.
+ * @returns {TagCount[]} Every tag in use, the most used first, then alphabetically.
+ */
+export const countTags = (polls: Poll[]): TagCount[] => {
+  const counts = new Map<string, number>();
+  polls.forEach(poll => poll.tags.forEach(tag => counts.set(tag, (counts.get(tag) ?? 0) + 1)));
+  return [...counts]
+    .map(([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+};
+
+/**
+ * Suggests existing tags for what the user is typing: tags starting with the text come first,
+ * then tags containing it, each group in order of popularity.
+ * @param {TagCount[]} tagCounts - The tags in use, as returned by `countTags`.
+ * @param {string} text - What the user has typed so far.
+ * @param {string[]} exclude - Tags already chosen, which are not suggested again.
+ * @param {number} [limit=8] - The most suggestions to return.
+ * @returns {TagCount[]} The suggestions.
+ */
+export const suggestTags = (tagCounts: TagCount[], text: string, exclude: string[], limit = 8): TagCount[] => {
+  const typed = normalizeTag(text);
+  if (!typed) return [];
+  const candidates = tagCounts.filter(({ tag }) => !exclude.includes(tag) && tag.includes(typed));
+  return [
+    ...candidates.filter(({ tag }) => tag.startsWith(typed)),
+    ...candidates.filter(({ tag }) => !tag.startsWith(typed)),
+  ].slice(0, limit);
+};
@@ -0,0 +1,139 @@
+
+import type { Poll, Ballot, VoteEvent } from '../types';
+
+/**
+ * One round of an instant-runoff count.
+ */
+export interface RunoffRound {
+  /** Votes held by each remaining option this round, keyed by optionId. */
+  counts: Record<string, number>;
+  /** Options eliminated at the end of this round. */
+  eliminated: string[];
+  /** Ballots that no longer rank any remaining option. */
+  exhausted: number;
+}
+
+/**
+ * The outcome of an instant-runoff count.
+ */
+export interface RunoffResult {
+  rounds: RunoffRound[];
+  /** The winning optionIds: one normally, several if the final round is a tie, none without ballots. */
+  winners: string[];
+}
+
+/**
+ * Tallies ranked ballots with instant-runoff voting.
+ *
+ * How it works: every ballot counts for its most preferred option that is still in the race.
+ * If an option holds a majority of the ballots still in play, it wins. Otherwise the option(s)
+ * with the fewest votes are eliminated and their ballots transfer to the next preference.
+ * If every remaining option is tied, they all share the win rather than being eliminated together.
+ * @param {string[]} optionIds - The options in the race.
+ * @param {string[][]} rankings - Each ballot's optionIds, most preferred first.
+ * @returns {RunoffResult} Every round of the count and the winner(s).
+ */
+export const runInstantRunoff = (optionIds: string[], rankings: string[][]): RunoffResult => {
+  const rounds: RunoffRound[] = [];
+  let remaining = [...optionIds];
+
+  if (rankings.length === 0) {
+    return { rounds, winners: [] };
+  }
+
+  while (remaining.length > 0) {
+    const counts: Record<string, number> = Object.fromEntries(remaining.map(id => [id, 0]));
+    let exhausted = 0;
+
+    for (const ballot of rankings) {
+      const choice = ballot.find(id => id in counts);
+      if (choice) {
+        counts[choice] += 1;
+      } else {
+        exhausted += 1;
+      }
+    }
+
+    const active = rankings.length - exhausted;
+    const leader = remaining.find(id => counts[id] * 2 > active);
+    const fewest = Math.min(...remaining.map(id => counts[id]));
+    const trailing = remaining.filter(id => counts[id] === fewest);
+
+    if (leader || trailing.length === remaining.length) {
+      rounds.push({ counts, eliminated: [], exhausted });
+      return { rounds, winners: leader ? [leader] : remaining };
+    }
+
+    rounds.push({ counts, eliminated: trailing, exhausted });
+    remaining = remaining.filter(id => !trailing.includes(id));
+  }
+
+  return { rounds, winners: [] };
+};
+
+/**
+ * Recomputes a poll's tallies from its ballots.
+ * Every ballot counts once for each option it selects, except on ranked polls,
+ * where only the first preference is counted here and the rest is left to the runoff.
+ * @param {Poll} poll - The poll to recount.
+ * @returns {Poll} A copy of the poll with `options[].votes` and `votedBy` brought up to date.
+ */
+export const recountVotes = (poll: Poll): Poll => {
+  const counted = poll.ballots.map(b => (poll.type === 'ranked' ? b.optionIds.slice(0, 1) : b.optionIds));
+  return {
+    ...poll,
+    options: poll.options.map(option => ({
+      ...option,
+      votes: counted.filter(optionIds => optionIds.includes(option.id)).length,
+    })),
+    votedBy: poll.ballots.map(b => b.userId),
+  };
+};
+
+/**
+ * Finds the ballot a user cast on a poll.
+ * @param {Poll} poll - The poll to look in.
+ * @param {string} userId - The voter.
+ * @returns {Ballot | undefined} The user's ballot, if they have voted.
+ */
+export const findBallot = (poll: Poll, userId: string): Ballot | undefined =>
+  poll.ballots.find(b => b.userId === userId);
+
+/**
+ * Finds the ballots counted for an option, oldest first: those that pick it, or on ranked polls,
+ * those that rank it first, the same ballots its `votes` counts. Used to list who voted for what
+ * on attributed polls.
+ * @param {Poll} poll - The poll to look in.
+ * @param {string} optionId - The option.
+ * @returns {Ballot[]} The ballots counted for the option.
+ */
+export const getOptionBallots = (poll: Poll, optionId: string): Ballot[] =>
+  poll.ballots
+    .filter(b => (poll.type === 'ranked' ? b.optionIds[0] === optionId : b.optionIds.includes(optionId)))
+    .sort((a, b) => a.castAt.localeCompare(b.castAt));
+
+/**
+ * Builds a vote log for polls that predate it: one `cast` event per ballot, at the time it was cast.
+ * Changes and retractions that happened before the log existed cannot be recovered.
+ * @param {Ballot[]} ballots - The poll's ballots.
+ * @returns {VoteEvent[]} The reconstructed events, oldest first.
+ */
+export const eventsFromBallots = (ballots: Ballot[]): VoteEvent[] =>
+  ballots
+    .map(b => ({ type: 'cast' as const, at: b.castAt }))
+    .sort((a, b) => a.at.localeCompare(b.at));
+
+/**
+ * Calculates the share of the vote each option received, as a percentage.
+ * For multiple-choice polls a voter may pick several options, so shares are relative to
+ * the number of voters rather than the number of selections, and need not add up to 100%.
+ * @param {Poll} poll - The poll to calculate shares for.
+ * @param {number} votes - The votes received by one option.
+ * @returns {number} The option's share, from 0 to 100.
+ */
+export const getVoteShare = (poll: Poll, votes: number): number => {
+  const base = poll.type === 'multiple'
+    ? poll.votedBy.length
+    : poll.options.reduce((sum, option) => sum + option.votes, 0);
+  return base > 0 ? (votes / base) * 100 : 0;
+};
@@ -1,10 +1,20 @@
 
+/**
+ * What a user is allowed to do.
+ * - `user`: create polls, vote, comment and report polls.
+ * - `moderator`: also review reports, hide or delete any poll, and suspend users.
+ * - `admin`: also change roles, suspend moderators and read the audit log.
+ */
+export type UserRole = 'user' | 'moderator' | 'admin';
+
 /**
  * Represents a user in the system.
  */
 export interface User {
   id: string;
   username: string;
+  role: UserRole;
+  suspended: boolean; // a suspended user can still sign in and read, but cannot create polls, vote, comment or report
 }
 
 /**
@@ -16,15 +26,259 @@ export interface PollOption {
   votes: number;
 }
 
+/**
+ * One voter's ballot on a poll. Tallies are always derived from the ballots.
+ */
+export interface Ballot {
+  userId: string; // the voter; on an anonymous poll, a salted hash of their user ID (see `voterKey`)
+  optionIds: string[]; // the chosen options; in order of preference for ranked polls
+  castAt: string; // ISO timestamp of when the ballot was cast or last changed
+  voterName?: string | null; // attributed polls only: the voter's username when they voted, if it is known
+}
+
+/**
+ * A timestamped change to the ballots of a poll, kept so turnout can be charted over time.
+ * Only the kind of change is recorded, never the voter or their choices.
+ * - `cast`: a new ballot was added.
+ * - `change`: an existing ballot was replaced.
+ * - `retract`: a ballot was withdrawn.
+ */
+export interface VoteEvent {
+  type: 'cast' | 'change' | 'retract';
+  at: string; // ISO timestamp
+}
+
+/**
+ * The ways a poll can be voted on.
+ * - `single`: pick exactly one option.
+ * - `multiple`: pick between `minSelections` and `maxSelections` options (approval voting).
+ * - `ranked`: order options by preference; tallied with instant-runoff.
+ */
+export type PollType = 'single' | 'multiple' | 'ranked';
+
+/**
+ * Where a poll is in its lifecycle.
+ * - `draft`: scheduled, but `opensAt` has not been reached yet.
+ * - `open`: accepting votes.
+ * - `closed`: past `closesAt`, or closed early by its creator. Results are final.
+ */
+export type PollStatus = 'draft' | 'open' | 'closed';
+
+/**
+ * Who can see a poll's results (its tallies and other people's ballots).
+ * - `always`: everyone, even before voting.
+ * - `afterVoting`: voters, and everyone once the poll has closed.
+ * - `afterClose`: everyone, but only once the poll has closed, so early results cannot sway anyone.
+ * - `creatorOnly`: only the poll's creator.
+ * The creator can always see the results of their own poll.
+ */
+export type ResultsVisibility = 'always' | 'afterVoting' | 'afterClose' | 'creatorOnly';
+
+/**
+ * Who can find and open a poll.
+ * - `public`: listed on the dashboard for everyone.
+ * - `unlisted`: not listed, except for its creator; anyone with the link can open it and vote.
+ * - `inviteOnly`: only its creator and the users on its allowlist can open it, vote or comment.
+ *   Users join the allowlist with the poll's invite code, either typed in or through an invite link.
+ */
+export type PollVisibility = 'public' | 'unlisted' | 'inviteOnly';
+
+/**
+ * Settings chosen by the creator when a poll is created.
+ * Anything omitted falls back to a single-choice poll.
+ */
+export interface PollSettings {
+  type: PollType;
+  minSelections?: number; // multiple only
+  maxSelections?: number; // multiple only
+  opensAt?: string | null; // ISO timestamp; null opens immediately
+  closesAt?: string | null; // ISO timestamp; null never closes on its own
+  allowVoteChange?: boolean; // whether voters may change or retract their ballot; defaults to true
+  tags?: string[]; // topics the poll is filed under, e.g. `lunch` or `retro` (see `normalizeTags`)
+  resultsVisibility?: ResultsVisibility; // defaults to `afterVoting`
+  visibility?: PollVisibility; // defaults to `public`
+  allowedUserIds?: string[]; // inviteOnly: who may open the poll besides its creator; left unchanged when omitted from an edit
+  anonymous?: boolean; // whether ballots are kept apart from who cast them; defaults to true, and cannot be changed once the poll exists
+}
+
 /**
  * Represents a poll, including its question, options, creator, and voting records.
+ * `ballots` is the source of truth; `PollOption.votes` and `votedBy` are derived from it (see `recountVotes`).
+ * For `single` and `multiple` polls, `PollOption.votes` is the number of voters who picked the option.
+ * For `ranked` polls, it is the number of first preferences.
  */
-export interface Poll {
+export interface Poll extends PollSettings {
   id: string;
   question: string;
   options: PollOption[];
+  tags: string[]; // normalized and unique; may be empty
+  resultsVisibility: ResultsVisibility;
+  visibility: PollVisibility;
+  accessCode: string | null; // inviteOnly: the code that adds a user to `allowedUserIds`; only sent to the creator
+  allowedUserIds: string[]; // only sent to the creator
+  anonymous: boolean; // true: ballots are filed under salted hashes; false (attributed): everyone who can see the results sees who voted for what
+  voterSalt: string | null; // anonymous only: the salt of the ballot hashes; never sent by the backends
+  requestId: string | null; // the key the creator's device sent with the poll, so sending it twice creates it once; null if none was sent
   createdBy: string; // userId
-  votedBy: string[]; // array of userIds who have voted
+  votedBy: string[]; // the `userId` of every ballot (hashes on anonymous polls), derived from `ballots`
+  ballots: Ballot[];
+  voteEvents: VoteEvent[]; // append-only log of ballot changes, oldest first; cleared when votes are reset
+  status: PollStatus; // the stored status; use `getPollStatus` to account for the schedule
+  revision: number; // starts at 1 and goes up by one every time the poll or its discussion is saved
+  commentCount: number; // comments in the discussion that have not been deleted, derived from the comments
+  commentsLocked: boolean; // when true, the creator has closed the discussion to new comments and edits
+  hidden: boolean; // when true, a moderator has hidden the poll; only its creator and moderators can see it
+  resultsHidden?: boolean; // set on a poll sent to someone who may not see its results yet; its tallies are zero and only their own ballot is included (see `presentPoll`)
+}
+
+/**
+ * A comment in a poll's discussion. Replies point at the comment they answer through `parentId`,
+ * which forms a tree of threads (see `buildCommentThreads`).
+ * A deleted comment that has replies is kept as a placeholder with an empty `body`,
+ * so the replies under it still make sense.
+ */
+export interface Comment {
+  id: string;
+  pollId: string;
+  parentId: string | null; // the comment this replies to; null for a top-level comment
+  authorId: string; // userId
+  authorName: string | null; // the author's username when they wrote it, if it is known
+  body: string;
+  createdAt: string; // ISO timestamp
+  editedAt: string | null; // ISO timestamp of the last edit; null if never edited
+  deleted: boolean;
+}
+
+/**
+ * Why a poll was reported.
+ */
+export type ReportReason = 'spam' | 'offensive' | 'misleading' | 'other';
+
+/**
+ * A user's report that a poll breaks the rules, waiting for (or reviewed by) a moderator.
+ * - `open`: not reviewed yet.
+ * - `dismissed`: a moderator decided the poll is fine.
+ * - `actioned`: the poll was hidden or deleted.
+ */
+export interface Report {
+  id: string;
+  pollId: string;
+  pollQuestion: string; // the question when the poll was reported, so the report still makes sense once it is deleted
+  reporterId: string; // userId
+  reason: ReportReason;
+  details: string; // optional explanation from the reporter; may be empty
+  createdAt: string; // ISO timestamp
+  status: 'open' | 'dismissed' | 'actioned';
+  resolvedBy: string | null; // userId of the moderator who reviewed it
+  resolvedAt: string | null; // ISO timestamp
+}
+
+/**
+ * The moderator actions recorded in the audit log.
+ */
+export type AuditAction =
+  | 'hide-poll'
+  | 'unhide-poll'
+  | 'delete-poll'
+  | 'dismiss-report'
+  | 'suspend-user'
+  | 'unsuspend-user'
+  | 'change-role';
+
+/**
+ * One entry in the audit log, which records every moderator action. Entries are never changed or removed.
+ */
+export interface AuditEntry {
+  id: string;
+  at: string; // ISO timestamp
+  actorId: string; // userId of the moderator or admin
+  actorName: string | null; // their username at the time, if it is known
+  action: AuditAction;
+  targetId: string; // the poll, report or user acted on
+  details: string; // what the target is called, e.g. the poll question or the username
+  roleChange?: { from: UserRole; to: UserRole }; // for `change-role`; translated where it is shown
+}
+
+/**
+ * The orders in which a list of polls can be sorted.
+ * - `newest`: most recently created first.
+ * - `mostVotes`: most voters first.
+ * - `closingSoon`: open polls with the nearest deadline first, then open polls without one,
+ *   then upcoming polls, then closed polls.
+ */
+export type PollSort = 'newest' | 'mostVotes' | 'closingSoon';
+
+/**
+ * Narrows down, orders and pages a list of polls. Every field is optional.
+ */
+export interface PollQuery {
+  search?: string; // case-insensitive text to find in the question or an option
+  createdBy?: string; // userId
+  votedByMe?: boolean; // true: only polls the user voted on; false: only polls they have not voted on yet
+  status?: PollStatus;
+  tags?: string[]; // only polls that have every one of these tags
+  sort?: PollSort; // defaults to `newest`
+  cursor?: string | null; // `nextCursor` from the previous page
+  limit?: number; // page size; omit to get every matching poll
+}
+
+/**
+ * One page of polls matching a `PollQuery`.
+ */
+export interface PollList {
+  polls: Poll[];
+  nextCursor: string | null; // pass as `cursor` to get the next page; null on the last page
+  total: number; // how many polls match the query across all pages
+}
+
+/**
+ * A tag and how many polls are filed under it.
+ */
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
+/**
+ * A change made while the server could not be reached, waiting in the outbox to be sent.
+ */
+export type OutboxOperation =
+  | { kind: 'castVote'; pollId: string; optionIds: string[] }
+  | { kind: 'createPoll'; question: string; options: string[]; settings?: PollSettings; requestId: string };
+
+/**
+ * An operation in the outbox. It stays `pending` until it has been sent; if the server then
+ * rejects it (e.g. because the poll closed in the meantime) it becomes `failed`, keeping the
+ * server's error so the user can be told what happened before dismissing it.
+ */
+export interface OutboxEntry {
+  id: string;
+  userId: string; // only replayed while this user is signed in
+  operation: OutboxOperation;
+  queuedAt: string; // ISO timestamp
+  status: 'pending' | 'failed';
+  error: { code?: string; params?: Record<string, string | number>; message: string } | null;
+}
+
+/**
+ * What has been typed into the poll form but not yet submitted, saved as the user types so a
+ * refresh or Cancel does not lose it. The schedule is kept as raw `datetime-local` values.
+ */
+export interface PollDraft {
+  question: string;
+  options: string[];
+  type: PollType;
+  minSelections: number;
+  maxSelections: number;
+  opensAt: string;
+  closesAt: string;
+  allowVoteChange: boolean;
+  resultsVisibility: ResultsVisibility;
+  visibility: PollVisibility;
+  allowedUserIds: string[];
+  anonymous: boolean;
+  tags: string[];
+  savedAt: string; // ISO timestamp
 }
 
 /**
@@ -34,4 +288,20 @@ export enum AppView {
   Dashboard = 'DASHBOARD',
   Login = 'LOGIN',
   About = 'ABOUT',
+  Poll = 'POLL',
+  User = 'USER',
+  Tags = 'TAGS',
+  Moderation = 'MODERATION',
+  Join = 'JOIN',
+  NotFound = 'NOT_FOUND',
+}
+
+/**
+ * The page the URL currently points at, as parsed by `parseRoute`.
+ */
+export interface Route {
+  view: AppView;
+  path: string; // the full in-app path, including any query string, e.g. `/polls/poll-1`
+  params: Record<string, string>; // path parameters, e.g. `{ pollId: 'poll-1' }`
+  query: Record<string, string>; // query string parameters, e.g. `{ redirect: '/about' }`
 }
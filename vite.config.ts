@@ -6,7 +6,9 @@ export default defineConfig(({ mode }) => {
     return {
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.POLLY_BACKEND': JSON.stringify(env.POLLY_BACKEND),
+        'process.env.POLLY_API_URL': JSON.stringify(env.POLLY_API_URL)
       },
       resolve: {
         alias: {